@@ -12,6 +12,7 @@ import { staffRoutes } from "./modules/staff-management";
 import { salesRoutes } from "./modules/sales-management";
 import { notificationRoutes } from "./modules/notification";
 import { analyticsRoutes } from "./modules/analytics";
+import { supplierRoutes, purchaseOrderRoutes, supplierInvoiceRoutes } from "./modules/suppliers";
 import inventoryMgtRouter from "./modules/inventory-mgt/routes/Inventory.route";
 import { userRouter } from "./modules/user";
 import { errorHandler, notFoundHandler } from "./shared/middleware/errorHandler";
@@ -64,6 +65,9 @@ app.use("/api/v1/sales", salesRoutes);
 app.use("/api/v1/notifications", notificationRoutes);
 app.use("/api/v1/user", userRouter);
 app.use("/api/v1/analytics", analyticsRoutes);
+app.use("/api/v1/suppliers", supplierRoutes);
+app.use("/api/v1/purchase-orders", purchaseOrderRoutes);
+app.use("/api/v1/supplier-invoices", supplierInvoiceRoutes);
 
 // 404 handler 
 app.use(notFoundHandler);
@@ -357,7 +357,9 @@ export const exportProfitSummaryCsv = asyncHandler(
       "End Date",
       "Revenue",
       "COGS",
+      "Promotion Cost",
       "Expenses",
+      "Bad Debt",
       "Profit",
     ];
     const rows = summary.map((row) => [
@@ -366,7 +368,9 @@ export const exportProfitSummaryCsv = asyncHandler(
       row.endDate,
       row.revenue,
       row.cogs,
+      row.promotionCost,
       row.expenses,
+      row.badDebt,
       row.profit,
     ]);
     const csvLines = [header, ...rows].map((row) => row.map(toCsvValue).join(","));
@@ -377,3 +381,236 @@ export const exportProfitSummaryCsv = asyncHandler(
     res.status(200).send(csvContent);
   }
 );
+
+export const getTaxReport = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation failed", errors.array());
+    }
+
+    if (!req.user) {
+      throw new AuthenticationError("User not authenticated");
+    }
+
+    const requestId = crypto.randomUUID();
+    const { shopId } = req.params;
+    const { startDate, endDate } = req.query;
+
+    const report = await analyticsService.getTaxReport(
+      shopId,
+      {
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      },
+      {
+        requestId,
+        ip: req.ip || "unknown",
+        userId: req.user.profileId,
+        userRole: req.user.role,
+        userShopId: req.user.shopId,
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Tax report retrieved successfully",
+      data: report,
+    });
+  }
+);
+
+export const exportTaxReportCsv = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation failed", errors.array());
+    }
+
+    if (!req.user) {
+      throw new AuthenticationError("User not authenticated");
+    }
+
+    const requestId = crypto.randomUUID();
+    const { shopId } = req.params;
+    const { startDate, endDate } = req.query;
+
+    const report = await analyticsService.getTaxReport(
+      shopId,
+      {
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      },
+      {
+        requestId,
+        ip: req.ip || "unknown",
+        userId: req.user.profileId,
+        userRole: req.user.role,
+        userShopId: req.user.shopId,
+      }
+    );
+
+    const header = ["Tax Rate (%)", "Taxable Sales", "Tax Collected", "Lines"];
+    const rows: Array<Array<string | number>> = report.rows.map((row) => [
+      row.taxRate,
+      row.taxableSales,
+      row.taxCollected,
+      row.lineCount,
+    ]);
+    rows.push([
+      "Total",
+      report.totals.taxableSales + report.totals.exemptSales,
+      report.totals.taxCollected,
+      "",
+    ]);
+    const csvLines = [header, ...rows].map((row) => row.map(toCsvValue).join(","));
+    const csvContent = csvLines.join("\n");
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="tax-report-${shopId}.csv"`);
+    res.status(200).send(csvContent);
+  }
+);
+
+export const getPromotionReport = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation failed", errors.array());
+    }
+
+    if (!req.user) {
+      throw new AuthenticationError("User not authenticated");
+    }
+
+    const requestId = crypto.randomUUID();
+    const { shopId } = req.params;
+    const { startDate, endDate } = req.query;
+
+    const report = await analyticsService.getPromotionReport(
+      shopId,
+      {
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      },
+      {
+        requestId,
+        ip: req.ip || "unknown",
+        userId: req.user.profileId,
+        userRole: req.user.role,
+        userShopId: req.user.shopId,
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Promotion report retrieved successfully",
+      data: report,
+    });
+  }
+);
+
+export const getStaffPerformance = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation failed", errors.array());
+    }
+
+    if (!req.user) {
+      throw new AuthenticationError("User not authenticated");
+    }
+
+    const requestId = crypto.randomUUID();
+    const { shopId } = req.params;
+    const { startDate, endDate } = req.query;
+
+    const report = await analyticsService.getStaffPerformance(
+      shopId,
+      {
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      },
+      {
+        requestId,
+        ip: req.ip || "unknown",
+        userId: req.user.profileId,
+        userRole: req.user.role,
+        userShopId: req.user.shopId,
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Staff performance retrieved successfully",
+      data: report,
+    });
+  }
+);
+
+export const exportStaffPerformanceCsv = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation failed", errors.array());
+    }
+
+    if (!req.user) {
+      throw new AuthenticationError("User not authenticated");
+    }
+
+    const requestId = crypto.randomUUID();
+    const { shopId } = req.params;
+    const { startDate, endDate } = req.query;
+
+    const report = await analyticsService.getStaffPerformance(
+      shopId,
+      {
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      },
+      {
+        requestId,
+        ip: req.ip || "unknown",
+        userId: req.user.profileId,
+        userRole: req.user.role,
+        userShopId: req.user.shopId,
+      }
+    );
+
+    const header = [
+      "Staff ID",
+      "Staff Name",
+      "Revenue",
+      "Profit",
+      "Tickets",
+      "Average Basket",
+      "Discount Given",
+      "Refunded Amount",
+      "Refunds",
+      "Refund Rate (%)",
+      "Credit Issued",
+      "Credit Collected",
+    ];
+    const rows = report.rows.map((row) => [
+      row.staffId,
+      row.staffName,
+      row.revenue,
+      row.profit,
+      row.ticketCount,
+      row.averageBasket,
+      row.discountGiven,
+      row.refundedAmount,
+      row.refundCount,
+      row.refundRate.toFixed(2),
+      row.creditIssued,
+      row.creditCollected,
+    ]);
+    const csvLines = [header, ...rows].map((row) => row.map(toCsvValue).join(","));
+    const csvContent = csvLines.join("\n");
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="staff-performance-${shopId}.csv"`);
+    res.status(200).send(csvContent);
+  }
+);
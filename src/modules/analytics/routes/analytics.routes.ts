@@ -79,4 +79,44 @@ router.get(
   analyticsController.exportProfitSummaryCsv
 );
 
+router.get(
+  "/:shopId/tax-report",
+  analyticsValidator.taxReportValidator,
+  verifyShopAccess,
+  requireRole("owner", "staff"),
+  analyticsController.getTaxReport
+);
+
+router.get(
+  "/:shopId/tax-report/export",
+  analyticsValidator.taxReportValidator,
+  verifyShopAccess,
+  requireRole("owner", "staff"),
+  analyticsController.exportTaxReportCsv
+);
+
+router.get(
+  "/:shopId/promotions",
+  analyticsValidator.promotionReportValidator,
+  verifyShopAccess,
+  requireRole("owner", "staff"),
+  analyticsController.getPromotionReport
+);
+
+router.get(
+  "/:shopId/staff-performance",
+  analyticsValidator.staffPerformanceValidator,
+  verifyShopAccess,
+  requireRole("owner", "staff"),
+  analyticsController.getStaffPerformance
+);
+
+router.get(
+  "/:shopId/staff-performance/export",
+  analyticsValidator.staffPerformanceValidator,
+  verifyShopAccess,
+  requireRole("owner", "staff"),
+  analyticsController.exportStaffPerformanceCsv
+);
+
 export default router;
@@ -13,6 +13,10 @@ import {
   LowStockAlert,
   ExpensesBreakdownSlice,
   ProfitSummaryRow,
+  TaxReport,
+  PromotionReport,
+  StaffPerformanceReport,
+  StaffPerformanceRow,
   BestSellersFilters,
   DateRangeFilters,
   ProfitPeriod,
@@ -86,7 +90,7 @@ export class AnalyticsService {
     const salesAnalytics = salesAnalyticsRaw as TicketAnalytics;
     const totalSales = salesAnalytics.totalRevenue || 0;
     const totalProfit = salesAnalytics.totalProfit || 0;
-    const totalCogs = totalSales - totalProfit;
+    const totalCogs = totalSales - (salesAnalytics.totalTax || 0) - totalProfit;
     const profit = totalProfit - expensesTotal;
     const lowStockAlertCount = lowStockItems.length + outOfStockItems.length;
     const overview: DashboardOverview = {
@@ -97,6 +101,8 @@ export class AnalyticsService {
       profit,
       lowStockAlertCount,
       totalTransactions: salesAnalytics.totalTickets || 0,
+      promotionCost: salesAnalytics.totalPromotionCost || 0,
+      salesByTender: salesAnalytics.salesByTender || [],
     };
 
     await AnalyticsSnapshotModel.findOneAndUpdate(
@@ -254,6 +260,152 @@ export class AnalyticsService {
     }));
   }
 
+  async getTaxReport(
+    shopId: string,
+    filters: DateRangeFilters,
+    context: AnalyticsContext
+  ): Promise<TaxReport> {
+    await this.validateShopAccess(shopId, context);
+
+    let start = filters.startDate;
+    let end = filters.endDate;
+
+    if (!start || !end) {
+      const now = new Date();
+      start = this.getStartOfDay(new Date(now.getFullYear(), now.getMonth(), 1));
+      end = this.getEndOfDay(new Date(now.getFullYear(), now.getMonth() + 1, 0));
+    }
+
+    const rows = await this.saleRepository.getTaxSummary(shopId, start, end);
+
+    const totals = rows.reduce(
+      (acc, row) => {
+        if (row.taxRate > 0) {
+          acc.taxableSales += row.taxableSales;
+        } else {
+          acc.exemptSales += row.taxableSales;
+        }
+        acc.taxCollected += row.taxCollected;
+        return acc;
+      },
+      { taxableSales: 0, exemptSales: 0, taxCollected: 0 }
+    );
+
+    return {
+      startDate: start.toISOString(),
+      endDate: end.toISOString(),
+      rows,
+      totals,
+    };
+  }
+
+  async getPromotionReport(
+    shopId: string,
+    filters: DateRangeFilters,
+    context: AnalyticsContext
+  ): Promise<PromotionReport> {
+    await this.validateShopAccess(shopId, context);
+
+    let start = filters.startDate;
+    let end = filters.endDate;
+
+    if (!start || !end) {
+      const now = new Date();
+      start = this.getStartOfDay(new Date(now.getFullYear(), now.getMonth(), 1));
+      end = this.getEndOfDay(new Date(now.getFullYear(), now.getMonth() + 1, 0));
+    }
+
+    const [rows, salesAnalyticsRaw] = await Promise.all([
+      this.saleRepository.getPromotionSummary(shopId, start, end),
+      this.saleRepository.getAnalytics(shopId, {
+        startDate: start,
+        endDate: end,
+        includeRefunded: false,
+      }),
+    ]);
+
+    const salesAnalytics = salesAnalyticsRaw as TicketAnalytics;
+    const totalPromotionCost = rows.reduce((sum, row) => sum + row.promotionCost, 0);
+    const totalRevenue = salesAnalytics.totalRevenue || 0;
+
+    return {
+      startDate: start.toISOString(),
+      endDate: end.toISOString(),
+      rows: rows.map((row) => ({
+        ...row,
+        promotionCost: Number(row.promotionCost.toFixed(2)),
+      })),
+      totalPromotionCost: Number(totalPromotionCost.toFixed(2)),
+      totalRevenue,
+      costShare: totalRevenue ? Number(((totalPromotionCost / totalRevenue) * 100).toFixed(2)) : 0,
+    };
+  }
+
+  async getStaffPerformance(
+    shopId: string,
+    filters: DateRangeFilters,
+    context: AnalyticsContext
+  ): Promise<StaffPerformanceReport> {
+    await this.validateShopAccess(shopId, context);
+
+    let start = filters.startDate;
+    let end = filters.endDate;
+
+    if (!start || !end) {
+      const now = new Date();
+      start = this.getStartOfDay(new Date(now.getFullYear(), now.getMonth(), 1));
+      end = this.getEndOfDay(new Date(now.getFullYear(), now.getMonth() + 1, 0));
+    }
+
+    const [sales, collections] = await Promise.all([
+      this.saleRepository.getStaffSalesSummary(shopId, start, end),
+      this.saleRepository.getCreditCollectedByStaff(shopId, start, end),
+    ]);
+
+    const round = (value: number) => Number(value.toFixed(2));
+    const collectedByStaff = new Map(collections.map((row) => [row.staffId, row]));
+
+    const rows: StaffPerformanceRow[] = sales.map((row) => ({
+      staffId: row.staffId,
+      staffName: row.staffName,
+      revenue: round(row.revenue),
+      profit: round(row.profit),
+      ticketCount: row.ticketCount,
+      averageBasket: row.ticketCount ? round(row.revenue / row.ticketCount) : 0,
+      discountGiven: round(row.discountGiven),
+      refundedAmount: round(row.refundedAmount),
+      refundCount: row.refundCount,
+      refundRate: row.grossSales ? round((row.refundedAmount / row.grossSales) * 100) : 0,
+      creditIssued: round(row.creditIssued),
+      creditCollected: round(collectedByStaff.get(row.staffId)?.amount || 0),
+    }));
+
+    // Staff who only collected credit in the period still get a row
+    for (const collection of collections) {
+      if (sales.some((row) => row.staffId === collection.staffId)) continue;
+      rows.push({
+        staffId: collection.staffId,
+        staffName: collection.staffName,
+        revenue: 0,
+        profit: 0,
+        ticketCount: 0,
+        averageBasket: 0,
+        discountGiven: 0,
+        refundedAmount: 0,
+        refundCount: 0,
+        refundRate: 0,
+        creditIssued: 0,
+        creditCollected: round(collection.amount),
+      });
+    }
+
+    return {
+      startDate: start.toISOString(),
+      endDate: end.toISOString(),
+      rows,
+    };
+  }
+
   async getProfitSummary(
     shopId: string,
     period: ProfitPeriod,
@@ -270,20 +422,21 @@ export class AnalyticsService {
         const start = this.getStartOfDay(ref);
         const end = this.getEndOfDay(new Date(ref.getFullYear(), ref.getMonth() + 1, 0));
 
-        const [salesAnalyticsRaw, expensesTotal] = await Promise.all([
+        const [salesAnalyticsRaw, expensesTotal, badDebt] = await Promise.all([
           this.saleRepository.getAnalytics(shopId, {
             startDate: start,
             endDate: end,
             includeRefunded: false,
           }),
           this.analyticsRepository.getExpensesTotal(shopId, start, end),
+          this.saleRepository.getBadDebtTotal(shopId, start, end),
         ]);
 
         const salesAnalytics = salesAnalyticsRaw as TicketAnalytics;
         const revenue = salesAnalytics.totalRevenue || 0;
         const totalProfit = salesAnalytics.totalProfit || 0;
-        const cogs = revenue - totalProfit;
-        const profit = totalProfit - expensesTotal;
+        const cogs = revenue - (salesAnalytics.totalTax || 0) - totalProfit;
+        const profit = totalProfit - expensesTotal - badDebt;
 
         const labelIndex = periods - i;
 
@@ -293,7 +446,9 @@ export class AnalyticsService {
           endDate: end.toISOString(),
           revenue,
           cogs,
+          promotionCost: salesAnalytics.totalPromotionCost || 0,
           expenses: expensesTotal,
+          badDebt,
           profit,
         });
       }
@@ -308,20 +463,21 @@ export class AnalyticsService {
         const start = this.getStartOfDay(periodStart);
         const end = this.getEndOfDay(periodEnd);
 
-        const [salesAnalyticsRaw, expensesTotal] = await Promise.all([
+        const [salesAnalyticsRaw, expensesTotal, badDebt] = await Promise.all([
           this.saleRepository.getAnalytics(shopId, {
             startDate: start,
             endDate: end,
             includeRefunded: false,
           }),
           this.analyticsRepository.getExpensesTotal(shopId, start, end),
+          this.saleRepository.getBadDebtTotal(shopId, start, end),
         ]);
 
         const salesAnalytics = salesAnalyticsRaw as TicketAnalytics;
         const revenue = salesAnalytics.totalRevenue || 0;
         const totalProfit = salesAnalytics.totalProfit || 0;
-        const cogs = revenue - totalProfit;
-        const profit = totalProfit - expensesTotal;
+        const cogs = revenue - (salesAnalytics.totalTax || 0) - totalProfit;
+        const profit = totalProfit - expensesTotal - badDebt;
         const labelIndex = periods - i;
 
         rows.push({
@@ -330,7 +486,9 @@ export class AnalyticsService {
           endDate: end.toISOString(),
           revenue,
           cogs,
+          promotionCost: salesAnalytics.totalPromotionCost || 0,
           expenses: expensesTotal,
+          badDebt,
           profit,
         });
       }
@@ -343,20 +501,21 @@ export class AnalyticsService {
         const start = this.getStartOfDay(date);
         const end = this.getEndOfDay(date);
 
-        const [salesAnalyticsRaw, expensesTotal] = await Promise.all([
+        const [salesAnalyticsRaw, expensesTotal, badDebt] = await Promise.all([
           this.saleRepository.getAnalytics(shopId, {
             startDate: start,
             endDate: end,
             includeRefunded: false,
           }),
           this.analyticsRepository.getExpensesTotal(shopId, start, end),
+          this.saleRepository.getBadDebtTotal(shopId, start, end),
         ]);
 
         const salesAnalytics = salesAnalyticsRaw as TicketAnalytics;
         const revenue = salesAnalytics.totalRevenue || 0;
         const totalProfit = salesAnalytics.totalProfit || 0;
-        const cogs = revenue - totalProfit;
-        const profit = totalProfit - expensesTotal;
+        const cogs = revenue - (salesAnalytics.totalTax || 0) - totalProfit;
+        const profit = totalProfit - expensesTotal - badDebt;
 
         rows.push({
           label: date.toLocaleDateString(),
@@ -364,7 +523,9 @@ export class AnalyticsService {
           endDate: end.toISOString(),
           revenue,
           cogs,
+          promotionCost: salesAnalytics.totalPromotionCost || 0,
           expenses: expensesTotal,
+          badDebt,
           profit,
         });
       }
@@ -1,3 +1,5 @@
+import { TenderBreakdown } from "../../sales-management/types";
+
 export interface AnalyticsContext {
   requestId: string;
   ip: string;
@@ -14,6 +16,8 @@ export interface DashboardOverview {
   profit: number;
   lowStockAlertCount: number;
   totalTransactions: number;
+  promotionCost: number;
+  salesByTender: TenderBreakdown[];
 }
 
 export interface SalesTrendPoint {
@@ -52,8 +56,68 @@ export interface ProfitSummaryRow {
   endDate: string;
   revenue: number;
   cogs: number;
+  promotionCost: number; // Discounts given by promotions (already out of revenue)
   expenses: number;
+  badDebt: number; // Credit written off within the period
+  profit: number;
+}
+
+export interface TaxReportRow {
+  taxRate: number;
+  taxableSales: number; // Sales net of tax at this rate
+  taxCollected: number;
+  lineCount: number;
+}
+
+export interface TaxReport {
+  startDate: string;
+  endDate: string;
+  rows: TaxReportRow[];
+  totals: {
+    taxableSales: number;
+    exemptSales: number; // Sales at a 0% rate
+    taxCollected: number;
+  };
+}
+
+export interface PromotionReportRow {
+  promotionId: string;
+  name: string;
+  type: string;
+  ticketCount: number;
+  lineCount: number;
+  quantitySold: number; // Units sold under the promotion, net of returns
+  promotionCost: number; // Discount given, net of returns
+}
+
+export interface PromotionReport {
+  startDate: string;
+  endDate: string;
+  rows: PromotionReportRow[];
+  totalPromotionCost: number;
+  totalRevenue: number;
+  costShare: number; // Promotion cost as a percentage of revenue
+}
+
+export interface StaffPerformanceRow {
+  staffId: string;
+  staffName: string;
+  revenue: number; // Net of returns, refunded tickets left out
   profit: number;
+  ticketCount: number;
+  averageBasket: number;
+  discountGiven: number; // Line discounts and promotions
+  refundedAmount: number;
+  refundCount: number;
+  refundRate: number; // Refunded amount as a percentage of sales rung up
+  creditIssued: number; // Sold on credit in the period
+  creditCollected: number; // Credit installments received in the period
+}
+
+export interface StaffPerformanceReport {
+  startDate: string;
+  endDate: string;
+  rows: StaffPerformanceRow[];
 }
 
 export interface BestSellersFilters {
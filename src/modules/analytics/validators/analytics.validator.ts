@@ -59,3 +59,39 @@ export const profitSummaryValidator = [
     .isInt({ min: 1, max: 365 })
     .withMessage("periods must be between 1 and 365"),
 ];
+
+export const taxReportValidator = [
+  param("shopId").isMongoId().withMessage("Invalid shop ID"),
+  query("startDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid start date format"),
+  query("endDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid end date format"),
+];
+
+export const promotionReportValidator = [
+  param("shopId").isMongoId().withMessage("Invalid shop ID"),
+  query("startDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid start date format"),
+  query("endDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid end date format"),
+];
+
+export const staffPerformanceValidator = [
+  param("shopId").isMongoId().withMessage("Invalid shop ID"),
+  query("startDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid start date format"),
+  query("endDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid end date format"),
+];
@@ -16,6 +16,92 @@ enum KYCStatus {
 const kycStatusValues = Object.values(KYCStatus);
 const businessTypeValues = Object.values(BusinessType);
 
+// Date segment embedded in ticket numbers, e.g. LAG-2026-000123
+type TicketDateSegment = "none" | "YYYY" | "YYYYMM" | "YYYYMMDD";
+type TicketResetPeriod = "never" | "yearly" | "daily";
+
+interface ITicketNumberingSettings {
+  prefix: string;
+  separator: string;
+  dateSegment: TicketDateSegment;
+  padding: number;
+  resetPeriod: TicketResetPeriod;
+}
+
+// Named tax rate for items that don't use the standard rate, e.g. "reduced"
+interface ITaxClass {
+  name: string;
+  rate: number;
+}
+
+interface ITaxSettings {
+  enabled: boolean;
+  rate: number; // Standard VAT rate in percent
+  pricesIncludeTax: boolean; // Selling prices already include VAT
+  exemptCategories: string[];
+  classes: ITaxClass[];
+}
+
+interface IDraftSettings {
+  reservationMinutes: number; // How long a parked ticket holds its stock by default
+}
+
+type ReceiptPaperWidth = "58mm" | "80mm";
+
+interface IReceiptSettings {
+  footer: string; // Printed at the bottom of every receipt
+  paperWidth: ReceiptPaperWidth; // Default thermal paper width
+}
+
+interface ICreditSettings {
+  defaultLimit: number | null; // Applies to customers without their own limit; null for no limit
+  holdOverdue: boolean; // Refuse new credit to customers with overdue tickets
+}
+
+type LateFeeType = "flat" | "percentage";
+
+interface ILateFeeSettings {
+  enabled: boolean;
+  type: LateFeeType; // Fixed amount, or a percentage of the balance still owed
+  amount: number; // Naira for flat fees, percent for percentage fees
+  periodDays: number; // A fee is charged for each period a ticket stays overdue
+  graceDays: number; // Days past the due date before the first fee
+  cap: number | null; // Most a ticket can be charged in total; null for no cap
+}
+
+interface IReminderSettings {
+  enabled: boolean;
+  daysBefore: number[]; // Text customers this many days before a ticket is due
+  daysAfter: number[]; // ...and this many days after it went overdue
+  quietHoursStart: string; // "HH:mm", no texts from this time...
+  quietHoursEnd: string; // ...until this time
+}
+
+interface IQuoteSettings {
+  validityDays: number; // How long a quote stays valid by default
+}
+
+type LayawayForfeitureType = "flat" | "percentage";
+
+interface ILayawaySettings {
+  minDepositPercent: number; // Smallest deposit accepted, as a percent of the total
+  termDays: number; // Default time the customer has to finish paying
+  forfeitureType: LayawayForfeitureType; // Kept on cancellation: a fixed amount or a percent of the total
+  forfeitureAmount: number;
+}
+
+interface IShopSettings {
+  ticketNumbering: ITicketNumberingSettings;
+  tax: ITaxSettings;
+  drafts: IDraftSettings;
+  receipt: IReceiptSettings;
+  credit: ICreditSettings;
+  lateFees: ILateFeeSettings;
+  reminders: IReminderSettings;
+  quotes: IQuoteSettings;
+  layaway: ILayawaySettings;
+}
+
 interface IShop extends Document {
   shopName: string;
   phoneNumber: string;
@@ -28,8 +114,103 @@ interface IShop extends Document {
   isVerified: boolean;
   kycStatus?: KYCStatus;
   kycSubmittedAt?: Date;
+  settings?: IShopSettings;
 }
 
+const ticketNumberingSchema = new Schema<ITicketNumberingSettings>(
+  {
+    prefix: { type: String, trim: true, uppercase: true, maxlength: 10, default: "" },
+    separator: { type: String, enum: ["-", "/", ""], default: "-" },
+    dateSegment: { type: String, enum: ["none", "YYYY", "YYYYMM", "YYYYMMDD"], default: "none" },
+    padding: { type: Number, min: 1, max: 10, default: 4 },
+    resetPeriod: { type: String, enum: ["never", "yearly", "daily"], default: "never" },
+  },
+  { _id: false }
+);
+
+const taxSettingsSchema = new Schema<ITaxSettings>(
+  {
+    enabled: { type: Boolean, default: false },
+    rate: { type: Number, min: 0, max: 100, default: 0 },
+    pricesIncludeTax: { type: Boolean, default: false },
+    exemptCategories: { type: [String], default: [] },
+    classes: {
+      type: [
+        {
+          _id: false,
+          name: { type: String, required: true, trim: true, lowercase: true, maxlength: 30 },
+          rate: { type: Number, required: true, min: 0, max: 100 },
+        },
+      ],
+      default: [],
+    },
+  },
+  { _id: false }
+);
+
+const draftSettingsSchema = new Schema<IDraftSettings>(
+  {
+    reservationMinutes: { type: Number, min: 1, max: 1440, default: 15 },
+  },
+  { _id: false }
+);
+
+const receiptSettingsSchema = new Schema<IReceiptSettings>(
+  {
+    footer: { type: String, trim: true, maxlength: 500, default: "Thank you for your patronage!" },
+    paperWidth: { type: String, enum: ["58mm", "80mm"], default: "80mm" },
+  },
+  { _id: false }
+);
+
+const creditSettingsSchema = new Schema<ICreditSettings>(
+  {
+    defaultLimit: { type: Number, min: 0, default: null },
+    holdOverdue: { type: Boolean, default: true },
+  },
+  { _id: false }
+);
+
+const lateFeeSettingsSchema = new Schema<ILateFeeSettings>(
+  {
+    enabled: { type: Boolean, default: false },
+    type: { type: String, enum: ["flat", "percentage"], default: "percentage" },
+    amount: { type: Number, min: 0, default: 0 },
+    periodDays: { type: Number, min: 1, max: 365, default: 30 },
+    graceDays: { type: Number, min: 0, max: 365, default: 0 },
+    cap: { type: Number, min: 0, default: null },
+  },
+  { _id: false }
+);
+
+const reminderSettingsSchema = new Schema<IReminderSettings>(
+  {
+    enabled: { type: Boolean, default: false },
+    daysBefore: { type: [Number], default: [3] },
+    daysAfter: { type: [Number], default: [1, 7] },
+    quietHoursStart: { type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/, default: "21:00" },
+    quietHoursEnd: { type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/, default: "08:00" },
+  },
+  { _id: false }
+);
+
+const quoteSettingsSchema = new Schema<IQuoteSettings>(
+  {
+    validityDays: { type: Number, min: 1, max: 365, default: 14 },
+  },
+  { _id: false }
+);
+
+const layawaySettingsSchema = new Schema<ILayawaySettings>(
+  {
+    minDepositPercent: { type: Number, min: 0, max: 100, default: 20 },
+    termDays: { type: Number, min: 1, max: 365, default: 30 },
+    forfeitureType: { type: String, enum: ["flat", "percentage"], default: "percentage" },
+    forfeitureAmount: { type: Number, min: 0, default: 0 },
+  },
+  { _id: false }
+);
+
 const shopSchema = new Schema<IShop>(
   {
     shopName: { type: String, required: true, unique: true },
@@ -50,6 +231,17 @@ const shopSchema = new Schema<IShop>(
       default: KYCStatus.PENDING 
     },
     kycSubmittedAt: Date,
+    settings: {
+      ticketNumbering: { type: ticketNumberingSchema, default: () => ({}) },
+      tax: { type: taxSettingsSchema, default: () => ({}) },
+      drafts: { type: draftSettingsSchema, default: () => ({}) },
+      receipt: { type: receiptSettingsSchema, default: () => ({}) },
+      credit: { type: creditSettingsSchema, default: () => ({}) },
+      lateFees: { type: lateFeeSettingsSchema, default: () => ({}) },
+      reminders: { type: reminderSettingsSchema, default: () => ({}) },
+      quotes: { type: quoteSettingsSchema, default: () => ({}) },
+      layaway: { type: layawaySettingsSchema, default: () => ({}) },
+    },
   },
   { timestamps: true }
 );
@@ -58,4 +250,23 @@ const shopSchema = new Schema<IShop>(
 shopSchema.index({ kycStatus: 1 });
 
 export { BusinessType, KYCStatus };
+export type {
+  IShop,
+  IShopSettings,
+  ITicketNumberingSettings,
+  ITaxSettings,
+  ITaxClass,
+  IDraftSettings,
+  IReceiptSettings,
+  ReceiptPaperWidth,
+  ICreditSettings,
+  ILateFeeSettings,
+  LateFeeType,
+  IReminderSettings,
+  IQuoteSettings,
+  ILayawaySettings,
+  LayawayForfeitureType,
+  TicketDateSegment,
+  TicketResetPeriod,
+};
 export default mongoose.model<IShop>("Shop", shopSchema);
@@ -5,6 +5,7 @@ import {
   ownerOnly,
   verifyShopAccess,
 } from "../../../shared/middleware/auth.middleware";
+import { idempotent } from "../../../shared/middleware/idempotency.middleware";
 import { validateRequest } from "../middlewares/validateRequest.middleware";
 import {
   expensesCreateValidation,
@@ -37,6 +38,7 @@ router.post(
   authenticate,
   expensesCreateValidation,
   validateRequest,
+  idempotent,
   createExpenseController
 );
 
@@ -70,6 +70,7 @@ export const getInventoryList = asyncHandler(async (req: AuthenticatedRequest, r
     tags,
     minPrice,
     maxPrice,
+    supplierId,
     page = "1",
     limit = "20",
     sortBy = "createdAt",
@@ -88,6 +89,7 @@ export const getInventoryList = asyncHandler(async (req: AuthenticatedRequest, r
       tags: tags ? (Array.isArray(tags) ? tags : [tags]) as string[] : undefined,
       minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
       maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
+      supplierId: supplierId as string | undefined,
       page: parseInt(page as string),
       limit: parseInt(limit as string),
       sortBy: sortBy as any,
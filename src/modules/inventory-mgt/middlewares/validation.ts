@@ -83,21 +83,16 @@ export const createItemValidation = [
       "cm",
     ])
     .withMessage("Invalid unit"),
-  body("supplier.name")
+  body("supplier")
+    .not()
+    .exists()
+    .withMessage(
+      "Embedded supplier details are no longer accepted. Link a supplier with supplierId"
+    ),
+  body("supplierId")
     .optional()
-    .trim()
-    .isLength({ max: 100 })
-    .withMessage("Supplier name cannot exceed 100 characters"),
-  body("supplier.contact")
-    .optional()
-    .trim()
-    .matches(/^\+?[1-9]\d{9,14}$/)
-    .withMessage("Invalid supplier contact number"),
-  body("supplier.email")
-    .optional()
-    .trim()
-    .isEmail()
-    .withMessage("Invalid supplier email address"),
+    .isMongoId()
+    .withMessage("Invalid supplier ID format"),
   body("expiryDate")
     .optional()
     .isISO8601()
@@ -128,6 +123,13 @@ export const createItemValidation = [
     .trim()
     .isLength({ max: 30 })
     .withMessage("Each tag cannot exceed 30 characters"),
+  body("taxClass")
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 30 })
+    .withMessage("Tax class must be between 1 and 30 characters")
+    .matches(/^[A-Za-z0-9_-]+$/)
+    .withMessage("Tax class can only contain letters, numbers, hyphens and underscores"),
 ];
 
 export const updateItemValidation = [
@@ -210,21 +212,16 @@ export const updateItemValidation = [
       "cm",
     ])
     .withMessage("Invalid unit"),
-  body("supplier.name")
-    .optional()
-    .trim()
-    .isLength({ max: 100 })
-    .withMessage("Supplier name cannot exceed 100 characters"),
-  body("supplier.contact")
-    .optional()
-    .trim()
-    .matches(/^\+?[1-9]\d{9,14}$/)
-    .withMessage("Invalid supplier contact number"),
-  body("supplier.email")
-    .optional()
-    .trim()
-    .isEmail()
-    .withMessage("Invalid supplier email address"),
+  body("supplier")
+    .not()
+    .exists()
+    .withMessage(
+      "Embedded supplier details are no longer accepted. Link a supplier with supplierId"
+    ),
+  body("supplierId")
+    .optional({ nullable: true })
+    .isMongoId()
+    .withMessage("Invalid supplier ID format"),
   body("expiryDate")
     .optional()
     .isISO8601()
@@ -255,6 +252,13 @@ export const updateItemValidation = [
     .trim()
     .isLength({ max: 30 })
     .withMessage("Each tag cannot exceed 30 characters"),
+  body("taxClass")
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 30 })
+    .withMessage("Tax class must be between 1 and 30 characters")
+    .matches(/^[A-Za-z0-9_-]+$/)
+    .withMessage("Tax class can only contain letters, numbers, hyphens and underscores"),
   body("isActive")
     .optional()
     .isBoolean()
@@ -385,6 +389,10 @@ export const getInventoryValidation = [
     .optional()
     .isFloat({ min: 0 })
     .withMessage("Maximum price must be positive"),
+  query("supplierId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid supplier ID format"),
   query("page")
     .optional()
     .isInt({ min: 1 })
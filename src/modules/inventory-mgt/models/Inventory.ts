@@ -99,6 +99,12 @@ const inventorySchema = new Schema<IInventoryItem>(
       trim: true,
       lowercase: true,
     },
+    supplierId: {
+      type: Schema.Types.ObjectId,
+      ref: "Supplier",
+      index: true,
+    },
+    // Legacy embedded supplier details, replaced by supplierId
     supplier: {
       name: {
         type: String,
@@ -138,6 +144,13 @@ const inventorySchema = new Schema<IInventoryItem>(
         lowercase: true,
       },
     ],
+    taxClass: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      maxlength: 30,
+      default: "standard",
+    },
     isActive: {
       type: Boolean,
       default: true,
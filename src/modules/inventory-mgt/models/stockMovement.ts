@@ -15,7 +15,7 @@ const stockMovementSchema = new Schema<StockMovement>(
     },
     type: {
       type: String,
-      enum: ["sale", "restock", "adjustment", "damage", "return"],
+      enum: ["sale", "restock", "adjustment", "damage", "return", "reserve", "release"],
       required: true,
       index: true,
     },
@@ -49,6 +49,22 @@ const stockMovementSchema = new Schema<StockMovement>(
       type: String,
       required: true,
     },
+    referenceType: {
+      type: String,
+      enum: ["ticket", "layaway", "purchase_order"],
+    },
+    referenceId: {
+      type: Schema.Types.ObjectId,
+      index: true,
+    },
+    supplierId: {
+      type: Schema.Types.ObjectId,
+      ref: "Supplier",
+    },
+    unitCost: {
+      type: Number,
+      min: 0,
+    },
     date: {
       type: Date,
       default: Date.now,
@@ -63,6 +79,7 @@ const stockMovementSchema = new Schema<StockMovement>(
 // Compound indexes
 stockMovementSchema.index({ itemId: 1, date: -1 });
 stockMovementSchema.index({ itemId: 1, type: 1 });
+stockMovementSchema.index({ supplierId: 1, type: 1, date: -1 });
 
 const StockMovementModel = mongoose.model<StockMovement>(
   "StockMovement",
@@ -1,7 +1,7 @@
 import Inventory from "../models/Inventory";
 import StockMovementModel from "../models/stockMovement";
 import { IInventoryItem, InventoryQueryOptions, StockMovement } from "../types";
-import { Types } from "mongoose";
+import { ClientSession, Types, UpdateQuery } from "mongoose";
 
 export class InventoryRepository {
   /**
@@ -14,8 +14,8 @@ export class InventoryRepository {
   /**
    * Find item by ID
    */
-  async findById(itemId: string): Promise<IInventoryItem | null> {
-    return await Inventory.findById(itemId);
+  async findById(itemId: string, session?: ClientSession): Promise<IInventoryItem | null> {
+    return await Inventory.findById(itemId).session(session || null);
   }
 
   /**
@@ -76,6 +76,7 @@ export class InventoryRepository {
       tags,
       minPrice,
       maxPrice,
+      supplierId,
       page = 1,
       limit = 20,
       sortBy = "createdAt",
@@ -89,6 +90,11 @@ export class InventoryRepository {
       query.category = category;
     }
 
+    // Supplier filter
+    if (supplierId) {
+      query.supplierId = new Types.ObjectId(supplierId);
+    }
+
     // Sub-category filter
     if (subCategory) {
       query.subCategory = subCategory;
@@ -156,7 +162,7 @@ export class InventoryRepository {
    */
   async update(
     itemId: string,
-    updates: Partial<IInventoryItem>
+    updates: UpdateQuery<IInventoryItem>
   ): Promise<IInventoryItem | null> {
     return await Inventory.findByIdAndUpdate(itemId, updates, { new: true });
   }
@@ -235,7 +241,8 @@ export class InventoryRepository {
   async restock(
     itemId: string,
     quantity: number,
-    costPrice?: number
+    costPrice?: number,
+    session?: ClientSession
   ): Promise<IInventoryItem | null> {
     const updates: any = {
       $inc: { availableQuantity: quantity },
@@ -246,7 +253,7 @@ export class InventoryRepository {
       updates.costPrice = costPrice;
     }
 
-    return await Inventory.findByIdAndUpdate(itemId, updates, { new: true });
+    return await Inventory.findByIdAndUpdate(itemId, updates, { new: true, session });
   }
 
   /**
@@ -277,9 +284,12 @@ export class InventoryRepository {
    * Record stock movement
    */
   async recordStockMovement(
-    movement: Partial<StockMovement>
+    movement: Partial<StockMovement>,
+    session?: ClientSession
   ): Promise<StockMovement> {
-    return await StockMovementModel.create(movement);
+    // Array form of create() is required to pass a session
+    const [created] = await StockMovementModel.create([movement], { session });
+    return created;
   }
 
   /**
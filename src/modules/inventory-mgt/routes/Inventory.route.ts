@@ -31,6 +31,7 @@ import {
   verifyShopAccess,
   requireRole,
 } from "../../../shared/middleware/auth.middleware";
+import { idempotent } from "../../../shared/middleware/idempotency.middleware";
 
 const router = express.Router();
 
@@ -115,6 +116,7 @@ router.post(
   "/:shopId/items/:itemId/restock",
   restockValidation,
   verifyShopAccess,
+  idempotent,
   restockItem
 );
 
@@ -123,6 +125,7 @@ router.post(
   "/:shopId/items/:itemId/adjust",
   adjustStockValidation,
   verifyShopAccess,
+  idempotent,
   adjustStock
 );
 
@@ -1,8 +1,9 @@
 import { InventoryRepository } from "../repository/inventory.repository";
 import { ShopRepository } from "../repository/shop.repository";
+import { SupplierRepository } from "../../suppliers/repositories/supplier.repository";
 import { logInventoryAuditEvent } from "../utils/auditLogger";
 import { generateSKU } from "../utils/skuGenerator";
-import { Types } from "mongoose";
+import { ClientSession, Types, UpdateQuery } from "mongoose";
 import {
   ValidationError,
   NotFoundError,
@@ -14,6 +15,7 @@ import {
   CreateInventoryInput,
   UpdateInventoryInput,
   RestockInput,
+  RestockResult,
   AdjustStockInput,
   InventoryQueryOptions,
   RequestMetadata,
@@ -24,10 +26,12 @@ import {
 export class InventoryService {
   private inventoryRepository: InventoryRepository;
   private shopRepository: ShopRepository;
+  private supplierRepository: SupplierRepository;
 
   constructor() {
     this.inventoryRepository = new InventoryRepository();
     this.shopRepository = new ShopRepository();
+    this.supplierRepository = new SupplierRepository();
   }
 
  // Validate shop access
@@ -46,12 +50,24 @@ export class InventoryService {
     }
   }
 
+  // Items can only be linked to an active supplier of the same shop
+  private async validateSupplier(supplierId: string, shopId: string): Promise<Types.ObjectId> {
+    const supplier = await this.supplierRepository.findById(supplierId);
+    if (!supplier || supplier.shopId.toString() !== shopId) {
+      throw new NotFoundError("Supplier not found");
+    }
+    if (!supplier.isActive) {
+      throw new ValidationError("Supplier is inactive");
+    }
+    return supplier._id;
+  }
+
   // Create new inventory item
   async createItem(
     input: CreateInventoryInput,
     metadata: RequestMetadata
   ): Promise<IInventoryItem> {
-    const { shopId, name, category, sku, barcode, costPrice, sellingPrice, initialQuantity } = input;
+    const { shopId, name, category, sku, barcode, costPrice, sellingPrice, initialQuantity, supplierId } = input;
     const { requestId, userId, userRole, ip, userShopId } = metadata;
 
     // Validate shop access
@@ -92,6 +108,10 @@ export class InventoryService {
       }
     }
 
+    // Suppliers are linked by ID; embedded supplier details are no longer accepted
+    const { supplier: _legacySupplier, ...itemInput } = input as CreateInventoryInput & { supplier?: unknown };
+    const linkedSupplierId = supplierId ? await this.validateSupplier(supplierId, shopId) : undefined;
+
     // Check if barcode already exists
     // if (barcode) {
     //   if (await this.inventoryRepository.barcodeExists(shopId, barcode)) {
@@ -101,7 +121,8 @@ export class InventoryService {
 
     // Create item
     const item = await this.inventoryRepository.create({
-      ...input,
+      ...itemInput,
+      supplierId: linkedSupplierId,
       shopId: new Types.ObjectId(shopId),
       sku: finalSKU,
       availableQuantity: initialQuantity,
@@ -121,6 +142,7 @@ export class InventoryService {
         initialQuantity,
         costPrice,
         sellingPrice,
+        supplierId,
       },
     });
 
@@ -228,10 +250,23 @@ export class InventoryService {
     //   }
     // }
 
-    const updatedItem = await this.inventoryRepository.update(itemId, {
-      ...updates,
+    const { supplier: _legacySupplier, supplierId, ...itemUpdates } = updates as UpdateInventoryInput & {
+      supplier?: unknown;
+    };
+    const updateData: UpdateQuery<IInventoryItem> = {
+      ...itemUpdates,
       updatedBy: new Types.ObjectId(userId),
-    });
+    };
+
+    // Linking a supplier replaces any embedded supplier details; null unlinks
+    if (supplierId === null) {
+      updateData.$unset = { supplierId: 1 };
+    } else if (supplierId !== undefined) {
+      updateData.supplierId = await this.validateSupplier(supplierId, shopId);
+      updateData.$unset = { supplier: 1 };
+    }
+
+    const updatedItem = await this.inventoryRepository.update(itemId, updateData);
 
     if (!updatedItem) {
       throw new NotFoundError("Item not found after update");
@@ -310,8 +345,22 @@ export class InventoryService {
     restockData: RestockInput,
     metadata: RequestMetadata
   ): Promise<IInventoryItem> {
-    const { quantity, costPrice, notes } = restockData;
-    const { requestId, userId, userRole, ip, userShopId } = metadata;
+    const result = await this.applyRestock(itemId, shopId, restockData, metadata);
+    await this.logRestock(result, metadata);
+    return result.item;
+  }
+
+  // Add stock and record the movement without logging the audit event, for
+  // callers restocking inside a transaction. Call logRestock once it commits.
+  async applyRestock(
+    itemId: string,
+    shopId: string,
+    restockData: RestockInput,
+    metadata: RequestMetadata,
+    session?: ClientSession
+  ): Promise<RestockResult> {
+    const { quantity, costPrice, notes, supplierId, referenceType, referenceId } = restockData;
+    const { userId, userRole, userShopId } = metadata;
 
     await this.validateShopAccess(shopId, userShopId, userRole);
 
@@ -319,7 +368,7 @@ export class InventoryService {
       throw new ValidationError("Restock quantity must be greater than zero");
     }
 
-    const item = await this.inventoryRepository.findById(itemId);
+    const item = await this.inventoryRepository.findById(itemId, session);
     if (!item) {
         throw new NotFoundError("Inventory item not found");
     }
@@ -328,44 +377,58 @@ export class InventoryService {
       throw new AuthorizationError("Item does not belong to this shop");
     }
 
-    const beforeQuantity = item.availableQuantity;
-    const updatedItem = await this.inventoryRepository.restock(itemId, quantity, costPrice);
+    const updatedItem = await this.inventoryRepository.restock(itemId, quantity, costPrice, session);
 
     if (!updatedItem) {
       throw new NotFoundError("Item not found after restock");
     }
 
+    // Taken from the update itself so a concurrent sale cannot skew it
+    const beforeQuantity = updatedItem.availableQuantity - quantity;
+
     // Record stock movement
-    await this.inventoryRepository.recordStockMovement({
-      itemId: item._id,
-      itemName: item.name,
-      type: "restock",
-      quantity,
-      beforeQuantity,
-      afterQuantity: updatedItem.availableQuantity,
-      notes,
-      performedBy: new Types.ObjectId(userId),
-      performedByName: userRole === "owner" ? "Owner" : "Staff",
-      date: new Date(),
-    });
+    await this.inventoryRepository.recordStockMovement(
+      {
+        itemId: item._id,
+        itemName: item.name,
+        type: "restock",
+        quantity,
+        beforeQuantity,
+        afterQuantity: updatedItem.availableQuantity,
+        supplierId: supplierId ?? item.supplierId,
+        unitCost: costPrice ?? item.costPrice,
+        referenceType,
+        referenceId,
+        notes,
+        performedBy: new Types.ObjectId(userId),
+        performedByName: userRole === "owner" ? "Owner" : "Staff",
+        date: new Date(),
+      },
+      session
+    );
+
+    return { item: updatedItem, quantity, beforeQuantity, costPrice };
+  }
+
+  // Audit a restock made by applyRestock
+  async logRestock(result: RestockResult, metadata: RequestMetadata): Promise<void> {
+    const { requestId, userId, userRole, ip } = metadata;
 
     await logInventoryAuditEvent({
       requestId,
       action: "INVENTORY_RESTOCKED",
-      shopId,
+      shopId: result.item.shopId.toString(),
       performedBy: { userId, role: userRole },
-      itemId,
+      itemId: result.item._id.toString(),
       ip,
       details: {
-        name: item.name,
-        quantity,
-        beforeQuantity,
-        afterQuantity: updatedItem.availableQuantity,
-        costPrice,
+        name: result.item.name,
+        quantity: result.quantity,
+        beforeQuantity: result.beforeQuantity,
+        afterQuantity: result.item.availableQuantity,
+        costPrice: result.costPrice,
       },
     });
-
-    return updatedItem;
   }
 
   //Adjust stock (for damages, corrections, etc.)
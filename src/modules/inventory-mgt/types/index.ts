@@ -20,6 +20,9 @@ export interface IInventoryItem extends Document {
   reorderLevel: number;
   reorderQuantity: number;
   unit: string;
+  supplierId?: Types.ObjectId;
+  // Copied supplier details from before suppliers were records of their own.
+  // Cleared once the item is linked to a supplier.
   supplier?: {
     name: string;
     contact?: string;
@@ -30,6 +33,7 @@ export interface IInventoryItem extends Document {
   location?: string;
   images?: string[];
   tags?: string[];
+  taxClass: string; // "standard", "exempt" or a class defined in the shop's tax settings
   isActive: boolean;
   isLowStock: boolean;
   isOutOfStock: boolean;
@@ -56,16 +60,13 @@ export interface CreateInventoryInput {
   reorderLevel?: number;
   reorderQuantity?: number;
   unit: string;
-  supplier?: {
-    name: string;
-    contact?: string;
-    email?: string;
-  };
+  supplierId?: string;
   expiryDate?: Date;
   manufacturingDate?: Date;
   location?: string;
   images?: string[];
   tags?: string[];
+  taxClass?: string;
 }
 
 export interface UpdateInventoryInput {
@@ -80,16 +81,13 @@ export interface UpdateInventoryInput {
   reorderLevel?: number;
   reorderQuantity?: number;
   unit?: string;
-  supplier?: {
-    name: string;
-    contact?: string;
-    email?: string;
-  };
+  supplierId?: string | null; // null unlinks the supplier
   expiryDate?: Date;
   manufacturingDate?: Date;
   location?: string;
   images?: string[];
   tags?: string[];
+  taxClass?: string;
   isActive?: boolean;
 }
 
@@ -97,6 +95,19 @@ export interface RestockInput {
   quantity: number;
   costPrice?: number;
   notes?: string;
+  // Set when stock is received against a purchase order
+  supplierId?: Types.ObjectId; // Defaults to the item's supplier
+  referenceType?: "purchase_order";
+  referenceId?: Types.ObjectId;
+}
+
+// Stock added by a restock, kept so the audit event can be logged once the
+// transaction it ran in has committed
+export interface RestockResult {
+  item: IInventoryItem;
+  quantity: number;
+  beforeQuantity: number;
+  costPrice?: number;
 }
 
 export interface AdjustStockInput {
@@ -115,6 +126,7 @@ export interface InventoryQueryOptions {
   tags?: string[];
   minPrice?: number;
   maxPrice?: number;
+  supplierId?: string;
   page?: number;
   limit?: number;
   sortBy?: "name" | "createdAt" | "sellingPrice" | "availableQuantity" | "soldQuantity";
@@ -152,7 +164,7 @@ export interface InventoryAnalytics {
 export interface StockMovement {
   itemId: Types.ObjectId;
   itemName: string;
-  type: "sale" | "restock" | "adjustment" | "damage" | "return";
+  type: "sale" | "restock" | "adjustment" | "damage" | "return" | "reserve" | "release";
   quantity: number;
   beforeQuantity: number;
   afterQuantity: number;
@@ -160,6 +172,10 @@ export interface StockMovement {
   notes?: string;
   performedBy: Types.ObjectId;
   performedByName: string;
+  referenceType?: "ticket" | "layaway" | "purchase_order";
+  referenceId?: Types.ObjectId;
+  supplierId?: Types.ObjectId; // Supplier the stock came from, on restocks
+  unitCost?: number; // Cost per unit paid on restocks
   date: Date;
 }
 
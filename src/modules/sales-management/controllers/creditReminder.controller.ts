@@ -0,0 +1,116 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { CreditReminderService } from "../services/creditReminder.service";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { CreditReminderKind, CreditReminderStatus } from "../types";
+import crypto from "crypto";
+
+const creditReminderService = new CreditReminderService();
+
+/**
+ * @route POST /tickets/:shopId/:ticketId/reminders
+ * @desc Text the customer a reminder about a credit ticket now
+ */
+export const sendCreditReminder = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, ticketId } = req.params;
+
+  const reminder = await creditReminderService.sendManualReminder(ticketId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(reminder.status === "sent" ? 201 : 502).json({
+    success: reminder.status === "sent",
+    message: reminder.status === "sent" ? "Reminder sent successfully" : "Reminder could not be sent",
+    data: reminder,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/:ticketId/reminders
+ * @desc Get the reminders sent for a credit ticket
+ */
+export const getTicketReminders = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, ticketId } = req.params;
+
+  const reminders = await creditReminderService.getTicketReminders(ticketId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Reminders retrieved successfully",
+    data: reminders,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/credit/reminders
+ * @desc Get the shop's reminder send log
+ */
+export const getCreditReminders = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { status, kind, page = "1", limit = "20" } = req.query;
+
+  const result = await creditReminderService.getReminders(
+    shopId,
+    {
+      status: status as CreditReminderStatus | undefined,
+      kind: kind as CreditReminderKind | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Reminders retrieved successfully",
+    data: result,
+  });
+});
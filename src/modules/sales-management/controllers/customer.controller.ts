@@ -0,0 +1,445 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { CustomerService } from "../services/customer.service";
+import { CustomerPaymentService } from "../services/customerPayment.service";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { attachmentDisposition } from "../../../shared/utils/contentDisposition";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { renderStatementCsv, renderStatementHtml } from "../utils/receivables";
+import { ReceiptFormat } from "../types";
+import { ReceiptPaperWidth } from "../../auth/models/shop";
+import crypto from "crypto";
+
+const customerService = new CustomerService();
+const customerPaymentService = new CustomerPaymentService();
+
+/**
+ * @route POST /tickets/:shopId/customers
+ * @desc Create a customer
+ */
+export const createCustomer = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { name, phone, email, address, notes, creditLimit } = req.body;
+
+  const customer = await customerService.createCustomer(
+    { shopId, name, phone, email, address, notes, creditLimit },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: "Customer created successfully",
+    data: customer,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/customers
+ * @desc Get customers, optionally searching by name or phone
+ */
+export const getCustomers = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { search, page = "1", limit = "20" } = req.query;
+
+  const result = await customerService.getCustomers(
+    shopId,
+    {
+      search: search as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Customers retrieved successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/customers/:customerId
+ * @desc Get a single customer
+ */
+export const getCustomerById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, customerId } = req.params;
+
+  const customer = await customerService.getCustomerById(customerId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Customer retrieved successfully",
+    data: customer,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/customers/:customerId/profile
+ * @desc Get a customer's spend, visits, outstanding credit and favourite items
+ */
+export const getCustomerProfile = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, customerId } = req.params;
+
+  const profile = await customerService.getCustomerProfile(customerId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Customer profile retrieved successfully",
+    data: profile,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/customers/:customerId/statement
+ * @desc Get a customer's credit statement as JSON, CSV or printable HTML
+ */
+export const getCustomerStatement = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, customerId } = req.params;
+  const { startDate, endDate, format = "json" } = req.query;
+
+  const statement = await customerService.getCustomerStatement(
+    customerId,
+    shopId,
+    {
+      startDate: startDate ? new Date(startDate as string) : undefined,
+      endDate: endDate ? new Date(endDate as string) : undefined,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  if (format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", attachmentDisposition(`statement-${customerId}.csv`));
+    res.status(200).send(renderStatementCsv(statement));
+    return;
+  }
+
+  if (format === "html") {
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.status(200).send(renderStatementHtml(statement));
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    message: "Customer statement retrieved successfully",
+    data: statement,
+  });
+});
+
+/**
+ * @route PUT /tickets/:shopId/customers/:customerId
+ * @desc Update a customer
+ */
+export const updateCustomer = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, customerId } = req.params;
+  const { name, phone, email, address, notes, creditLimit } = req.body;
+
+  const customer = await customerService.updateCustomer(
+    customerId,
+    shopId,
+    { name, phone, email, address, notes, creditLimit },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Customer updated successfully",
+    data: customer,
+  });
+});
+
+/**
+ * @route DELETE /tickets/:shopId/customers/:customerId
+ * @desc Delete a customer without tickets
+ */
+export const deleteCustomer = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, customerId } = req.params;
+
+  await customerService.deleteCustomer(customerId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Customer deleted successfully",
+  });
+});
+
+/**
+ * @route POST /tickets/:shopId/customers/:customerId/merge
+ * @desc Merge duplicate customers into this customer
+ */
+export const mergeCustomers = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, customerId } = req.params;
+  const { duplicateIds } = req.body;
+
+  const customer = await customerService.mergeCustomers(customerId, shopId, duplicateIds, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Customers merged successfully",
+    data: customer,
+  });
+});
+
+/**
+ * @route POST /tickets/:shopId/customers/:customerId/payments
+ * @desc Record a payment against a customer's credit tickets, oldest first or as chosen
+ */
+export const recordCustomerPayment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, customerId } = req.params;
+  const { amount, paymentMethod, receivedBy, ticketIds, transactionReference, notes } = req.body;
+
+  const payment = await customerPaymentService.recordPayment(
+    {
+      customerId,
+      shopId,
+      amount,
+      paymentMethod,
+      receivedBy,
+      ticketIds,
+      transactionReference,
+      notes,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: "Payment recorded successfully",
+    data: payment,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/customers/:customerId/payments
+ * @desc Get a customer's payments
+ */
+export const getCustomerPayments = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, customerId } = req.params;
+  const { page = "1", limit = "20" } = req.query;
+
+  const result = await customerPaymentService.getPayments(
+    customerId,
+    shopId,
+    {
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Payments retrieved successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/customers/:customerId/payments/:paymentId/receipt
+ * @desc Print the receipt for a customer payment as HTML, plain text or ESC/POS
+ */
+export const getCustomerPaymentReceipt = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, customerId, paymentId } = req.params;
+  const format = (req.query.format as ReceiptFormat) || "html";
+  const paperWidth = req.query.paperWidth as ReceiptPaperWidth | undefined;
+
+  const receipt = await customerPaymentService.getPaymentReceipt(
+    paymentId,
+    customerId,
+    shopId,
+    { format, paperWidth },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  if (format === "escpos") {
+    res.setHeader("Content-Type", "application/octet-stream");
+    res.setHeader(
+      "Content-Disposition",
+      attachmentDisposition(`receipt-${receipt.receiptNumber}.bin`)
+    );
+  } else if (format === "text") {
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+  } else {
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+  }
+  res.status(200).send(receipt.content);
+});
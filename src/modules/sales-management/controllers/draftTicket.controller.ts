@@ -0,0 +1,296 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { DraftTicketService } from "../services/draftTicket.service";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { DraftTicketStatus } from "../types";
+import crypto from "crypto";
+
+const draftTicketService = new DraftTicketService();
+
+/**
+ * @route POST /tickets/:shopId/drafts
+ * @desc Park a ticket without reducing stock
+ */
+export const createDraftTicket = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const {
+    label,
+    items,
+    customerId,
+    customerName,
+    customerPhone,
+    customerAddress,
+    notes,
+    reserveStock,
+    reserveMinutes,
+  } = req.body;
+
+  const draft = await draftTicketService.createDraft(
+    {
+      shopId,
+      label,
+      items,
+      customerId,
+      customerName,
+      customerPhone,
+      customerAddress,
+      notes,
+      reserveStock,
+      reserveMinutes,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: "Ticket parked successfully",
+    data: draft,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/drafts
+ * @desc Get parked tickets
+ */
+export const getDraftTickets = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { status, page = "1", limit = "20" } = req.query;
+
+  const result = await draftTicketService.getDrafts(
+    shopId,
+    {
+      status: status as DraftTicketStatus | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Parked tickets retrieved successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/drafts/:draftId
+ * @desc Get a single parked ticket
+ */
+export const getDraftTicketById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, draftId } = req.params;
+
+  const draft = await draftTicketService.getDraftById(draftId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Parked ticket retrieved successfully",
+    data: draft,
+  });
+});
+
+/**
+ * @route PUT /tickets/:shopId/drafts/:draftId
+ * @desc Resume and edit a parked ticket
+ */
+export const updateDraftTicket = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, draftId } = req.params;
+  const {
+    label,
+    items,
+    customerId,
+    customerName,
+    customerPhone,
+    customerAddress,
+    notes,
+    reserveStock,
+    reserveMinutes,
+  } = req.body;
+
+  const draft = await draftTicketService.updateDraft(
+    draftId,
+    shopId,
+    {
+      label,
+      items,
+      customerId,
+      customerName,
+      customerPhone,
+      customerAddress,
+      notes,
+      reserveStock,
+      reserveMinutes,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Parked ticket updated successfully",
+    data: draft,
+  });
+});
+
+/**
+ * @route DELETE /tickets/:shopId/drafts/:draftId
+ * @desc Cancel a parked ticket
+ */
+export const cancelDraftTicket = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, draftId } = req.params;
+
+  const draft = await draftTicketService.cancelDraft(draftId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Parked ticket cancelled successfully",
+    data: draft,
+  });
+});
+
+/**
+ * @route POST /tickets/:shopId/drafts/:draftId/convert
+ * @desc Ring up a parked ticket as a real sale
+ */
+export const convertDraftTicket = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, draftId } = req.params;
+  const {
+    soldBy,
+    paymentMethod,
+    tenders,
+    cashReceived,
+    creditOverride,
+    customerId,
+    customerName,
+    customerPhone,
+    customerAddress,
+    dueDate,
+    notes,
+    transactionReference,
+  } = req.body;
+
+  const result = await draftTicketService.convertDraft(
+    draftId,
+    shopId,
+    {
+      soldBy,
+      paymentMethod,
+      tenders,
+      cashReceived,
+      creditOverride,
+      customerId,
+      customerName,
+      customerPhone,
+      customerAddress,
+      dueDate,
+      notes,
+      transactionReference,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: result.ticket.isCredit
+      ? "Parked ticket rung up as a credit sale"
+      : "Parked ticket rung up successfully",
+    data: result,
+  });
+});
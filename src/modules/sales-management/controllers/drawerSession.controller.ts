@@ -0,0 +1,238 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { DrawerSessionService } from "../services/drawerSession.service";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { DrawerSessionStatus } from "../types";
+import crypto from "crypto";
+
+const drawerSessionService = new DrawerSessionService();
+
+/**
+ * @route POST /tickets/:shopId/drawer/sessions
+ * @desc Open a cash drawer for a staff member with a float
+ */
+export const openDrawerSession = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { staffId, openingFloat, registerName, notes } = req.body;
+
+  const session = await drawerSessionService.openSession(
+    { shopId, staffId, openingFloat, registerName, notes },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: "Drawer opened successfully",
+    data: session,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/drawer/sessions
+ * @desc Get drawer sessions
+ */
+export const getDrawerSessions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { status, staffId, startDate, endDate, page = "1", limit = "20" } = req.query;
+
+  const result = await drawerSessionService.getSessions(
+    shopId,
+    {
+      status: status as DrawerSessionStatus | undefined,
+      staffId: staffId as string | undefined,
+      startDate: startDate ? new Date(startDate as string) : undefined,
+      endDate: endDate ? new Date(endDate as string) : undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Drawer sessions retrieved successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/drawer/sessions/:sessionId
+ * @desc Get a drawer session, with a running summary while it is open
+ */
+export const getDrawerSession = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, sessionId } = req.params;
+
+  const session = await drawerSessionService.getSession(sessionId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Drawer session retrieved successfully",
+    data: session,
+  });
+});
+
+/**
+ * @route POST /tickets/:shopId/drawer/sessions/:sessionId/movements
+ * @desc Record a pay-in or pay-out on an open drawer
+ */
+export const recordDrawerMovement = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, sessionId } = req.params;
+  const { type, amount, reason, recordedBy } = req.body;
+
+  const session = await drawerSessionService.recordMovement(
+    sessionId,
+    shopId,
+    { type, amount, reason, recordedBy },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: type === "pay_in" ? "Pay-in recorded successfully" : "Pay-out recorded successfully",
+    data: session,
+  });
+});
+
+/**
+ * @route POST /tickets/:shopId/drawer/sessions/:sessionId/close
+ * @desc Count and close a drawer, recording the variance against expected cash
+ */
+export const closeDrawerSession = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, sessionId } = req.params;
+  const { countedCash, closedBy, notes } = req.body;
+
+  const session = await drawerSessionService.closeSession(
+    sessionId,
+    shopId,
+    { countedCash, closedBy, notes },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Drawer closed successfully",
+    data: session,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/drawer/z-report
+ * @desc End-of-day Z report across the drawers opened on a day (defaults to today)
+ */
+export const getZReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const today = new Date();
+  const date =
+    (req.query.date as string | undefined) ||
+    [
+      today.getFullYear(),
+      String(today.getMonth() + 1).padStart(2, "0"),
+      String(today.getDate()).padStart(2, "0"),
+    ].join("-");
+
+  const report = await drawerSessionService.getZReport(shopId, date, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Z report generated successfully",
+    data: report,
+  });
+});
@@ -0,0 +1,77 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { LateFeeService } from "../services/lateFee.service";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import crypto from "crypto";
+
+const lateFeeService = new LateFeeService();
+
+/**
+ * @route POST /tickets/:shopId/credit/late-fees/apply
+ * @desc Charge late fees on overdue credit tickets now (owner only)
+ */
+export const applyLateFees = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+
+  const result = await lateFeeService.runLateFees(shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message:
+      result.ticketsCharged > 0
+        ? `Late fees charged on ${result.ticketsCharged} ticket(s)`
+        : "No late fees were due",
+    data: result,
+  });
+});
+
+/**
+ * @route POST /tickets/:shopId/:ticketId/late-fees/:chargeId/waive
+ * @desc Waive a late fee on a credit ticket (owner only)
+ */
+export const waiveLateFee = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, ticketId, chargeId } = req.params;
+  const { reason } = req.body;
+
+  const ticket = await lateFeeService.waiveLateFee(ticketId, chargeId, shopId, reason, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Late fee waived successfully",
+    data: ticket,
+  });
+});
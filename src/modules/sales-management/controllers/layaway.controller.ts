@@ -0,0 +1,222 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { LayawayService } from "../services/layaway.service";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { LayawayStatus } from "../types";
+import crypto from "crypto";
+
+const layawayService = new LayawayService();
+
+/**
+ * @route POST /tickets/:shopId/layaways
+ * @desc Open a layaway, taking a deposit and holding the stock
+ */
+export const createLayaway = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const {
+    items,
+    soldBy,
+    customerId,
+    customerName,
+    customerPhone,
+    customerAddress,
+    deposit,
+    paymentMethod,
+    transactionReference,
+    dueDate,
+    notes,
+  } = req.body;
+
+  const layaway = await layawayService.createLayaway(
+    {
+      shopId,
+      items,
+      soldBy,
+      customerId,
+      customerName,
+      customerPhone,
+      customerAddress,
+      deposit,
+      paymentMethod,
+      transactionReference,
+      dueDate: dueDate ? new Date(dueDate) : undefined,
+      notes,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: "Layaway created successfully",
+    data: layaway,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/layaways
+ * @desc Get layaways
+ */
+export const getLayaways = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { status, customerId, overdue, page = "1", limit = "20" } = req.query;
+
+  const result = await layawayService.getLayaways(
+    shopId,
+    {
+      status: status as LayawayStatus | undefined,
+      customerId: customerId as string | undefined,
+      overdue: overdue === "true",
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Layaways retrieved successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/layaways/:layawayId
+ * @desc Get a single layaway
+ */
+export const getLayawayById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, layawayId } = req.params;
+
+  const layaway = await layawayService.getLayawayById(layawayId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Layaway retrieved successfully",
+    data: layaway,
+  });
+});
+
+/**
+ * @route POST /tickets/:shopId/layaways/:layawayId/payments
+ * @desc Record a layaway installment; the final one releases the goods
+ */
+export const recordLayawayPayment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, layawayId } = req.params;
+  const { amount, paymentMethod, receivedBy, transactionReference, notes } = req.body;
+
+  const result = await layawayService.recordPayment(
+    { layawayId, shopId, amount, paymentMethod, receivedBy, transactionReference, notes },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: result.ticket
+      ? "Layaway paid off. Goods can be released"
+      : "Payment recorded successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route POST /tickets/:shopId/layaways/:layawayId/cancel
+ * @desc Cancel a layaway, returning the held stock (owner only)
+ */
+export const cancelLayaway = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, layawayId } = req.params;
+  const { reason, cancelledBy, refundMethod } = req.body;
+
+  const layaway = await layawayService.cancelLayaway(
+    layawayId,
+    shopId,
+    { reason, cancelledBy, refundMethod },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Layaway cancelled successfully",
+    data: layaway,
+  });
+});
@@ -0,0 +1,231 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { PromotionService } from "../services/promotion.service";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { PromotionType, UpdatePromotionInput } from "../types";
+import crypto from "crypto";
+
+const promotionService = new PromotionService();
+
+// Promotion fields accepted from the request body
+const pickPromotionFields = (body: any): UpdatePromotionInput => {
+  const {
+    name,
+    description,
+    isActive,
+    itemIds,
+    categories,
+    percentOff,
+    amountOff,
+    buyQuantity,
+    getQuantity,
+    minSpend,
+    startDate,
+    endDate,
+    daysOfWeek,
+    startTime,
+    endTime,
+  } = body;
+
+  return {
+    name,
+    description,
+    isActive,
+    itemIds,
+    categories,
+    percentOff,
+    amountOff,
+    buyQuantity,
+    getQuantity,
+    minSpend,
+    startDate,
+    endDate,
+    daysOfWeek,
+    startTime,
+    endTime,
+  };
+};
+
+/**
+ * @route POST /tickets/:shopId/promotions
+ * @desc Create a promotion
+ */
+export const createPromotion = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+
+  const promotion = await promotionService.createPromotion(
+    {
+      ...pickPromotionFields(req.body),
+      name: req.body.name,
+      type: req.body.type,
+      shopId,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: "Promotion created successfully",
+    data: promotion,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/promotions
+ * @desc Get promotions
+ */
+export const getPromotions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { type, isActive, page = "1", limit = "20" } = req.query;
+
+  const result = await promotionService.getPromotions(
+    shopId,
+    {
+      type: type as PromotionType | undefined,
+      isActive: isActive !== undefined ? isActive === "true" : undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Promotions retrieved successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/promotions/:promotionId
+ * @desc Get a single promotion
+ */
+export const getPromotionById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, promotionId } = req.params;
+
+  const promotion = await promotionService.getPromotionById(promotionId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Promotion retrieved successfully",
+    data: promotion,
+  });
+});
+
+/**
+ * @route PUT /tickets/:shopId/promotions/:promotionId
+ * @desc Update a promotion
+ */
+export const updatePromotion = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, promotionId } = req.params;
+
+  const promotion = await promotionService.updatePromotion(
+    promotionId,
+    shopId,
+    pickPromotionFields(req.body),
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Promotion updated successfully",
+    data: promotion,
+  });
+});
+
+/**
+ * @route DELETE /tickets/:shopId/promotions/:promotionId
+ * @desc Delete a promotion
+ */
+export const deletePromotion = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, promotionId } = req.params;
+
+  await promotionService.deletePromotion(promotionId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Promotion deleted successfully",
+  });
+});
@@ -0,0 +1,323 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { QuoteService } from "../services/quote.service";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { attachmentDisposition } from "../../../shared/utils/contentDisposition";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { QuoteStatus, ReceiptFormat } from "../types";
+import { ReceiptPaperWidth } from "../../auth/models/shop";
+import crypto from "crypto";
+
+const quoteService = new QuoteService();
+
+/**
+ * @route POST /tickets/:shopId/quotes
+ * @desc Create a quote priced like a ticket, without reducing stock
+ */
+export const createQuote = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { items, customerId, customerName, customerPhone, customerAddress, notes, validUntil } =
+    req.body;
+
+  const quote = await quoteService.createQuote(
+    {
+      shopId,
+      items,
+      customerId,
+      customerName,
+      customerPhone,
+      customerAddress,
+      notes,
+      validUntil: validUntil ? new Date(validUntil) : undefined,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: "Quote created successfully",
+    data: quote,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/quotes
+ * @desc Get quotes
+ */
+export const getQuotes = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { status, customerId, page = "1", limit = "20" } = req.query;
+
+  const result = await quoteService.getQuotes(
+    shopId,
+    {
+      status: status as QuoteStatus | undefined,
+      customerId: customerId as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Quotes retrieved successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/quotes/:quoteId
+ * @desc Get a single quote
+ */
+export const getQuoteById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, quoteId } = req.params;
+
+  const quote = await quoteService.getQuoteById(quoteId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Quote retrieved successfully",
+    data: quote,
+  });
+});
+
+/**
+ * @route PUT /tickets/:shopId/quotes/:quoteId
+ * @desc Edit a quote, repricing its items
+ */
+export const updateQuote = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, quoteId } = req.params;
+  const { items, customerId, customerName, customerPhone, customerAddress, notes, validUntil } =
+    req.body;
+
+  const quote = await quoteService.updateQuote(
+    quoteId,
+    shopId,
+    {
+      items,
+      customerId,
+      customerName,
+      customerPhone,
+      customerAddress,
+      notes,
+      validUntil: validUntil ? new Date(validUntil) : undefined,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Quote updated successfully",
+    data: quote,
+  });
+});
+
+/**
+ * @route POST /tickets/:shopId/quotes/:quoteId/send
+ * @desc Mark a quote as sent to the customer
+ */
+export const sendQuote = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, quoteId } = req.params;
+
+  const quote = await quoteService.sendQuote(quoteId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Quote marked as sent",
+    data: quote,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/quotes/:quoteId/print
+ * @desc Print a quote as a proforma invoice in HTML, plain text or ESC/POS
+ */
+export const printQuote = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, quoteId } = req.params;
+  const format = (req.query.format as ReceiptFormat) || "html";
+  const paperWidth = req.query.paperWidth as ReceiptPaperWidth | undefined;
+
+  const printout = await quoteService.getQuotePrint(
+    quoteId,
+    shopId,
+    { format, paperWidth },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  if (format === "escpos") {
+    res.setHeader("Content-Type", "application/octet-stream");
+    res.setHeader(
+      "Content-Disposition",
+      attachmentDisposition(`quote-${printout.quoteNumber}.bin`)
+    );
+  } else if (format === "text") {
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+  } else {
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+  }
+  res.status(200).send(printout.content);
+});
+
+/**
+ * @route POST /tickets/:shopId/quotes/:quoteId/convert
+ * @desc Accept a quote and ring it up as a real sale
+ */
+export const convertQuote = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, quoteId } = req.params;
+  const {
+    soldBy,
+    paymentMethod,
+    tenders,
+    cashReceived,
+    creditOverride,
+    customerId,
+    customerName,
+    customerPhone,
+    customerAddress,
+    dueDate,
+    notes,
+    transactionReference,
+  } = req.body;
+
+  const result = await quoteService.convertQuote(
+    quoteId,
+    shopId,
+    {
+      soldBy,
+      paymentMethod,
+      tenders,
+      cashReceived,
+      creditOverride,
+      customerId,
+      customerName,
+      customerPhone,
+      customerAddress,
+      dueDate,
+      notes,
+      transactionReference,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: result.ticket.isCredit
+      ? "Quote accepted and rung up as a credit sale"
+      : "Quote accepted and rung up successfully",
+    data: result,
+  });
+});
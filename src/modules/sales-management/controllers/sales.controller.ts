@@ -3,7 +3,11 @@ import { validationResult } from "express-validator";
 import { TicketService } from "../services/sales.service";
 import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
 import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { attachmentDisposition } from "../../../shared/utils/contentDisposition";
 import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { ReceiptFormat } from "../types";
+import { renderAgingCsv } from "../utils/receivables";
+import { ReceiptPaperWidth } from "../../auth/models/shop";
 import crypto from "crypto";
 
 const ticketService = new TicketService();
@@ -64,6 +68,7 @@ export const getTicketList = asyncHandler(async (req: AuthenticatedRequest, res:
     includeRefunded = "false",
     isCredit,
     creditStatus,
+    customerId,
     page = "1",
     limit = "20",
     sortBy = "date",
@@ -79,7 +84,8 @@ export const getTicketList = asyncHandler(async (req: AuthenticatedRequest, res:
       paymentMethod: paymentMethod as string,
       includeRefunded: includeRefunded === "true",
       isCredit: isCredit ? isCredit === "true" : undefined,
-      creditStatus: creditStatus as "pending" | "partial" | "paid" | undefined,
+      creditStatus: creditStatus as "pending" | "partial" | "paid" | "written_off" | undefined,
+      customerId: customerId as string | undefined,
       page: parseInt(page as string),
       limit: parseInt(limit as string),
       sortBy: sortBy as string,
@@ -190,6 +196,52 @@ export const getTicketById = asyncHandler(async (req: AuthenticatedRequest, res:
   });
 });
 
+/**
+ * @route GET /tickets/:shopId/:ticketId/receipt
+ * @desc Get a ticket's receipt as HTML, plain text or raw ESC/POS bytes
+ */
+export const getTicketReceipt = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, ticketId } = req.params;
+  const format = (req.query.format as ReceiptFormat) || "html";
+  const paperWidth = req.query.paperWidth as ReceiptPaperWidth | undefined;
+
+  const receipt = await ticketService.getReceipt(
+    ticketId,
+    shopId,
+    { format, paperWidth },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  if (format === "escpos") {
+    res.setHeader("Content-Type", "application/octet-stream");
+    res.setHeader(
+      "Content-Disposition",
+      attachmentDisposition(`receipt-${receipt.ticketNumber}.bin`)
+    );
+  } else if (format === "text") {
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+  } else {
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+  }
+  res.status(200).send(receipt.content);
+});
+
 /**
  * @route PUT /tickets/:shopId/:ticketId
  * @desc Update ticket details
@@ -261,6 +313,150 @@ export const refundTicket = asyncHandler(async (req: AuthenticatedRequest, res:
   });
 });
 
+/**
+ * @route POST /tickets/:shopId/:ticketId/returns
+ * @desc Return selected lines/quantities of a ticket (partial refund)
+ */
+export const createTicketReturn = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, ticketId } = req.params;
+  const { items, refundMethod, reason, processedBy } = req.body;
+
+  const result = await ticketService.returnTicketItems(
+    {
+      ticketId,
+      shopId,
+      items,
+      refundMethod,
+      reason,
+      processedBy,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: result.ticket.refunded
+      ? "Return processed. All items on the ticket have been returned"
+      : "Return processed successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route GET /tickets/:shopId/:ticketId/returns
+ * @desc Get return history of a ticket
+ */
+export const getTicketReturns = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, ticketId } = req.params;
+
+  const result = await ticketService.getTicketReturns(ticketId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Ticket returns retrieved successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route POST /tickets/:shopId/:ticketId/exchange
+ * @desc Exchange returned lines of a ticket for new items
+ */
+export const createTicketExchange = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, ticketId } = req.params;
+  const {
+    returnItems,
+    newItems,
+    paymentMethod,
+    refundMethod,
+    reason,
+    processedBy,
+    creditOverride,
+    dueDate,
+    notes,
+    transactionReference,
+  } = req.body;
+
+  const result = await ticketService.exchangeTicketItems(
+    {
+      ticketId,
+      shopId,
+      returnItems,
+      newItems,
+      paymentMethod,
+      refundMethod,
+      reason,
+      processedBy,
+      creditOverride,
+      dueDate: dueDate ? new Date(dueDate) : undefined,
+      notes,
+      transactionReference,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  let message = "Exchange processed successfully";
+  if (result.amountDue > 0) {
+    message = `Exchange processed. Customer pays ${result.amountDue}`;
+  } else if (result.changeDue > 0) {
+    message = `Exchange processed. Give customer ${result.changeDue} change`;
+  }
+
+  res.status(201).json({
+    success: true,
+    message,
+    data: result,
+  });
+});
+
 /**
  * @route DELETE /tickets/:shopId/:ticketId
  * @desc Delete a ticket (owner only)
@@ -418,6 +614,39 @@ export const recordCreditPayment = asyncHandler(async (req: AuthenticatedRequest
   });
 });
 
+/**
+ * @route POST /tickets/:shopId/:ticketId/write-off
+ * @desc Write off the outstanding balance of a credit ticket as bad debt (owner only)
+ */
+export const writeOffCreditTicket = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, ticketId } = req.params;
+  const { reason } = req.body;
+
+  const ticket = await ticketService.writeOffCreditTicket(ticketId, shopId, reason, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Credit written off successfully",
+    data: ticket,
+  });
+});
+
 /**
  * @route GET /tickets/:shopId/credit
  * @desc Get all credit tickets
@@ -448,7 +677,7 @@ export const getCreditTickets = asyncHandler(async (req: AuthenticatedRequest, r
   const result = await ticketService.getCreditTickets(
     shopId,
     {
-      creditStatus: creditStatus as "pending" | "partial" | "paid" | undefined,
+      creditStatus: creditStatus as "pending" | "partial" | "paid" | "written_off" | undefined,
       customerPhone: customerPhone as string | undefined,
       startDate: startDate ? new Date(startDate as string) : undefined,
       endDate: endDate ? new Date(endDate as string) : undefined,
@@ -473,6 +702,50 @@ export const getCreditTickets = asyncHandler(async (req: AuthenticatedRequest, r
   });
 });
 
+/**
+ * @route GET /tickets/:shopId/credit/aging
+ * @desc Get outstanding credit aged by days past due, as JSON or CSV
+ */
+export const getReceivablesAging = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { asOf, format = "json" } = req.query;
+
+  const report = await ticketService.getReceivablesAging(
+    shopId,
+    asOf ? new Date(asOf as string) : new Date(),
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  if (format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="receivables-aging-${shopId}.csv"`);
+    res.status(200).send(renderAgingCsv(report));
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    message: "Receivables aging retrieved successfully",
+    data: report,
+  });
+});
+
 /**
  * @route GET /tickets/:shopId/credit/summary
  * @desc Get credit sales summary
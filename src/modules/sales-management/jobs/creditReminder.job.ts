@@ -0,0 +1,17 @@
+import { CreditReminderService } from "../services/creditReminder.service";
+import { createIntervalJob } from "./scheduler";
+
+// Texts customers about upcoming and overdue credit. Set
+// CREDIT_REMINDER_JOB_INTERVAL_MINUTES=0 to turn it off.
+const creditReminderJob = createIntervalJob({
+  name: "CREDIT_REMINDERS",
+  intervalEnv: "CREDIT_REMINDER_JOB_INTERVAL_MINUTES",
+  defaultMinutes: 60,
+  run: async () => {
+    await new CreditReminderService().sendDueRemindersToAllShops();
+  },
+});
+
+export const startCreditReminderJob = (): void => creditReminderJob.start();
+
+export const stopCreditReminderJob = (): void => creditReminderJob.stop();
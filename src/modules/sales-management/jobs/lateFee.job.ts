@@ -0,0 +1,17 @@
+import { LateFeeService } from "../services/lateFee.service";
+import { createIntervalJob } from "./scheduler";
+
+// Checks overdue tickets for late fees. Set LATE_FEE_JOB_INTERVAL_MINUTES=0
+// to turn it off.
+const lateFeeJob = createIntervalJob({
+  name: "LATE_FEES",
+  intervalEnv: "LATE_FEE_JOB_INTERVAL_MINUTES",
+  defaultMinutes: 60,
+  run: async () => {
+    await new LateFeeService().applyLateFeesToAllShops();
+  },
+});
+
+export const startLateFeeJob = (): void => lateFeeJob.start();
+
+export const stopLateFeeJob = (): void => lateFeeJob.stop();
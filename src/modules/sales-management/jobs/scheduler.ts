@@ -0,0 +1,50 @@
+export interface IntervalJob {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Run a task every few minutes. The interval comes from the given
+ * environment variable, falling back to the default; 0 turns the job off.
+ * A tick is skipped while the previous run is still going.
+ */
+export const createIntervalJob = (options: {
+  name: string;
+  intervalEnv: string;
+  defaultMinutes: number;
+  run: () => Promise<void>;
+}): IntervalJob => {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  const tick = async (): Promise<void> => {
+    if (running) return;
+    running = true;
+
+    try {
+      await options.run();
+    } catch (error) {
+      console.error(`[${options.name}] Job failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    start() {
+      const minutes = Number(process.env[options.intervalEnv] ?? options.defaultMinutes);
+      if (timer || !Number.isFinite(minutes) || minutes <= 0) return;
+
+      timer = setInterval(tick, minutes * 60 * 1000);
+      timer.unref();
+      void tick();
+    },
+
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+  };
+};
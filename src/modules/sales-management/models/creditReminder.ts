@@ -0,0 +1,71 @@
+import mongoose, { Schema } from "mongoose";
+import { ICreditReminder } from "../types";
+
+const creditReminderSchema = new Schema<ICreditReminder>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    ticketId: {
+      type: Schema.Types.ObjectId,
+      ref: "Ticket",
+      required: true,
+    },
+    ticketNumber: {
+      type: String,
+      required: true,
+    },
+    customerName: {
+      type: String,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      required: true,
+    },
+    kind: {
+      type: String,
+      enum: ["before_due", "after_due", "manual"],
+      required: true,
+    },
+    offsetDays: {
+      type: Number,
+      required: true,
+    },
+    amountOwed: {
+      type: Number,
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["sent", "failed"],
+      required: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    providerMessageId: String,
+    error: String,
+    triggeredBy: {
+      type: Schema.Types.ObjectId,
+    },
+    sentAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { timestamps: true }
+);
+
+creditReminderSchema.index({ shopId: 1, sentAt: -1 });
+creditReminderSchema.index({ ticketId: 1, kind: 1, offsetDays: 1, status: 1 });
+
+const CreditReminder = mongoose.model<ICreditReminder>("CreditReminder", creditReminderSchema);
+export default CreditReminder;
@@ -0,0 +1,59 @@
+import mongoose, { Schema } from "mongoose";
+import { ICustomer } from "../types";
+
+const customerSchema = new Schema<ICustomer>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Customer name is required"],
+      trim: true,
+      maxlength: [100, "Customer name cannot exceed 100 characters"],
+    },
+    phone: {
+      type: String,
+      required: [true, "Customer phone number is required"],
+      trim: true,
+    },
+    alternatePhones: {
+      type: [{ type: String, trim: true }],
+      default: [],
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    address: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Address cannot exceed 500 characters"],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes cannot exceed 500 characters"],
+    },
+    creditLimit: {
+      type: Number,
+      min: [0, "Credit limit cannot be negative"],
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+customerSchema.index({ shopId: 1, phone: 1 }, { unique: true });
+customerSchema.index({ shopId: 1, alternatePhones: 1 });
+customerSchema.index({ shopId: 1, name: 1 });
+
+const Customer = mongoose.model<ICustomer>("Customer", customerSchema);
+export default Customer;
@@ -0,0 +1,108 @@
+import mongoose, { Schema } from "mongoose";
+import { ICustomerPayment, ICustomerPaymentAllocation } from "../types";
+
+const allocationSchema = new Schema<ICustomerPaymentAllocation>(
+  {
+    ticketId: {
+      type: Schema.Types.ObjectId,
+      ref: "Ticket",
+      required: true,
+    },
+    ticketNumber: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, "Allocated amount cannot be negative"],
+    },
+    amountOwedBefore: {
+      type: Number,
+      required: true,
+    },
+    amountOwedAfter: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const customerPaymentSchema = new Schema<ICustomerPayment>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: "Customer",
+      required: true,
+    },
+    customerName: {
+      type: String,
+      required: true,
+    },
+    customerPhone: {
+      type: String,
+      required: true,
+    },
+    receiptNumber: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0.01, "Payment amount must be greater than 0"],
+    },
+    paymentMethod: {
+      type: String,
+      enum: ["cash", "transfer"],
+      required: true,
+    },
+    transactionReference: {
+      type: String,
+      trim: true,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes cannot exceed 500 characters"],
+    },
+    allocations: {
+      type: [allocationSchema],
+      default: [],
+    },
+    balanceBefore: {
+      type: Number,
+      required: true,
+    },
+    balanceAfter: {
+      type: Number,
+      required: true,
+    },
+    receivedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "Staff",
+      required: true,
+    },
+    receivedByName: {
+      type: String,
+      required: true,
+    },
+    date: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { timestamps: true }
+);
+
+customerPaymentSchema.index({ shopId: 1, customerId: 1, date: -1 });
+customerPaymentSchema.index({ shopId: 1, receiptNumber: 1 }, { unique: true });
+
+const CustomerPayment = mongoose.model<ICustomerPayment>("CustomerPayment", customerPaymentSchema);
+export default CustomerPayment;
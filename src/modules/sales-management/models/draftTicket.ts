@@ -0,0 +1,103 @@
+import mongoose, { Schema } from "mongoose";
+import { IDraftTicket, IDraftTicketItem } from "../types";
+
+const draftTicketItemSchema = new Schema<IDraftTicketItem>(
+  {
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: "Inventory",
+      required: true,
+    },
+    itemName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: [1, "Quantity must be at least 1"],
+    },
+    discount: {
+      type: Number,
+      min: [0, "Discount cannot be negative"],
+      max: [50, "Discount cannot exceed 50%"],
+    },
+    sellingPrice: {
+      type: Number,
+      min: [0, "Selling price cannot be negative"],
+    },
+  },
+  { _id: false }
+);
+
+const draftTicketSchema = new Schema<IDraftTicket>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    label: {
+      type: String,
+      trim: true,
+      maxlength: [100, "Label cannot exceed 100 characters"],
+    },
+    items: {
+      type: [draftTicketItemSchema],
+      default: [],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: "Customer",
+    },
+    customerName: {
+      type: String,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      trim: true,
+    },
+    customerAddress: {
+      type: String,
+      trim: true,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes cannot exceed 500 characters"],
+    },
+    status: {
+      type: String,
+      enum: ["open", "converted", "cancelled"],
+      default: "open",
+    },
+    reserveStock: {
+      type: Boolean,
+      default: false,
+    },
+    reservedUntil: Date,
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    lastUpdatedBy: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    convertedTicketId: {
+      type: Schema.Types.ObjectId,
+      ref: "Ticket",
+    },
+    convertedAt: Date,
+    cancelledAt: Date,
+  },
+  { timestamps: true }
+);
+
+draftTicketSchema.index({ shopId: 1, status: 1, updatedAt: -1 });
+draftTicketSchema.index({ shopId: 1, status: 1, reservedUntil: 1 });
+
+const DraftTicket = mongoose.model<IDraftTicket>("DraftTicket", draftTicketSchema);
+export default DraftTicket;
@@ -0,0 +1,143 @@
+import mongoose, { Schema } from "mongoose";
+import { IDrawerMovement, IDrawerSession, IDrawerSummary } from "../types";
+
+const drawerMovementSchema = new Schema<IDrawerMovement>({
+  type: {
+    type: String,
+    enum: ["pay_in", "pay_out"],
+    required: true,
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: [0.01, "Amount must be greater than 0"],
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [200, "Reason cannot exceed 200 characters"],
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "Staff",
+    required: true,
+  },
+  recordedByName: {
+    type: String,
+    required: true,
+  },
+  date: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const tenderTotalsSchema = new Schema(
+  {
+    cash: { type: Number, default: 0 },
+    transfer: { type: Number, default: 0 },
+    credit: { type: Number, default: 0 },
+    exchange: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+// Snapshot of the session taken when the drawer is closed
+const drawerSummarySchema = new Schema<IDrawerSummary>(
+  {
+    ticketCount: { type: Number, default: 0 },
+    grossSales: { type: Number, default: 0 },
+    discounts: { type: Number, default: 0 },
+    tenders: { type: tenderTotalsSchema, default: () => ({}) },
+    refundCount: { type: Number, default: 0 },
+    refundTotal: { type: Number, default: 0 },
+    cashSales: { type: Number, default: 0 },
+    cashCreditPayments: { type: Number, default: 0 },
+    cashLayawayPayments: { type: Number, default: 0 },
+    cashRefunds: { type: Number, default: 0 },
+    payIns: { type: Number, default: 0 },
+    payOuts: { type: Number, default: 0 },
+    expectedCash: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const drawerSessionSchema = new Schema<IDrawerSession>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    staffId: {
+      type: Schema.Types.ObjectId,
+      ref: "Staff",
+      required: true,
+    },
+    staffName: {
+      type: String,
+      required: true,
+    },
+    registerName: {
+      type: String,
+      trim: true,
+      maxlength: [50, "Register name cannot exceed 50 characters"],
+    },
+    status: {
+      type: String,
+      enum: ["open", "closed"],
+      default: "open",
+    },
+    openingFloat: {
+      type: Number,
+      required: true,
+      min: [0, "Opening float cannot be negative"],
+    },
+    openedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    openingNotes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes cannot exceed 500 characters"],
+    },
+    movements: {
+      type: [drawerMovementSchema],
+      default: [],
+    },
+    closedAt: Date,
+    closedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "Staff",
+    },
+    closedByName: String,
+    countedCash: {
+      type: Number,
+      min: [0, "Counted cash cannot be negative"],
+    },
+    expectedCash: Number,
+    variance: Number,
+    summary: {
+      type: drawerSummarySchema,
+    },
+    closingNotes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes cannot exceed 500 characters"],
+    },
+  },
+  { timestamps: true }
+);
+
+// A staff member has at most one open drawer per shop
+drawerSessionSchema.index(
+  { shopId: 1, staffId: 1 },
+  { unique: true, partialFilterExpression: { status: "open" } }
+);
+drawerSessionSchema.index({ shopId: 1, openedAt: -1 });
+drawerSessionSchema.index({ shopId: 1, status: 1 });
+
+const DrawerSession = mongoose.model<IDrawerSession>("DrawerSession", drawerSessionSchema);
+export default DrawerSession;
@@ -0,0 +1,194 @@
+import mongoose, { Schema } from "mongoose";
+import { ICreditPayment, ILayaway, ILayawayCancellation } from "../types";
+import { ticketItemSchema } from "./sales";
+
+const layawayPaymentSchema = new Schema<ICreditPayment>({
+  amount: {
+    type: Number,
+    required: true,
+    min: [0, "Payment amount cannot be negative"],
+  },
+  paymentMethod: {
+    type: String,
+    enum: ["cash", "transfer"],
+    required: true,
+  },
+  paymentDate: {
+    type: Date,
+    default: Date.now,
+  },
+  receivedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "Staff",
+    required: true,
+  },
+  receivedByName: {
+    type: String,
+    required: true,
+  },
+  transactionReference: {
+    type: String,
+    trim: true,
+  },
+  notes: {
+    type: String,
+    trim: true,
+  },
+});
+
+const layawayCancellationSchema = new Schema<ILayawayCancellation>(
+  {
+    reason: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [500, "Reason cannot exceed 500 characters"],
+    },
+    forfeitedAmount: {
+      type: Number,
+      required: true,
+      min: [0, "Forfeited amount cannot be negative"],
+    },
+    refundAmount: {
+      type: Number,
+      required: true,
+      min: [0, "Refund amount cannot be negative"],
+    },
+    refundMethod: {
+      type: String,
+      enum: ["cash", "transfer"],
+    },
+    cancelledBy: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    date: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const layawaySchema = new Schema<ILayaway>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    layawayNumber: {
+      type: String,
+      required: true,
+    },
+    items: {
+      type: [ticketItemSchema],
+      required: true,
+      validate: {
+        validator: (items: unknown[]) => items && items.length > 0,
+        message: "Layaway must contain at least one item",
+      },
+    },
+    subtotal: {
+      type: Number,
+      required: true,
+    },
+    taxAmount: {
+      type: Number,
+      default: 0,
+    },
+    totalAmount: {
+      type: Number,
+      required: true,
+      min: [0, "Total amount cannot be negative"],
+    },
+    totalProfit: {
+      type: Number,
+      required: true,
+    },
+    totalItemCount: {
+      type: Number,
+      required: true,
+    },
+    promotionDiscount: {
+      type: Number,
+      default: 0,
+    },
+    taxInclusive: {
+      type: Boolean,
+      default: false,
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: "Customer",
+    },
+    customerName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    customerAddress: {
+      type: String,
+      trim: true,
+    },
+    soldBy: {
+      type: Schema.Types.ObjectId,
+      ref: "Staff",
+      required: true,
+    },
+    soldByName: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["active", "completed", "cancelled"],
+      default: "active",
+    },
+    amountPaid: {
+      type: Number,
+      required: true,
+      min: [0, "Amount paid cannot be negative"],
+    },
+    amountOwed: {
+      type: Number,
+      required: true,
+      min: [0, "Amount owed cannot be negative"],
+    },
+    dueDate: {
+      type: Date,
+      required: true,
+    },
+    payments: {
+      type: [layawayPaymentSchema],
+      default: [],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes cannot exceed 500 characters"],
+    },
+    ticketId: {
+      type: Schema.Types.ObjectId,
+      ref: "Ticket",
+    },
+    completedAt: Date,
+    cancellation: {
+      type: layawayCancellationSchema,
+    },
+  },
+  { timestamps: true }
+);
+
+layawaySchema.index({ shopId: 1, layawayNumber: 1 }, { unique: true });
+layawaySchema.index({ shopId: 1, status: 1, createdAt: -1 });
+layawaySchema.index({ shopId: 1, status: 1, dueDate: 1 });
+layawaySchema.index({ shopId: 1, customerId: 1, createdAt: -1 });
+
+const Layaway = mongoose.model<ILayaway>("Layaway", layawaySchema);
+export default Layaway;
@@ -0,0 +1,87 @@
+import mongoose, { Schema } from "mongoose";
+import { IPromotion, PromotionType } from "../types";
+
+export const PROMOTION_TYPES: PromotionType[] = [
+  "buy_x_get_y",
+  "fixed_amount",
+  "category_percent",
+  "happy_hour",
+  "ticket_threshold",
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const promotionSchema = new Schema<IPromotion>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Promotion name is required"],
+      trim: true,
+      maxlength: [100, "Promotion name cannot exceed 100 characters"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Description cannot exceed 500 characters"],
+    },
+    type: {
+      type: String,
+      enum: PROMOTION_TYPES,
+      required: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    itemIds: [{ type: Schema.Types.ObjectId, ref: "Inventory" }],
+    categories: [{ type: String, trim: true }],
+    percentOff: {
+      type: Number,
+      min: [0, "Percent off cannot be negative"],
+      max: [100, "Percent off cannot exceed 100%"],
+    },
+    amountOff: {
+      type: Number,
+      min: [0, "Amount off cannot be negative"],
+    },
+    buyQuantity: {
+      type: Number,
+      min: [1, "Buy quantity must be at least 1"],
+    },
+    getQuantity: {
+      type: Number,
+      min: [1, "Free quantity must be at least 1"],
+    },
+    minSpend: {
+      type: Number,
+      min: [0, "Minimum spend cannot be negative"],
+    },
+    startDate: Date,
+    endDate: Date,
+    daysOfWeek: [{ type: Number, min: 0, max: 6 }],
+    startTime: {
+      type: String,
+      match: [TIME_PATTERN, "Start time must be in HH:mm format"],
+    },
+    endTime: {
+      type: String,
+      match: [TIME_PATTERN, "End time must be in HH:mm format"],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+promotionSchema.index({ shopId: 1, isActive: 1 });
+promotionSchema.index({ shopId: 1, name: 1 }, { unique: true });
+
+const Promotion = mongoose.model<IPromotion>("Promotion", promotionSchema);
+export default Promotion;
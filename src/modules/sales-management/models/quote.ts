@@ -0,0 +1,173 @@
+import mongoose, { Schema } from "mongoose";
+import { IQuote, IQuoteItem, ITicketLinePromotion } from "../types";
+
+const quoteLinePromotionSchema = new Schema<ITicketLinePromotion>(
+  {
+    promotionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Promotion",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const quoteItemSchema = new Schema<IQuoteItem>(
+  {
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: "Inventory",
+      required: true,
+    },
+    itemName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    itemCategory: {
+      type: String,
+      trim: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: [1, "Quantity must be at least 1"],
+    },
+    sellingPrice: {
+      type: Number,
+      required: true,
+      min: [0, "Selling price cannot be negative"],
+    },
+    discount: {
+      type: Number,
+      default: 0,
+      min: [0, "Discount cannot be negative"],
+      max: [50, "Discount cannot exceed 50%"],
+    },
+    lineTotal: {
+      type: Number,
+      required: true,
+    },
+    taxRate: {
+      type: Number,
+      default: 0,
+    },
+    taxAmount: {
+      type: Number,
+      default: 0,
+    },
+    promotions: {
+      type: [quoteLinePromotionSchema],
+      default: [],
+    },
+    promotionDiscount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
+const quoteSchema = new Schema<IQuote>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    quoteNumber: {
+      type: String,
+      required: true,
+    },
+    items: {
+      type: [quoteItemSchema],
+      default: [],
+    },
+    subtotal: {
+      type: Number,
+      required: true,
+    },
+    taxAmount: {
+      type: Number,
+      default: 0,
+    },
+    totalAmount: {
+      type: Number,
+      required: true,
+    },
+    promotionDiscount: {
+      type: Number,
+      default: 0,
+    },
+    taxInclusive: {
+      type: Boolean,
+      default: false,
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: "Customer",
+    },
+    customerName: {
+      type: String,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      trim: true,
+    },
+    customerAddress: {
+      type: String,
+      trim: true,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes cannot exceed 500 characters"],
+    },
+    status: {
+      type: String,
+      enum: ["draft", "sent", "accepted", "expired"],
+      default: "draft",
+    },
+    validUntil: {
+      type: Date,
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    lastUpdatedBy: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    sentAt: Date,
+    convertedTicketId: {
+      type: Schema.Types.ObjectId,
+      ref: "Ticket",
+    },
+    acceptedAt: Date,
+    expiredAt: Date,
+  },
+  { timestamps: true }
+);
+
+quoteSchema.index({ shopId: 1, quoteNumber: 1 }, { unique: true });
+quoteSchema.index({ shopId: 1, status: 1, createdAt: -1 });
+quoteSchema.index({ shopId: 1, status: 1, validUntil: 1 });
+quoteSchema.index({ shopId: 1, customerId: 1, createdAt: -1 });
+
+const Quote = mongoose.model<IQuote>("Quote", quoteSchema);
+export default Quote;
@@ -1,7 +1,15 @@
 import mongoose, { Schema } from "mongoose";
-import { ITicket, ITicketItem } from "../types";
+import {
+  ITicket,
+  ITicketCharge,
+  ITicketItem,
+  ITicketReturn,
+  ITicketTender,
+  ITicketWriteOff,
+} from "../types";
+import { PROMOTION_TYPES } from "./promotion";
 
-const ticketItemSchema = new Schema<ITicketItem>(
+export const ticketItemSchema = new Schema<ITicketItem>(
   {
     itemId: {
       type: Schema.Types.ObjectId,
@@ -47,10 +55,146 @@ const ticketItemSchema = new Schema<ITicketItem>(
       type: Number,
       required: true,
     },
+    taxRate: {
+      type: Number,
+      default: 0,
+      min: [0, "Tax rate cannot be negative"],
+    },
+    taxAmount: {
+      type: Number,
+      default: 0,
+      min: [0, "Tax amount cannot be negative"],
+    },
+    quantityReturned: {
+      type: Number,
+      default: 0,
+      min: [0, "Returned quantity cannot be negative"],
+    },
+    refundedAmount: {
+      type: Number,
+      default: 0,
+      min: [0, "Refunded amount cannot be negative"],
+    },
+    taxRefunded: {
+      type: Number,
+      default: 0,
+      min: [0, "Refunded tax cannot be negative"],
+    },
+    promotions: [
+      {
+        _id: false,
+        promotionId: { type: Schema.Types.ObjectId, ref: "Promotion", required: true },
+        name: { type: String, required: true, trim: true },
+        type: { type: String, enum: PROMOTION_TYPES, required: true },
+        amount: { type: Number, required: true, min: [0, "Promotion amount cannot be negative"] },
+      },
+    ],
+    promotionDiscount: {
+      type: Number,
+      default: 0,
+      min: [0, "Promotion discount cannot be negative"],
+    },
   },
   { _id: false }
 );
 
+const ticketTenderSchema = new Schema<ITicketTender>(
+  {
+    type: {
+      type: String,
+      enum: ["cash", "transfer", "credit", "exchange"],
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0.01, "Tender amount must be greater than 0"],
+    },
+    reference: { type: String, trim: true },
+  },
+  { _id: false }
+);
+
+const ticketReturnSchema = new Schema<ITicketReturn>(
+  {
+    items: [
+      {
+        _id: false,
+        itemId: { type: Schema.Types.ObjectId, ref: "Inventory", required: true },
+        itemName: { type: String, required: true, trim: true },
+        quantity: { type: Number, required: true, min: [1, "Return quantity must be at least 1"] },
+        refundAmount: { type: Number, required: true, min: [0, "Refund amount cannot be negative"] },
+        taxRefunded: { type: Number, default: 0 },
+        profitReversed: { type: Number, required: true },
+      },
+    ],
+    refundAmount: {
+      type: Number,
+      required: true,
+      min: [0, "Refund amount cannot be negative"],
+    },
+    refundMethod: {
+      type: String,
+      enum: ["cash", "transfer"],
+      required: true,
+    },
+    appliedToBalance: {
+      type: Number,
+      default: 0,
+      min: [0, "Amount applied to balance cannot be negative"],
+    },
+    exchangeTicketId: { type: Schema.Types.ObjectId, ref: "Ticket" },
+    exchangeAmount: {
+      type: Number,
+      default: 0,
+      min: [0, "Exchange amount cannot be negative"],
+    },
+    reason: { type: String, required: true, trim: true },
+    processedBy: { type: Schema.Types.ObjectId, ref: "Staff", required: true },
+    processedByName: { type: String, required: true },
+    date: { type: Date, default: Date.now },
+  },
+  { timestamps: false }
+);
+
+const ticketWriteOffSchema = new Schema<ITicketWriteOff>(
+  {
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, "Written off amount cannot be negative"],
+    },
+    lateFees: {
+      type: Number,
+      default: 0,
+      min: [0, "Written off late fees cannot be negative"],
+    },
+    reason: { type: String, required: true, trim: true },
+    writtenOffBy: { type: Schema.Types.ObjectId, required: true },
+    date: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const ticketChargeSchema = new Schema<ITicketCharge>(
+  {
+    type: { type: String, enum: ["late_fee"], default: "late_fee" },
+    period: { type: Number, required: true, min: 1 },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, "Charge amount cannot be negative"],
+    },
+    basis: { type: Number, required: true },
+    appliedAt: { type: Date, default: Date.now },
+    waived: { type: Boolean, default: false },
+    waivedAt: Date,
+    waivedBy: { type: Schema.Types.ObjectId },
+    waiveReason: { type: String, trim: true },
+  },
+  { timestamps: false }
+);
+
 const ticketSchema = new Schema<ITicket>(
   {
     ticketNumber: {
@@ -95,7 +239,21 @@ const ticketSchema = new Schema<ITicket>(
     totalItemCount: {
       type: Number,
       required: true,
-      min: [1, "Total item count must be at least 1"],
+      min: [0, "Total item count cannot be negative"],
+    },
+    totalRefunded: {
+      type: Number,
+      default: 0,
+      min: [0, "Total refunded cannot be negative"],
+    },
+    promotionDiscount: {
+      type: Number,
+      default: 0,
+      min: [0, "Promotion discount cannot be negative"],
+    },
+    taxInclusive: {
+      type: Boolean,
+      default: false,
     },
     soldBy: {
       type: Schema.Types.ObjectId,
@@ -110,15 +268,32 @@ const ticketSchema = new Schema<ITicket>(
     },
     paymentMethod: {
       type: String,
-      enum: ["cash", "transfer", "credit"],
+      enum: ["cash", "transfer", "credit", "mixed"],
       required: true,
       index: true,
     },
+    tenders: {
+      type: [ticketTenderSchema],
+      default: [],
+    },
+    cashReceived: {
+      type: Number,
+      min: [0, "Cash received cannot be negative"],
+    },
+    changeGiven: {
+      type: Number,
+      default: 0,
+      min: [0, "Change cannot be negative"],
+    },
     transactionReference: {
       type: String,
       trim: true,
       sparse: true,
     },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: "Customer",
+    },
     customerName: {
       type: String,
       trim: true,
@@ -139,7 +314,7 @@ const ticketSchema = new Schema<ITicket>(
     },
     creditStatus: {
       type: String,
-      enum: ["pending", "partial", "paid"],
+      enum: ["pending", "partial", "paid", "written_off"],
       default: "pending",
       index: true,
     },
@@ -190,8 +365,20 @@ const ticketSchema = new Schema<ITicket>(
           type: String,
           trim: true,
         },
+        customerPaymentId: {
+          type: Schema.Types.ObjectId,
+          ref: "CustomerPayment",
+        },
       },
     ],
+    writeOff: {
+      type: ticketWriteOffSchema,
+      default: undefined,
+    },
+    charges: {
+      type: [ticketChargeSchema],
+      default: [],
+    },
     notes: {
       type: String,
       trim: true,
@@ -210,6 +397,21 @@ const ticketSchema = new Schema<ITicket>(
     refundedAt: { type: Date },
     refundedBy: { type: Schema.Types.ObjectId, ref: "Staff" },
     refundReason: { type: String, trim: true },
+    returns: {
+      type: [ticketReturnSchema],
+      default: [],
+    },
+
+    // Exchange info
+    exchangedFrom: { type: Schema.Types.ObjectId, ref: "Ticket", index: true },
+    exchangeCredit: {
+      type: Number,
+      default: 0,
+      min: [0, "Exchange credit cannot be negative"],
+    },
+
+    // Set on tickets created when a layaway is paid off
+    layawayId: { type: Schema.Types.ObjectId, ref: "Layaway" },
   },
   { timestamps: true }
 );
@@ -218,7 +420,10 @@ ticketSchema.index({ shopId: 1, ticketNumber: 1 }, { unique: true });
 ticketSchema.index({ shopId: 1, date: -1 });
 ticketSchema.index({ shopId: 1, isCredit: 1, creditStatus: 1 });
 ticketSchema.index({ shopId: 1, customerPhone: 1 });
+ticketSchema.index({ shopId: 1, customerId: 1, date: -1 });
 ticketSchema.index({ shopId: 1, soldBy: 1, date: -1 });
+ticketSchema.index({ shopId: 1, "writeOff.date": 1 });
+ticketSchema.index({ shopId: 1, "items.promotions.promotionId": 1 });
 ticketSchema.index({ ticketNumber: "text", customerName: "text", notes: "text" });
 
 ticketSchema.virtual("averageItemPrice").get(function () {
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface ITicketCounter extends Document {
+  shopId: Types.ObjectId;
+  period: string; // "all", a year ("2026") or a day ("2026-01-31")
+  sequence: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ticketCounterSchema = new Schema<ITicketCounter>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    period: {
+      type: String,
+      required: true,
+    },
+    sequence: {
+      type: Number,
+      default: 0,
+      min: [0, "Sequence cannot be negative"],
+    },
+  },
+  { timestamps: true }
+);
+
+ticketCounterSchema.index({ shopId: 1, period: 1 }, { unique: true });
+
+const TicketCounter = mongoose.model<ITicketCounter>("TicketCounter", ticketCounterSchema);
+export default TicketCounter;
@@ -0,0 +1,59 @@
+import CreditReminder from "../models/creditReminder";
+import { ICreditReminder, CreditReminderKind, CreditReminderQueryOptions } from "../types";
+import { Types } from "mongoose";
+
+export class CreditReminderRepository {
+  // Log a send attempt
+  async create(data: Partial<ICreditReminder>): Promise<ICreditReminder> {
+    const reminder = await CreditReminder.create(data);
+    return reminder;
+  }
+
+  // Whether a scheduled reminder already went out for a ticket
+  async hasBeenSent(
+    ticketId: string,
+    kind: CreditReminderKind,
+    offsetDays: number
+  ): Promise<boolean> {
+    const reminder = await CreditReminder.exists({
+      ticketId: new Types.ObjectId(ticketId),
+      kind,
+      offsetDays,
+      status: "sent",
+    });
+    return !!reminder;
+  }
+
+  // Send attempts for a ticket, newest first
+  async findByTicket(ticketId: string): Promise<ICreditReminder[]> {
+    return (await CreditReminder.find({ ticketId: new Types.ObjectId(ticketId) })
+      .sort({ sentAt: -1 })
+      .lean()) as unknown as ICreditReminder[];
+  }
+
+  // Send attempts for a shop, newest first
+  async findByShopId(
+    shopId: string,
+    options: CreditReminderQueryOptions = {}
+  ): Promise<{ reminders: ICreditReminder[]; total: number; page: number; pages: number }> {
+    const { status, kind, page = 1, limit = 20 } = options;
+
+    const query: any = { shopId: new Types.ObjectId(shopId) };
+    if (status) query.status = status;
+    if (kind) query.kind = kind;
+
+    const skip = (page - 1) * limit;
+
+    const [reminders, total] = await Promise.all([
+      CreditReminder.find(query).sort({ sentAt: -1 }).skip(skip).limit(limit).lean(),
+      CreditReminder.countDocuments(query),
+    ]);
+
+    return {
+      reminders: reminders as unknown as ICreditReminder[],
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+}
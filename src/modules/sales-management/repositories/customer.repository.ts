@@ -0,0 +1,99 @@
+import Customer from "../models/customer";
+import { ICustomer, CustomerQueryOptions } from "../types";
+import { ClientSession, Types } from "mongoose";
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export class CustomerRepository {
+  // Create new customer
+  async create(data: Partial<ICustomer>): Promise<ICustomer> {
+    const customer = await Customer.create(data);
+    return customer;
+  }
+
+  // Find customer by ID
+  async findById(customerId: string): Promise<ICustomer | null> {
+    return await Customer.findById(customerId);
+  }
+
+  // Find customers by ID within a shop
+  async findByIds(shopId: string, customerIds: string[]): Promise<ICustomer[]> {
+    return await Customer.find({
+      shopId: new Types.ObjectId(shopId),
+      _id: { $in: customerIds.map((id) => new Types.ObjectId(id)) },
+    });
+  }
+
+  // Find the customer a phone number belongs to, including numbers of
+  // customers that were merged into it
+  async findByPhone(shopId: string, phone: string): Promise<ICustomer | null> {
+    return await Customer.findOne({
+      shopId: new Types.ObjectId(shopId),
+      $or: [{ phone }, { alternatePhones: phone }],
+    });
+  }
+
+  // Find customers by shop, searching name and phone numbers
+  async findByShopId(
+    shopId: string,
+    options: CustomerQueryOptions = {}
+  ): Promise<{ customers: ICustomer[]; total: number; page: number; pages: number }> {
+    const { search, page = 1, limit = 20 } = options;
+
+    const query: any = { shopId: new Types.ObjectId(shopId) };
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search), "i");
+      query.$or = [{ name: pattern }, { phone: pattern }, { alternatePhones: pattern }];
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [customers, total] = await Promise.all([
+      Customer.find(query).sort({ name: 1 }).skip(skip).limit(limit).lean(),
+      Customer.countDocuments(query),
+    ]);
+
+    return {
+      customers: customers as unknown as ICustomer[],
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  // Update customer
+  async update(customerId: string, updates: Partial<ICustomer>): Promise<ICustomer | null> {
+    return await Customer.findByIdAndUpdate(customerId, updates, {
+      new: true,
+      runValidators: true,
+    });
+  }
+
+  // Keep the phone numbers of merged customers on the surviving record
+  async addAlternatePhones(
+    customerId: string,
+    phones: string[],
+    session?: ClientSession
+  ): Promise<ICustomer | null> {
+    return await Customer.findByIdAndUpdate(
+      customerId,
+      { $addToSet: { alternatePhones: { $each: phones } } },
+      { new: true, session }
+    );
+  }
+
+  // Delete customer
+  async delete(customerId: string): Promise<boolean> {
+    const result = await Customer.findByIdAndDelete(customerId);
+    return !!result;
+  }
+
+  // Delete several customers
+  async deleteMany(customerIds: string[], session?: ClientSession): Promise<number> {
+    const result = await Customer.deleteMany(
+      { _id: { $in: customerIds.map((id) => new Types.ObjectId(id)) } },
+      { session }
+    );
+    return result.deletedCount;
+  }
+}
@@ -0,0 +1,58 @@
+import CustomerPayment from "../models/customerPayment";
+import { ICustomerPayment, CustomerPaymentQueryOptions } from "../types";
+import { ClientSession, Types } from "mongoose";
+
+export class CustomerPaymentRepository {
+  // Create new customer payment
+  async create(data: Partial<ICustomerPayment>, session?: ClientSession): Promise<ICustomerPayment> {
+    const [payment] = await CustomerPayment.create([data], { session });
+    return payment;
+  }
+
+  // Find customer payment by ID
+  async findById(paymentId: string): Promise<ICustomerPayment | null> {
+    return await CustomerPayment.findById(paymentId);
+  }
+
+  // Find a customer's payments, newest first
+  async findByCustomer(
+    shopId: string,
+    customerId: string,
+    options: CustomerPaymentQueryOptions = {}
+  ): Promise<{ payments: ICustomerPayment[]; total: number; page: number; pages: number }> {
+    const { page = 1, limit = 20 } = options;
+
+    const query = {
+      shopId: new Types.ObjectId(shopId),
+      customerId: new Types.ObjectId(customerId),
+    };
+
+    const skip = (page - 1) * limit;
+
+    const [payments, total] = await Promise.all([
+      CustomerPayment.find(query).sort({ date: -1 }).skip(skip).limit(limit).lean(),
+      CustomerPayment.countDocuments(query),
+    ]);
+
+    return {
+      payments: payments as unknown as ICustomerPayment[],
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  // Move payments from merged customers to the surviving customer
+  async reassignCustomer(
+    fromCustomerIds: string[],
+    toCustomerId: string,
+    session?: ClientSession
+  ): Promise<number> {
+    const result = await CustomerPayment.updateMany(
+      { customerId: { $in: fromCustomerIds.map((id) => new Types.ObjectId(id)) } },
+      { $set: { customerId: new Types.ObjectId(toCustomerId) } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,118 @@
+import DraftTicket from "../models/draftTicket";
+import { IDraftTicket, DraftTicketQueryOptions } from "../types";
+import { ClientSession, Types } from "mongoose";
+
+export class DraftTicketRepository {
+  // Create new draft ticket
+  async create(data: Partial<IDraftTicket>): Promise<IDraftTicket> {
+    const draft = await DraftTicket.create(data);
+    return draft;
+  }
+
+  // Find draft ticket by ID
+  async findById(draftId: string): Promise<IDraftTicket | null> {
+    return await DraftTicket.findById(draftId);
+  }
+
+  // Find draft tickets by shop, most recently touched first
+  async findByShopId(
+    shopId: string,
+    options: DraftTicketQueryOptions = {}
+  ): Promise<{ drafts: IDraftTicket[]; total: number; page: number; pages: number }> {
+    const { status = "open", page = 1, limit = 20 } = options;
+
+    const query = { shopId: new Types.ObjectId(shopId), status };
+    const skip = (page - 1) * limit;
+
+    const [drafts, total] = await Promise.all([
+      DraftTicket.find(query).sort({ updatedAt: -1 }).skip(skip).limit(limit).lean(),
+      DraftTicket.countDocuments(query),
+    ]);
+
+    return {
+      drafts: drafts as unknown as IDraftTicket[],
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  // Update an open draft ticket
+  async update(draftId: string, updates: Record<string, any>): Promise<IDraftTicket | null> {
+    return await DraftTicket.findOneAndUpdate(
+      { _id: draftId, status: "open" },
+      updates,
+      { new: true, runValidators: true }
+    );
+  }
+
+  // Move a draft out of "open". Conditional, so only one request can
+  // convert or cancel a given draft.
+  async close(
+    draftId: string,
+    status: "converted" | "cancelled",
+    updates: Record<string, any> = {}
+  ): Promise<IDraftTicket | null> {
+    return await DraftTicket.findOneAndUpdate(
+      { _id: draftId, status: "open" },
+      { ...updates, status, $unset: { reservedUntil: 1 } },
+      { new: true }
+    );
+  }
+
+  // Link a converted draft to the ticket it became
+  async setConvertedTicket(draftId: string, ticketId: Types.ObjectId): Promise<IDraftTicket | null> {
+    return await DraftTicket.findByIdAndUpdate(
+      draftId,
+      { convertedTicketId: ticketId },
+      { new: true }
+    );
+  }
+
+  // Put a draft back to "open" after a failed conversion
+  async reopen(draftId: string, reservedUntil?: Date): Promise<void> {
+    await DraftTicket.findByIdAndUpdate(draftId, {
+      status: "open",
+      reservedUntil,
+      $unset: { convertedAt: 1 },
+    });
+  }
+
+  // Quantities held by live reservations on open drafts, per item
+  async getReservedQuantities(
+    shopId: string,
+    itemIds: string[],
+    excludeDraftId?: string
+  ): Promise<Map<string, number>> {
+    const match: any = {
+      shopId: new Types.ObjectId(shopId),
+      status: "open",
+      reserveStock: true,
+      reservedUntil: { $gt: new Date() },
+    };
+    if (excludeDraftId) match._id = { $ne: new Types.ObjectId(excludeDraftId) };
+
+    const result = await DraftTicket.aggregate([
+      { $match: match },
+      { $unwind: "$items" },
+      { $match: { "items.itemId": { $in: itemIds.map((id) => new Types.ObjectId(id)) } } },
+      { $group: { _id: "$items.itemId", quantity: { $sum: "$items.quantity" } } },
+    ]);
+
+    return new Map(result.map((row) => [row._id.toString(), row.quantity]));
+  }
+
+  // Move parked tickets from merged customers to the customer they were merged into
+  async reassignCustomer(
+    fromCustomerIds: string[],
+    toCustomerId: string,
+    session?: ClientSession
+  ): Promise<number> {
+    const result = await DraftTicket.updateMany(
+      { customerId: { $in: fromCustomerIds.map((id) => new Types.ObjectId(id)) } },
+      { $set: { customerId: new Types.ObjectId(toCustomerId) } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,101 @@
+import DrawerSession from "../models/drawerSession";
+import {
+  DrawerSessionQueryOptions,
+  IDrawerMovement,
+  IDrawerSession,
+  IDrawerSummary,
+} from "../types";
+import { Types } from "mongoose";
+
+export class DrawerSessionRepository {
+  // Open a new drawer session
+  async create(data: Partial<IDrawerSession>): Promise<IDrawerSession> {
+    return await DrawerSession.create(data);
+  }
+
+  // Find drawer session by ID
+  async findById(sessionId: string): Promise<IDrawerSession | null> {
+    return await DrawerSession.findById(sessionId);
+  }
+
+  // Find the drawer a staff member currently has open
+  async findOpenByStaff(shopId: string, staffId: string): Promise<IDrawerSession | null> {
+    return await DrawerSession.findOne({
+      shopId: new Types.ObjectId(shopId),
+      staffId: new Types.ObjectId(staffId),
+      status: "open",
+    });
+  }
+
+  // Find drawer sessions by shop, most recently opened first
+  async findByShopId(
+    shopId: string,
+    options: DrawerSessionQueryOptions = {}
+  ): Promise<{ sessions: IDrawerSession[]; total: number; page: number; pages: number }> {
+    const { status, staffId, startDate, endDate, page = 1, limit = 20 } = options;
+
+    const query: any = { shopId: new Types.ObjectId(shopId) };
+    if (status) query.status = status;
+    if (staffId) query.staffId = new Types.ObjectId(staffId);
+    if (startDate || endDate) {
+      query.openedAt = {};
+      if (startDate) query.openedAt.$gte = startDate;
+      if (endDate) query.openedAt.$lte = endDate;
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [sessions, total] = await Promise.all([
+      DrawerSession.find(query).sort({ openedAt: -1 }).skip(skip).limit(limit).lean(),
+      DrawerSession.countDocuments(query),
+    ]);
+
+    return {
+      sessions: sessions as unknown as IDrawerSession[],
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  // Sessions opened in a date range, oldest first
+  async findOpenedBetween(shopId: string, start: Date, end: Date): Promise<IDrawerSession[]> {
+    return await DrawerSession.find({
+      shopId: new Types.ObjectId(shopId),
+      openedAt: { $gte: start, $lt: end },
+    })
+      .sort({ openedAt: 1 })
+      .lean() as unknown as IDrawerSession[];
+  }
+
+  // Record a pay-in or pay-out on an open drawer
+  async addMovement(sessionId: string, movement: IDrawerMovement): Promise<IDrawerSession | null> {
+    return await DrawerSession.findOneAndUpdate(
+      { _id: sessionId, status: "open" },
+      { $push: { movements: movement } },
+      { new: true }
+    );
+  }
+
+  // Close an open drawer with its count. Conditional on the session still
+  // being open, so it cannot be closed twice.
+  async close(
+    sessionId: string,
+    closing: {
+      closedBy: Types.ObjectId;
+      closedByName: string;
+      closedAt: Date;
+      countedCash: number;
+      expectedCash: number;
+      variance: number;
+      summary: IDrawerSummary;
+      closingNotes?: string;
+    }
+  ): Promise<IDrawerSession | null> {
+    return await DrawerSession.findOneAndUpdate(
+      { _id: sessionId, status: "open" },
+      { $set: { ...closing, status: "closed" } },
+      { new: true }
+    );
+  }
+}
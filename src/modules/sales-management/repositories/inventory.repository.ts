@@ -1,7 +1,10 @@
 import Inventory from "../../inventory-mgt/models/Inventory";
 import StockMovementModel from "../../inventory-mgt/models/stockMovement";
-import { Types } from "mongoose";
+import DraftTicket from "../models/draftTicket";
+import { ClientSession, Types } from "mongoose";
 import { IInventoryItem } from "../../inventory-mgt/types";
+import { StockOperationOptions } from "../types";
+import { ConflictError, NotFoundError } from "../../../shared/utils/AppError";
 
 export class InventoryRepository {
   /**
@@ -20,22 +23,49 @@ export class InventoryRepository {
     return item.availableQuantity >= quantity;
   }
 
+  // Units of an item held by live reservations on open drafts. A draft
+  // being converted is closed first, so its own hold is not counted.
+  private async getDraftReservedQuantity(itemId: string, session?: ClientSession): Promise<number> {
+    const [result] = await DraftTicket.aggregate([
+      {
+        $match: {
+          status: "open",
+          reserveStock: true,
+          reservedUntil: { $gt: new Date() },
+          "items.itemId": new Types.ObjectId(itemId),
+        },
+      },
+      { $unwind: "$items" },
+      { $match: { "items.itemId": new Types.ObjectId(itemId) } },
+      { $group: { _id: null, quantity: { $sum: "$items.quantity" } } },
+    ]).session(session || null);
+
+    return result?.quantity || 0;
+  }
+
   /**
    * Reduce stock (decrement available quantity)
-   * Uses atomic operation with optimistic concurrency control
+   * The decrement is conditional on sufficient stock, so concurrent sales
+   * of the same item can never push availableQuantity below zero
    */
   async reduceStock(
     itemId: string,
     quantity: number,
     performedBy?: string,
-    performedByName?: string
+    performedByName?: string,
+    options: StockOperationOptions = {}
   ): Promise<IInventoryItem | null> {
+    const { session, referenceId } = options;
+
+    // Stock held on parked tickets is not available to sell
+    const reserved = await this.getDraftReservedQuantity(itemId, session);
+
     // Use findOneAndUpdate with a condition to ensure atomic operation
     // and prevent overselling
     const item = await Inventory.findOneAndUpdate(
       {
         _id: new Types.ObjectId(itemId),
-        availableQuantity: { $gte: quantity }, // Ensure sufficient stock
+        availableQuantity: { $gte: quantity + reserved }, // Ensure sufficient unreserved stock
       },
       {
         $inc: {
@@ -46,25 +76,39 @@ export class InventoryRepository {
           lastSold: new Date(),
         },
       },
-      { new: true }
+      { new: true, session }
     );
 
     if (!item) {
-      throw new Error("Insufficient stock or item not found");
+      const exists = await Inventory.exists({ _id: new Types.ObjectId(itemId) }).session(
+        session || null
+      );
+      if (!exists) {
+        throw new NotFoundError(`Item with ID ${itemId} not found`);
+      }
+      throw new ConflictError(
+        `Insufficient stock for item ${itemId}. Requested: ${quantity}` +
+          (reserved > 0 ? ` (${reserved} held on parked tickets)` : ""),
+        "INSUFFICIENT_STOCK"
+      );
     }
 
     // Record stock movement if performer info provided
     if (performedBy && performedByName) {
-      await this.recordStockMovement({
-        itemId,
-        itemName: item.name,
-        type: "sale",
-        quantity: -quantity,
-        beforeQuantity: item.availableQuantity + quantity,
-        afterQuantity: item.availableQuantity,
-        performedBy,
-        performedByName,
-      });
+      await this.recordStockMovement(
+        {
+          itemId,
+          itemName: item.name,
+          type: "sale",
+          quantity: -quantity,
+          beforeQuantity: item.availableQuantity + quantity,
+          afterQuantity: item.availableQuantity,
+          performedBy,
+          performedByName,
+          referenceId,
+        },
+        session
+      );
     }
 
     return item;
@@ -77,8 +121,11 @@ export class InventoryRepository {
     itemId: string,
     quantity: number,
     performedBy?: string,
-    performedByName?: string
+    performedByName?: string,
+    options: StockOperationOptions = {}
   ): Promise<IInventoryItem | null> {
+    const { session, referenceId, reason = "Sale refund" } = options;
+
     const item = await Inventory.findByIdAndUpdate(
       itemId,
       {
@@ -88,31 +135,148 @@ export class InventoryRepository {
           soldQuantity: -quantity,
         },
       },
-      { new: true }
+      { new: true, session }
     );
 
     if (!item) {
-      throw new Error("Item not found");
+      throw new NotFoundError(`Item with ID ${itemId} not found`);
     }
 
     // Record stock movement if performer info provided
     if (performedBy && performedByName) {
-      await this.recordStockMovement({
+      await this.recordStockMovement(
+        {
+          itemId,
+          itemName: item.name,
+          type: "return",
+          quantity: quantity,
+          beforeQuantity: item.availableQuantity - quantity,
+          afterQuantity: item.availableQuantity,
+          performedBy,
+          performedByName,
+          reason,
+          referenceId,
+        },
+        session
+      );
+    }
+
+    return item;
+  }
+
+  /**
+   * Hold stock for a layaway. The units leave availableQuantity but are not
+   * counted as sold until the layaway is paid off.
+   */
+  async holdStock(
+    itemId: string,
+    quantity: number,
+    performedBy: string,
+    performedByName: string,
+    options: StockOperationOptions = {}
+  ): Promise<IInventoryItem> {
+    const { session, referenceId, reason = "Layaway reservation" } = options;
+
+    const item = await Inventory.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(itemId),
+        availableQuantity: { $gte: quantity },
+      },
+      { $inc: { availableQuantity: -quantity } },
+      { new: true, session }
+    );
+
+    if (!item) {
+      const exists = await Inventory.exists({ _id: new Types.ObjectId(itemId) }).session(
+        session || null
+      );
+      if (!exists) {
+        throw new NotFoundError(`Item with ID ${itemId} not found`);
+      }
+      throw new ConflictError(
+        `Insufficient stock for item ${itemId}. Requested: ${quantity}`,
+        "INSUFFICIENT_STOCK"
+      );
+    }
+
+    await this.recordStockMovement(
+      {
         itemId,
         itemName: item.name,
-        type: "return",
-        quantity: quantity,
-        beforeQuantity: item.availableQuantity - quantity,
+        type: "reserve",
+        quantity: -quantity,
+        beforeQuantity: item.availableQuantity + quantity,
         afterQuantity: item.availableQuantity,
         performedBy,
         performedByName,
-        reason: "Sale refund",
-      });
+        reason,
+        referenceId,
+        referenceType: "layaway",
+      },
+      session
+    );
+
+    return item;
+  }
+
+  /**
+   * Put held stock back on the shelf (cancelled layaway)
+   */
+  async releaseStock(
+    itemId: string,
+    quantity: number,
+    performedBy: string,
+    performedByName: string,
+    options: StockOperationOptions = {}
+  ): Promise<IInventoryItem> {
+    const { session, referenceId, reason = "Layaway cancelled" } = options;
+
+    const item = await Inventory.findByIdAndUpdate(
+      itemId,
+      { $inc: { availableQuantity: quantity } },
+      { new: true, session }
+    );
+
+    if (!item) {
+      throw new NotFoundError(`Item with ID ${itemId} not found`);
     }
 
+    await this.recordStockMovement(
+      {
+        itemId,
+        itemName: item.name,
+        type: "release",
+        quantity,
+        beforeQuantity: item.availableQuantity - quantity,
+        afterQuantity: item.availableQuantity,
+        performedBy,
+        performedByName,
+        reason,
+        referenceId,
+        referenceType: "layaway",
+      },
+      session
+    );
+
     return item;
   }
 
+  /**
+   * Count held stock as sold once its layaway is paid off. Available
+   * quantity already went down when the stock was held.
+   */
+  async sellHeldStock(itemId: string, quantity: number, session?: ClientSession): Promise<void> {
+    const item = await Inventory.findByIdAndUpdate(
+      itemId,
+      { $inc: { soldQuantity: quantity }, $set: { lastSold: new Date() } },
+      { session }
+    );
+
+    if (!item) {
+      throw new NotFoundError(`Item with ID ${itemId} not found`);
+    }
+  }
+
   /**
    * Check if item belongs to shop
    */
@@ -141,30 +305,43 @@ export class InventoryRepository {
   /**
    * Record stock movement for audit trail
    */
-  private async recordStockMovement(data: {
-    itemId: string;
-    itemName: string;
-    type: "sale" | "restock" | "adjustment" | "damage" | "return";
-    quantity: number;
-    beforeQuantity: number;
-    afterQuantity: number;
-    performedBy: string;
-    performedByName: string;
-    reason?: string;
-    notes?: string;
-  }): Promise<void> {
-    await StockMovementModel.create({
-      itemId: new Types.ObjectId(data.itemId),
-      itemName: data.itemName,
-      type: data.type,
-      quantity: data.quantity,
-      beforeQuantity: data.beforeQuantity,
-      afterQuantity: data.afterQuantity,
-      performedBy: new Types.ObjectId(data.performedBy),
-      performedByName: data.performedByName,
-      reason: data.reason,
-      notes: data.notes,
-      date: new Date(),
-    });
+  private async recordStockMovement(
+    data: {
+      itemId: string;
+      itemName: string;
+      type: "sale" | "restock" | "adjustment" | "damage" | "return" | "reserve" | "release";
+      quantity: number;
+      beforeQuantity: number;
+      afterQuantity: number;
+      performedBy: string;
+      performedByName: string;
+      reason?: string;
+      notes?: string;
+      referenceId?: Types.ObjectId;
+      referenceType?: "ticket" | "layaway";
+    },
+    session?: ClientSession
+  ): Promise<void> {
+    // Array form of create() is required to pass a session
+    await StockMovementModel.create(
+      [
+        {
+          itemId: new Types.ObjectId(data.itemId),
+          itemName: data.itemName,
+          type: data.type,
+          quantity: data.quantity,
+          beforeQuantity: data.beforeQuantity,
+          afterQuantity: data.afterQuantity,
+          performedBy: new Types.ObjectId(data.performedBy),
+          performedByName: data.performedByName,
+          reason: data.reason,
+          notes: data.notes,
+          referenceType: data.referenceId ? data.referenceType || "ticket" : undefined,
+          referenceId: data.referenceId,
+          date: new Date(),
+        },
+      ],
+      { session }
+    );
   }
 }
\ No newline at end of file
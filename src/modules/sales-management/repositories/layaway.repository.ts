@@ -0,0 +1,139 @@
+import Layaway from "../models/layaway";
+import { ICreditPayment, ILayaway, ILayawayCancellation, LayawayQueryOptions } from "../types";
+import { ClientSession, Types } from "mongoose";
+
+export class LayawayRepository {
+  // Create new layaway
+  async create(data: Partial<ILayaway>, session?: ClientSession): Promise<ILayaway> {
+    const [layaway] = await Layaway.create([data], { session });
+    return layaway;
+  }
+
+  // Find layaway by ID
+  async findById(layawayId: string): Promise<ILayaway | null> {
+    return await Layaway.findById(layawayId);
+  }
+
+  // Find layaways by shop, newest first
+  async findByShopId(
+    shopId: string,
+    options: LayawayQueryOptions = {}
+  ): Promise<{ layaways: ILayaway[]; total: number; page: number; pages: number }> {
+    const { status, customerId, overdue, page = 1, limit = 20 } = options;
+
+    const query: any = { shopId: new Types.ObjectId(shopId) };
+    if (status) query.status = status;
+    if (customerId) query.customerId = new Types.ObjectId(customerId);
+    if (overdue) {
+      query.status = "active";
+      query.dueDate = { $lt: new Date() };
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [layaways, total] = await Promise.all([
+      Layaway.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+      Layaway.countDocuments(query),
+    ]);
+
+    return {
+      layaways: layaways as unknown as ILayaway[],
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  // Add an installment. Conditional on the balance read by the caller, so
+  // two payments cannot both settle the same balance.
+  async addPayment(
+    layawayId: string,
+    expectedAmountOwed: number,
+    payment: ICreditPayment,
+    balances: { amountPaid: number; amountOwed: number },
+    session?: ClientSession
+  ): Promise<ILayaway | null> {
+    return await Layaway.findOneAndUpdate(
+      { _id: layawayId, status: "active", amountOwed: expectedAmountOwed },
+      { $push: { payments: payment }, $set: balances },
+      { new: true, session }
+    );
+  }
+
+  // Mark a paid-off layaway as completed
+  async complete(
+    layawayId: string,
+    ticketId: Types.ObjectId,
+    session?: ClientSession
+  ): Promise<ILayaway | null> {
+    return await Layaway.findOneAndUpdate(
+      { _id: layawayId, status: "active", amountOwed: 0 },
+      { status: "completed", ticketId, completedAt: new Date() },
+      { new: true, session }
+    );
+  }
+
+  // Cancel an active layaway. Conditional on the amount paid read by the
+  // caller, so the forfeiture is worked out on the final balance.
+  async cancel(
+    layawayId: string,
+    expectedAmountPaid: number,
+    cancellation: ILayawayCancellation,
+    session?: ClientSession
+  ): Promise<ILayaway | null> {
+    return await Layaway.findOneAndUpdate(
+      { _id: layawayId, status: "active", amountPaid: expectedAmountPaid },
+      { status: "cancelled", cancellation },
+      { new: true, session }
+    );
+  }
+
+  // Move layaways from merged customers to the customer they were merged into
+  async reassignCustomer(
+    fromCustomerIds: string[],
+    toCustomerId: string,
+    session?: ClientSession
+  ): Promise<number> {
+    const result = await Layaway.updateMany(
+      { customerId: { $in: fromCustomerIds.map((id) => new Types.ObjectId(id)) } },
+      { $set: { customerId: new Types.ObjectId(toCustomerId) } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+
+  // Layaway installments received and cancellations made by a staff
+  // member in a window
+  async getDrawerActivity(
+    shopId: string,
+    staffId: string,
+    start: Date,
+    end: Date
+  ): Promise<{ payments: ICreditPayment[]; cancellations: ILayawayCancellation[] }> {
+    const shopObjectId = new Types.ObjectId(shopId);
+    const staffObjectId = new Types.ObjectId(staffId);
+    const window = { $gte: start, $lt: end };
+
+    const [payments, cancellations] = await Promise.all([
+      Layaway.aggregate([
+        { $match: { shopId: shopObjectId, "payments.receivedBy": staffObjectId } },
+        { $unwind: "$payments" },
+        { $match: { "payments.receivedBy": staffObjectId, "payments.paymentDate": window } },
+        { $replaceRoot: { newRoot: "$payments" } },
+      ]),
+      Layaway.aggregate([
+        {
+          $match: {
+            shopId: shopObjectId,
+            status: "cancelled",
+            "cancellation.cancelledBy": staffObjectId,
+            "cancellation.date": window,
+          },
+        },
+        { $replaceRoot: { newRoot: "$cancellation" } },
+      ]),
+    ]);
+
+    return { payments, cancellations };
+  }
+}
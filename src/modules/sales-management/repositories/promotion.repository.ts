@@ -0,0 +1,80 @@
+import Promotion from "../models/promotion";
+import { IPromotion, PromotionQueryOptions } from "../types";
+import { Types } from "mongoose";
+
+export class PromotionRepository {
+  // Create new promotion
+  async create(data: Partial<IPromotion>): Promise<IPromotion> {
+    const promotion = await Promotion.create(data);
+    return promotion;
+  }
+
+  // Find promotion by ID
+  async findById(promotionId: string): Promise<IPromotion | null> {
+    return await Promotion.findById(promotionId);
+  }
+
+  // Find promotion by name within a shop (names are unique per shop)
+  async findByName(shopId: string, name: string): Promise<IPromotion | null> {
+    return await Promotion.findOne({
+      shopId: new Types.ObjectId(shopId),
+      name: { $regex: new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`, "i") },
+    });
+  }
+
+  // Find promotions by shop with filters and pagination
+  async findByShopId(
+    shopId: string,
+    options: PromotionQueryOptions = {}
+  ): Promise<{ promotions: IPromotion[]; total: number; page: number; pages: number }> {
+    const { type, isActive, page = 1, limit = 20 } = options;
+
+    const query: any = { shopId: new Types.ObjectId(shopId) };
+    if (type) query.type = type;
+    if (typeof isActive === "boolean") query.isActive = isActive;
+
+    const skip = (page - 1) * limit;
+
+    const [promotions, total] = await Promise.all([
+      Promotion.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+      Promotion.countDocuments(query),
+    ]);
+
+    return {
+      promotions: promotions as unknown as IPromotion[],
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  // Promotions switched on and within their validity period. Daily
+  // schedules are checked by the promotion engine.
+  async findActive(shopId: string, date: Date = new Date()): Promise<IPromotion[]> {
+    const promotions = await Promotion.find({
+      shopId: new Types.ObjectId(shopId),
+      isActive: true,
+      $and: [
+        { $or: [{ startDate: null }, { startDate: { $lte: date } }] },
+        { $or: [{ endDate: null }, { endDate: { $gte: date } }] },
+      ],
+    })
+      .sort({ createdAt: 1 })
+      .lean();
+    return promotions as unknown as IPromotion[];
+  }
+
+  // Update promotion
+  async update(promotionId: string, updates: Partial<IPromotion>): Promise<IPromotion | null> {
+    return await Promotion.findByIdAndUpdate(promotionId, updates, {
+      new: true,
+      runValidators: true,
+    });
+  }
+
+  // Delete promotion
+  async delete(promotionId: string): Promise<boolean> {
+    const result = await Promotion.findByIdAndDelete(promotionId);
+    return !!result;
+  }
+}
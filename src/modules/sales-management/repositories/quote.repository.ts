@@ -0,0 +1,103 @@
+import Quote from "../models/quote";
+import { IQuote, QuoteQueryOptions, QuoteStatus } from "../types";
+import { ClientSession, Types } from "mongoose";
+
+export class QuoteRepository {
+  // Create new quote
+  async create(data: Partial<IQuote>): Promise<IQuote> {
+    const quote = await Quote.create(data);
+    return quote;
+  }
+
+  // Find quote by ID
+  async findById(quoteId: string): Promise<IQuote | null> {
+    return await Quote.findById(quoteId);
+  }
+
+  // Find quotes by shop, newest first
+  async findByShopId(
+    shopId: string,
+    options: QuoteQueryOptions = {}
+  ): Promise<{ quotes: IQuote[]; total: number; page: number; pages: number }> {
+    const { status, customerId, page = 1, limit = 20 } = options;
+
+    const query: any = { shopId: new Types.ObjectId(shopId) };
+    if (status) query.status = status;
+    if (customerId) query.customerId = new Types.ObjectId(customerId);
+
+    const skip = (page - 1) * limit;
+
+    const [quotes, total] = await Promise.all([
+      Quote.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+      Quote.countDocuments(query),
+    ]);
+
+    return {
+      quotes: quotes as unknown as IQuote[],
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  // Update a quote that is still open (draft or sent)
+  async update(quoteId: string, updates: Record<string, any>): Promise<IQuote | null> {
+    return await Quote.findOneAndUpdate(
+      { _id: quoteId, status: { $in: ["draft", "sent"] } },
+      updates,
+      { new: true, runValidators: true }
+    );
+  }
+
+  // Move a quote from one status to another. Conditional, so only one
+  // request can send or accept a given quote.
+  async transition(
+    quoteId: string,
+    from: QuoteStatus[],
+    to: QuoteStatus,
+    updates: Record<string, any> = {}
+  ): Promise<IQuote | null> {
+    return await Quote.findOneAndUpdate(
+      { _id: quoteId, status: { $in: from } },
+      { ...updates, status: to },
+      { new: true }
+    );
+  }
+
+  // Link an accepted quote to the ticket it became
+  async setConvertedTicket(quoteId: string, ticketId: Types.ObjectId): Promise<IQuote | null> {
+    return await Quote.findByIdAndUpdate(quoteId, { convertedTicketId: ticketId }, { new: true });
+  }
+
+  // Put a quote back to its previous status after a failed conversion
+  async reopen(quoteId: string, status: QuoteStatus): Promise<void> {
+    await Quote.findByIdAndUpdate(quoteId, { status, $unset: { acceptedAt: 1 } });
+  }
+
+  // Mark a shop's open quotes that are past their validity date as expired
+  async expireOverdue(shopId: string, now: Date = new Date()): Promise<number> {
+    const result = await Quote.updateMany(
+      {
+        shopId: new Types.ObjectId(shopId),
+        status: { $in: ["draft", "sent"] },
+        validUntil: { $lt: now },
+      },
+      { $set: { status: "expired", expiredAt: now } }
+    );
+    return result.modifiedCount;
+  }
+
+  // Move quotes from merged customers to the customer they were merged into
+  async reassignCustomer(
+    fromCustomerIds: string[],
+    toCustomerId: string,
+    session?: ClientSession
+  ): Promise<number> {
+    const result = await Quote.updateMany(
+      { customerId: { $in: fromCustomerIds.map((id) => new Types.ObjectId(id)) } },
+      { $set: { customerId: new Types.ObjectId(toCustomerId) } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -1,42 +1,118 @@
 import Ticket from "../models/sales";
-import { ITicket, ICreditPayment, TicketQueryOptions, ITicketSummary } from "../types";
-import { Types } from "mongoose";
+import TicketCounter from "../models/ticketCounter";
+import { ITicketNumberingSettings } from "../../auth/models/shop";
+import {
+  DEFAULT_TICKET_NUMBERING,
+  formatTicketNumber,
+  getCounterPeriod,
+  getTicketNumberStem,
+} from "../utils/ticketNumber";
+import { tenderBreakdownStages } from "../utils/tenders";
+import { roundCurrency } from "../utils/calculations";
+import {
+  ITicket,
+  ICreditPayment,
+  ITicketWriteOff,
+  ITicketCharge,
+  ITicketReturn,
+  TicketReturnLine,
+  TicketQueryOptions,
+  ITicketSummary,
+  CustomerPurchaseStats,
+} from "../types";
+import { ClientSession, Types } from "mongoose";
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 
 export class TicketRepository {
   
-  // Generate next ticket number for a shop
-  async getNextTicketNumber(shopId: string): Promise<string> {
-    // Find the last ticket for this shop
-    const lastTicket = await Ticket.findOne({ shopId: new Types.ObjectId(shopId) })
-      .sort({ createdAt: -1, _id: -1 })
-      .select("ticketNumber")
-      .lean();
-    
-    let nextNumber = 1;
-    
-    if (lastTicket && lastTicket.ticketNumber) {
-      const currentNumber = parseInt(lastTicket.ticketNumber, 10);
-      if (!isNaN(currentNumber) && currentNumber > 0) {
-        nextNumber = currentNumber + 1;
+  // Highest sequence already issued in the format a new counter will
+  // produce, used to seed it. Covers legacy ("0001"-style) tickets and
+  // numbers issued under an earlier reset period, e.g. a yearly counter
+  // that already numbered today's tickets before the shop switched to daily.
+  private async getHighestTicketSequence(
+    shopId: string,
+    numbering: ITicketNumberingSettings,
+    date: Date
+  ): Promise<number> {
+    const stem = getTicketNumberStem(numbering, date);
+
+    const [result] = await Ticket.aggregate([
+      {
+        $match: {
+          shopId: new Types.ObjectId(shopId),
+          ticketNumber: { $regex: new RegExp(`^${escapeRegex(stem)}\\d+$`) },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          sequence: {
+            $max: { $toLong: { $substrCP: ["$ticketNumber", stem.length, { $strLenCP: "$ticketNumber" }] } },
+          },
+        },
+      },
+    ]);
+
+    return Number(result?.sequence || 0);
+  }
+
+  // Generate next ticket number for a shop from an atomic per-shop counter.
+  // Runs outside any sale transaction, so an aborted sale leaves a gap
+  // in the sequence rather than blocking concurrent cashiers.
+  async getNextTicketNumber(
+    shopId: string,
+    numbering: ITicketNumberingSettings = DEFAULT_TICKET_NUMBERING,
+    date: Date = new Date()
+  ): Promise<string> {
+    const filter = {
+      shopId: new Types.ObjectId(shopId),
+      period: getCounterPeriod(numbering.resetPeriod, date),
+    };
+
+    let counter = await TicketCounter.findOneAndUpdate(
+      filter,
+      { $inc: { sequence: 1 } },
+      { new: true }
+    );
+
+    if (!counter) {
+      // First ticket in this period. Continue past any number already
+      // issued in the same format, so shops that predate the counter or
+      // just changed their reset period never reissue a number.
+      const seed = await this.getHighestTicketSequence(shopId, numbering, date);
+      try {
+        await TicketCounter.create({ ...filter, sequence: seed });
+      } catch (error: any) {
+        // Another sale created the counter first; just increment it
+        if (error?.code !== 11000) throw error;
       }
+
+      counter = await TicketCounter.findOneAndUpdate(
+        filter,
+        { $inc: { sequence: 1 } },
+        { new: true }
+      );
     }
-    
-    return String(nextNumber).padStart(4, "0");
+
+    return formatTicketNumber(numbering, counter!.sequence, date);
   }
-  
-  // Create new ticket
-  async create(data: Partial<ITicket>): Promise<ITicket> {
+
+  // Create new ticket (optionally as part of a transaction)
+  async create(data: Partial<ITicket>, session?: ClientSession): Promise<ITicket> {
     // Generate ticket number if not provided
     if (!data.ticketNumber && data.shopId) {
       data.ticketNumber = await this.getNextTicketNumber(data.shopId.toString());
     }
-    
-    return await Ticket.create(data);
+
+    const [ticket] = await Ticket.create([data], { session });
+    return ticket;
   }
   
   // Find ticket by ID with full details
-  async findById(ticketId: string): Promise<ITicket | null> {
+  async findById(ticketId: string, session?: ClientSession): Promise<ITicket | null> {
     const ticket = await Ticket.findById(ticketId)
+      .session(session || null)
       .populate("soldBy", "staffName phoneNumber");
     return ticket as ITicket | null;
   }
@@ -54,6 +130,7 @@ export class TicketRepository {
       includeRefunded = false,
       isCredit,
       creditStatus,
+      customerId,
       page = 1,
       limit = 20,
       sortBy = "date",
@@ -73,13 +150,14 @@ export class TicketRepository {
     if (!includeRefunded) query.refunded = false;
     if (typeof isCredit === "boolean") query.isCredit = isCredit;
     if (creditStatus) query.creditStatus = creditStatus;
+    if (customerId) query.customerId = new Types.ObjectId(customerId);
   
     const skip = (page - 1) * limit;
     const sort: any = { [sortBy]: sortOrder === "asc" ? 1 : -1 };
   
     const [tickets, total] = await Promise.all([
       Ticket.find(query)
-        .select("ticketNumber totalAmount totalItemCount soldByName paymentMethod date isCredit creditStatus amountOwed refunded")
+        .select("ticketNumber totalAmount totalItemCount soldByName paymentMethod date isCredit creditStatus amountOwed totalRefunded refunded")
         .skip(skip)
         .limit(limit)
         .sort(sort)
@@ -143,6 +221,12 @@ export class TicketRepository {
           discount: "$items.discount",
           lineTotal: "$items.lineTotal",
           lineProfit: "$items.lineProfit",
+          taxRate: { $ifNull: ["$items.taxRate", 0] },
+          taxAmount: { $ifNull: ["$items.taxAmount", 0] },
+          quantityReturned: { $ifNull: ["$items.quantityReturned", 0] },
+          refundedAmount: { $ifNull: ["$items.refundedAmount", 0] },
+          promotionDiscount: { $ifNull: ["$items.promotionDiscount", 0] },
+          promotions: { $ifNull: ["$items.promotions", []] },
           soldBy: 1,
           soldByName: 1,
           paymentMethod: 1,
@@ -176,20 +260,85 @@ export class TicketRepository {
   }
 
   // Process refund
+  // Mark a whole ticket refunded. Only matches while it has not been
+  // refunded already.
   async refund(
     ticketId: string,
     refundedBy: string,
-    reason: string
+    reason: string,
+    session?: ClientSession
   ): Promise<ITicket | null> {
-    return await Ticket.findByIdAndUpdate(
-      ticketId,
+    return await Ticket.findOneAndUpdate(
+      { _id: ticketId, refunded: { $ne: true } },
       {
         refunded: true,
         refundedAt: new Date(),
         refundedBy: new Types.ObjectId(refundedBy),
         refundReason: reason,
       },
-      { new: true }
+      { new: true, session }
+    );
+  }
+
+  // Record a partial return: reduce the returned lines and ticket totals,
+  // settle balances and append the return to the ticket's history
+  async recordReturn(
+    ticketId: string,
+    ticketReturn: ITicketReturn,
+    lines: TicketReturnLine[],
+    balances: {
+      amountPaid: number;
+      amountOwed: number;
+      creditStatus: "pending" | "partial" | "paid";
+      fullyReturned: boolean;
+    },
+    session?: ClientSession
+  ): Promise<ITicket | null> {
+    const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+    const netAmount = lines.reduce((sum, line) => sum + line.netAmount, 0);
+    const taxRefunded = lines.reduce((sum, line) => sum + line.taxRefunded, 0);
+    const profitReversed = lines.reduce((sum, line) => sum + line.profitReversed, 0);
+    const promotionReversed = lines.reduce((sum, line) => sum + line.promotionReversed, 0);
+
+    const inc: Record<string, number> = {
+      subtotal: -netAmount,
+      taxAmount: -taxRefunded,
+      totalAmount: -ticketReturn.refundAmount,
+      totalProfit: -profitReversed,
+      totalItemCount: -quantity,
+      totalRefunded: ticketReturn.refundAmount,
+      promotionDiscount: -promotionReversed,
+    };
+    for (const line of lines) {
+      inc[`items.${line.index}.quantityReturned`] =
+        (inc[`items.${line.index}.quantityReturned`] || 0) + line.quantity;
+      inc[`items.${line.index}.refundedAmount`] =
+        (inc[`items.${line.index}.refundedAmount`] || 0) + line.netAmount;
+      inc[`items.${line.index}.taxRefunded`] =
+        (inc[`items.${line.index}.taxRefunded`] || 0) + line.taxRefunded;
+    }
+
+    const set: Record<string, any> = {
+      amountPaid: balances.amountPaid,
+      amountOwed: balances.amountOwed,
+      creditStatus: balances.creditStatus,
+    };
+    if (balances.fullyReturned) {
+      // Every unit came back; treat the ticket as refunded
+      set.refunded = true;
+      set.refundedAt = ticketReturn.date;
+      set.refundedBy = ticketReturn.processedBy;
+      set.refundReason = ticketReturn.reason;
+    }
+
+    return await Ticket.findByIdAndUpdate(
+      ticketId,
+      {
+        $inc: inc,
+        $set: set,
+        $push: { returns: ticketReturn },
+      },
+      { new: true, session }
     );
   }
 
@@ -207,7 +356,7 @@ export class TicketRepository {
 
     if (!includeRefunded) match.refunded = false;
 
-    const [summary, topItems, paymentMethods, staffPerformance, dailySales] = await Promise.all([
+    const [summary, topItems, paymentMethods, tenders, staffPerformance, dailySales] = await Promise.all([
       // Overall summary
       Ticket.aggregate([
         { $match: match },
@@ -216,6 +365,8 @@ export class TicketRepository {
             _id: null,
             totalRevenue: { $sum: "$totalAmount" },
             totalProfit: { $sum: "$totalProfit" },
+            totalTax: { $sum: "$taxAmount" },
+            totalPromotionCost: { $sum: { $ifNull: ["$promotionDiscount", 0] } },
             totalItemsSold: { $sum: "$totalItemCount" },
             totalTickets: { $sum: 1 },
             averageTicketValue: { $avg: "$totalAmount" },
@@ -231,8 +382,16 @@ export class TicketRepository {
           $group: {
             _id: "$items.itemId",
             itemName: { $first: "$items.itemName" },
-            quantitySold: { $sum: "$items.quantitySold" },
-            revenue: { $sum: "$items.lineTotal" },
+            quantitySold: {
+              $sum: {
+                $subtract: ["$items.quantitySold", { $ifNull: ["$items.quantityReturned", 0] }],
+              },
+            },
+            revenue: {
+              $sum: {
+                $subtract: ["$items.lineTotal", { $ifNull: ["$items.refundedAmount", 0] }],
+              },
+            },
           },
         },
         { $sort: { quantitySold: -1 } },
@@ -251,6 +410,9 @@ export class TicketRepository {
         },
       ]),
 
+      // Sales by tender type (split payments counted per tender)
+      Ticket.aggregate([{ $match: match }, ...tenderBreakdownStages()]),
+
       // Sales by staff
       Ticket.aggregate([
         { $match: match },
@@ -292,7 +454,10 @@ export class TicketRepository {
         {
           $group: {
             _id: null,
-            refundedAmount: { $sum: "$totalAmount" },
+            // Returns lower totalAmount as they go, so add back what they refunded
+            refundedAmount: {
+              $sum: { $add: ["$totalAmount", { $ifNull: ["$totalRefunded", 0] }] },
+            },
             refundedCount: { $sum: 1 },
           },
         },
@@ -304,6 +469,8 @@ export class TicketRepository {
       ...(summary[0] || {
         totalRevenue: 0,
         totalProfit: 0,
+        totalTax: 0,
+        totalPromotionCost: 0,
         totalItemsSold: 0,
         totalTickets: 0,
         averageTicketValue: 0,
@@ -319,6 +486,11 @@ export class TicketRepository {
         count: method.count,
         amount: method.amount,
       })),
+      salesByTender: tenders.map((tender) => ({
+        type: tender._id,
+        count: tender.count,
+        amount: tender.amount,
+      })),
       salesByStaff: staffPerformance.map((staff) => ({
         staffId: staff._id.toString(),
         staffName: staff.soldByName,
@@ -342,6 +514,382 @@ export class TicketRepository {
     return result;
   }
 
+  // Tax collected per rate, net of returns (for tax filing)
+  async getTaxSummary(
+    shopId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<
+    Array<{ taxRate: number; taxableSales: number; taxCollected: number; lineCount: number }>
+  > {
+    const result = await Ticket.aggregate([
+      {
+        $match: {
+          shopId: new Types.ObjectId(shopId),
+          refunded: false,
+          date: { $gte: startDate, $lte: endDate },
+        },
+      },
+      { $unwind: "$items" },
+      {
+        $group: {
+          _id: { $ifNull: ["$items.taxRate", 0] },
+          taxableSales: {
+            $sum: {
+              $subtract: ["$items.lineTotal", { $ifNull: ["$items.refundedAmount", 0] }],
+            },
+          },
+          taxCollected: {
+            $sum: {
+              $subtract: [
+                { $ifNull: ["$items.taxAmount", 0] },
+                { $ifNull: ["$items.taxRefunded", 0] },
+              ],
+            },
+          },
+          lineCount: { $sum: 1 },
+        },
+      },
+      { $sort: { _id: -1 } },
+    ]);
+
+    return result.map((row) => ({
+      taxRate: row._id,
+      taxableSales: row.taxableSales,
+      taxCollected: row.taxCollected,
+      lineCount: row.lineCount,
+    }));
+  }
+
+  // Discount given by each promotion, net of returned units
+  async getPromotionSummary(
+    shopId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<
+    Array<{
+      promotionId: string;
+      name: string;
+      type: string;
+      ticketCount: number;
+      lineCount: number;
+      quantitySold: number;
+      promotionCost: number;
+    }>
+  > {
+    const result = await Ticket.aggregate([
+      {
+        $match: {
+          shopId: new Types.ObjectId(shopId),
+          refunded: false,
+          date: { $gte: startDate, $lte: endDate },
+          "items.promotions.0": { $exists: true },
+        },
+      },
+      { $unwind: "$items" },
+      { $unwind: "$items.promotions" },
+      {
+        $addFields: {
+          keptQuantity: {
+            $subtract: ["$items.quantitySold", { $ifNull: ["$items.quantityReturned", 0] }],
+          },
+        },
+      },
+      {
+        $group: {
+          _id: "$items.promotions.promotionId",
+          name: { $last: "$items.promotions.name" },
+          type: { $last: "$items.promotions.type" },
+          tickets: { $addToSet: "$_id" },
+          lineCount: { $sum: 1 },
+          quantitySold: { $sum: "$keptQuantity" },
+          promotionCost: {
+            $sum: {
+              $divide: [
+                { $multiply: ["$items.promotions.amount", "$keptQuantity"] },
+                "$items.quantitySold",
+              ],
+            },
+          },
+        },
+      },
+      { $sort: { promotionCost: -1 } },
+    ]);
+
+    return result.map((row) => ({
+      promotionId: row._id.toString(),
+      name: row.name,
+      type: row.type,
+      ticketCount: row.tickets.length,
+      lineCount: row.lineCount,
+      quantitySold: row.quantitySold,
+      promotionCost: row.promotionCost,
+    }));
+  }
+
+  // Sales per staff member who rang them up. Revenue, profit and discounts
+  // leave out refunded tickets; refunds cover whole-ticket refunds and
+  // returns. Credit issued is the part of each sale put on credit.
+  async getStaffSalesSummary(
+    shopId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<
+    Array<{
+      staffId: string;
+      staffName: string;
+      ticketCount: number;
+      revenue: number;
+      profit: number;
+      discountGiven: number;
+      grossSales: number;
+      refundedAmount: number;
+      refundCount: number;
+      creditIssued: number;
+    }>
+  > {
+    const kept = { $eq: ["$refunded", false] };
+
+    const result = await Ticket.aggregate([
+      {
+        $match: {
+          shopId: new Types.ObjectId(shopId),
+          date: { $gte: startDate, $lte: endDate },
+        },
+      },
+      {
+        $addFields: {
+          grossAmount: { $add: ["$totalAmount", { $ifNull: ["$totalRefunded", 0] }] },
+          // Discount on the units kept, like every other figure here
+          lineDiscount: {
+            $sum: {
+              $map: {
+                input: "$items",
+                as: "item",
+                in: {
+                  $divide: [
+                    {
+                      $multiply: [
+                        {
+                          $subtract: [
+                            "$$item.quantitySold",
+                            { $ifNull: ["$$item.quantityReturned", 0] },
+                          ],
+                        },
+                        "$$item.sellingPrice",
+                        { $ifNull: ["$$item.discount", 0] },
+                      ],
+                    },
+                    100,
+                  ],
+                },
+              },
+            },
+          },
+        },
+      },
+      {
+        $addFields: {
+          creditAmount: {
+            $cond: [
+              { $gt: [{ $size: { $ifNull: ["$tenders", []] } }, 0] },
+              {
+                $sum: {
+                  $map: {
+                    input: { $filter: { input: "$tenders", as: "t", cond: { $eq: ["$$t.type", "credit"] } } },
+                    as: "t",
+                    in: "$$t.amount",
+                  },
+                },
+              },
+              { $cond: [{ $eq: ["$paymentMethod", "credit"] }, "$grossAmount", 0] },
+            ],
+          },
+        },
+      },
+      {
+        $group: {
+          _id: "$soldBy",
+          staffName: { $last: "$soldByName" },
+          ticketCount: { $sum: { $cond: [kept, 1, 0] } },
+          revenue: { $sum: { $cond: [kept, "$totalAmount", 0] } },
+          profit: { $sum: { $cond: [kept, "$totalProfit", 0] } },
+          discountGiven: {
+            $sum: {
+              $cond: [kept, { $add: ["$lineDiscount", { $ifNull: ["$promotionDiscount", 0] }] }, 0],
+            },
+          },
+          grossSales: { $sum: "$grossAmount" },
+          refundedAmount: {
+            $sum: { $cond: [kept, { $ifNull: ["$totalRefunded", 0] }, "$grossAmount"] },
+          },
+          refundCount: {
+            $sum: {
+              $cond: [kept, { $size: { $ifNull: ["$returns", []] } }, 1],
+            },
+          },
+          creditIssued: { $sum: { $cond: [kept, "$creditAmount", 0] } },
+        },
+      },
+      { $sort: { revenue: -1 } },
+    ]);
+
+    return result.map((row) => ({
+      staffId: row._id.toString(),
+      staffName: row.staffName,
+      ticketCount: row.ticketCount,
+      revenue: row.revenue,
+      profit: row.profit,
+      discountGiven: row.discountGiven,
+      grossSales: row.grossSales,
+      refundedAmount: row.refundedAmount,
+      refundCount: row.refundCount,
+      creditIssued: row.creditIssued,
+    }));
+  }
+
+  // Credit installments received per staff member in a period
+  async getCreditCollectedByStaff(
+    shopId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Array<{ staffId: string; staffName: string; paymentCount: number; amount: number }>> {
+    const window = { $gte: startDate, $lte: endDate };
+
+    const result = await Ticket.aggregate([
+      { $match: { shopId: new Types.ObjectId(shopId), "payments.paymentDate": window } },
+      { $unwind: "$payments" },
+      { $match: { "payments.paymentDate": window } },
+      {
+        $group: {
+          _id: "$payments.receivedBy",
+          staffName: { $last: "$payments.receivedByName" },
+          paymentCount: { $sum: 1 },
+          amount: { $sum: "$payments.amount" },
+        },
+      },
+    ]);
+
+    return result.map((row) => ({
+      staffId: row._id.toString(),
+      staffName: row.staffName,
+      paymentCount: row.paymentCount,
+      amount: row.amount,
+    }));
+  }
+
+  // Tickets bought by a customer. Tickets sold before the customer record
+  // existed are matched on the customer's phone numbers.
+  private customerTicketsMatch(shopId: string, customerId: string, phones: string[]): any {
+    return {
+      shopId: new Types.ObjectId(shopId),
+      refunded: false,
+      $or: [
+        { customerId: new Types.ObjectId(customerId) },
+        { customerId: null, customerPhone: { $in: phones } },
+      ],
+    };
+  }
+
+  // Purchase totals and favourite items for a customer
+  async getCustomerPurchaseStats(
+    shopId: string,
+    customerId: string,
+    phones: string[]
+  ): Promise<CustomerPurchaseStats> {
+    const match = this.customerTicketsMatch(shopId, customerId, phones);
+
+    const [summary, favouriteItems] = await Promise.all([
+      Ticket.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: null,
+            lifetimeSpend: { $sum: "$totalAmount" },
+            visitCount: { $sum: 1 },
+            firstPurchase: { $min: "$date" },
+            lastPurchase: { $max: "$date" },
+            outstandingCredit: {
+              $sum: { $cond: ["$isCredit", "$amountOwed", 0] },
+            },
+          },
+        },
+      ]),
+
+      Ticket.aggregate([
+        { $match: match },
+        { $unwind: "$items" },
+        {
+          $group: {
+            _id: "$items.itemId",
+            itemName: { $last: "$items.itemName" },
+            quantity: {
+              $sum: {
+                $subtract: ["$items.quantitySold", { $ifNull: ["$items.quantityReturned", 0] }],
+              },
+            },
+            revenue: {
+              $sum: {
+                $subtract: ["$items.lineTotal", { $ifNull: ["$items.refundedAmount", 0] }],
+              },
+            },
+          },
+        },
+        { $match: { quantity: { $gt: 0 } } },
+        { $sort: { quantity: -1, revenue: -1 } },
+        { $limit: 5 },
+      ]),
+    ]);
+
+    return {
+      lifetimeSpend: summary[0]?.lifetimeSpend || 0,
+      visitCount: summary[0]?.visitCount || 0,
+      firstPurchase: summary[0]?.firstPurchase,
+      lastPurchase: summary[0]?.lastPurchase,
+      outstandingCredit: summary[0]?.outstandingCredit || 0,
+      favouriteItems: favouriteItems.map((item) => ({
+        itemId: item._id.toString(),
+        itemName: item.itemName,
+        quantity: item.quantity,
+        revenue: item.revenue,
+      })),
+    };
+  }
+
+  // Most recent tickets bought by a customer
+  async findCustomerTickets(
+    shopId: string,
+    customerId: string,
+    phones: string[],
+    limit: number = 10
+  ): Promise<ITicketSummary[]> {
+    const tickets = await Ticket.find(this.customerTicketsMatch(shopId, customerId, phones))
+      .select("ticketNumber totalAmount totalItemCount soldByName paymentMethod date isCredit creditStatus amountOwed totalRefunded refunded")
+      .sort({ date: -1 })
+      .limit(limit)
+      .lean();
+    return tickets as unknown as ITicketSummary[];
+  }
+
+  // Count tickets linked to a customer record
+  async countByCustomer(customerId: string): Promise<number> {
+    return await Ticket.countDocuments({ customerId: new Types.ObjectId(customerId) });
+  }
+
+  // Move tickets from merged customers to the customer they were merged into
+  async reassignCustomer(
+    fromCustomerIds: string[],
+    toCustomerId: string,
+    session?: ClientSession
+  ): Promise<number> {
+    const result = await Ticket.updateMany(
+      { customerId: { $in: fromCustomerIds.map((id) => new Types.ObjectId(id)) } },
+      { $set: { customerId: new Types.ObjectId(toCustomerId) } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+
   // Get total items sold for a specific item
   async getTotalSoldByItem(itemId: string): Promise<number> {
     const result = await Ticket.aggregate([
@@ -351,7 +899,11 @@ export class TicketRepository {
       {
         $group: {
           _id: null,
-          totalQuantity: { $sum: "$items.quantitySold" },
+          totalQuantity: {
+            $sum: {
+              $subtract: ["$items.quantitySold", { $ifNull: ["$items.quantityReturned", 0] }],
+            },
+          },
         },
       },
     ]);
@@ -375,7 +927,7 @@ export class TicketRepository {
 
     const [tickets, total] = await Promise.all([
       Ticket.find(query)
-        .select("ticketNumber totalAmount totalItemCount soldByName paymentMethod date isCredit creditStatus amountOwed refunded")
+        .select("ticketNumber totalAmount totalItemCount soldByName paymentMethod date isCredit creditStatus amountOwed totalRefunded refunded")
         .skip(skip)
         .limit(limit)
         .sort({ date: -1 })
@@ -437,37 +989,135 @@ export class TicketRepository {
     };
   }
 
-  async recordCreditPayment(
+  // Apply a payment to a credit ticket. Only matches while the ticket is
+  // still open and owes what the payment was worked out against, so a
+  // payment, late fee or write-off recorded in the meantime is not lost.
+  async applyCreditPayment(
     ticketId: string,
-    payment: ICreditPayment
+    expectedAmountOwed: number,
+    payment: ICreditPayment,
+    session?: ClientSession
   ): Promise<ITicket | null> {
-    const ticket = await Ticket.findById(ticketId);
-    if (!ticket) return null;
+    const newAmountOwed = roundCurrency(Math.max(0, expectedAmountOwed - payment.amount));
 
-    const newAmountPaid = ticket.amountPaid + payment.amount;
-    const newAmountOwed = ticket.totalAmount - newAmountPaid;
+    const updatedTicket = await Ticket.findOneAndUpdate(
+      {
+        _id: ticketId,
+        amountOwed: expectedAmountOwed,
+        creditStatus: { $in: ["pending", "partial"] },
+      },
+      {
+        $push: { payments: payment },
+        $inc: { amountPaid: payment.amount },
+        $set: {
+          amountOwed: newAmountOwed,
+          creditStatus: newAmountOwed <= 0 ? "paid" : "partial",
+        },
+      },
+      { new: true, session }
+    );
 
-    let newStatus: "pending" | "partial" | "paid" = "pending";
-    if (newAmountOwed <= 0) {
-      newStatus = "paid";
-    } else if (newAmountPaid > 0) {
-      newStatus = "partial";
-    }
+    return updatedTicket as ITicket | null;
+  }
 
-    const updatedTicket = await Ticket.findByIdAndUpdate(
-      ticketId,
+  // Write off what is still owed on a credit ticket. Only matches while the
+  // balance is unchanged and still open.
+  async writeOff(
+    ticketId: string,
+    expectedAmountOwed: number,
+    writeOff: ITicketWriteOff
+  ): Promise<ITicket | null> {
+    return await Ticket.findOneAndUpdate(
+      {
+        _id: ticketId,
+        amountOwed: expectedAmountOwed,
+        creditStatus: { $in: ["pending", "partial"] },
+      },
       {
-        $push: { payments: payment },
         $set: {
-          amountPaid: newAmountPaid,
-          amountOwed: Math.max(0, newAmountOwed),
-          creditStatus: newStatus,
+          amountOwed: 0,
+          creditStatus: "written_off",
+          writeOff,
         },
       },
       { new: true }
     );
-    
-    return updatedTicket as ITicket | null;
+  }
+
+  // Add late fees to an overdue ticket. Only matches while the balance is
+  // unchanged and still open.
+  async addCharges(
+    ticketId: string,
+    expectedAmountOwed: number,
+    charges: ITicketCharge[]
+  ): Promise<ITicket | null> {
+    const total = roundCurrency(charges.reduce((sum, charge) => sum + charge.amount, 0));
+
+    return await Ticket.findOneAndUpdate(
+      {
+        _id: ticketId,
+        amountOwed: expectedAmountOwed,
+        creditStatus: { $in: ["pending", "partial"] },
+      },
+      {
+        $push: { charges: { $each: charges } },
+        $set: { amountOwed: roundCurrency(expectedAmountOwed + total) },
+      },
+      { new: true }
+    );
+  }
+
+  // Waive a late fee, taking it off the balance
+  async waiveCharge(
+    ticketId: string,
+    chargeId: string,
+    expectedAmountOwed: number,
+    waiver: { amount: number; waivedBy: Types.ObjectId; waiveReason: string }
+  ): Promise<ITicket | null> {
+    const newAmountOwed = roundCurrency(expectedAmountOwed - waiver.amount);
+
+    const update: any = {
+      "charges.$.waived": true,
+      "charges.$.waivedAt": new Date(),
+      "charges.$.waivedBy": waiver.waivedBy,
+      "charges.$.waiveReason": waiver.waiveReason,
+      amountOwed: newAmountOwed,
+    };
+    if (newAmountOwed <= 0) update.creditStatus = "paid";
+
+    return await Ticket.findOneAndUpdate(
+      {
+        _id: ticketId,
+        amountOwed: expectedAmountOwed,
+        creditStatus: { $in: ["pending", "partial"] },
+        charges: { $elemMatch: { _id: new Types.ObjectId(chargeId), waived: false } },
+      },
+      { $set: update },
+      { new: true }
+    );
+  }
+
+  // Total credit written off as bad debt within a period. Late fees
+  // written off were never booked as revenue, so they are not a loss.
+  async getBadDebtTotal(shopId: string, startDate: Date, endDate: Date): Promise<number> {
+    const [result] = await Ticket.aggregate([
+      {
+        $match: {
+          shopId: new Types.ObjectId(shopId),
+          "writeOff.date": { $gte: startDate, $lte: endDate },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          total: {
+            $sum: { $subtract: ["$writeOff.amount", { $ifNull: ["$writeOff.lateFees", 0] }] },
+          },
+        },
+      },
+    ]);
+
+    return roundCurrency(result?.total || 0);
   }
 
   async getCreditSalesSummary(shopId: string): Promise<any> {
@@ -494,6 +1144,7 @@ export class TicketRepository {
       pending: { count: 0, totalAmount: 0, totalOwed: 0, totalPaid: 0 },
       partial: { count: 0, totalAmount: 0, totalOwed: 0, totalPaid: 0 },
       paid: { count: 0, totalAmount: 0, totalOwed: 0, totalPaid: 0 },
+      written_off: { count: 0, totalAmount: 0, totalOwed: 0, totalPaid: 0 },
       overall: { count: 0, totalAmount: 0, totalOwed: 0, totalPaid: 0 },
     };
 
@@ -527,6 +1178,20 @@ export class TicketRepository {
       .lean() as unknown as ITicket[];
   }
 
+  // Credit tickets with a balance still owed
+  async getOpenCreditTickets(shopId: string): Promise<ITicket[]> {
+    return await Ticket.find({
+      shopId: new Types.ObjectId(shopId),
+      isCredit: true,
+      creditStatus: { $in: ["pending", "partial"] },
+      amountOwed: { $gt: 0 },
+      refunded: false,
+    })
+      .select("ticketNumber customerId customerName customerPhone amountOwed dueDate date")
+      .sort({ dueDate: 1 })
+      .lean() as unknown as ITicket[];
+  }
+
   async getOverdueCreditTickets(shopId: string): Promise<ITicket[]> {
     return await Ticket.find({
       shopId: new Types.ObjectId(shopId),
@@ -538,4 +1203,51 @@ export class TicketRepository {
       .sort({ dueDate: 1 })
       .lean() as unknown as ITicket[];
   }
-}
\ No newline at end of file
+
+  // Cash-affecting ticket records handled by a staff member in a window:
+  // tickets they rang up, credit installments they received, tickets they
+  // refunded and returns they processed
+  async getDrawerActivity(
+    shopId: string,
+    staffId: string,
+    start: Date,
+    end: Date
+  ): Promise<{
+    tickets: ITicket[];
+    creditPayments: ICreditPayment[];
+    refundedTickets: ITicket[];
+    returns: ITicketReturn[];
+  }> {
+    const shopObjectId = new Types.ObjectId(shopId);
+    const staffObjectId = new Types.ObjectId(staffId);
+    const window = { $gte: start, $lt: end };
+
+    const [tickets, creditPayments, refundedTickets, returns] = await Promise.all([
+      Ticket.find({ shopId: shopObjectId, soldBy: staffObjectId, date: window })
+        .select("ticketNumber items totalAmount totalRefunded promotionDiscount paymentMethod tenders layawayId")
+        .lean(),
+      Ticket.aggregate([
+        { $match: { shopId: shopObjectId, "payments.receivedBy": staffObjectId } },
+        { $unwind: "$payments" },
+        { $match: { "payments.receivedBy": staffObjectId, "payments.paymentDate": window } },
+        { $replaceRoot: { newRoot: "$payments" } },
+      ]),
+      Ticket.find({ shopId: shopObjectId, refundedBy: staffObjectId, refundedAt: window })
+        .select("ticketNumber totalAmount totalRefunded totalItemCount paymentMethod tenders payments")
+        .lean(),
+      Ticket.aggregate([
+        { $match: { shopId: shopObjectId, "returns.processedBy": staffObjectId } },
+        { $unwind: "$returns" },
+        { $match: { "returns.processedBy": staffObjectId, "returns.date": window } },
+        { $replaceRoot: { newRoot: "$returns" } },
+      ]),
+    ]);
+
+    return {
+      tickets: tickets as unknown as ITicket[],
+      creditPayments,
+      refundedTickets: refundedTickets as unknown as ITicket[],
+      returns,
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import Shop from "../../auth/models/shop";
+import Shop, { IShopSettings } from "../../auth/models/shop";
 import { Types } from "mongoose";
 
 export class ShopRepository {
@@ -12,4 +12,34 @@ export class ShopRepository {
     }).lean();
     return !!shop;
   }
-}
\ No newline at end of file
+
+  /**
+   * Get shop settings (undefined for shops that never saved any)
+   */
+  async getSettings(shopId: string): Promise<Partial<IShopSettings> | undefined> {
+    const shop = await Shop.findById(shopId).select("settings").lean();
+    return shop?.settings;
+  }
+
+  /**
+   * Get the shop details printed on receipts
+   */
+  async getReceiptProfile(shopId: string): Promise<{
+    shopName: string;
+    address?: string;
+    phoneNumber: string;
+    settings?: Partial<IShopSettings>;
+  } | null> {
+    return await Shop.findById(shopId).select("shopName address phoneNumber settings").lean();
+  }
+
+  /**
+   * Get the IDs of verified shops that have switched on a scheduled feature
+   */
+  async findIdsWithSettingEnabled(section: "lateFees" | "reminders"): Promise<string[]> {
+    const shops = await Shop.find({ isVerified: true, [`settings.${section}.enabled`]: true })
+      .select("_id")
+      .lean();
+    return shops.map((shop) => String(shop._id));
+  }
+}
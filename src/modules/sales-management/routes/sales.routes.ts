@@ -4,14 +4,20 @@ import {
   getTicketList,
   getAllItemsSold,
   getTicketById,
+  getTicketReceipt,
   updateTicket,
   refundTicket,
+  createTicketReturn,
+  getTicketReturns,
+  createTicketExchange,
   deleteTicket,
   getAnalytics,
   searchTickets,
   recordCreditPayment,
+  writeOffCreditTicket,
   getCreditTickets,
   getCreditSalesSummary,
+  getReceivablesAging,
   getOverdueCreditTickets,
   getCustomerCreditHistory,
 } from "../controllers/sales.controller";
@@ -19,21 +25,137 @@ import {
   createTicketValidation,
   updateTicketValidation,
   refundTicketValidation,
+  createTicketReturnValidation,
+  createTicketExchangeValidation,
   shopIdValidation,
   ticketIdValidation,
+  receiptValidation,
   getTicketsValidation,
   analyticsValidation,
   searchTicketsValidation,
   recordCreditPaymentValidation,
+  writeOffCreditValidation,
   getCreditTicketsValidation,
   customerPhoneValidation,
+  receivablesAgingValidation,
 } from "../validators/sale.validator";
+import {
+  createPromotion,
+  getPromotions,
+  getPromotionById,
+  updatePromotion,
+  deletePromotion,
+} from "../controllers/promotion.controller";
+import {
+  createPromotionValidation,
+  updatePromotionValidation,
+  getPromotionsValidation,
+  promotionIdValidation,
+} from "../validators/promotion.validator";
+import {
+  createDraftTicket,
+  getDraftTickets,
+  getDraftTicketById,
+  updateDraftTicket,
+  cancelDraftTicket,
+  convertDraftTicket,
+} from "../controllers/draftTicket.controller";
+import {
+  createDraftTicketValidation,
+  updateDraftTicketValidation,
+  getDraftTicketsValidation,
+  draftTicketIdValidation,
+  convertDraftTicketValidation,
+} from "../validators/draftTicket.validator";
+import {
+  createQuote,
+  getQuotes,
+  getQuoteById,
+  updateQuote,
+  sendQuote,
+  printQuote,
+  convertQuote,
+} from "../controllers/quote.controller";
+import {
+  createQuoteValidation,
+  updateQuoteValidation,
+  getQuotesValidation,
+  quoteIdValidation,
+  printQuoteValidation,
+  convertQuoteValidation,
+} from "../validators/quote.validator";
+import {
+  createLayaway,
+  getLayaways,
+  getLayawayById,
+  recordLayawayPayment,
+  cancelLayaway,
+} from "../controllers/layaway.controller";
+import {
+  createLayawayValidation,
+  getLayawaysValidation,
+  layawayIdValidation,
+  recordLayawayPaymentValidation,
+  cancelLayawayValidation,
+} from "../validators/layaway.validator";
+import {
+  openDrawerSession,
+  getDrawerSessions,
+  getDrawerSession,
+  recordDrawerMovement,
+  closeDrawerSession,
+  getZReport,
+} from "../controllers/drawerSession.controller";
+import {
+  openDrawerValidation,
+  getDrawerSessionsValidation,
+  drawerSessionIdValidation,
+  drawerMovementValidation,
+  closeDrawerValidation,
+  zReportValidation,
+} from "../validators/drawerSession.validator";
+import {
+  createCustomer,
+  getCustomers,
+  getCustomerById,
+  getCustomerProfile,
+  getCustomerStatement,
+  updateCustomer,
+  deleteCustomer,
+  mergeCustomers,
+  recordCustomerPayment,
+  getCustomerPayments,
+  getCustomerPaymentReceipt,
+} from "../controllers/customer.controller";
+import {
+  createCustomerValidation,
+  updateCustomerValidation,
+  getCustomersValidation,
+  customerIdValidation,
+  customerStatementValidation,
+  mergeCustomersValidation,
+  recordCustomerPaymentValidation,
+  getCustomerPaymentsValidation,
+  customerPaymentReceiptValidation,
+} from "../validators/customer.validator";
+import { applyLateFees, waiveLateFee } from "../controllers/lateFee.controller";
+import { applyLateFeesValidation, waiveLateFeeValidation } from "../validators/lateFee.validator";
+import {
+  sendCreditReminder,
+  getTicketReminders,
+  getCreditReminders,
+} from "../controllers/creditReminder.controller";
+import {
+  ticketReminderValidation,
+  getCreditRemindersValidation,
+} from "../validators/creditReminder.validator";
 import {
   authenticate,
   ownerOnly,
   verifyShopAccess,
   requireRole,
 } from "../../../shared/middleware/auth.middleware";
+import { idempotent } from "../../../shared/middleware/idempotency.middleware";
 
 const router = express.Router();
 
@@ -42,7 +164,7 @@ router.use(authenticate);
 
 
 // Create new ticket (multi-item sale)
-router.post("/", createTicketValidation, createTicket);
+router.post("/", createTicketValidation, idempotent, createTicket);
 
 // Get tickets list (summary view)
 router.get(
@@ -93,6 +215,14 @@ router.get(
   getCreditSalesSummary
 );
 
+// Receivables aging (json or csv)
+router.get(
+  "/:shopId/credit/aging",
+  receivablesAgingValidation,
+  verifyShopAccess,
+  getReceivablesAging
+);
+
 // Overdue credit tickets
 router.get(
   "/:shopId/credit/overdue",
@@ -101,6 +231,23 @@ router.get(
   getOverdueCreditTickets
 );
 
+// Charge late fees on overdue credit tickets now (owner only)
+router.post(
+  "/:shopId/credit/late-fees/apply",
+  applyLateFeesValidation,
+  verifyShopAccess,
+  ownerOnly,
+  applyLateFees
+);
+
+// Credit reminder send log
+router.get(
+  "/:shopId/credit/reminders",
+  getCreditRemindersValidation,
+  verifyShopAccess,
+  getCreditReminders
+);
+
 // Customer credit history
 router.get(
   "/:shopId/credit/customer/:customerPhone",
@@ -109,6 +256,332 @@ router.get(
   getCustomerCreditHistory
 );
 
+// Create promotion (owner only)
+router.post(
+  "/:shopId/promotions",
+  createPromotionValidation,
+  verifyShopAccess,
+  ownerOnly,
+  createPromotion
+);
+
+// Get promotions
+router.get(
+  "/:shopId/promotions",
+  getPromotionsValidation,
+  verifyShopAccess,
+  getPromotions
+);
+
+// Get single promotion
+router.get(
+  "/:shopId/promotions/:promotionId",
+  promotionIdValidation,
+  verifyShopAccess,
+  getPromotionById
+);
+
+// Update promotion (owner only)
+router.put(
+  "/:shopId/promotions/:promotionId",
+  updatePromotionValidation,
+  verifyShopAccess,
+  ownerOnly,
+  updatePromotion
+);
+
+// Delete promotion (owner only)
+router.delete(
+  "/:shopId/promotions/:promotionId",
+  promotionIdValidation,
+  verifyShopAccess,
+  ownerOnly,
+  deletePromotion
+);
+
+// Park a ticket (no stock reduction)
+router.post(
+  "/:shopId/drafts",
+  createDraftTicketValidation,
+  verifyShopAccess,
+  createDraftTicket
+);
+
+// Get parked tickets
+router.get(
+  "/:shopId/drafts",
+  getDraftTicketsValidation,
+  verifyShopAccess,
+  getDraftTickets
+);
+
+// Get single parked ticket
+router.get(
+  "/:shopId/drafts/:draftId",
+  draftTicketIdValidation,
+  verifyShopAccess,
+  getDraftTicketById
+);
+
+// Resume and edit a parked ticket (any staff member)
+router.put(
+  "/:shopId/drafts/:draftId",
+  updateDraftTicketValidation,
+  verifyShopAccess,
+  updateDraftTicket
+);
+
+// Cancel a parked ticket
+router.delete(
+  "/:shopId/drafts/:draftId",
+  draftTicketIdValidation,
+  verifyShopAccess,
+  cancelDraftTicket
+);
+
+// Ring up a parked ticket
+router.post(
+  "/:shopId/drafts/:draftId/convert",
+  convertDraftTicketValidation,
+  verifyShopAccess,
+  convertDraftTicket
+);
+
+// Create quote (no stock reduction)
+router.post(
+  "/:shopId/quotes",
+  createQuoteValidation,
+  verifyShopAccess,
+  createQuote
+);
+
+// Get quotes
+router.get(
+  "/:shopId/quotes",
+  getQuotesValidation,
+  verifyShopAccess,
+  getQuotes
+);
+
+// Get single quote
+router.get(
+  "/:shopId/quotes/:quoteId",
+  quoteIdValidation,
+  verifyShopAccess,
+  getQuoteById
+);
+
+// Edit a quote
+router.put(
+  "/:shopId/quotes/:quoteId",
+  updateQuoteValidation,
+  verifyShopAccess,
+  updateQuote
+);
+
+// Mark a quote as sent
+router.post(
+  "/:shopId/quotes/:quoteId/send",
+  quoteIdValidation,
+  verifyShopAccess,
+  sendQuote
+);
+
+// Print a quote as a proforma invoice
+router.get(
+  "/:shopId/quotes/:quoteId/print",
+  printQuoteValidation,
+  verifyShopAccess,
+  printQuote
+);
+
+// Accept a quote and ring it up
+router.post(
+  "/:shopId/quotes/:quoteId/convert",
+  convertQuoteValidation,
+  verifyShopAccess,
+  convertQuote
+);
+
+// Open a layaway (stock held, not sold)
+router.post(
+  "/:shopId/layaways",
+  createLayawayValidation,
+  verifyShopAccess,
+  createLayaway
+);
+
+// Get layaways
+router.get(
+  "/:shopId/layaways",
+  getLayawaysValidation,
+  verifyShopAccess,
+  getLayaways
+);
+
+// Get single layaway
+router.get(
+  "/:shopId/layaways/:layawayId",
+  layawayIdValidation,
+  verifyShopAccess,
+  getLayawayById
+);
+
+// Record a layaway installment
+router.post(
+  "/:shopId/layaways/:layawayId/payments",
+  recordLayawayPaymentValidation,
+  verifyShopAccess,
+  recordLayawayPayment
+);
+
+// Cancel a layaway (owner only)
+router.post(
+  "/:shopId/layaways/:layawayId/cancel",
+  cancelLayawayValidation,
+  verifyShopAccess,
+  ownerOnly,
+  cancelLayaway
+);
+
+// Open a cash drawer with a float
+router.post(
+  "/:shopId/drawer/sessions",
+  openDrawerValidation,
+  verifyShopAccess,
+  openDrawerSession
+);
+
+// Get drawer sessions
+router.get(
+  "/:shopId/drawer/sessions",
+  getDrawerSessionsValidation,
+  verifyShopAccess,
+  getDrawerSessions
+);
+
+// Get single drawer session
+router.get(
+  "/:shopId/drawer/sessions/:sessionId",
+  drawerSessionIdValidation,
+  verifyShopAccess,
+  getDrawerSession
+);
+
+// Record a drawer pay-in or pay-out
+router.post(
+  "/:shopId/drawer/sessions/:sessionId/movements",
+  drawerMovementValidation,
+  verifyShopAccess,
+  recordDrawerMovement
+);
+
+// Count and close a drawer
+router.post(
+  "/:shopId/drawer/sessions/:sessionId/close",
+  closeDrawerValidation,
+  verifyShopAccess,
+  closeDrawerSession
+);
+
+// End-of-day Z report
+router.get(
+  "/:shopId/drawer/z-report",
+  zReportValidation,
+  verifyShopAccess,
+  getZReport
+);
+
+// Create customer
+router.post(
+  "/:shopId/customers",
+  createCustomerValidation,
+  verifyShopAccess,
+  createCustomer
+);
+
+// Get customers (search by name or phone)
+router.get(
+  "/:shopId/customers",
+  getCustomersValidation,
+  verifyShopAccess,
+  getCustomers
+);
+
+// Get single customer
+router.get(
+  "/:shopId/customers/:customerId",
+  customerIdValidation,
+  verifyShopAccess,
+  getCustomerById
+);
+
+// Get customer profile (spend, visits, credit, favourite items)
+router.get(
+  "/:shopId/customers/:customerId/profile",
+  customerIdValidation,
+  verifyShopAccess,
+  getCustomerProfile
+);
+
+// Get customer credit statement (json, csv or html)
+router.get(
+  "/:shopId/customers/:customerId/statement",
+  customerStatementValidation,
+  verifyShopAccess,
+  getCustomerStatement
+);
+
+// Record a payment across a customer's credit tickets
+router.post(
+  "/:shopId/customers/:customerId/payments",
+  recordCustomerPaymentValidation,
+  verifyShopAccess,
+  recordCustomerPayment
+);
+
+// Get customer payments
+router.get(
+  "/:shopId/customers/:customerId/payments",
+  getCustomerPaymentsValidation,
+  verifyShopAccess,
+  getCustomerPayments
+);
+
+// Get customer payment receipt (html, text or escpos)
+router.get(
+  "/:shopId/customers/:customerId/payments/:paymentId/receipt",
+  customerPaymentReceiptValidation,
+  verifyShopAccess,
+  getCustomerPaymentReceipt
+);
+
+// Update customer
+router.put(
+  "/:shopId/customers/:customerId",
+  updateCustomerValidation,
+  verifyShopAccess,
+  updateCustomer
+);
+
+// Delete customer (owner only)
+router.delete(
+  "/:shopId/customers/:customerId",
+  customerIdValidation,
+  verifyShopAccess,
+  ownerOnly,
+  deleteCustomer
+);
+
+// Merge duplicate customers into one (owner only)
+router.post(
+  "/:shopId/customers/:customerId/merge",
+  mergeCustomersValidation,
+  verifyShopAccess,
+  ownerOnly,
+  mergeCustomers
+);
+
 // Get single ticket by ID (with all items)
 router.get(
   "/:shopId/:ticketId",
@@ -118,6 +591,14 @@ router.get(
   getTicketById
 );
 
+// Get ticket receipt (html, text or escpos)
+router.get(
+  "/:shopId/:ticketId/receipt",
+  receiptValidation,
+  verifyShopAccess,
+  getTicketReceipt
+);
+
 // Update ticket (owner only)
 router.put(
   "/:shopId/:ticketId",
@@ -136,14 +617,76 @@ router.post(
   refundTicket
 );
 
+// Return selected lines of a ticket (owner only)
+router.post(
+  "/:shopId/:ticketId/returns",
+  createTicketReturnValidation,
+  verifyShopAccess,
+  ownerOnly,
+  createTicketReturn
+);
+
+// Get return history of a ticket
+router.get(
+  "/:shopId/:ticketId/returns",
+  shopIdValidation,
+  ticketIdValidation,
+  verifyShopAccess,
+  getTicketReturns
+);
+
+// Exchange returned lines for new items (owner only)
+router.post(
+  "/:shopId/:ticketId/exchange",
+  createTicketExchangeValidation,
+  verifyShopAccess,
+  ownerOnly,
+  createTicketExchange
+);
+
 // Record credit payment
 router.post(
   "/:shopId/:ticketId/payment",
   recordCreditPaymentValidation,
   verifyShopAccess,
+  idempotent,
   recordCreditPayment
 );
 
+// Write off credit as bad debt (owner only)
+router.post(
+  "/:shopId/:ticketId/write-off",
+  writeOffCreditValidation,
+  verifyShopAccess,
+  ownerOnly,
+  writeOffCreditTicket
+);
+
+// Text the customer a credit reminder now
+router.post(
+  "/:shopId/:ticketId/reminders",
+  ticketReminderValidation,
+  verifyShopAccess,
+  sendCreditReminder
+);
+
+// Get reminders sent for a credit ticket
+router.get(
+  "/:shopId/:ticketId/reminders",
+  ticketReminderValidation,
+  verifyShopAccess,
+  getTicketReminders
+);
+
+// Waive a late fee (owner only)
+router.post(
+  "/:shopId/:ticketId/late-fees/:chargeId/waive",
+  waiveLateFeeValidation,
+  verifyShopAccess,
+  ownerOnly,
+  waiveLateFee
+);
+
 // Delete ticket (owner only)
 router.delete(
   "/:shopId/:ticketId",
@@ -0,0 +1,255 @@
+import { CreditReminderRepository } from "../repositories/creditReminder.repository";
+import { TicketRepository } from "../repositories/sales.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { logSalesAuditEvent } from "../utils/auditLogger";
+import {
+  buildReminderMessage,
+  getDaysUntilDue,
+  getScheduledReminder,
+  isQuietHours,
+  resolveReminderSettings,
+} from "../utils/reminders";
+import { getSmsSender } from "../../../shared/utils/smsSender";
+import { Types } from "mongoose";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+} from "../../../shared/utils/AppError";
+import {
+  CreditReminderKind,
+  CreditReminderQueryOptions,
+  CreditReminderRunResult,
+  ICreditReminder,
+  ITicket,
+  RequestMetadata,
+} from "../types";
+
+export class CreditReminderService {
+  private creditReminderRepository: CreditReminderRepository;
+  private ticketRepository: TicketRepository;
+  private shopRepository: ShopRepository;
+
+  constructor() {
+    this.creditReminderRepository = new CreditReminderRepository();
+    this.ticketRepository = new TicketRepository();
+    this.shopRepository = new ShopRepository();
+  }
+
+  private async validateShopAccess(
+    shopId: string,
+    userShopId: string,
+    userRole: "owner" | "staff"
+  ): Promise<void> {
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only access tickets for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  private async findShopTicket(ticketId: string, shopId: string): Promise<ITicket> {
+    const ticket = await this.ticketRepository.findById(ticketId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    if (ticket.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Ticket does not belong to this shop");
+    }
+
+    return ticket;
+  }
+
+  // Text the customer and log the attempt, whether or not it went through
+  private async sendReminder(
+    ticket: ITicket,
+    shopName: string,
+    reminder: { kind: CreditReminderKind; offsetDays: number; triggeredBy?: string },
+    now: Date
+  ): Promise<ICreditReminder> {
+    const message = buildReminderMessage(ticket, shopName, now);
+    const result = await getSmsSender().send(ticket.customerPhone!, message);
+
+    return await this.creditReminderRepository.create({
+      shopId: ticket.shopId,
+      ticketId: ticket._id,
+      ticketNumber: ticket.ticketNumber,
+      customerName: ticket.customerName,
+      customerPhone: ticket.customerPhone,
+      kind: reminder.kind,
+      offsetDays: reminder.offsetDays,
+      amountOwed: ticket.amountOwed,
+      message,
+      status: result.ok ? "sent" : "failed",
+      provider: result.provider,
+      providerMessageId: result.messageId,
+      error: result.error,
+      triggeredBy: reminder.triggeredBy ? new Types.ObjectId(reminder.triggeredBy) : undefined,
+      sentAt: now,
+    });
+  }
+
+  // Send the reminders a shop's open credit tickets are due for today. Safe
+  // to run repeatedly: a reminder that went out is not sent again, and
+  // failed ones are retried on the next run.
+  async sendDueReminders(shopId: string, now: Date): Promise<CreditReminderRunResult> {
+    const result: CreditReminderRunResult = { shopId, sent: 0, failed: 0 };
+
+    const shop = await this.shopRepository.getReceiptProfile(shopId);
+    if (!shop) {
+      return result;
+    }
+
+    const settings = resolveReminderSettings(shop.settings?.reminders);
+    if (!settings.enabled) {
+      return result;
+    }
+
+    if (isQuietHours(now, settings.quietHoursStart, settings.quietHoursEnd)) {
+      return { ...result, skipped: "quiet_hours" };
+    }
+
+    const tickets = await this.ticketRepository.getOpenCreditTickets(shopId);
+
+    for (const ticket of tickets) {
+      if (!ticket.dueDate || !ticket.customerPhone) continue;
+
+      const scheduled = getScheduledReminder(ticket.dueDate, settings, now);
+      if (!scheduled) continue;
+
+      const alreadySent = await this.creditReminderRepository.hasBeenSent(
+        ticket._id.toString(),
+        scheduled.kind,
+        scheduled.offsetDays
+      );
+      if (alreadySent) continue;
+
+      const reminder = await this.sendReminder(ticket, shop.shopName, scheduled, now);
+      if (reminder.status === "sent") {
+        result.sent += 1;
+      } else {
+        result.failed += 1;
+      }
+    }
+
+    return result;
+  }
+
+  // Scheduled run across every shop with reminders switched on
+  async sendDueRemindersToAllShops(now: Date = new Date()): Promise<CreditReminderRunResult[]> {
+    const shopIds = await this.shopRepository.findIdsWithSettingEnabled("reminders");
+    const results: CreditReminderRunResult[] = [];
+
+    for (const shopId of shopIds) {
+      try {
+        results.push(await this.sendDueReminders(shopId, now));
+      } catch (error) {
+        console.error(`[CREDIT_REMINDERS] Failed to send reminders for shop ${shopId}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  // Text a customer about a credit ticket now. Works even when scheduled
+  // reminders are off, but not during quiet hours.
+  async sendManualReminder(
+    ticketId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<ICreditReminder> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const ticket = await this.findShopTicket(ticketId, shopId);
+
+    if (!ticket.isCredit) {
+      throw new ValidationError("This is not a credit sale");
+    }
+
+    if (ticket.refunded) {
+      throw new ValidationError("Cannot send a reminder for a refunded ticket");
+    }
+
+    if (ticket.creditStatus !== "pending" && ticket.creditStatus !== "partial") {
+      throw new ValidationError("This credit sale has no balance outstanding");
+    }
+
+    if (!ticket.customerPhone) {
+      throw new ValidationError("This ticket has no customer phone number");
+    }
+
+    const shop = await this.shopRepository.getReceiptProfile(shopId);
+    if (!shop) {
+      throw new NotFoundError("Shop not found");
+    }
+
+    const settings = resolveReminderSettings(shop.settings?.reminders);
+    const now = new Date();
+    if (isQuietHours(now, settings.quietHoursStart, settings.quietHoursEnd)) {
+      throw new ValidationError(
+        `Reminders cannot be sent during quiet hours (${settings.quietHoursStart} to ${settings.quietHoursEnd})`
+      );
+    }
+
+    const reminder = await this.sendReminder(
+      ticket,
+      shop.shopName,
+      {
+        kind: "manual",
+        offsetDays: ticket.dueDate ? -getDaysUntilDue(ticket.dueDate, now) : 0,
+        triggeredBy: userId,
+      },
+      now
+    );
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "CREDIT_REMINDER_SENT",
+      shopId,
+      performedBy: { userId, role: userRole },
+      saleId: ticketId,
+      ip,
+      details: {
+        reminderId: reminder._id.toString(),
+        status: reminder.status,
+        provider: reminder.provider,
+        error: reminder.error,
+      },
+    });
+
+    return reminder;
+  }
+
+  // Reminders sent for a ticket
+  async getTicketReminders(
+    ticketId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<ICreditReminder[]> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+    await this.findShopTicket(ticketId, shopId);
+
+    return await this.creditReminderRepository.findByTicket(ticketId);
+  }
+
+  // Reminder send log for a shop
+  async getReminders(
+    shopId: string,
+    options: CreditReminderQueryOptions,
+    metadata: RequestMetadata
+  ): Promise<{ reminders: ICreditReminder[]; total: number; page: number; pages: number }> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    return await this.creditReminderRepository.findByShopId(shopId, options);
+  }
+}
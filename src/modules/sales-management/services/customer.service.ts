@@ -0,0 +1,367 @@
+import { CustomerRepository } from "../repositories/customer.repository";
+import { TicketRepository } from "../repositories/sales.repository";
+import { DraftTicketRepository } from "../repositories/draftTicket.repository";
+import { QuoteRepository } from "../repositories/quote.repository";
+import { LayawayRepository } from "../repositories/layaway.repository";
+import { CustomerPaymentRepository } from "../repositories/customerPayment.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { TicketService } from "./sales.service";
+import { logSalesAuditEvent } from "../utils/auditLogger";
+import { buildStatementEntries } from "../utils/receivables";
+import mongoose, { Types } from "mongoose";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import {
+  CreateCustomerInput,
+  UpdateCustomerInput,
+  CustomerQueryOptions,
+  CustomerProfile,
+  CustomerStatement,
+  ICustomer,
+  RequestMetadata,
+} from "../types";
+
+export class CustomerService {
+  private customerRepository: CustomerRepository;
+  private ticketRepository: TicketRepository;
+  private draftTicketRepository: DraftTicketRepository;
+  private quoteRepository: QuoteRepository;
+  private layawayRepository: LayawayRepository;
+  private customerPaymentRepository: CustomerPaymentRepository;
+  private shopRepository: ShopRepository;
+  private ticketService: TicketService;
+
+  constructor() {
+    this.customerRepository = new CustomerRepository();
+    this.ticketRepository = new TicketRepository();
+    this.draftTicketRepository = new DraftTicketRepository();
+    this.quoteRepository = new QuoteRepository();
+    this.layawayRepository = new LayawayRepository();
+    this.customerPaymentRepository = new CustomerPaymentRepository();
+    this.shopRepository = new ShopRepository();
+    this.ticketService = new TicketService();
+  }
+
+  private async validateShopAccess(
+    shopId: string,
+    userShopId: string,
+    userRole: "owner" | "staff"
+  ): Promise<void> {
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only access customers for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  private async findShopCustomer(customerId: string, shopId: string): Promise<ICustomer> {
+    const customer = await this.customerRepository.findById(customerId);
+    if (!customer) {
+      throw new NotFoundError("Customer not found");
+    }
+
+    if (customer.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Customer does not belong to this shop");
+    }
+
+    return customer;
+  }
+
+  private async assertPhoneAvailable(
+    shopId: string,
+    phone: string,
+    excludeCustomerId?: string
+  ): Promise<void> {
+    const existing = await this.customerRepository.findByPhone(shopId, phone);
+    if (existing && existing._id.toString() !== excludeCustomerId) {
+      throw new ConflictError(`Phone number ${phone} already belongs to ${existing.name}`);
+    }
+  }
+
+  // Create a customer
+  async createCustomer(input: CreateCustomerInput, metadata: RequestMetadata): Promise<ICustomer> {
+    const { shopId, ...details } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (details.creditLimit !== undefined && userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can set credit limits");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+    await this.assertPhoneAvailable(shopId, details.phone);
+
+    const customer = await this.customerRepository.create({
+      ...details,
+      shopId: new Types.ObjectId(shopId),
+      createdBy: new Types.ObjectId(userId),
+    });
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "CUSTOMER_CREATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: { customerId: customer._id.toString(), name: customer.name },
+    });
+
+    return customer;
+  }
+
+  // List customers, optionally searching by name or phone
+  async getCustomers(
+    shopId: string,
+    options: CustomerQueryOptions,
+    metadata: RequestMetadata
+  ): Promise<{ customers: ICustomer[]; total: number; page: number; pages: number }> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    return await this.customerRepository.findByShopId(shopId, options);
+  }
+
+  // Get a single customer
+  async getCustomerById(
+    customerId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<ICustomer> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    return await this.findShopCustomer(customerId, shopId);
+  }
+
+  // Customer details with purchase totals computed from their tickets
+  async getCustomerProfile(
+    customerId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<CustomerProfile> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const customer = await this.findShopCustomer(customerId, shopId);
+    const phones = [customer.phone, ...customer.alternatePhones];
+
+    const settings = await this.shopRepository.getSettings(shopId);
+
+    const [stats, credit, recentTickets] = await Promise.all([
+      this.ticketRepository.getCustomerPurchaseStats(shopId, customerId, phones),
+      this.ticketService.getCreditStanding(shopId, phones, customer.creditLimit, settings?.credit),
+      this.ticketRepository.findCustomerTickets(shopId, customerId, phones),
+    ]);
+
+    return { customer, ...stats, credit, recentTickets };
+  }
+
+  // Statement of a customer's credit account with a running balance
+  async getCustomerStatement(
+    customerId: string,
+    shopId: string,
+    period: { startDate?: Date; endDate?: Date },
+    metadata: RequestMetadata
+  ): Promise<CustomerStatement> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const { startDate, endDate = new Date() } = period;
+    if (startDate && startDate > endDate) {
+      throw new ValidationError("Start date must be before end date");
+    }
+
+    const customer = await this.findShopCustomer(customerId, shopId);
+    const [shop, tickets] = await Promise.all([
+      this.shopRepository.getReceiptProfile(shopId),
+      this.ticketService.getCustomerCreditTickets(shopId, [
+        customer.phone,
+        ...customer.alternatePhones,
+      ]),
+    ]);
+    if (!shop) {
+      throw new NotFoundError("Shop not found");
+    }
+
+    const statement: CustomerStatement = {
+      shopName: shop.shopName,
+      shopAddress: shop.address,
+      shopPhone: shop.phoneNumber,
+      customer: {
+        customerId,
+        name: customer.name,
+        phone: customer.phone,
+        address: customer.address,
+      },
+      startDate,
+      endDate,
+      ...buildStatementEntries(tickets, startDate, endDate),
+    };
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "CUSTOMER_STATEMENT_VIEWED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: { customerId, closingBalance: statement.closingBalance },
+    });
+
+    return statement;
+  }
+
+  // Update a customer. Tickets keep the details they were sold with.
+  async updateCustomer(
+    customerId: string,
+    shopId: string,
+    updates: UpdateCustomerInput,
+    metadata: RequestMetadata
+  ): Promise<ICustomer> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (updates.creditLimit !== undefined && userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can set credit limits");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const existing = await this.findShopCustomer(customerId, shopId);
+
+    const changes = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    ) as UpdateCustomerInput;
+
+    if (changes.phone && changes.phone !== existing.phone) {
+      await this.assertPhoneAvailable(shopId, changes.phone, customerId);
+    }
+
+    const customer = await this.customerRepository.update(customerId, changes);
+    if (!customer) {
+      throw new NotFoundError("Customer not found after update");
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "CUSTOMER_UPDATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: { customerId, updates: Object.keys(changes), creditLimit: changes.creditLimit },
+    });
+
+    return customer;
+  }
+
+  // Delete a customer (owner only). Customers with tickets must be merged instead.
+  async deleteCustomer(customerId: string, shopId: string, metadata: RequestMetadata): Promise<void> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can delete customers");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const customer = await this.findShopCustomer(customerId, shopId);
+
+    const ticketCount = await this.ticketRepository.countByCustomer(customerId);
+    if (ticketCount > 0) {
+      throw new ConflictError(
+        `Customer has ${ticketCount} ticket(s) and cannot be deleted. Merge them into another customer instead`
+      );
+    }
+
+    await this.customerRepository.delete(customerId);
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "CUSTOMER_DELETED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: { customerId, name: customer.name, phone: customer.phone },
+    });
+  }
+
+  // Merge duplicate customers into one (owner only). Their tickets and parked
+  // tickets move to the surviving customer, which keeps their phone numbers.
+  async mergeCustomers(
+    customerId: string,
+    shopId: string,
+    duplicateIds: string[],
+    metadata: RequestMetadata
+  ): Promise<ICustomer> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can merge customers");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const ids = [...new Set(duplicateIds)];
+    if (ids.length === 0) {
+      throw new ValidationError("At least one duplicate customer is required");
+    }
+    if (ids.includes(customerId)) {
+      throw new ValidationError("A customer cannot be merged into itself");
+    }
+
+    await this.findShopCustomer(customerId, shopId);
+
+    const duplicates = await this.customerRepository.findByIds(shopId, ids);
+    if (duplicates.length !== ids.length) {
+      throw new NotFoundError("One or more duplicate customers were not found in this shop");
+    }
+
+    const phones = duplicates.flatMap((duplicate) => [duplicate.phone, ...duplicate.alternatePhones]);
+
+    let ticketsMoved = 0;
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        ticketsMoved = await this.ticketRepository.reassignCustomer(ids, customerId, session);
+        await this.draftTicketRepository.reassignCustomer(ids, customerId, session);
+        await this.quoteRepository.reassignCustomer(ids, customerId, session);
+        await this.layawayRepository.reassignCustomer(ids, customerId, session);
+        await this.customerPaymentRepository.reassignCustomer(ids, customerId, session);
+        // Remove the duplicates first so their phone numbers are free
+        await this.customerRepository.deleteMany(ids, session);
+        await this.customerRepository.addAlternatePhones(customerId, phones, session);
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    const customer = await this.customerRepository.findById(customerId);
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "CUSTOMERS_MERGED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        customerId,
+        mergedCustomers: duplicates.map((duplicate) => ({
+          customerId: duplicate._id.toString(),
+          name: duplicate.name,
+          phone: duplicate.phone,
+        })),
+        ticketsMoved,
+      },
+    });
+
+    return customer!;
+  }
+}
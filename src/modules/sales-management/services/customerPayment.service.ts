@@ -0,0 +1,308 @@
+import { CustomerPaymentRepository } from "../repositories/customerPayment.repository";
+import { CustomerRepository } from "../repositories/customer.repository";
+import { TicketRepository } from "../repositories/sales.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { StaffRepository } from "../../staff-management/repositories/staff.repository";
+import { TicketService } from "./sales.service";
+import { logSalesAuditEvent } from "../utils/auditLogger";
+import { roundCurrency } from "../utils/calculations";
+import {
+  buildPaymentReceiptData,
+  renderPaymentReceiptEscPos,
+  renderPaymentReceiptHtml,
+  renderPaymentReceiptText,
+} from "../utils/receipt";
+import { ReceiptPaperWidth } from "../../auth/models/shop";
+import mongoose, { Types } from "mongoose";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import {
+  CustomerPaymentQueryOptions,
+  ICustomer,
+  ICustomerPayment,
+  ICustomerPaymentAllocation,
+  ITicket,
+  ReceiptFormat,
+  RecordCustomerPaymentInput,
+  RequestMetadata,
+} from "../types";
+
+export class CustomerPaymentService {
+  private customerPaymentRepository: CustomerPaymentRepository;
+  private customerRepository: CustomerRepository;
+  private ticketRepository: TicketRepository;
+  private shopRepository: ShopRepository;
+  private staffRepository: StaffRepository;
+  private ticketService: TicketService;
+
+  constructor() {
+    this.customerPaymentRepository = new CustomerPaymentRepository();
+    this.customerRepository = new CustomerRepository();
+    this.ticketRepository = new TicketRepository();
+    this.shopRepository = new ShopRepository();
+    this.staffRepository = new StaffRepository();
+    this.ticketService = new TicketService();
+  }
+
+  private async validateShopAccess(
+    shopId: string,
+    userShopId: string,
+    userRole: "owner" | "staff"
+  ): Promise<void> {
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only access customers for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  private async findShopCustomer(customerId: string, shopId: string): Promise<ICustomer> {
+    const customer = await this.customerRepository.findById(customerId);
+    if (!customer) {
+      throw new NotFoundError("Customer not found");
+    }
+
+    if (customer.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Customer does not belong to this shop");
+    }
+
+    return customer;
+  }
+
+  // Tickets the payment goes to: the chosen tickets in the order given,
+  // otherwise every open credit ticket, oldest first
+  private selectTickets(openTickets: ITicket[], ticketIds?: string[]): ITicket[] {
+    if (!ticketIds || ticketIds.length === 0) {
+      return [...openTickets].sort(
+        (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+      );
+    }
+
+    const byId = new Map(openTickets.map((ticket) => [ticket._id.toString(), ticket]));
+    return [...new Set(ticketIds)].map((ticketId) => {
+      const ticket = byId.get(ticketId);
+      if (!ticket) {
+        throw new ValidationError(`Ticket ${ticketId} is not an open credit ticket for this customer`);
+      }
+      return ticket;
+    });
+  }
+
+  // Record a payment against a customer's account, settling their credit
+  // tickets in turn until the amount is used up
+  async recordPayment(
+    input: RecordCustomerPaymentInput,
+    metadata: RequestMetadata
+  ): Promise<ICustomerPayment> {
+    const { customerId, shopId, amount, paymentMethod, receivedBy, ticketIds, transactionReference, notes } =
+      input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    if (amount <= 0) {
+      throw new ValidationError("Payment amount must be greater than 0");
+    }
+
+    const customer = await this.findShopCustomer(customerId, shopId);
+
+    const creditTickets = await this.ticketService.getCustomerCreditTickets(shopId, [
+      customer.phone,
+      ...customer.alternatePhones,
+    ]);
+    const openTickets = creditTickets.filter(
+      (ticket) => ticket.creditStatus !== "paid" && ticket.amountOwed > 0
+    );
+    if (openTickets.length === 0) {
+      throw new ValidationError("Customer has no outstanding credit");
+    }
+
+    const balanceBefore = roundCurrency(
+      openTickets.reduce((sum, ticket) => sum + ticket.amountOwed, 0)
+    );
+    const tickets = this.selectTickets(openTickets, ticketIds);
+    const payable = roundCurrency(tickets.reduce((sum, ticket) => sum + ticket.amountOwed, 0));
+    if (amount > payable) {
+      throw new ValidationError(`Payment amount (${amount}) exceeds amount owed (${payable})`);
+    }
+
+    const staff = await this.staffRepository.findById(receivedBy.toString());
+    if (!staff) {
+      throw new NotFoundError("Staff member not found");
+    }
+    if (staff.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Staff member does not belong to this shop");
+    }
+
+    const allocations: ICustomerPaymentAllocation[] = [];
+    let remaining = amount;
+    for (const ticket of tickets) {
+      if (remaining <= 0) break;
+      const allocated = roundCurrency(Math.min(remaining, ticket.amountOwed));
+      allocations.push({
+        ticketId: ticket._id,
+        ticketNumber: ticket.ticketNumber,
+        amount: allocated,
+        amountOwedBefore: ticket.amountOwed,
+        amountOwedAfter: roundCurrency(ticket.amountOwed - allocated),
+      });
+      remaining = roundCurrency(remaining - allocated);
+    }
+
+    const paymentId = new Types.ObjectId();
+    const date = new Date();
+    const receiptNumber = `PAY-${date.toISOString().slice(0, 10).replace(/-/g, "")}-${paymentId
+      .toString()
+      .slice(-6)
+      .toUpperCase()}`;
+
+    let payment!: ICustomerPayment;
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        payment = await this.customerPaymentRepository.create(
+          {
+            _id: paymentId,
+            shopId: new Types.ObjectId(shopId),
+            customerId: customer._id,
+            customerName: customer.name,
+            customerPhone: customer.phone,
+            receiptNumber,
+            amount,
+            paymentMethod,
+            transactionReference,
+            notes,
+            allocations,
+            balanceBefore,
+            balanceAfter: roundCurrency(balanceBefore - amount),
+            receivedBy: new Types.ObjectId(receivedBy),
+            receivedByName: staff.staffName,
+            date,
+          },
+          session
+        );
+
+        for (const allocation of allocations) {
+          const updatedTicket = await this.ticketRepository.applyCreditPayment(
+            allocation.ticketId.toString(),
+            allocation.amountOwedBefore,
+            {
+              amount: allocation.amount,
+              paymentMethod,
+              paymentDate: date,
+              receivedBy: new Types.ObjectId(receivedBy),
+              receivedByName: staff.staffName,
+              transactionReference,
+              notes,
+              customerPaymentId: paymentId,
+            },
+            session
+          );
+          if (!updatedTicket) {
+            throw new ConflictError(
+              `Ticket ${allocation.ticketNumber} changed while the payment was being recorded. Please try again`
+            );
+          }
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "CUSTOMER_PAYMENT_RECORDED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        customerId,
+        paymentId: paymentId.toString(),
+        receiptNumber,
+        amount,
+        paymentMethod,
+        allocations: allocations.map((allocation) => ({
+          ticketId: allocation.ticketId.toString(),
+          amount: allocation.amount,
+          amountOwedAfter: allocation.amountOwedAfter,
+        })),
+        balanceBefore,
+        balanceAfter: payment.balanceAfter,
+      },
+    });
+
+    return payment;
+  }
+
+  // A customer's payments, newest first
+  async getPayments(
+    customerId: string,
+    shopId: string,
+    options: CustomerPaymentQueryOptions,
+    metadata: RequestMetadata
+  ): Promise<{ payments: ICustomerPayment[]; total: number; page: number; pages: number }> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+    await this.findShopCustomer(customerId, shopId);
+
+    return await this.customerPaymentRepository.findByCustomer(shopId, customerId, options);
+  }
+
+  // Render the receipt for a customer payment
+  async getPaymentReceipt(
+    paymentId: string,
+    customerId: string,
+    shopId: string,
+    options: { format: ReceiptFormat; paperWidth?: ReceiptPaperWidth },
+    metadata: RequestMetadata
+  ): Promise<{ receiptNumber: string; content: string | Buffer }> {
+    const { requestId, userId, userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const payment = await this.customerPaymentRepository.findById(paymentId);
+    if (!payment || payment.customerId.toString() !== customerId) {
+      throw new NotFoundError("Payment not found");
+    }
+
+    if (payment.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Payment does not belong to this shop");
+    }
+
+    const shop = await this.shopRepository.getReceiptProfile(shopId);
+    if (!shop) {
+      throw new NotFoundError("Shop not found");
+    }
+
+    const receiptSettings = shop.settings?.receipt;
+    const paperWidth = options.paperWidth || receiptSettings?.paperWidth || "80mm";
+    const data = buildPaymentReceiptData(payment, shop, receiptSettings?.footer);
+
+    let content: string | Buffer;
+    if (options.format === "escpos") {
+      content = renderPaymentReceiptEscPos(data, paperWidth);
+    } else if (options.format === "text") {
+      content = renderPaymentReceiptText(data, paperWidth);
+    } else {
+      content = renderPaymentReceiptHtml(data, paperWidth);
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "PAYMENT_RECEIPT_PRINTED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      details: { paymentId, customerId, format: options.format, paperWidth },
+    });
+
+    return { receiptNumber: payment.receiptNumber, content };
+  }
+}
@@ -0,0 +1,368 @@
+import { DraftTicketRepository } from "../repositories/draftTicket.repository";
+import { InventoryRepository } from "../repositories/inventory.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { TicketService } from "./sales.service";
+import { logSalesAuditEvent } from "../utils/auditLogger";
+import { Types } from "mongoose";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import {
+  CreateDraftTicketInput,
+  UpdateDraftTicketInput,
+  ConvertDraftTicketInput,
+  DraftTicketQueryOptions,
+  IDraftTicket,
+  IDraftTicketItem,
+  ITicket,
+  RequestMetadata,
+} from "../types";
+
+const DEFAULT_RESERVATION_MINUTES = 15;
+
+export class DraftTicketService {
+  private draftTicketRepository: DraftTicketRepository;
+  private inventoryRepository: InventoryRepository;
+  private shopRepository: ShopRepository;
+  private ticketService: TicketService;
+
+  constructor() {
+    this.draftTicketRepository = new DraftTicketRepository();
+    this.inventoryRepository = new InventoryRepository();
+    this.shopRepository = new ShopRepository();
+    this.ticketService = new TicketService();
+  }
+
+  private async validateShopAccess(
+    shopId: string,
+    userShopId: string,
+    userRole: "owner" | "staff"
+  ): Promise<void> {
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only access tickets for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  private async findOpenDraft(draftId: string, shopId: string): Promise<IDraftTicket> {
+    const draft = await this.draftTicketRepository.findById(draftId);
+    if (!draft) {
+      throw new NotFoundError("Parked ticket not found");
+    }
+
+    if (draft.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Parked ticket does not belong to this shop");
+    }
+
+    if (draft.status !== "open") {
+      throw new ConflictError(`Parked ticket has already been ${draft.status}`);
+    }
+
+    return draft;
+  }
+
+  // Reservation end time, from the request or the shop's default
+  private async getReservedUntil(shopId: string, reserveMinutes?: number): Promise<Date> {
+    const settings = await this.shopRepository.getSettings(shopId);
+    const minutes =
+      reserveMinutes || settings?.drafts?.reservationMinutes || DEFAULT_RESERVATION_MINUTES;
+    return new Date(Date.now() + minutes * 60 * 1000);
+  }
+
+  // Check the parked items against inventory. Stock is only checked when
+  // the draft holds it; otherwise availability is checked on conversion.
+  private async resolveDraftItems(
+    shopId: string,
+    items: CreateDraftTicketInput["items"],
+    reserveStock: boolean,
+    draftId?: string
+  ): Promise<IDraftTicketItem[]> {
+    if (!items || items.length === 0) {
+      throw new ValidationError("Parked ticket must contain at least one item");
+    }
+
+    const reserved = reserveStock
+      ? await this.draftTicketRepository.getReservedQuantities(
+          shopId,
+          items.map((item) => item.itemId),
+          draftId
+        )
+      : new Map<string, number>();
+
+    const draftItems: IDraftTicketItem[] = [];
+    for (const { itemId, quantity, discount, sellingPrice } of items) {
+      if (discount !== undefined && (discount < 0 || discount > 50)) {
+        throw new ValidationError(`Discount must be between 0 and 50 percent for item ${itemId}`);
+      }
+
+      const inventoryItem = await this.inventoryRepository.findById(itemId);
+      if (!inventoryItem) {
+        throw new NotFoundError(`Item with ID ${itemId} not found`);
+      }
+
+      if (inventoryItem.shopId.toString() !== shopId) {
+        throw new AuthorizationError(`Item ${inventoryItem.name} does not belong to this shop`);
+      }
+
+      if (reserveStock) {
+        const available = inventoryItem.availableQuantity - (reserved.get(itemId) || 0);
+        if (quantity > available) {
+          throw new ValidationError(
+            `Cannot hold ${quantity} of ${inventoryItem.name}. Available: ${Math.max(available, 0)}`
+          );
+        }
+      }
+
+      draftItems.push({
+        itemId: new Types.ObjectId(itemId),
+        itemName: inventoryItem.name,
+        quantity,
+        discount,
+        sellingPrice,
+      });
+    }
+
+    return draftItems;
+  }
+
+  // Park a ticket
+  async createDraft(input: CreateDraftTicketInput, metadata: RequestMetadata): Promise<IDraftTicket> {
+    const { shopId, items, customerId, reserveStock = false, reserveMinutes, ...details } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const draftItems = await this.resolveDraftItems(shopId, items, reserveStock);
+
+    const draft = await this.draftTicketRepository.create({
+      ...details,
+      shopId: new Types.ObjectId(shopId),
+      customerId: customerId ? new Types.ObjectId(customerId) : undefined,
+      items: draftItems,
+      status: "open",
+      reserveStock,
+      reservedUntil: reserveStock ? await this.getReservedUntil(shopId, reserveMinutes) : undefined,
+      createdBy: new Types.ObjectId(userId),
+      lastUpdatedBy: new Types.ObjectId(userId),
+    });
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "TICKET_PARKED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        draftId: draft._id.toString(),
+        itemCount: draftItems.length,
+        reserveStock,
+        reservedUntil: draft.reservedUntil,
+      },
+    });
+
+    return draft;
+  }
+
+  // List parked tickets (open ones by default)
+  async getDrafts(
+    shopId: string,
+    options: DraftTicketQueryOptions,
+    metadata: RequestMetadata
+  ): Promise<{ drafts: IDraftTicket[]; total: number; page: number; pages: number }> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    return await this.draftTicketRepository.findByShopId(shopId, options);
+  }
+
+  // Get a single parked ticket
+  async getDraftById(
+    draftId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<IDraftTicket> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const draft = await this.draftTicketRepository.findById(draftId);
+    if (!draft) {
+      throw new NotFoundError("Parked ticket not found");
+    }
+
+    if (draft.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Parked ticket does not belong to this shop");
+    }
+
+    return draft;
+  }
+
+  // Resume and edit a parked ticket. Any staff member of the shop can do
+  // this; a held reservation is renewed from the time of the update.
+  async updateDraft(
+    draftId: string,
+    shopId: string,
+    updates: UpdateDraftTicketInput,
+    metadata: RequestMetadata
+  ): Promise<IDraftTicket> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const existing = await this.findOpenDraft(draftId, shopId);
+
+    const { items, reserveStock = existing.reserveStock, reserveMinutes, ...details } = updates;
+
+    const set: Record<string, any> = { lastUpdatedBy: new Types.ObjectId(userId), reserveStock };
+    for (const [key, value] of Object.entries(details)) {
+      if (value !== undefined) set[key] = value;
+    }
+
+    set.items = await this.resolveDraftItems(
+      shopId,
+      items ||
+        existing.items.map((item) => ({
+          itemId: item.itemId.toString(),
+          quantity: item.quantity,
+          discount: item.discount,
+          sellingPrice: item.sellingPrice,
+        })),
+      reserveStock,
+      draftId
+    );
+
+    const update: Record<string, any> = { $set: set };
+    if (reserveStock) {
+      set.reservedUntil = await this.getReservedUntil(shopId, reserveMinutes);
+    } else {
+      update.$unset = { reservedUntil: 1 };
+    }
+
+    const draft = await this.draftTicketRepository.update(draftId, update);
+    if (!draft) {
+      throw new ConflictError("Parked ticket was rung up or cancelled while being edited");
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "PARKED_TICKET_UPDATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        draftId,
+        updates: Object.keys(updates).filter(
+          (key) => updates[key as keyof UpdateDraftTicketInput] !== undefined
+        ),
+        reservedUntil: draft.reservedUntil,
+      },
+    });
+
+    return draft;
+  }
+
+  // Cancel a parked ticket, releasing any held stock
+  async cancelDraft(draftId: string, shopId: string, metadata: RequestMetadata): Promise<IDraftTicket> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+    await this.findOpenDraft(draftId, shopId);
+
+    const draft = await this.draftTicketRepository.close(draftId, "cancelled", {
+      cancelledAt: new Date(),
+      lastUpdatedBy: new Types.ObjectId(userId),
+    });
+    if (!draft) {
+      throw new ConflictError("Parked ticket has already been rung up or cancelled");
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "PARKED_TICKET_CANCELLED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: { draftId },
+    });
+
+    return draft;
+  }
+
+  // Ring up a parked ticket. The sale goes through createTicket, so stock,
+  // pricing, promotions, tax and payment are validated exactly as for a new sale.
+  async convertDraft(
+    draftId: string,
+    shopId: string,
+    input: ConvertDraftTicketInput,
+    metadata: RequestMetadata
+  ): Promise<{ ticket: ITicket; draft: IDraftTicket }> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const existing = await this.findOpenDraft(draftId, shopId);
+
+    // Claim the draft first so it cannot be rung up twice
+    const claimed = await this.draftTicketRepository.close(draftId, "converted", {
+      convertedAt: new Date(),
+      lastUpdatedBy: new Types.ObjectId(userId),
+    });
+    if (!claimed) {
+      throw new ConflictError("Parked ticket has already been rung up or cancelled");
+    }
+
+    let ticket: ITicket;
+    try {
+      ticket = await this.ticketService.createTicket(
+        {
+          shopId,
+          items: existing.items.map((item) => ({
+            itemId: item.itemId.toString(),
+            quantity: item.quantity,
+            discount: item.discount,
+            sellingPrice: item.sellingPrice,
+          })),
+          soldBy: input.soldBy,
+          paymentMethod: input.paymentMethod,
+          tenders: input.tenders,
+          cashReceived: input.cashReceived,
+          creditOverride: input.creditOverride,
+          customerId: input.customerId ?? existing.customerId?.toString(),
+          customerName: input.customerName ?? existing.customerName,
+          customerPhone: input.customerPhone ?? existing.customerPhone,
+          customerAddress: input.customerAddress ?? existing.customerAddress,
+          dueDate: input.dueDate,
+          notes: input.notes ?? existing.notes,
+          transactionReference: input.transactionReference,
+        },
+        metadata
+      );
+    } catch (error) {
+      // Leave the draft as it was so it can be fixed and tried again
+      await this.draftTicketRepository.reopen(draftId, existing.reservedUntil);
+      throw error;
+    }
+
+    const draft = await this.draftTicketRepository.setConvertedTicket(draftId, ticket._id);
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "PARKED_TICKET_CONVERTED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      saleId: ticket._id.toString(),
+      ip,
+      details: { draftId, ticketNumber: ticket.ticketNumber },
+    });
+
+    return { ticket, draft: draft! };
+  }
+}
@@ -0,0 +1,355 @@
+import { DrawerSessionRepository } from "../repositories/drawerSession.repository";
+import { TicketRepository } from "../repositories/sales.repository";
+import { LayawayRepository } from "../repositories/layaway.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { StaffRepository } from "../../staff-management/repositories/staff.repository";
+import { logSalesAuditEvent } from "../utils/auditLogger";
+import { roundCurrency } from "../utils/calculations";
+import { getDayWindow, summariseDrawerActivity } from "../utils/drawerSession";
+import { IStaff } from "../../staff-management/types";
+import { Types } from "mongoose";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import {
+  CloseDrawerInput,
+  DrawerMovementInput,
+  DrawerSessionQueryOptions,
+  IDrawerSession,
+  IDrawerSummary,
+  OpenDrawerInput,
+  RequestMetadata,
+  TenderType,
+  ZReport,
+} from "../types";
+
+export class DrawerSessionService {
+  private drawerSessionRepository: DrawerSessionRepository;
+  private ticketRepository: TicketRepository;
+  private layawayRepository: LayawayRepository;
+  private shopRepository: ShopRepository;
+  private staffRepository: StaffRepository;
+
+  constructor() {
+    this.drawerSessionRepository = new DrawerSessionRepository();
+    this.ticketRepository = new TicketRepository();
+    this.layawayRepository = new LayawayRepository();
+    this.shopRepository = new ShopRepository();
+    this.staffRepository = new StaffRepository();
+  }
+
+  private async validateShopAccess(
+    shopId: string,
+    userShopId: string,
+    userRole: "owner" | "staff"
+  ): Promise<void> {
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only access cash drawers for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  private async findShopSession(sessionId: string, shopId: string): Promise<IDrawerSession> {
+    const session = await this.drawerSessionRepository.findById(sessionId);
+    if (!session) {
+      throw new NotFoundError("Drawer session not found");
+    }
+
+    if (session.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Drawer session does not belong to this shop");
+    }
+
+    return session;
+  }
+
+  private async findShopStaff(staffId: string, shopId: string): Promise<IStaff> {
+    const staff = await this.staffRepository.findById(staffId);
+    if (!staff) {
+      throw new NotFoundError("Staff member not found");
+    }
+    if (staff.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Staff member does not belong to this shop");
+    }
+    return staff;
+  }
+
+  // Work out the session's figures from the tickets and layaways its staff
+  // member handled while the drawer was open
+  private async summarise(session: IDrawerSession, until?: Date): Promise<IDrawerSummary> {
+    const shopId = session.shopId.toString();
+    const staffId = session.staffId.toString();
+    const end = session.closedAt || until || new Date();
+
+    const [ticketActivity, layawayActivity] = await Promise.all([
+      this.ticketRepository.getDrawerActivity(shopId, staffId, session.openedAt, end),
+      this.layawayRepository.getDrawerActivity(shopId, staffId, session.openedAt, end),
+    ]);
+
+    return summariseDrawerActivity(session.openingFloat, session.movements, {
+      ...ticketActivity,
+      layawayPayments: layawayActivity.payments,
+      layawayCancellations: layawayActivity.cancellations,
+    });
+  }
+
+  // Open a drawer for a staff member with a starting float
+  async openSession(input: OpenDrawerInput, metadata: RequestMetadata): Promise<IDrawerSession> {
+    const { shopId, staffId, openingFloat, registerName, notes } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const staff = await this.findShopStaff(staffId, shopId);
+
+    const existing = await this.drawerSessionRepository.findOpenByStaff(shopId, staffId);
+    if (existing) {
+      throw new ConflictError(
+        `${staff.staffName} already has an open drawer. Close it before opening another`
+      );
+    }
+
+    const session = await this.drawerSessionRepository.create({
+      shopId: new Types.ObjectId(shopId),
+      staffId: new Types.ObjectId(staffId),
+      staffName: staff.staffName,
+      registerName,
+      status: "open",
+      openingFloat: roundCurrency(openingFloat),
+      openedAt: new Date(),
+      openingNotes: notes,
+      movements: [],
+    });
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "DRAWER_OPENED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        sessionId: session._id.toString(),
+        staffId,
+        staffName: staff.staffName,
+        registerName,
+        openingFloat: session.openingFloat,
+      },
+    });
+
+    return session;
+  }
+
+  // List drawer sessions
+  async getSessions(
+    shopId: string,
+    options: DrawerSessionQueryOptions,
+    metadata: RequestMetadata
+  ): Promise<{ sessions: IDrawerSession[]; total: number; page: number; pages: number }> {
+    await this.validateShopAccess(shopId, metadata.userShopId, metadata.userRole);
+    return await this.drawerSessionRepository.findByShopId(shopId, options);
+  }
+
+  // Get a drawer session. Open sessions carry a running summary so far,
+  // which is not saved until the drawer is closed.
+  async getSession(
+    sessionId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<IDrawerSession> {
+    await this.validateShopAccess(shopId, metadata.userShopId, metadata.userRole);
+
+    const session = await this.findShopSession(sessionId, shopId);
+    if (session.status === "open") {
+      session.summary = await this.summarise(session);
+    }
+
+    return session;
+  }
+
+  // Record cash put into or taken out of the drawer outside of a sale
+  async recordMovement(
+    sessionId: string,
+    shopId: string,
+    input: DrawerMovementInput,
+    metadata: RequestMetadata
+  ): Promise<IDrawerSession> {
+    const { type, amount, reason, recordedBy } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const session = await this.findShopSession(sessionId, shopId);
+    if (session.status !== "open") {
+      throw new ValidationError("Drawer session is already closed");
+    }
+
+    const staff = await this.findShopStaff(recordedBy, shopId);
+
+    const updated = await this.drawerSessionRepository.addMovement(sessionId, {
+      type,
+      amount: roundCurrency(amount),
+      reason,
+      recordedBy: new Types.ObjectId(recordedBy),
+      recordedByName: staff.staffName,
+      date: new Date(),
+    });
+    if (!updated) {
+      throw new ConflictError("Drawer session was closed while recording. Please try again");
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: type === "pay_in" ? "DRAWER_PAY_IN" : "DRAWER_PAY_OUT",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        sessionId,
+        amount: roundCurrency(amount),
+        reason,
+        recordedBy,
+      },
+    });
+
+    return updated;
+  }
+
+  // Count and close a drawer. The expected cash is worked out at closing
+  // and kept with the session along with the variance against the count.
+  async closeSession(
+    sessionId: string,
+    shopId: string,
+    input: CloseDrawerInput,
+    metadata: RequestMetadata
+  ): Promise<IDrawerSession> {
+    const { countedCash, closedBy, notes } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const session = await this.findShopSession(sessionId, shopId);
+    if (session.status !== "open") {
+      throw new ValidationError("Drawer session is already closed");
+    }
+
+    const staff = await this.findShopStaff(closedBy, shopId);
+
+    const closedAt = new Date();
+    const summary = await this.summarise(session, closedAt);
+    const counted = roundCurrency(countedCash);
+    const variance = roundCurrency(counted - summary.expectedCash);
+
+    const closed = await this.drawerSessionRepository.close(sessionId, {
+      closedBy: new Types.ObjectId(closedBy),
+      closedByName: staff.staffName,
+      closedAt,
+      countedCash: counted,
+      expectedCash: summary.expectedCash,
+      variance,
+      summary,
+      closingNotes: notes,
+    });
+    if (!closed) {
+      throw new ConflictError("Drawer session was already closed");
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "DRAWER_CLOSED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        sessionId,
+        staffName: session.staffName,
+        closedBy,
+        expectedCash: summary.expectedCash,
+        countedCash: counted,
+        variance,
+      },
+    });
+
+    return closed;
+  }
+
+  // End-of-day Z report: every drawer opened on the day with its sales,
+  // refunds, tenders, discounts and cash variance, and totals across them.
+  // Drawers still open are summarised to now and have no count yet.
+  async getZReport(shopId: string, date: string, metadata: RequestMetadata): Promise<ZReport> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const { start, end } = getDayWindow(date);
+    const sessions = await this.drawerSessionRepository.findOpenedBetween(shopId, start, end);
+
+    const reportSessions = await Promise.all(
+      sessions.map(async (session) => ({
+        sessionId: session._id,
+        staffId: session.staffId,
+        staffName: session.staffName,
+        registerName: session.registerName,
+        status: session.status,
+        openedAt: session.openedAt,
+        closedAt: session.closedAt,
+        openingFloat: session.openingFloat,
+        summary: session.summary || (await this.summarise(session)),
+        countedCash: session.countedCash,
+        variance: session.variance,
+      }))
+    );
+
+    const tenders: Record<TenderType, number> = { cash: 0, transfer: 0, credit: 0, exchange: 0 };
+    const totals = {
+      ticketCount: 0,
+      grossSales: 0,
+      discounts: 0,
+      tenders,
+      refundCount: 0,
+      refundTotal: 0,
+      expectedCash: 0,
+      countedCash: 0,
+      variance: 0,
+    };
+
+    for (const { summary, countedCash, variance } of reportSessions) {
+      totals.ticketCount += summary.ticketCount;
+      totals.grossSales = roundCurrency(totals.grossSales + summary.grossSales);
+      totals.discounts = roundCurrency(totals.discounts + summary.discounts);
+      for (const type of Object.keys(tenders) as TenderType[]) {
+        tenders[type] = roundCurrency(tenders[type] + summary.tenders[type]);
+      }
+      totals.refundCount += summary.refundCount;
+      totals.refundTotal = roundCurrency(totals.refundTotal + summary.refundTotal);
+      totals.expectedCash = roundCurrency(totals.expectedCash + summary.expectedCash);
+      totals.countedCash = roundCurrency(totals.countedCash + (countedCash || 0));
+      totals.variance = roundCurrency(totals.variance + (variance || 0));
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "Z_REPORT_GENERATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        date,
+        sessions: reportSessions.length,
+        variance: totals.variance,
+      },
+    });
+
+    return {
+      date,
+      sessions: reportSessions,
+      totals,
+      openSessions: reportSessions.filter((session) => session.status === "open").length,
+    };
+  }
+}
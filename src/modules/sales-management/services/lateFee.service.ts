@@ -0,0 +1,211 @@
+import { TicketRepository } from "../repositories/sales.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { logSalesAuditEvent } from "../utils/auditLogger";
+import { roundCurrency } from "../utils/calculations";
+import { calculateLateFees, resolveLateFeeSettings } from "../utils/lateFees";
+import { Types } from "mongoose";
+import crypto from "crypto";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import { ITicket, LateFeeRunResult, RequestMetadata } from "../types";
+
+export class LateFeeService {
+  private ticketRepository: TicketRepository;
+  private shopRepository: ShopRepository;
+
+  constructor() {
+    this.ticketRepository = new TicketRepository();
+    this.shopRepository = new ShopRepository();
+  }
+
+  private async validateShopAccess(
+    shopId: string,
+    userShopId: string,
+    userRole: "owner" | "staff"
+  ): Promise<void> {
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only access tickets for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  // Charge the late fees a shop's overdue tickets have become liable for.
+  // Safe to run repeatedly: each overdue period is only charged once.
+  async applyLateFees(
+    shopId: string,
+    asOf: Date,
+    audit: { requestId: string; userId: string; userRole: "owner" | "staff"; ip?: string }
+  ): Promise<LateFeeRunResult> {
+    const result: LateFeeRunResult = { shopId, ticketsCharged: 0, totalCharged: 0, tickets: [] };
+
+    const settings = resolveLateFeeSettings((await this.shopRepository.getSettings(shopId))?.lateFees);
+    if (!settings.enabled || settings.amount <= 0) {
+      return result;
+    }
+
+    const overdueTickets = await this.ticketRepository.getOverdueCreditTickets(shopId);
+
+    for (const ticket of overdueTickets) {
+      const fees = calculateLateFees(ticket, settings, asOf);
+      if (fees.length === 0) continue;
+
+      // Skipped if the balance changed since it was read; the next run picks it up
+      const updated = await this.ticketRepository.addCharges(
+        ticket._id.toString(),
+        ticket.amountOwed,
+        fees
+      );
+      if (!updated) continue;
+
+      const amount = roundCurrency(fees.reduce((sum, fee) => sum + fee.amount, 0));
+      result.ticketsCharged += 1;
+      result.totalCharged = roundCurrency(result.totalCharged + amount);
+      result.tickets.push({
+        ticketId: ticket._id.toString(),
+        ticketNumber: ticket.ticketNumber,
+        amount,
+        periods: fees.map((fee) => fee.period),
+      });
+    }
+
+    if (result.ticketsCharged > 0) {
+      await logSalesAuditEvent({
+        requestId: audit.requestId,
+        action: "LATE_FEES_APPLIED",
+        shopId,
+        performedBy: { userId: audit.userId, role: audit.userRole },
+        ip: audit.ip,
+        details: {
+          policy: settings,
+          ticketsCharged: result.ticketsCharged,
+          totalCharged: result.totalCharged,
+          tickets: result.tickets,
+        },
+      });
+    }
+
+    return result;
+  }
+
+  // Scheduled run across every shop with late fees switched on
+  async applyLateFeesToAllShops(asOf: Date = new Date()): Promise<LateFeeRunResult[]> {
+    const shopIds = await this.shopRepository.findIdsWithSettingEnabled("lateFees");
+    const results: LateFeeRunResult[] = [];
+
+    for (const shopId of shopIds) {
+      try {
+        results.push(
+          await this.applyLateFees(shopId, asOf, {
+            requestId: crypto.randomUUID(),
+            userId: "system",
+            userRole: "owner",
+          })
+        );
+      } catch (error) {
+        console.error(`[LATE_FEES] Failed to apply late fees for shop ${shopId}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  // Apply late fees now instead of waiting for the scheduled run (owner only)
+  async runLateFees(shopId: string, metadata: RequestMetadata): Promise<LateFeeRunResult> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can apply late fees");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const settings = resolveLateFeeSettings((await this.shopRepository.getSettings(shopId))?.lateFees);
+    if (!settings.enabled) {
+      throw new ValidationError("Late fees are not enabled for this shop");
+    }
+
+    return await this.applyLateFees(shopId, new Date(), { requestId, userId, userRole, ip });
+  }
+
+  // Waive a late fee (owner only). The fee stays on the ticket, marked as waived.
+  async waiveLateFee(
+    ticketId: string,
+    chargeId: string,
+    shopId: string,
+    reason: string,
+    metadata: RequestMetadata
+  ): Promise<ITicket> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can waive late fees");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const ticket = await this.ticketRepository.findById(ticketId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    if (ticket.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Ticket does not belong to this shop");
+    }
+
+    const charge = (ticket.charges || []).find((entry) => entry._id?.toString() === chargeId);
+    if (!charge) {
+      throw new NotFoundError("Late fee not found");
+    }
+
+    if (charge.waived) {
+      throw new ValidationError("This late fee has already been waived");
+    }
+
+    if (ticket.creditStatus !== "pending" && ticket.creditStatus !== "partial") {
+      throw new ValidationError(`Cannot waive a late fee on a ticket that is ${ticket.creditStatus}`);
+    }
+
+    if (charge.amount > ticket.amountOwed) {
+      throw new ValidationError(
+        `Late fee (${charge.amount}) is more than the balance still owed (${ticket.amountOwed})`
+      );
+    }
+
+    const updatedTicket = await this.ticketRepository.waiveCharge(ticketId, chargeId, ticket.amountOwed, {
+      amount: charge.amount,
+      waivedBy: new Types.ObjectId(userId),
+      waiveReason: reason.trim(),
+    });
+
+    if (!updatedTicket) {
+      throw new ConflictError("Ticket balance changed while waiving the fee. Please try again");
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "LATE_FEE_WAIVED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      saleId: ticketId,
+      ip,
+      details: {
+        chargeId,
+        period: charge.period,
+        amount: charge.amount,
+        reason: reason.trim(),
+        previousAmountOwed: ticket.amountOwed,
+        newAmountOwed: updatedTicket.amountOwed,
+      },
+    });
+
+    return updatedTicket;
+  }
+}
@@ -0,0 +1,499 @@
+import { LayawayRepository } from "../repositories/layaway.repository";
+import { TicketRepository } from "../repositories/sales.repository";
+import { InventoryRepository } from "../repositories/inventory.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { StaffRepository } from "../../staff-management/repositories/staff.repository";
+import { TicketService } from "./sales.service";
+import { logSalesAuditEvent } from "../utils/auditLogger";
+import { roundCurrency } from "../utils/calculations";
+import { resolveTicketNumbering } from "../utils/ticketNumber";
+import { getPaymentMethodForTenders } from "../utils/tenders";
+import { calculateForfeiture, getLayawayTenders, resolveLayawaySettings } from "../utils/layaway";
+import { IStaff } from "../../staff-management/types";
+import mongoose, { Types } from "mongoose";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import {
+  CancelLayawayInput,
+  CreateLayawayInput,
+  ICreditPayment,
+  ILayaway,
+  ITicket,
+  LayawayQueryOptions,
+  RecordLayawayPaymentInput,
+  RequestMetadata,
+} from "../types";
+
+export class LayawayService {
+  private layawayRepository: LayawayRepository;
+  private ticketRepository: TicketRepository;
+  private inventoryRepository: InventoryRepository;
+  private shopRepository: ShopRepository;
+  private staffRepository: StaffRepository;
+  private ticketService: TicketService;
+
+  constructor() {
+    this.layawayRepository = new LayawayRepository();
+    this.ticketRepository = new TicketRepository();
+    this.inventoryRepository = new InventoryRepository();
+    this.shopRepository = new ShopRepository();
+    this.staffRepository = new StaffRepository();
+    this.ticketService = new TicketService();
+  }
+
+  private async validateShopAccess(
+    shopId: string,
+    userShopId: string,
+    userRole: "owner" | "staff"
+  ): Promise<void> {
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only access layaways for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  private async findShopLayaway(layawayId: string, shopId: string): Promise<ILayaway> {
+    const layaway = await this.layawayRepository.findById(layawayId);
+    if (!layaway) {
+      throw new NotFoundError("Layaway not found");
+    }
+
+    if (layaway.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Layaway does not belong to this shop");
+    }
+
+    return layaway;
+  }
+
+  private async findShopStaff(staffId: string, shopId: string): Promise<IStaff> {
+    const staff = await this.staffRepository.findById(staffId);
+    if (!staff) {
+      throw new NotFoundError("Staff member not found");
+    }
+    if (staff.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Staff member does not belong to this shop");
+    }
+    return staff;
+  }
+
+  // Open a layaway: price the items as a sale, take the deposit and hold
+  // the stock. Nothing is sold until the balance is paid off.
+  async createLayaway(input: CreateLayawayInput, metadata: RequestMetadata): Promise<ILayaway> {
+    const { shopId, items, soldBy, deposit, paymentMethod, transactionReference, notes } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    if (!items || items.length === 0) {
+      throw new ValidationError("Layaway must contain at least one item");
+    }
+
+    const { customerId, customerName, customerPhone, customerAddress } =
+      await this.ticketService.resolveCustomer(shopId, input, userId);
+    if (!customerName || !customerPhone) {
+      throw new ValidationError("Customer name and phone number are required for layaways");
+    }
+
+    const staff = await this.findShopStaff(soldBy, shopId);
+
+    // Priced and checked against stock (including parked-ticket holds) as a sale would be
+    const priced = await this.ticketService.priceItems(shopId, items, true);
+    const totalAmount = roundCurrency(priced.subtotal + priced.taxAmount);
+
+    const settings = resolveLayawaySettings((await this.shopRepository.getSettings(shopId))?.layaway);
+    const minDeposit = roundCurrency((totalAmount * settings.minDepositPercent) / 100);
+    if (deposit < minDeposit) {
+      throw new ValidationError(
+        `Deposit must be at least ${minDeposit} (${settings.minDepositPercent}% of ${totalAmount})`
+      );
+    }
+    if (deposit >= totalAmount) {
+      throw new ValidationError("Deposit covers the full amount. Ring this up as a normal sale instead");
+    }
+
+    let dueDate = input.dueDate ? new Date(input.dueDate) : undefined;
+    if (!dueDate) {
+      dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + settings.termDays);
+    }
+
+    const layawayId = new Types.ObjectId();
+    const date = new Date();
+    const layawayNumber = `LAY-${date.toISOString().slice(0, 10).replace(/-/g, "")}-${layawayId
+      .toString()
+      .slice(-6)
+      .toUpperCase()}`;
+
+    // Hold the stock and create the layaway together so a failure on any
+    // item leaves inventory untouched
+    let layaway!: ILayaway;
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        for (const item of priced.ticketItems) {
+          await this.inventoryRepository.holdStock(
+            item.itemId.toString(),
+            item.quantitySold,
+            soldBy,
+            staff.staffName,
+            { session, referenceId: layawayId, reason: `Layaway ${layawayNumber}` }
+          );
+        }
+
+        layaway = await this.layawayRepository.create(
+          {
+            _id: layawayId,
+            shopId: new Types.ObjectId(shopId),
+            layawayNumber,
+            items: priced.ticketItems,
+            subtotal: priced.subtotal,
+            taxAmount: priced.taxAmount,
+            totalAmount,
+            totalProfit: priced.totalProfit,
+            totalItemCount: priced.totalItemCount,
+            promotionDiscount: priced.promotionDiscount,
+            taxInclusive: priced.taxInclusive,
+            customerId,
+            customerName,
+            customerPhone,
+            customerAddress,
+            soldBy: new Types.ObjectId(soldBy),
+            soldByName: staff.staffName,
+            status: "active",
+            amountPaid: deposit,
+            amountOwed: roundCurrency(totalAmount - deposit),
+            dueDate,
+            payments: [
+              {
+                amount: deposit,
+                paymentMethod,
+                paymentDate: date,
+                receivedBy: new Types.ObjectId(soldBy),
+                receivedByName: staff.staffName,
+                transactionReference,
+                notes: "Deposit",
+              },
+            ],
+            notes,
+          },
+          session
+        );
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "LAYAWAY_CREATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        layawayId: layawayId.toString(),
+        layawayNumber,
+        customerName,
+        itemCount: priced.ticketItems.length,
+        totalAmount,
+        deposit,
+        paymentMethod,
+        dueDate,
+      },
+    });
+
+    return layaway;
+  }
+
+  // List layaways, newest first
+  async getLayaways(
+    shopId: string,
+    options: LayawayQueryOptions,
+    metadata: RequestMetadata
+  ): Promise<{ layaways: ILayaway[]; total: number; page: number; pages: number }> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    return await this.layawayRepository.findByShopId(shopId, options);
+  }
+
+  // Get a single layaway
+  async getLayawayById(
+    layawayId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<ILayaway> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    return await this.findShopLayaway(layawayId, shopId);
+  }
+
+  // Record an installment. The payment that clears the balance completes
+  // the layaway: the held stock is counted as sold and a paid ticket is
+  // created, so the sale shows up in revenue on the day the goods go out.
+  async recordPayment(
+    input: RecordLayawayPaymentInput,
+    metadata: RequestMetadata
+  ): Promise<{ layaway: ILayaway; ticket?: ITicket }> {
+    const { layawayId, shopId, amount, paymentMethod, receivedBy, transactionReference, notes } =
+      input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const existing = await this.findShopLayaway(layawayId, shopId);
+    if (existing.status !== "active") {
+      throw new ValidationError(`Cannot record a payment on a layaway that is ${existing.status}`);
+    }
+
+    if (amount <= 0) {
+      throw new ValidationError("Payment amount must be greater than 0");
+    }
+
+    if (amount > existing.amountOwed) {
+      throw new ValidationError(
+        `Payment amount (${amount}) exceeds amount owed (${existing.amountOwed})`
+      );
+    }
+
+    const staff = await this.findShopStaff(receivedBy, shopId);
+
+    const payment: ICreditPayment = {
+      amount,
+      paymentMethod,
+      paymentDate: new Date(),
+      receivedBy: new Types.ObjectId(receivedBy),
+      receivedByName: staff.staffName,
+      transactionReference,
+      notes,
+    };
+    const amountOwed = roundCurrency(existing.amountOwed - amount);
+    const amountPaid = roundCurrency(existing.amountPaid + amount);
+
+    if (amountOwed > 0) {
+      const layaway = await this.layawayRepository.addPayment(
+        layawayId,
+        existing.amountOwed,
+        payment,
+        { amountPaid, amountOwed }
+      );
+      if (!layaway) {
+        throw new ConflictError("Layaway balance changed while recording the payment. Please try again");
+      }
+
+      await logSalesAuditEvent({
+        requestId,
+        action: "LAYAWAY_PAYMENT_RECORDED",
+        shopId,
+        performedBy: { userId, role: userRole },
+        ip,
+        details: { layawayId, amount, paymentMethod, amountPaid, amountOwed },
+      });
+
+      return { layaway };
+    }
+
+    // Final payment: allocate the ticket number from the shop's counter
+    // before the transaction
+    const settings = await this.shopRepository.getSettings(shopId);
+    const ticketNumber = await this.ticketRepository.getNextTicketNumber(
+      shopId,
+      resolveTicketNumbering(settings?.ticketNumbering)
+    );
+
+    const ticketId = new Types.ObjectId();
+    let layaway!: ILayaway;
+    let ticket!: ITicket;
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        const paid = await this.layawayRepository.addPayment(
+          layawayId,
+          existing.amountOwed,
+          payment,
+          { amountPaid, amountOwed },
+          session
+        );
+        if (!paid) {
+          throw new ConflictError(
+            "Layaway balance changed while recording the payment. Please try again"
+          );
+        }
+
+        for (const item of paid.items) {
+          await this.inventoryRepository.sellHeldStock(
+            item.itemId.toString(),
+            item.quantitySold,
+            session
+          );
+        }
+
+        const tenders = getLayawayTenders(paid.payments);
+        ticket = await this.ticketRepository.create(
+          {
+            _id: ticketId,
+            ticketNumber,
+            shopId: paid.shopId,
+            items: paid.toObject().items,
+            subtotal: paid.subtotal,
+            taxAmount: paid.taxAmount,
+            totalAmount: paid.totalAmount,
+            totalProfit: paid.totalProfit,
+            totalItemCount: paid.totalItemCount,
+            promotionDiscount: paid.promotionDiscount,
+            taxInclusive: paid.taxInclusive,
+            soldBy: paid.soldBy,
+            soldByName: paid.soldByName,
+            paymentMethod: getPaymentMethodForTenders(tenders),
+            tenders,
+            changeGiven: 0,
+            customerId: paid.customerId,
+            customerName: paid.customerName,
+            customerPhone: paid.customerPhone,
+            customerAddress: paid.customerAddress,
+            notes: `Layaway ${paid.layawayNumber}`,
+            date: new Date(),
+            refunded: false,
+            isCredit: false,
+            creditStatus: "paid",
+            amountPaid: paid.totalAmount,
+            amountOwed: 0,
+            payments: [],
+            layawayId: paid._id,
+          },
+          session
+        );
+
+        const completed = await this.layawayRepository.complete(layawayId, ticketId, session);
+        if (!completed) {
+          throw new ConflictError("Layaway changed while being completed. Please try again");
+        }
+        layaway = completed;
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "LAYAWAY_COMPLETED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      saleId: ticketId.toString(),
+      ip,
+      details: {
+        layawayId,
+        layawayNumber: layaway.layawayNumber,
+        ticketNumber,
+        finalPayment: amount,
+        paymentMethod,
+        totalAmount: layaway.totalAmount,
+      },
+    });
+
+    return { layaway, ticket };
+  }
+
+  // Cancel a layaway (owner only). The held stock goes back on the shelf
+  // and the customer is refunded what they paid less the shop's forfeiture.
+  async cancelLayaway(
+    layawayId: string,
+    shopId: string,
+    input: CancelLayawayInput,
+    metadata: RequestMetadata
+  ): Promise<ILayaway> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can cancel layaways");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const existing = await this.findShopLayaway(layawayId, shopId);
+    if (existing.status !== "active") {
+      throw new ValidationError(`Cannot cancel a layaway that is ${existing.status}`);
+    }
+
+    const settings = resolveLayawaySettings((await this.shopRepository.getSettings(shopId))?.layaway);
+    const forfeitedAmount = calculateForfeiture(existing.totalAmount, existing.amountPaid, settings);
+    const refundAmount = roundCurrency(existing.amountPaid - forfeitedAmount);
+
+    if (refundAmount > 0 && !input.refundMethod) {
+      throw new ValidationError("Refund method is required when part of the payments is refunded");
+    }
+
+    const staff = await this.findShopStaff(input.cancelledBy, shopId);
+
+    let layaway!: ILayaway;
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        const cancelled = await this.layawayRepository.cancel(
+          layawayId,
+          existing.amountPaid,
+          {
+            reason: input.reason.trim(),
+            forfeitedAmount,
+            refundAmount,
+            refundMethod: refundAmount > 0 ? input.refundMethod : undefined,
+            cancelledBy: new Types.ObjectId(input.cancelledBy),
+            date: new Date(),
+          },
+          session
+        );
+        if (!cancelled) {
+          throw new ConflictError("Layaway changed while being cancelled. Please try again");
+        }
+
+        for (const item of cancelled.items) {
+          await this.inventoryRepository.releaseStock(
+            item.itemId.toString(),
+            item.quantitySold,
+            input.cancelledBy,
+            staff.staffName,
+            {
+              session,
+              referenceId: cancelled._id,
+              reason: `Layaway ${cancelled.layawayNumber} cancelled`,
+            }
+          );
+        }
+
+        layaway = cancelled;
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "LAYAWAY_CANCELLED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        layawayId,
+        layawayNumber: layaway.layawayNumber,
+        reason: input.reason.trim(),
+        amountPaid: existing.amountPaid,
+        forfeitedAmount,
+        refundAmount,
+        refundMethod: layaway.cancellation?.refundMethod,
+        policy: settings,
+      },
+    });
+
+    return layaway;
+  }
+}
@@ -0,0 +1,281 @@
+import { PromotionRepository } from "../repositories/promotion.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { logSalesAuditEvent } from "../utils/auditLogger";
+import { Types } from "mongoose";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import {
+  CreatePromotionInput,
+  UpdatePromotionInput,
+  IPromotion,
+  PromotionQueryOptions,
+  PromotionType,
+  RequestMetadata,
+} from "../types";
+
+type PromotionRule = Pick<
+  IPromotion,
+  "percentOff" | "amountOff" | "buyQuantity" | "getQuantity" | "minSpend" | "startTime" | "endTime"
+> & {
+  type: PromotionType;
+  categories?: string[];
+  startDate?: Date;
+  endDate?: Date;
+};
+
+export class PromotionService {
+  private promotionRepository: PromotionRepository;
+  private shopRepository: ShopRepository;
+
+  constructor() {
+    this.promotionRepository = new PromotionRepository();
+    this.shopRepository = new ShopRepository();
+  }
+
+  private async validateShopAccess(
+    shopId: string,
+    userShopId: string,
+    userRole: "owner" | "staff"
+  ): Promise<void> {
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only access promotions for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  // Check the parameters each promotion type needs
+  private validateRule(rule: PromotionRule): void {
+    const { type } = rule;
+
+    if (rule.startDate && rule.endDate && rule.startDate > rule.endDate) {
+      throw new ValidationError("Promotion start date must be before its end date");
+    }
+
+    if ((rule.startTime && !rule.endTime) || (!rule.startTime && rule.endTime)) {
+      throw new ValidationError("Both start time and end time are required for a time window");
+    }
+
+    switch (type) {
+      case "buy_x_get_y":
+        if (!rule.buyQuantity || !rule.getQuantity) {
+          throw new ValidationError("Buy quantity and free quantity are required for buy X get Y");
+        }
+        break;
+      case "fixed_amount":
+        if (!rule.amountOff || rule.amountOff <= 0) {
+          throw new ValidationError("Amount off must be greater than 0 for a fixed amount promotion");
+        }
+        break;
+      case "category_percent":
+        if (!rule.categories || rule.categories.length === 0) {
+          throw new ValidationError("At least one category is required for a category promotion");
+        }
+        if (!rule.percentOff || rule.percentOff <= 0) {
+          throw new ValidationError("Percent off must be greater than 0 for a category promotion");
+        }
+        break;
+      case "happy_hour":
+        if (!rule.startTime || !rule.endTime) {
+          throw new ValidationError("Start time and end time are required for happy hour");
+        }
+        if (!rule.percentOff || rule.percentOff <= 0) {
+          throw new ValidationError("Percent off must be greater than 0 for happy hour");
+        }
+        break;
+      case "ticket_threshold":
+        if (!rule.minSpend || rule.minSpend <= 0) {
+          throw new ValidationError("Minimum spend is required for a ticket discount");
+        }
+        if (!rule.percentOff && !rule.amountOff) {
+          throw new ValidationError("Either percent off or amount off is required for a ticket discount");
+        }
+        if (rule.percentOff && rule.amountOff) {
+          throw new ValidationError("A ticket discount takes either percent off or amount off, not both");
+        }
+        break;
+    }
+  }
+
+  private async findShopPromotion(promotionId: string, shopId: string): Promise<IPromotion> {
+    const promotion = await this.promotionRepository.findById(promotionId);
+    if (!promotion) {
+      throw new NotFoundError("Promotion not found");
+    }
+
+    if (promotion.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Promotion does not belong to this shop");
+    }
+
+    return promotion;
+  }
+
+  // Create a promotion (owner only)
+  async createPromotion(input: CreatePromotionInput, metadata: RequestMetadata): Promise<IPromotion> {
+    const { shopId, itemIds, categories, ...rest } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can create promotions");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    this.validateRule({ ...rest, categories });
+
+    const existing = await this.promotionRepository.findByName(shopId, input.name);
+    if (existing) {
+      throw new ConflictError(`A promotion named "${input.name}" already exists`);
+    }
+
+    const promotion = await this.promotionRepository.create({
+      ...rest,
+      shopId: new Types.ObjectId(shopId),
+      itemIds: (itemIds || []).map((id) => new Types.ObjectId(id)),
+      categories: categories || [],
+      createdBy: new Types.ObjectId(userId),
+    });
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "PROMOTION_CREATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        promotionId: promotion._id.toString(),
+        name: promotion.name,
+        type: promotion.type,
+      },
+    });
+
+    return promotion;
+  }
+
+  // List promotions
+  async getPromotions(
+    shopId: string,
+    options: PromotionQueryOptions,
+    metadata: RequestMetadata
+  ): Promise<{ promotions: IPromotion[]; total: number; page: number; pages: number }> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    return await this.promotionRepository.findByShopId(shopId, options);
+  }
+
+  // Get a single promotion
+  async getPromotionById(
+    promotionId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<IPromotion> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    return await this.findShopPromotion(promotionId, shopId);
+  }
+
+  // Update a promotion (owner only). The type cannot change.
+  async updatePromotion(
+    promotionId: string,
+    shopId: string,
+    updates: UpdatePromotionInput,
+    metadata: RequestMetadata
+  ): Promise<IPromotion> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can update promotions");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const existing = await this.findShopPromotion(promotionId, shopId);
+
+    // Fields left out of the request keep their current values
+    const { itemIds, ...provided } = updates;
+    const rest = Object.fromEntries(
+      Object.entries(provided).filter(([, value]) => value !== undefined)
+    ) as Omit<UpdatePromotionInput, "itemIds">;
+
+    this.validateRule({
+      type: existing.type,
+      percentOff: existing.percentOff,
+      amountOff: existing.amountOff,
+      buyQuantity: existing.buyQuantity,
+      getQuantity: existing.getQuantity,
+      minSpend: existing.minSpend,
+      startTime: existing.startTime,
+      endTime: existing.endTime,
+      startDate: existing.startDate,
+      endDate: existing.endDate,
+      categories: existing.categories,
+      ...rest,
+    });
+
+    if (updates.name && updates.name.toLowerCase() !== existing.name.toLowerCase()) {
+      const duplicate = await this.promotionRepository.findByName(shopId, updates.name);
+      if (duplicate) {
+        throw new ConflictError(`A promotion named "${updates.name}" already exists`);
+      }
+    }
+
+    const changes: Partial<IPromotion> = { ...rest };
+    if (itemIds) {
+      changes.itemIds = itemIds.map((id) => new Types.ObjectId(id));
+    }
+
+    const promotion = await this.promotionRepository.update(promotionId, changes);
+    if (!promotion) {
+      throw new NotFoundError("Promotion not found after update");
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "PROMOTION_UPDATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: { promotionId, updates: Object.keys(rest).concat(itemIds ? ["itemIds"] : []) },
+    });
+
+    return promotion;
+  }
+
+  // Delete a promotion (owner only). Tickets keep the name they were sold under.
+  async deletePromotion(
+    promotionId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<void> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can delete promotions");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const promotion = await this.findShopPromotion(promotionId, shopId);
+    await this.promotionRepository.delete(promotionId);
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "PROMOTION_DELETED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: { promotionId, name: promotion.name, type: promotion.type },
+    });
+  }
+}
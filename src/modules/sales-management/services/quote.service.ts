@@ -0,0 +1,498 @@
+import { QuoteRepository } from "../repositories/quote.repository";
+import { CustomerRepository } from "../repositories/customer.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { TicketService } from "./sales.service";
+import { logSalesAuditEvent } from "../utils/auditLogger";
+import { roundCurrency } from "../utils/calculations";
+import {
+  buildQuoteData,
+  renderQuoteEscPos,
+  renderQuoteHtml,
+  renderQuoteText,
+} from "../utils/receipt";
+import { ReceiptPaperWidth } from "../../auth/models/shop";
+import { Types } from "mongoose";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import {
+  CreateQuoteInput,
+  UpdateQuoteInput,
+  ConvertQuoteInput,
+  QuoteQueryOptions,
+  IQuote,
+  IQuoteItem,
+  ITicket,
+  ReceiptFormat,
+  RequestMetadata,
+} from "../types";
+
+const DEFAULT_QUOTE_VALIDITY_DAYS = 14;
+
+export class QuoteService {
+  private quoteRepository: QuoteRepository;
+  private customerRepository: CustomerRepository;
+  private shopRepository: ShopRepository;
+  private ticketService: TicketService;
+
+  constructor() {
+    this.quoteRepository = new QuoteRepository();
+    this.customerRepository = new CustomerRepository();
+    this.shopRepository = new ShopRepository();
+    this.ticketService = new TicketService();
+  }
+
+  private async validateShopAccess(
+    shopId: string,
+    userShopId: string,
+    userRole: "owner" | "staff"
+  ): Promise<void> {
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only access quotes for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  // Find a quote, expiring it first if it has run past its validity date
+  private async findShopQuote(quoteId: string, shopId: string): Promise<IQuote> {
+    let quote = await this.quoteRepository.findById(quoteId);
+    if (!quote) {
+      throw new NotFoundError("Quote not found");
+    }
+
+    if (quote.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Quote does not belong to this shop");
+    }
+
+    if ((quote.status === "draft" || quote.status === "sent") && quote.validUntil < new Date()) {
+      quote =
+        (await this.quoteRepository.transition(quoteId, ["draft", "sent"], "expired", {
+          expiredAt: new Date(),
+        })) || quote;
+    }
+
+    return quote;
+  }
+
+  private async findOpenQuote(quoteId: string, shopId: string): Promise<IQuote> {
+    const quote = await this.findShopQuote(quoteId, shopId);
+
+    if (quote.status === "accepted") {
+      throw new ConflictError("Quote has already been accepted");
+    }
+
+    if (quote.status === "expired") {
+      throw new ValidationError(
+        "Quote has expired. Extend its validity date or create a new quote"
+      );
+    }
+
+    return quote;
+  }
+
+  // Validity end date, from the request or the shop's default
+  private async getValidUntil(shopId: string, validUntil?: Date): Promise<Date> {
+    if (validUntil) {
+      const date = new Date(validUntil);
+      if (date < new Date()) {
+        throw new ValidationError("Validity date cannot be in the past");
+      }
+      return date;
+    }
+
+    const settings = await this.shopRepository.getSettings(shopId);
+    const days = settings?.quotes?.validityDays || DEFAULT_QUOTE_VALIDITY_DAYS;
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    date.setHours(23, 59, 59, 999);
+    return date;
+  }
+
+  // Customer details to print on the quote. A saved customer's details
+  // fill in anything not given.
+  private async resolveCustomer(
+    shopId: string,
+    input: Pick<CreateQuoteInput, "customerId" | "customerName" | "customerPhone" | "customerAddress">
+  ): Promise<Partial<IQuote>> {
+    if (!input.customerId) {
+      return {
+        customerName: input.customerName,
+        customerPhone: input.customerPhone,
+        customerAddress: input.customerAddress,
+      };
+    }
+
+    const customer = await this.customerRepository.findById(input.customerId);
+    if (!customer) {
+      throw new NotFoundError("Customer not found");
+    }
+
+    if (customer.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Customer does not belong to this shop");
+    }
+
+    return {
+      customerId: customer._id,
+      customerName: input.customerName ?? customer.name,
+      customerPhone: input.customerPhone ?? customer.phone,
+      customerAddress: input.customerAddress ?? customer.address,
+    };
+  }
+
+  // Price the quoted items the way createTicket would, without a stock check
+  private async priceQuote(
+    shopId: string,
+    items: CreateQuoteInput["items"]
+  ): Promise<
+    Pick<IQuote, "items" | "subtotal" | "taxAmount" | "totalAmount" | "promotionDiscount" | "taxInclusive">
+  > {
+    if (!items || items.length === 0) {
+      throw new ValidationError("Quote must contain at least one item");
+    }
+
+    const priced = await this.ticketService.priceItems(shopId, items);
+
+    const quoteItems: IQuoteItem[] = priced.ticketItems.map((item) => ({
+      itemId: item.itemId,
+      itemName: item.itemName,
+      itemCategory: item.itemCategory,
+      quantity: item.quantitySold,
+      sellingPrice: item.sellingPrice,
+      discount: item.discount,
+      lineTotal: item.lineTotal,
+      taxRate: item.taxRate,
+      taxAmount: item.taxAmount,
+      promotions: item.promotions,
+      promotionDiscount: item.promotionDiscount,
+    }));
+
+    return {
+      items: quoteItems,
+      subtotal: priced.subtotal,
+      taxAmount: priced.taxAmount,
+      totalAmount: roundCurrency(priced.subtotal + priced.taxAmount),
+      promotionDiscount: priced.promotionDiscount,
+      taxInclusive: priced.taxInclusive,
+    };
+  }
+
+  // Create a quote
+  async createQuote(input: CreateQuoteInput, metadata: RequestMetadata): Promise<IQuote> {
+    const { shopId, items, validUntil, notes, ...customerInput } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const pricing = await this.priceQuote(shopId, items);
+    const customer = await this.resolveCustomer(shopId, customerInput);
+
+    const quoteId = new Types.ObjectId();
+    const quoteNumber = `QUO-${new Date().toISOString().slice(0, 10).replace(/-/g, "")}-${quoteId
+      .toString()
+      .slice(-6)
+      .toUpperCase()}`;
+
+    const quote = await this.quoteRepository.create({
+      _id: quoteId,
+      shopId: new Types.ObjectId(shopId),
+      quoteNumber,
+      ...pricing,
+      ...customer,
+      notes,
+      status: "draft",
+      validUntil: await this.getValidUntil(shopId, validUntil),
+      createdBy: new Types.ObjectId(userId),
+      lastUpdatedBy: new Types.ObjectId(userId),
+    });
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "QUOTE_CREATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        quoteId: quote._id.toString(),
+        quoteNumber,
+        itemCount: quote.items.length,
+        totalAmount: quote.totalAmount,
+        validUntil: quote.validUntil,
+      },
+    });
+
+    return quote;
+  }
+
+  // List quotes, newest first
+  async getQuotes(
+    shopId: string,
+    options: QuoteQueryOptions,
+    metadata: RequestMetadata
+  ): Promise<{ quotes: IQuote[]; total: number; page: number; pages: number }> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+    await this.quoteRepository.expireOverdue(shopId);
+
+    return await this.quoteRepository.findByShopId(shopId, options);
+  }
+
+  // Get a single quote
+  async getQuoteById(quoteId: string, shopId: string, metadata: RequestMetadata): Promise<IQuote> {
+    const { userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    return await this.findShopQuote(quoteId, shopId);
+  }
+
+  // Edit a draft or sent quote. Items are repriced at today's prices; an
+  // expired quote can be revived by giving it a new validity date.
+  async updateQuote(
+    quoteId: string,
+    shopId: string,
+    updates: UpdateQuoteInput,
+    metadata: RequestMetadata
+  ): Promise<IQuote> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const existing = await this.findShopQuote(quoteId, shopId);
+    if (existing.status === "accepted") {
+      throw new ConflictError("Quote has already been accepted");
+    }
+    if (existing.status === "expired" && !updates.validUntil) {
+      throw new ValidationError("Quote has expired. Give it a new validity date to edit it");
+    }
+
+    const { items, validUntil, notes, customerId, customerName, customerPhone, customerAddress } =
+      updates;
+
+    const set: Record<string, any> = { lastUpdatedBy: new Types.ObjectId(userId) };
+    if (notes !== undefined) set.notes = notes;
+
+    Object.assign(
+      set,
+      await this.priceQuote(
+        shopId,
+        items ||
+          existing.items.map((item) => ({
+            itemId: item.itemId.toString(),
+            quantity: item.quantity,
+            discount: item.discount,
+            sellingPrice: item.sellingPrice,
+          }))
+      )
+    );
+
+    if (
+      customerId !== undefined ||
+      customerName !== undefined ||
+      customerPhone !== undefined ||
+      customerAddress !== undefined
+    ) {
+      Object.assign(
+        set,
+        await this.resolveCustomer(shopId, {
+          customerId: customerId ?? existing.customerId?.toString(),
+          customerName: customerName ?? existing.customerName,
+          customerPhone: customerPhone ?? existing.customerPhone,
+          customerAddress: customerAddress ?? existing.customerAddress,
+        })
+      );
+    }
+
+    const update: Record<string, any> = { $set: set };
+    if (validUntil) {
+      set.validUntil = await this.getValidUntil(shopId, validUntil);
+    }
+
+    let quote: IQuote | null;
+    if (existing.status === "expired") {
+      set.status = existing.sentAt ? "sent" : "draft";
+      update.$unset = { expiredAt: 1 };
+      quote = await this.quoteRepository.transition(quoteId, ["expired"], set.status, update);
+    } else {
+      quote = await this.quoteRepository.update(quoteId, update);
+    }
+    if (!quote) {
+      throw new ConflictError("Quote was accepted or expired while being edited");
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "QUOTE_UPDATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: {
+        quoteId,
+        updates: Object.keys(updates).filter(
+          (key) => updates[key as keyof UpdateQuoteInput] !== undefined
+        ),
+        totalAmount: quote.totalAmount,
+        validUntil: quote.validUntil,
+      },
+    });
+
+    return quote;
+  }
+
+  // Mark a quote as sent to the customer
+  async sendQuote(quoteId: string, shopId: string, metadata: RequestMetadata): Promise<IQuote> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const existing = await this.findOpenQuote(quoteId, shopId);
+    if (existing.status === "sent") {
+      throw new ConflictError("Quote has already been sent");
+    }
+
+    const quote = await this.quoteRepository.transition(quoteId, ["draft"], "sent", {
+      sentAt: new Date(),
+      lastUpdatedBy: new Types.ObjectId(userId),
+    });
+    if (!quote) {
+      throw new ConflictError("Quote has already been sent, accepted or expired");
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "QUOTE_SENT",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: { quoteId, quoteNumber: quote.quoteNumber },
+    });
+
+    return quote;
+  }
+
+  // Render a quote as a printable proforma invoice
+  async getQuotePrint(
+    quoteId: string,
+    shopId: string,
+    options: { format: ReceiptFormat; paperWidth?: ReceiptPaperWidth },
+    metadata: RequestMetadata
+  ): Promise<{ quoteNumber: string; content: string | Buffer }> {
+    const { requestId, userId, userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const quote = await this.findShopQuote(quoteId, shopId);
+
+    const shop = await this.shopRepository.getReceiptProfile(shopId);
+    if (!shop) {
+      throw new NotFoundError("Shop not found");
+    }
+
+    const receiptSettings = shop.settings?.receipt;
+    const paperWidth = options.paperWidth || receiptSettings?.paperWidth || "80mm";
+    const data = buildQuoteData(quote, shop, receiptSettings?.footer);
+
+    let content: string | Buffer;
+    if (options.format === "escpos") {
+      content = renderQuoteEscPos(data, paperWidth);
+    } else if (options.format === "text") {
+      content = renderQuoteText(data, paperWidth);
+    } else {
+      content = renderQuoteHtml(data, paperWidth);
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "QUOTE_PRINTED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      details: { quoteId, format: options.format, paperWidth },
+    });
+
+    return { quoteNumber: quote.quoteNumber, content };
+  }
+
+  // Accept a quote and ring it up. The sale goes through createTicket at
+  // the quoted selling prices and discounts, so stock is checked now and
+  // promotions and tax are applied as they stand today.
+  async convertQuote(
+    quoteId: string,
+    shopId: string,
+    input: ConvertQuoteInput,
+    metadata: RequestMetadata
+  ): Promise<{ ticket: ITicket; quote: IQuote }> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const existing = await this.findOpenQuote(quoteId, shopId);
+
+    // Claim the quote first so it cannot be rung up twice
+    const claimed = await this.quoteRepository.transition(quoteId, ["draft", "sent"], "accepted", {
+      acceptedAt: new Date(),
+      lastUpdatedBy: new Types.ObjectId(userId),
+    });
+    if (!claimed) {
+      throw new ConflictError("Quote has already been accepted or has expired");
+    }
+
+    let ticket: ITicket;
+    try {
+      ticket = await this.ticketService.createTicket(
+        {
+          shopId,
+          items: existing.items.map((item) => ({
+            itemId: item.itemId.toString(),
+            quantity: item.quantity,
+            discount: item.discount,
+            sellingPrice: item.sellingPrice,
+          })),
+          soldBy: input.soldBy,
+          paymentMethod: input.paymentMethod,
+          tenders: input.tenders,
+          cashReceived: input.cashReceived,
+          creditOverride: input.creditOverride,
+          customerId: input.customerId ?? existing.customerId?.toString(),
+          customerName: input.customerName ?? existing.customerName,
+          customerPhone: input.customerPhone ?? existing.customerPhone,
+          customerAddress: input.customerAddress ?? existing.customerAddress,
+          dueDate: input.dueDate,
+          notes: input.notes ?? `Quote ${existing.quoteNumber}`,
+          transactionReference: input.transactionReference,
+        },
+        metadata
+      );
+    } catch (error) {
+      // Leave the quote as it was so it can be fixed and tried again
+      await this.quoteRepository.reopen(quoteId, existing.status);
+      throw error;
+    }
+
+    const quote = await this.quoteRepository.setConvertedTicket(quoteId, ticket._id);
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "QUOTE_CONVERTED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      saleId: ticket._id.toString(),
+      ip,
+      details: {
+        quoteId,
+        quoteNumber: existing.quoteNumber,
+        ticketNumber: ticket.ticketNumber,
+        quotedAmount: existing.totalAmount,
+        ticketAmount: ticket.totalAmount,
+      },
+    });
+
+    return { ticket, quote: quote! };
+  }
+}
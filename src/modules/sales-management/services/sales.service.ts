@@ -1,14 +1,39 @@
 import { TicketRepository } from "../repositories/sales.repository";
 import { InventoryRepository } from "../repositories/inventory.repository";
 import { ShopRepository } from "../repositories/shop.repository";
+import { PromotionRepository } from "../repositories/promotion.repository";
+import { DraftTicketRepository } from "../repositories/draftTicket.repository";
+import { CustomerRepository } from "../repositories/customer.repository";
 import { StaffRepository } from "../../staff-management/repositories/staff.repository";
 import { logSalesAuditEvent } from "../utils/auditLogger";
-import { Types } from "mongoose";
+import { resolveTicketNumbering } from "../utils/ticketNumber";
+import { getPaymentMethodForTenders } from "../utils/tenders";
+import { getTaxRateForItem, resolveTaxSettings } from "../utils/tax";
+import { applyPromotions } from "../utils/promotions";
+import { getCreditStanding, resolveCreditLimit } from "../utils/credit";
+import { buildAgingReport } from "../utils/receivables";
+import { getActiveLateFees } from "../utils/lateFees";
+import {
+  buildReceiptData,
+  renderReceiptEscPos,
+  renderReceiptHtml,
+  renderReceiptText,
+} from "../utils/receipt";
+import { ICreditSettings, ITaxSettings, ReceiptPaperWidth } from "../../auth/models/shop";
+import { IInventoryItem } from "../../inventory-mgt/types";
+import {
+  calculateReturnAmounts,
+  calculateSaleAmounts,
+  getCreditStatus,
+  roundCurrency,
+} from "../utils/calculations";
+import mongoose, { ClientSession, Types } from "mongoose";
 import {
   ValidationError,
   NotFoundError,
   AuthorizationError,
   InternalServerError,
+  ConflictError,
 } from "../../../shared/utils/AppError";
 import {
   CreateTicketInput,
@@ -21,6 +46,19 @@ import {
   RefundTicketInput,
   UpdateTicketInput,
   ITicketItem,
+  ITicketReturn,
+  ITicketReturnItem,
+  CreateTicketReturnInput,
+  CreateTicketExchangeInput,
+  TicketExchangeResult,
+  TicketReturnCalculation,
+  TicketReturnLine,
+  ITicketTender,
+  TenderInput,
+  ReceiptFormat,
+  ICustomer,
+  CreditStanding,
+  ReceivablesAgingReport,
 } from "../types";
 
 export class TicketService {
@@ -28,12 +66,18 @@ export class TicketService {
   private inventoryRepository: InventoryRepository;
   private shopRepository: ShopRepository;
   private staffRepository: StaffRepository;
+  private promotionRepository: PromotionRepository;
+  private draftTicketRepository: DraftTicketRepository;
+  private customerRepository: CustomerRepository;
 
   constructor() {
     this.ticketRepository = new TicketRepository();
     this.inventoryRepository = new InventoryRepository();
     this.shopRepository = new ShopRepository();
     this.staffRepository = new StaffRepository();
+    this.promotionRepository = new PromotionRepository();
+    this.draftTicketRepository = new DraftTicketRepository();
+    this.customerRepository = new CustomerRepository();
   }
 
   private async validateShopAccess(
@@ -58,9 +102,9 @@ export class TicketService {
       items,
       soldBy,
       paymentMethod,
-      customerName,
-      customerPhone,
-      customerAddress,
+      tenders: tenderInput,
+      cashReceived,
+      creditOverride = false,
       dueDate,
       notes,
       transactionReference,
@@ -69,8 +113,17 @@ export class TicketService {
 
     await this.validateShopAccess(shopId, userShopId, userRole);
 
+    if (!tenderInput?.length && !paymentMethod) {
+      throw new ValidationError("Either a payment method or tenders are required");
+    }
+
+    const { customer, customerId, customerName, customerPhone, customerAddress } =
+      await this.resolveCustomer(shopId, input, userId);
+
     // Validate credit sale requirements
-    const isCredit = paymentMethod === "credit";
+    const isCredit = tenderInput?.length
+      ? tenderInput.some((tender) => tender.type === "credit")
+      : paymentMethod === "credit";
     if (isCredit && (!customerName || !customerPhone)) {
       throw new ValidationError(
         "Customer name and phone number are required for credit sales"
@@ -91,17 +144,405 @@ export class TicketService {
       throw new AuthorizationError("Staff member does not belong to this shop");
     }
 
-    // Fetch and validate all items
+    // Fetch and validate all items, applying the shop's promotions and tax settings
+    const settings = await this.shopRepository.getSettings(shopId);
+    const tax = resolveTaxSettings(settings?.tax);
+    const {
+      ticketItems,
+      inventoryUpdates,
+      subtotal,
+      taxAmount,
+      totalProfit,
+      totalItemCount,
+      promotionDiscount,
+    } = await this.buildTicketItems(shopId, items, tax);
+
+    const totalAmount = roundCurrency(subtotal + taxAmount);
+
+    // Split the total across tenders; credit tenders make up the amount owed
+    const tenders = this.resolveTenders(totalAmount, tenderInput, paymentMethod, transactionReference);
+    const amountOwed = roundCurrency(
+      tenders.filter((tender) => tender.type === "credit").reduce((sum, t) => sum + t.amount, 0)
+    );
+    const amountPaid = roundCurrency(totalAmount - amountOwed);
+    const changeGiven = this.getChangeDue(tenders, cashReceived);
+
+    // Hold back credit beyond the customer's limit or while they have overdue tickets
+    let creditStanding: CreditStanding | undefined;
+    let creditOverridden = false;
+    if (amountOwed > 0) {
+      creditStanding = await this.getCreditStanding(
+        shopId,
+        customer ? [customer.phone, ...customer.alternatePhones] : [customerPhone!],
+        customer?.creditLimit,
+        settings?.credit
+      );
+      creditOverridden = this.checkCreditAllowance(
+        creditStanding,
+        amountOwed,
+        creditOverride,
+        userRole
+      );
+    }
+
+    // Allocate the ticket number from the shop's counter before the transaction
+    const ticketNumber = await this.ticketRepository.getNextTicketNumber(
+      shopId,
+      resolveTicketNumbering(settings?.ticketNumbering)
+    );
+
+    // Reduce stock, record stock movements and create the ticket in a single
+    // transaction so a failure on any item leaves inventory untouched
+    const ticketId = new Types.ObjectId();
+    const session = await mongoose.startSession();
+    let ticket!: ITicket;
+    try {
+      await session.withTransaction(async () => {
+        for (const update of inventoryUpdates) {
+          await this.inventoryRepository.reduceStock(
+            update.itemId,
+            update.quantity,
+            soldBy,
+            staff.staffName,
+            { session, referenceId: ticketId }
+          );
+        }
+
+        ticket = await this.ticketRepository.create(
+          {
+            _id: ticketId,
+            ticketNumber,
+            shopId: new Types.ObjectId(shopId),
+            items: ticketItems,
+            subtotal,
+            taxAmount,
+            totalAmount,
+            totalProfit,
+            totalItemCount,
+            promotionDiscount,
+            taxInclusive: tax.enabled && tax.pricesIncludeTax,
+            soldBy: new Types.ObjectId(soldBy),
+            soldByName: staff.staffName,
+            paymentMethod: getPaymentMethodForTenders(tenders),
+            tenders,
+            cashReceived,
+            changeGiven,
+            transactionReference,
+            customerId,
+            customerName,
+            customerPhone,
+            customerAddress,
+            notes,
+            date: new Date(),
+            refunded: false,
+            isCredit,
+            creditStatus: isCredit ? getCreditStatus(amountPaid, amountOwed) : "paid",
+            amountPaid,
+            amountOwed,
+            dueDate: isCredit ? (dueDate || this.getDefaultDueDate()) : undefined,
+            payments: [],
+          },
+          session
+        );
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: isCredit ? "CREDIT_TICKET_CREATED" : "TICKET_CREATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      saleId: ticket._id.toString(),
+      ip,
+      details: {
+        ticketNumber: ticket.ticketNumber,
+        itemCount: ticketItems.length,
+        totalAmount,
+        promotionDiscount,
+        paymentMethod: ticket.paymentMethod,
+        tenders: tenders.map((tender) => ({ type: tender.type, amount: tender.amount })),
+        isCredit,
+        customerName: isCredit ? customerName : undefined,
+        creditOverride: creditOverridden
+          ? {
+              creditLimit: creditStanding!.creditLimit,
+              outstanding: creditStanding!.outstanding,
+              onHold: creditStanding!.onHold,
+            }
+          : undefined,
+      },
+    });
+
+    return ticket;
+  }
+
+  // A customer's outstanding credit against their limit, and whether
+  // overdue tickets put them on hold. Customers are matched by phone.
+  async getCreditStanding(
+    shopId: string,
+    phones: string[],
+    customerLimit?: number | null,
+    settings?: Partial<ICreditSettings>
+  ): Promise<CreditStanding> {
+    const [creditTickets, overdue] = await Promise.all([
+      this.getCustomerCreditTickets(shopId, phones),
+      this.ticketRepository.getOverdueCreditTickets(shopId),
+    ]);
+
+    return getCreditStanding(
+      creditTickets.filter((ticket) => ticket.amountOwed > 0),
+      overdue.filter((ticket) => !!ticket.customerPhone && phones.includes(ticket.customerPhone)),
+      resolveCreditLimit(customerLimit, settings),
+      settings?.holdOverdue ?? true
+    );
+  }
+
+  // Credit tickets sold to any of a customer's phone numbers, newest first
+  async getCustomerCreditTickets(shopId: string, phones: string[]): Promise<ITicket[]> {
+    const histories = await Promise.all(
+      phones.map((phone) => this.ticketRepository.getCustomerCreditHistory(shopId, phone))
+    );
+
+    const tickets = new Map<string, ITicket>();
+    for (const ticket of histories.flat()) {
+      tickets.set(ticket._id.toString(), ticket);
+    }
+
+    return [...tickets.values()].sort(
+      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+    );
+  }
+
+  // Refuse credit beyond the limit or to a customer on hold unless the
+  // owner overrides it. Returns true when the sale goes through on an override.
+  private checkCreditAllowance(
+    standing: CreditStanding,
+    newCredit: number,
+    override: boolean,
+    userRole: "owner" | "staff"
+  ): boolean {
+    const balance = roundCurrency(standing.outstanding + newCredit);
+    const overLimit = standing.creditLimit !== null && balance > standing.creditLimit;
+    if (!standing.onHold && !overLimit) return false;
+
+    if (!override) {
+      const details = [
+        {
+          creditLimit: standing.creditLimit,
+          outstanding: standing.outstanding,
+          newCredit,
+          overdueTickets: standing.overdueTickets,
+          overdueAmount: standing.overdueAmount,
+        },
+      ];
+      if (standing.onHold) {
+        throw new ValidationError(
+          `Customer is on credit hold with ${standing.overdueTickets} overdue ticket(s) ` +
+            `totalling ${standing.overdueAmount}. An owner override is required`,
+          details,
+          "CREDIT_HOLD"
+        );
+      }
+      throw new ValidationError(
+        `Credit limit of ${standing.creditLimit} exceeded: ${standing.outstanding} outstanding ` +
+          `plus ${newCredit} on this ticket. An owner override is required`,
+        details,
+        "CREDIT_LIMIT_EXCEEDED"
+      );
+    }
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can override credit limits and holds");
+    }
+
+    return true;
+  }
+
+  // Link a sale to a customer record. A phone number that is not on file
+  // creates a new customer; the ticket keeps a copy of the details.
+  async resolveCustomer(
+    shopId: string,
+    input: Pick<CreateTicketInput, "customerId" | "customerName" | "customerPhone" | "customerAddress">,
+    userId: string
+  ): Promise<{
+    customer?: ICustomer;
+    customerId?: Types.ObjectId;
+    customerName?: string;
+    customerPhone?: string;
+    customerAddress?: string;
+  }> {
+    const { customerName, customerPhone, customerAddress } = input;
+
+    let customer: ICustomer | null = null;
+    if (input.customerId) {
+      customer = await this.customerRepository.findById(input.customerId);
+      if (!customer) {
+        throw new NotFoundError("Customer not found");
+      }
+      if (customer.shopId.toString() !== shopId) {
+        throw new AuthorizationError("Customer does not belong to this shop");
+      }
+    } else if (customerPhone) {
+      customer = await this.customerRepository.findByPhone(shopId, customerPhone);
+      if (!customer && customerName) {
+        try {
+          customer = await this.customerRepository.create({
+            shopId: new Types.ObjectId(shopId),
+            name: customerName,
+            phone: customerPhone,
+            address: customerAddress,
+            createdBy: new Types.ObjectId(userId),
+          });
+        } catch (error: any) {
+          // Another sale created the customer at the same time
+          if (error?.code !== 11000) throw error;
+          customer = await this.customerRepository.findByPhone(shopId, customerPhone);
+        }
+      }
+    }
+
+    if (!customer) {
+      return { customerName, customerPhone, customerAddress };
+    }
+
+    return {
+      customer,
+      customerId: customer._id,
+      customerName: customer.name,
+      customerPhone: input.customerId ? customer.phone : customerPhone,
+      customerAddress: customerAddress || customer.address,
+    };
+  }
+
+  private getDefaultDueDate(): Date {
+    const date = new Date();
+    date.setDate(date.getDate() + 30);
+    return date;
+  }
+
+  // Resolve the tenders for a sale. Without explicit tenders the whole
+  // total is paid with the single payment method.
+  private resolveTenders(
+    totalAmount: number,
+    tenders?: TenderInput[],
+    paymentMethod?: TenderInput["type"],
+    transactionReference?: string
+  ): ITicketTender[] {
+    if (!tenders || tenders.length === 0) {
+      return [{ type: paymentMethod!, amount: totalAmount, reference: transactionReference }];
+    }
+
+    for (const tender of tenders) {
+      if (tender.amount <= 0) {
+        throw new ValidationError("Tender amounts must be greater than 0");
+      }
+    }
+
+    const tenderTotal = roundCurrency(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+    if (tenderTotal !== roundCurrency(totalAmount)) {
+      throw new ValidationError(
+        `Tenders total (${tenderTotal}) must equal the ticket total (${roundCurrency(totalAmount)})`
+      );
+    }
+
+    return tenders.map(({ type, amount, reference }) => ({ type, amount, reference }));
+  }
+
+  // Change owed when the customer hands over more cash than the cash tenders
+  private getChangeDue(tenders: ITicketTender[], cashReceived?: number): number {
+    if (cashReceived === undefined || cashReceived === null) return 0;
+
+    const cashDue = roundCurrency(
+      tenders.filter((tender) => tender.type === "cash").reduce((sum, t) => sum + t.amount, 0)
+    );
+    if (cashDue <= 0) {
+      throw new ValidationError("Cash received can only be recorded for sales paid in cash");
+    }
+    if (cashReceived < cashDue) {
+      throw new ValidationError(
+        `Cash received (${cashReceived}) cannot be less than the cash due (${cashDue})`
+      );
+    }
+
+    return roundCurrency(cashReceived - cashDue);
+  }
+
+  // Price items exactly as a sale would. Quotes skip the stock check, since
+  // availability is only checked when the quote is converted.
+  async priceItems(
+    shopId: string,
+    items: CreateTicketInput["items"],
+    checkStock = false
+  ): Promise<{
+    ticketItems: ITicketItem[];
+    subtotal: number;
+    taxAmount: number;
+    totalProfit: number;
+    totalItemCount: number;
+    taxInclusive: boolean;
+    promotionDiscount: number;
+  }> {
+    const settings = await this.shopRepository.getSettings(shopId);
+    const tax = resolveTaxSettings(settings?.tax);
+    const { ticketItems, subtotal, taxAmount, totalProfit, totalItemCount, promotionDiscount } =
+      await this.buildTicketItems(shopId, items, tax, checkStock);
+
+    return {
+      ticketItems,
+      subtotal: roundCurrency(subtotal),
+      taxAmount,
+      totalProfit: roundCurrency(totalProfit),
+      totalItemCount,
+      taxInclusive: tax.enabled && tax.pricesIncludeTax,
+      promotionDiscount,
+    };
+  }
+
+  // Price the requested items against inventory, apply the shop's running
+  // promotions and build the ticket lines
+  private async buildTicketItems(
+    shopId: string,
+    items: CreateTicketInput["items"],
+    tax: ITaxSettings,
+    checkStock = true
+  ): Promise<{
+    ticketItems: ITicketItem[];
+    inventoryUpdates: Array<{ itemId: string; quantity: number; name: string }>;
+    subtotal: number;
+    taxAmount: number;
+    totalProfit: number;
+    totalItemCount: number;
+    promotionDiscount: number;
+  }> {
     const ticketItems: ITicketItem[] = [];
     const inventoryUpdates: Array<{
       itemId: string;
       quantity: number;
       name: string;
     }> = [];
+    const pricedItems: Array<{
+      itemId: string;
+      quantity: number;
+      discount: number;
+      sellingPrice: number;
+      inventoryItem: IInventoryItem;
+    }> = [];
 
     let subtotal = 0;
+    let taxAmount = 0;
     let totalProfit = 0;
     let totalItemCount = 0;
+    let promotionDiscount = 0;
+
+    // Stock soft-reserved by parked tickets is not available to this sale
+    const reserved = checkStock
+      ? await this.draftTicketRepository.getReservedQuantities(
+          shopId,
+          items.map((item) => item.itemId)
+        )
+      : new Map<string, number>();
 
     for (const inputItem of items) {
       const { itemId, quantity, discount = 0, sellingPrice: customSellingPrice } = inputItem;
@@ -123,9 +564,12 @@ export class TicketService {
       }
 
       // Check stock availability
-      if (quantity > inventoryItem.availableQuantity) {
+      const reservedQuantity = reserved.get(itemId) || 0;
+      const availableQuantity = inventoryItem.availableQuantity - reservedQuantity;
+      if (checkStock && quantity > availableQuantity) {
         throw new ValidationError(
-          `Insufficient stock for ${inventoryItem.name}. Requested: ${quantity}, Available: ${inventoryItem.availableQuantity}`
+          `Insufficient stock for ${inventoryItem.name}. Requested: ${quantity}, Available: ${Math.max(availableQuantity, 0)}` +
+            (reservedQuantity > 0 ? ` (${reservedQuantity} held on parked tickets)` : "")
         );
       }
 
@@ -139,11 +583,38 @@ export class TicketService {
         throw new ValidationError(`Selling price must be a positive number for item ${itemId}`);
       }
 
-      // Calculate line item totals
-      const lineSubtotal = quantity * sellingPrice;
-      const discountAmount = (lineSubtotal * discount) / 100;
-      const lineTotal = lineSubtotal - discountAmount;
-      const lineProfit = quantity * (sellingPrice - inventoryItem.costPrice) - discountAmount;
+      pricedItems.push({ itemId, quantity, discount, sellingPrice, inventoryItem });
+    }
+
+    // Evaluate promotions against the whole ticket
+    const promotions = await this.promotionRepository.findActive(shopId);
+    const appliedPromotions = applyPromotions(
+      pricedItems.map(({ itemId, quantity, discount, sellingPrice, inventoryItem }) => ({
+        itemId,
+        category: inventoryItem.category,
+        quantity,
+        sellingPrice,
+        discount,
+      })),
+      promotions
+    );
+
+    pricedItems.forEach(({ itemId, quantity, discount, sellingPrice, inventoryItem }, index) => {
+      const applied = appliedPromotions[index];
+
+      // Calculate line item totals and tax
+      const taxRate = getTaxRateForItem(tax, inventoryItem);
+      const amounts = calculateSaleAmounts({
+        quantity,
+        costPrice: inventoryItem.costPrice,
+        sellingPrice,
+        discount,
+        promotionDiscount: applied.amount,
+        taxRate,
+        pricesIncludeTax: tax.pricesIncludeTax,
+      });
+      const lineTotal = amounts.netAmount;
+      const lineProfit = amounts.profitAmount;
 
       ticketItems.push({
         itemId: new Types.ObjectId(itemId),
@@ -155,6 +626,13 @@ export class TicketService {
         discount,
         lineTotal,
         lineProfit,
+        taxRate,
+        taxAmount: amounts.taxAmount,
+        quantityReturned: 0,
+        refundedAmount: 0,
+        taxRefunded: 0,
+        promotions: applied.promotions,
+        promotionDiscount: applied.amount,
       });
 
       inventoryUpdates.push({
@@ -164,88 +642,21 @@ export class TicketService {
       });
 
       subtotal += lineTotal;
+      taxAmount += amounts.taxAmount;
       totalProfit += lineProfit;
       totalItemCount += quantity;
-    }
-
-    // Calculate tax (if applicable)
-    const taxAmount = 0; // Add tax logic if needed
-    const totalAmount = subtotal + taxAmount;
-
-    // Reduce stock for all items
-    try {
-      for (const update of inventoryUpdates) {
-        await this.inventoryRepository.reduceStock(
-          update.itemId,
-          update.quantity,
-          soldBy,
-          staff.staffName
-        );
-      }
-    } catch (error) {
-      throw new InternalServerError("Failed to update inventory. Please try again.");
-    }
-
-    // Create ticket
-    let ticket;
-    try {
-      ticket = await this.ticketRepository.create({
-        shopId: new Types.ObjectId(shopId),
-        items: ticketItems,
-        subtotal,
-        taxAmount,
-        totalAmount,
-        totalProfit,
-        totalItemCount,
-        soldBy: new Types.ObjectId(soldBy),
-        soldByName: staff.staffName,
-        paymentMethod,
-        transactionReference,
-        customerName,
-        customerPhone,
-        customerAddress,
-        notes,
-        date: new Date(),
-        refunded: false,
-        isCredit,
-        creditStatus: isCredit ? "pending" : "paid",
-        amountPaid: isCredit ? 0 : totalAmount,
-        amountOwed: isCredit ? totalAmount : 0,
-        dueDate: isCredit ? (dueDate || this.getDefaultDueDate()) : undefined,
-        payments: [],
-      });
-
-      await logSalesAuditEvent({
-        requestId,
-        action: isCredit ? "CREDIT_TICKET_CREATED" : "TICKET_CREATED",
-        shopId,
-        performedBy: { userId, role: userRole },
-        saleId: ticket._id.toString(),
-        ip,
-        details: {
-          ticketNumber: ticket.ticketNumber,
-          itemCount: ticketItems.length,
-          totalAmount,
-          paymentMethod,
-          isCredit,
-          customerName: isCredit ? customerName : undefined,
-        },
-      });
-
-      return ticket;
-    } catch (error) {
-      // Rollback inventory updates
-      for (const update of inventoryUpdates) {
-        await this.inventoryRepository.restoreStock(update.itemId, update.quantity);
-      }
-      throw error;
-    }
-  }
+      promotionDiscount += applied.amount;
+    });
 
-  private getDefaultDueDate(): Date {
-    const date = new Date();
-    date.setDate(date.getDate() + 30);
-    return date;
+    return {
+      ticketItems,
+      inventoryUpdates,
+      subtotal,
+      taxAmount: roundCurrency(taxAmount),
+      totalProfit,
+      totalItemCount,
+      promotionDiscount: roundCurrency(promotionDiscount),
+    };
   }
 
   // Get ticket list (summary view)
@@ -325,6 +736,56 @@ export class TicketService {
     return ticket;
   }
 
+  // Render a ticket's receipt. Paper width defaults to the shop's receipt settings.
+  async getReceipt(
+    ticketId: string,
+    shopId: string,
+    options: { format: ReceiptFormat; paperWidth?: ReceiptPaperWidth },
+    metadata: RequestMetadata
+  ): Promise<{ ticketNumber: string; content: string | Buffer }> {
+    const { requestId, userId, userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const ticket = await this.ticketRepository.findById(ticketId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    if (ticket.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Ticket does not belong to this shop");
+    }
+
+    const shop = await this.shopRepository.getReceiptProfile(shopId);
+    if (!shop) {
+      throw new NotFoundError("Shop not found");
+    }
+
+    const receiptSettings = shop.settings?.receipt;
+    const paperWidth = options.paperWidth || receiptSettings?.paperWidth || "80mm";
+    const data = buildReceiptData(ticket, shop, receiptSettings?.footer);
+
+    let content: string | Buffer;
+    if (options.format === "escpos") {
+      content = renderReceiptEscPos(data, paperWidth);
+    } else if (options.format === "text") {
+      content = renderReceiptText(data, paperWidth);
+    } else {
+      content = renderReceiptHtml(data, paperWidth);
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "RECEIPT_PRINTED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      saleId: ticketId,
+      details: { format: options.format, paperWidth },
+    });
+
+    return { ticketNumber: ticket.ticketNumber, content };
+  }
+
   // Update ticket
   async updateTicket(
     ticketId: string,
@@ -409,6 +870,10 @@ export class TicketService {
       throw new ValidationError("Ticket has already been refunded");
     }
 
+    if (ticket.creditStatus === "written_off") {
+      throw new ValidationError("Cannot refund a ticket that has been written off");
+    }
+
     const daysSinceTicket = Math.floor(
       (Date.now() - ticket.date.getTime()) / (1000 * 60 * 60 * 24)
     );
@@ -416,20 +881,33 @@ export class TicketService {
       throw new ValidationError("Refund period has expired (30 days maximum)");
     }
 
-    const refundedTicket = await this.ticketRepository.refund(ticketId, refundedBy, reason);
-
-    if (!refundedTicket) {
-      throw new NotFoundError("Ticket not found during refund");
-    }
-
-    // Restore stock for all items
-    for (const item of ticket.items) {
-      await this.inventoryRepository.restoreStock(
-        item.itemId.toString(),
-        item.quantitySold,
-        refundedBy,
-        refundingStaff.staffName
-      );
+    // Mark the ticket refunded and restore its stock in a single transaction
+    // so a failure on any item leaves both untouched
+    const session = await mongoose.startSession();
+    let refundedTicket!: ITicket;
+    try {
+      await session.withTransaction(async () => {
+        const refunded = await this.ticketRepository.refund(ticketId, refundedBy, reason, session);
+        if (!refunded) {
+          throw new ConflictError("Ticket has already been refunded");
+        }
+        refundedTicket = refunded;
+
+        // Restore stock for all items not already returned
+        for (const item of refunded.items) {
+          const remaining = item.quantitySold - (item.quantityReturned || 0);
+          if (remaining <= 0) continue;
+          await this.inventoryRepository.restoreStock(
+            item.itemId.toString(),
+            remaining,
+            refundedBy,
+            refundingStaff.staffName,
+            { session, referenceId: refunded._id as Types.ObjectId, reason: "Ticket refund" }
+          );
+        }
+      });
+    } finally {
+      await session.endSession();
     }
 
     await logSalesAuditEvent({
@@ -451,6 +929,506 @@ export class TicketService {
     return refundedTicket;
   }
 
+  // Check a ticket can still take returns
+  private assertReturnable(ticket: ITicket | null, shopId: string): ITicket {
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    if (ticket.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Ticket does not belong to this shop");
+    }
+
+    if (ticket.refunded) {
+      throw new ValidationError("Ticket has already been refunded");
+    }
+
+    if (ticket.creditStatus === "written_off") {
+      throw new ValidationError("Cannot return items from a ticket that has been written off");
+    }
+
+    const daysSinceTicket = Math.floor(
+      (Date.now() - ticket.date.getTime()) / (1000 * 60 * 60 * 24)
+    );
+    if (daysSinceTicket > 30) {
+      throw new ValidationError("Return period has expired (30 days maximum)");
+    }
+
+    return ticket;
+  }
+
+  // Work out the lines, amounts and balances affected by returning items from a ticket
+  private calculateReturn(
+    ticket: ITicket,
+    items: Array<{ itemId: string; quantity: number }>
+  ): TicketReturnCalculation {
+    // Merge repeated entries for the same item
+    const requested = new Map<string, number>();
+    for (const { itemId, quantity } of items) {
+      requested.set(itemId, (requested.get(itemId) || 0) + quantity);
+    }
+
+    // Allocate each requested quantity across the ticket lines for that item
+    const lines: TicketReturnLine[] = [];
+    const returnItems: ITicketReturnItem[] = [];
+
+    for (const [itemId, quantity] of requested) {
+      let outstanding = quantity;
+      let itemName = "";
+      let refundAmount = 0;
+      let taxRefunded = 0;
+      let profitReversed = 0;
+
+      ticket.items.forEach((line, index) => {
+        if (outstanding <= 0 || line.itemId.toString() !== itemId) return;
+        const returnable = line.quantitySold - (line.quantityReturned || 0);
+        if (returnable <= 0) return;
+
+        const take = Math.min(returnable, outstanding);
+        const amounts = calculateReturnAmounts(line, take);
+        lines.push({ index, quantity: take, ...amounts });
+
+        itemName = line.itemName;
+        refundAmount += amounts.refundAmount;
+        taxRefunded += amounts.taxRefunded;
+        profitReversed += amounts.profitReversed;
+        outstanding -= take;
+      });
+
+      if (!itemName) {
+        throw new ValidationError(`Item ${itemId} has no returnable quantity on this ticket`);
+      }
+      if (outstanding > 0) {
+        throw new ValidationError(
+          `Cannot return ${quantity} of ${itemName}. Returnable: ${quantity - outstanding}`
+        );
+      }
+
+      returnItems.push({
+        itemId: new Types.ObjectId(itemId),
+        itemName,
+        quantity,
+        refundAmount: roundCurrency(refundAmount),
+        taxRefunded: roundCurrency(taxRefunded),
+        profitReversed: roundCurrency(profitReversed),
+      });
+    }
+
+    const refundAmount = roundCurrency(
+      returnItems.reduce((sum, item) => sum + item.refundAmount, 0)
+    );
+
+    // On credit tickets the refund first clears what is still owed;
+    // only the remainder is paid back to the customer
+    const appliedToBalance = ticket.isCredit
+      ? roundCurrency(Math.min(refundAmount, ticket.amountOwed))
+      : 0;
+    const amountOwed = roundCurrency(ticket.amountOwed - appliedToBalance);
+    const amountPaid = roundCurrency(
+      Math.max(0, ticket.amountPaid - (refundAmount - appliedToBalance))
+    );
+
+    const fullyReturned = ticket.items.every((line, index) => {
+      const returned = lines
+        .filter((entry) => entry.index === index)
+        .reduce((sum, entry) => sum + entry.quantity, line.quantityReturned || 0);
+      return returned >= line.quantitySold;
+    });
+
+    return {
+      lines,
+      returnItems,
+      refundAmount,
+      appliedToBalance,
+      amountPaid,
+      amountOwed,
+      fullyReturned,
+    };
+  }
+
+  // Restore returned stock and record the return on the ticket (inside a transaction)
+  private async applyReturn(
+    ticket: ITicket,
+    calculation: TicketReturnCalculation,
+    ticketReturn: ITicketReturn,
+    session: ClientSession
+  ): Promise<ITicket> {
+    const { lines, returnItems, amountPaid, amountOwed, fullyReturned } = calculation;
+    const ticketId = ticket._id as Types.ObjectId;
+
+    for (const item of returnItems) {
+      await this.inventoryRepository.restoreStock(
+        item.itemId.toString(),
+        item.quantity,
+        ticketReturn.processedBy.toString(),
+        ticketReturn.processedByName,
+        { session, referenceId: ticketId, reason: "Sale return" }
+      );
+    }
+
+    const result = await this.ticketRepository.recordReturn(
+      ticketId.toString(),
+      ticketReturn,
+      lines,
+      {
+        amountPaid,
+        amountOwed,
+        creditStatus: ticket.isCredit ? getCreditStatus(amountPaid, amountOwed) : "paid",
+        fullyReturned,
+      },
+      session
+    );
+
+    if (!result) {
+      throw new NotFoundError("Ticket not found during return");
+    }
+    return result;
+  }
+
+  // Return selected lines/quantities of a ticket (partial refund)
+  async returnTicketItems(
+    input: CreateTicketReturnInput,
+    metadata: RequestMetadata
+  ): Promise<{ ticket: ITicket; ticketReturn: ITicketReturn }> {
+    const { ticketId, shopId, items, refundMethod, reason, processedBy } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can process returns");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    if (!items || items.length === 0) {
+      throw new ValidationError("Return must contain at least one item");
+    }
+
+    const staff = await this.staffRepository.findById(processedBy);
+    if (!staff) {
+      throw new NotFoundError("Staff member not found");
+    }
+    if (staff.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Staff member does not belong to this shop");
+    }
+
+    const session = await mongoose.startSession();
+    let updatedTicket!: ITicket;
+    let ticketReturn!: ITicketReturn;
+    let previousAmountOwed = 0;
+    try {
+      await session.withTransaction(async () => {
+        const ticket = this.assertReturnable(
+          await this.ticketRepository.findById(ticketId, session),
+          shopId
+        );
+        const calculation = this.calculateReturn(ticket, items);
+        previousAmountOwed = ticket.amountOwed;
+
+        ticketReturn = {
+          items: calculation.returnItems,
+          refundAmount: calculation.refundAmount,
+          refundMethod,
+          appliedToBalance: calculation.appliedToBalance,
+          reason,
+          processedBy: new Types.ObjectId(processedBy),
+          processedByName: staff.staffName,
+          date: new Date(),
+        };
+
+        updatedTicket = await this.applyReturn(ticket, calculation, ticketReturn, session);
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "TICKET_ITEMS_RETURNED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      saleId: ticketId,
+      ip,
+      details: {
+        ticketNumber: updatedTicket.ticketNumber,
+        items: ticketReturn.items.map((item) => ({
+          itemId: item.itemId.toString(),
+          quantity: item.quantity,
+        })),
+        refundAmount: ticketReturn.refundAmount,
+        refundMethod,
+        appliedToBalance: ticketReturn.appliedToBalance,
+        previousAmountOwed,
+        fullyReturned: updatedTicket.refunded,
+        reason,
+      },
+    });
+
+    return { ticket: updatedTicket, ticketReturn };
+  }
+
+  // Exchange returned lines of a ticket for new items in one step
+  async exchangeTicketItems(
+    input: CreateTicketExchangeInput,
+    metadata: RequestMetadata
+  ): Promise<TicketExchangeResult> {
+    const {
+      ticketId,
+      shopId,
+      returnItems,
+      newItems,
+      paymentMethod,
+      refundMethod = "cash",
+      reason,
+      processedBy,
+      creditOverride = false,
+      dueDate,
+      notes,
+      transactionReference,
+    } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can process exchanges");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    if (!returnItems || returnItems.length === 0) {
+      throw new ValidationError("Exchange must return at least one item");
+    }
+    if (!newItems || newItems.length === 0) {
+      throw new ValidationError("Exchange must include at least one new item");
+    }
+
+    const staff = await this.staffRepository.findById(processedBy);
+    if (!staff) {
+      throw new NotFoundError("Staff member not found");
+    }
+    if (staff.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Staff member does not belong to this shop");
+    }
+
+    // The exchange ticket is sold to the same customer as the original
+    const original = this.assertReturnable(await this.ticketRepository.findById(ticketId), shopId);
+    const { customerId, customerName, customerPhone, customerAddress } = original;
+
+    const isCredit = paymentMethod === "credit";
+    if (isCredit && (!customerName || !customerPhone)) {
+      throw new ValidationError(
+        "Customer name and phone number are required for credit sales"
+      );
+    }
+
+    const settings = await this.shopRepository.getSettings(shopId);
+    const tax = resolveTaxSettings(settings?.tax);
+    const {
+      ticketItems,
+      inventoryUpdates,
+      subtotal,
+      taxAmount,
+      totalProfit,
+      totalItemCount,
+      promotionDiscount,
+    } = await this.buildTicketItems(shopId, newItems, tax);
+
+    const totalAmount = roundCurrency(subtotal + taxAmount);
+
+    // Hold back credit the same way as a sale. The customer's balance grows
+    // by the price difference, less what the return settles on the original.
+    let creditStanding: CreditStanding | undefined;
+    let creditOverridden = false;
+    if (isCredit) {
+      const estimate = this.calculateReturn(original, returnItems);
+      const available = roundCurrency(estimate.refundAmount - estimate.appliedToBalance);
+      const newCredit = roundCurrency(
+        Math.max(totalAmount - available, 0) - estimate.appliedToBalance
+      );
+
+      const customer = customerId
+        ? await this.customerRepository.findById(customerId.toString())
+        : null;
+      creditStanding = await this.getCreditStanding(
+        shopId,
+        customer ? [customer.phone, ...customer.alternatePhones] : [customerPhone!],
+        customer?.creditLimit,
+        settings?.credit
+      );
+      creditOverridden = this.checkCreditAllowance(
+        creditStanding,
+        newCredit,
+        creditOverride,
+        userRole
+      );
+    }
+
+    const ticketNumber = await this.ticketRepository.getNextTicketNumber(
+      shopId,
+      resolveTicketNumbering(settings?.ticketNumbering)
+    );
+
+    // Return stock, record the return, sell the new items and create the
+    // linked ticket in a single transaction
+    const newTicketId = new Types.ObjectId();
+    const session = await mongoose.startSession();
+    let originalTicket!: ITicket;
+    let newTicket!: ITicket;
+    let ticketReturn!: ITicketReturn;
+    let amountDue = 0;
+    let changeDue = 0;
+    try {
+      await session.withTransaction(async () => {
+        const ticket = this.assertReturnable(
+          await this.ticketRepository.findById(ticketId, session),
+          shopId
+        );
+        const calculation = this.calculateReturn(ticket, returnItems);
+
+        // Whatever the returned items are worth after settling any balance
+        // still owed on the original ticket goes towards the new items
+        const available = roundCurrency(calculation.refundAmount - calculation.appliedToBalance);
+        const exchangeAmount = roundCurrency(Math.min(available, totalAmount));
+        amountDue = roundCurrency(totalAmount - exchangeAmount);
+        changeDue = roundCurrency(available - exchangeAmount);
+
+        ticketReturn = {
+          items: calculation.returnItems,
+          refundAmount: calculation.refundAmount,
+          refundMethod,
+          appliedToBalance: calculation.appliedToBalance,
+          exchangeTicketId: newTicketId,
+          exchangeAmount,
+          reason,
+          processedBy: new Types.ObjectId(processedBy),
+          processedByName: staff.staffName,
+          date: new Date(),
+        };
+
+        originalTicket = await this.applyReturn(ticket, calculation, ticketReturn, session);
+
+        for (const update of inventoryUpdates) {
+          await this.inventoryRepository.reduceStock(
+            update.itemId,
+            update.quantity,
+            processedBy,
+            staff.staffName,
+            { session, referenceId: newTicketId }
+          );
+        }
+
+        const amountPaid = isCredit ? exchangeAmount : totalAmount;
+        const amountOwed = isCredit ? amountDue : 0;
+
+        const tenders: ITicketTender[] = [];
+        if (exchangeAmount > 0) {
+          tenders.push({ type: "exchange", amount: exchangeAmount });
+        }
+        if (amountDue > 0) {
+          tenders.push({ type: paymentMethod, amount: amountDue, reference: transactionReference });
+        }
+
+        newTicket = await this.ticketRepository.create(
+          {
+            _id: newTicketId,
+            ticketNumber,
+            shopId: new Types.ObjectId(shopId),
+            items: ticketItems,
+            subtotal,
+            taxAmount,
+            totalAmount,
+            totalProfit,
+            totalItemCount,
+            promotionDiscount,
+            taxInclusive: tax.enabled && tax.pricesIncludeTax,
+            soldBy: new Types.ObjectId(processedBy),
+            soldByName: staff.staffName,
+            paymentMethod,
+            tenders,
+            transactionReference,
+            customerId,
+            customerName,
+            customerPhone,
+            customerAddress,
+            notes,
+            date: new Date(),
+            refunded: false,
+            isCredit,
+            creditStatus: isCredit ? getCreditStatus(amountPaid, amountOwed) : "paid",
+            amountPaid,
+            amountOwed,
+            dueDate: isCredit ? (dueDate || this.getDefaultDueDate()) : undefined,
+            payments: [],
+            exchangedFrom: ticket._id as Types.ObjectId,
+            exchangeCredit: exchangeAmount,
+          },
+          session
+        );
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "TICKET_EXCHANGED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      saleId: ticketId,
+      ip,
+      details: {
+        ticketNumber: originalTicket.ticketNumber,
+        newTicketId: newTicket._id.toString(),
+        newTicketNumber: newTicket.ticketNumber,
+        returnedValue: ticketReturn.refundAmount,
+        appliedToBalance: ticketReturn.appliedToBalance,
+        newTotal: totalAmount,
+        amountDue,
+        changeDue,
+        paymentMethod,
+        refundMethod: changeDue > 0 ? refundMethod : undefined,
+        reason,
+        creditOverride: creditOverridden
+          ? {
+              creditLimit: creditStanding!.creditLimit,
+              outstanding: creditStanding!.outstanding,
+              onHold: creditStanding!.onHold,
+            }
+          : undefined,
+      },
+    });
+
+    return { originalTicket, newTicket, ticketReturn, amountDue, changeDue };
+  }
+
+  // Get the return history of a ticket
+  async getTicketReturns(
+    ticketId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<{ returns: ITicketReturn[]; totalRefunded: number }> {
+    const { requestId, userId, userRole, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    const ticket = await this.ticketRepository.findById(ticketId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    if (ticket.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Ticket does not belong to this shop");
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "TICKET_RETURNS_VIEWED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      saleId: ticketId,
+    });
+
+    return { returns: ticket.returns || [], totalRefunded: ticket.totalRefunded || 0 };
+  }
+
   // Delete ticket
   async deleteTicket(
     ticketId: string,
@@ -474,11 +1452,25 @@ export class TicketService {
       throw new AuthorizationError("Ticket does not belong to this shop");
     }
 
+    // Deleting would restore stock and erase money already recorded against
+    // the ticket; such tickets are written off or returned instead
+    if (ticket.creditStatus === "written_off") {
+      throw new ConflictError("Cannot delete a ticket that has been written off");
+    }
+    if ((ticket.payments || []).length > 0) {
+      throw new ConflictError("Cannot delete a ticket that has payments recorded against it");
+    }
+    if ((ticket.returns || []).length > 0) {
+      throw new ConflictError("Cannot delete a ticket that has returns recorded against it");
+    }
+
     if (!ticket.refunded) {
       for (const item of ticket.items) {
+        const remaining = item.quantitySold - (item.quantityReturned || 0);
+        if (remaining <= 0) continue;
         await this.inventoryRepository.restoreStock(
           item.itemId.toString(),
-          item.quantitySold
+          remaining
         );
       }
     }
@@ -564,6 +1556,10 @@ export class TicketService {
       throw new ValidationError("This credit sale has already been fully paid");
     }
 
+    if (ticket.creditStatus === "written_off") {
+      throw new ValidationError("This credit sale has been written off");
+    }
+
     if (ticket.refunded) {
       throw new ValidationError("Cannot record payment for a refunded ticket");
     }
@@ -596,10 +1592,16 @@ export class TicketService {
       notes,
     };
 
-    const updatedTicket = await this.ticketRepository.recordCreditPayment(ticketId, payment);
+    const updatedTicket = await this.ticketRepository.applyCreditPayment(
+      ticketId,
+      ticket.amountOwed,
+      payment
+    );
 
     if (!updatedTicket) {
-      throw new NotFoundError("Ticket not found during payment recording");
+      throw new ConflictError(
+        "Ticket balance changed while recording the payment. Please try again"
+      );
     }
 
     await logSalesAuditEvent({
@@ -621,6 +1623,87 @@ export class TicketService {
     return updatedTicket;
   }
 
+  // Write off the balance of a credit ticket as bad debt (owner only). The
+  // ticket, its payments and its stock movements are left as they were.
+  async writeOffCreditTicket(
+    ticketId: string,
+    shopId: string,
+    reason: string,
+    metadata: RequestMetadata
+  ): Promise<ITicket> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can write off credit");
+    }
+
+    await this.validateShopAccess(shopId, userShopId, userRole);
+
+    if (!reason || !reason.trim()) {
+      throw new ValidationError("A reason is required to write off credit");
+    }
+
+    const ticket = await this.ticketRepository.findById(ticketId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    if (ticket.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Ticket does not belong to this shop");
+    }
+
+    if (!ticket.isCredit) {
+      throw new ValidationError("This is not a credit sale");
+    }
+
+    if (ticket.refunded) {
+      throw new ValidationError("Cannot write off a refunded ticket");
+    }
+
+    if (ticket.creditStatus === "written_off") {
+      throw new ValidationError("This credit sale has already been written off");
+    }
+
+    if (ticket.creditStatus === "paid" || ticket.amountOwed <= 0) {
+      throw new ValidationError("This credit sale has nothing left to write off");
+    }
+
+    // Payments settle the sale before its late fees, so whatever fees are
+    // still unpaid make up the last of the balance
+    const lateFees = Math.min(getActiveLateFees(ticket), ticket.amountOwed);
+
+    const updatedTicket = await this.ticketRepository.writeOff(ticketId, ticket.amountOwed, {
+      amount: ticket.amountOwed,
+      lateFees,
+      reason: reason.trim(),
+      writtenOffBy: new Types.ObjectId(userId),
+      date: new Date(),
+    });
+
+    if (!updatedTicket) {
+      throw new ConflictError("Ticket balance changed while writing it off. Please try again");
+    }
+
+    await logSalesAuditEvent({
+      requestId,
+      action: "CREDIT_WRITTEN_OFF",
+      shopId,
+      performedBy: { userId, role: userRole },
+      saleId: ticketId,
+      ip,
+      details: {
+        amount: ticket.amountOwed,
+        lateFees,
+        amountPaid: ticket.amountPaid,
+        reason: reason.trim(),
+        customerId: ticket.customerId?.toString(),
+        customerPhone: ticket.customerPhone,
+      },
+    });
+
+    return updatedTicket;
+  }
+
   // Credit sales methods
   async getCreditTickets(
     shopId: string,
@@ -667,6 +1750,26 @@ export class TicketService {
     return overdue;
   }
 
+  // Outstanding credit bucketed by days past the due date
+  async getReceivablesAging(
+    shopId: string,
+    asOf: Date,
+    metadata: RequestMetadata
+  ): Promise<ReceivablesAgingReport> {
+    const { requestId, userId, userRole, userShopId } = metadata;
+    await this.validateShopAccess(shopId, userShopId, userRole);
+    const tickets = await this.ticketRepository.getOpenCreditTickets(shopId);
+    const report = buildAgingReport(tickets, asOf);
+    await logSalesAuditEvent({
+      requestId,
+      action: "RECEIVABLES_AGING_VIEWED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      details: { asOf, totalOwed: report.totals.total },
+    });
+    return report;
+  }
+
   async getCustomerCreditHistory(
     shopId: string,
     customerPhone: string,
@@ -681,7 +1784,9 @@ export class TicketService {
         acc.totalAmount += ticket.totalAmount;
         acc.totalPaid += ticket.amountPaid;
         acc.totalOwed += ticket.amountOwed;
-        if (ticket.creditStatus !== "paid") acc.pendingCount += 1;
+        if (ticket.creditStatus === "pending" || ticket.creditStatus === "partial") {
+          acc.pendingCount += 1;
+        }
         return acc;
       },
       { totalTransactions: 0, totalAmount: 0, totalPaid: 0, totalOwed: 0, pendingCount: 0 }
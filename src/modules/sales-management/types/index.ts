@@ -1,4 +1,4 @@
-import { Document, Types } from "mongoose";
+import { ClientSession, Document, Types } from "mongoose";
 
 export interface ITicketItem {
   itemId: Types.ObjectId;
@@ -8,8 +8,64 @@ export interface ITicketItem {
   costPrice: number;
   sellingPrice: number;
   discount: number;
-  lineTotal: number;
+  lineTotal: number; // After discount, before tax
   lineProfit: number;
+  taxRate: number; // Percent applied to this line (0 when exempt)
+  taxAmount: number;
+  quantityReturned: number; // Units brought back through returns
+  refundedAmount: number; // Portion of lineTotal refunded through returns
+  taxRefunded: number; // Portion of taxAmount refunded through returns
+  promotions: ITicketLinePromotion[]; // Promotions that reduced this line
+  promotionDiscount: number; // Total taken off the line by promotions
+}
+
+// A promotion applied to a ticket line. Ticket-level promotions are spread
+// across all lines in proportion to their value.
+export interface ITicketLinePromotion {
+  promotionId: Types.ObjectId;
+  name: string;
+  type: PromotionType;
+  amount: number; // Taken off the line price
+}
+
+// How part of a ticket was paid. "exchange" tenders are only created by exchanges
+export type TenderType = "cash" | "transfer" | "credit" | "exchange";
+
+export interface ITicketTender {
+  type: TenderType;
+  amount: number;
+  reference?: string; // Transfer reference, POS slip number, etc.
+}
+
+export interface TenderInput {
+  type: Exclude<TenderType, "exchange">;
+  amount: number;
+  reference?: string;
+}
+
+// A single line of a return
+export interface ITicketReturnItem {
+  itemId: Types.ObjectId;
+  itemName: string;
+  quantity: number;
+  refundAmount: number; // Including tax
+  taxRefunded: number;
+  profitReversed: number;
+}
+
+// A partial refund of one or more lines of a ticket
+export interface ITicketReturn {
+  _id?: Types.ObjectId;
+  items: ITicketReturnItem[];
+  refundAmount: number;
+  refundMethod: "cash" | "transfer";
+  appliedToBalance: number; // Portion that reduced an outstanding credit balance
+  exchangeTicketId?: Types.ObjectId; // Ticket rung up in exchange for the returned items
+  exchangeAmount?: number; // Portion carried over to the exchange ticket
+  reason: string;
+  processedBy: Types.ObjectId;
+  processedByName: string;
+  date: Date;
 }
 
 // Main ticket interface
@@ -21,31 +77,41 @@ export interface ITicket extends Document {
   // Items sold in this ticket
   items: ITicketItem[];
   
-  // Totals
+  // Totals (net of returns)
   subtotal: number; // Sum of all line totals before tax
   taxAmount: number;
   totalAmount: number; // Final amount after tax
   totalProfit: number; // Sum of all line profits
   totalItemCount: number; // Total quantity of all items
+  totalRefunded: number; // Amount refunded through returns
+  promotionDiscount: number; // Taken off by promotions when sold
+  taxInclusive: boolean; // Item prices already included tax when sold
   
   // Staff and payment info
   soldBy: Types.ObjectId;
   soldByName: string;
-  paymentMethod: "cash" | "transfer" | "credit";
+  paymentMethod: "cash" | "transfer" | "credit" | "mixed"; // "mixed" when tenders differ in type
+  tenders: ITicketTender[];
+  cashReceived?: number; // Cash handed over by the customer
+  changeGiven: number; // Cash handed back
   transactionReference?: string;
   
-  // Customer info (required for credit sales)
+  // Customer info (required for credit sales). The name, phone and address
+  // are a copy of the customer's details at the time of the sale.
+  customerId?: Types.ObjectId;
   customerName?: string;
   customerPhone?: string;
   customerAddress?: string;
   
   // Credit sale fields
   isCredit: boolean;
-  creditStatus: "pending" | "partial" | "paid";
+  creditStatus: "pending" | "partial" | "paid" | "written_off";
   amountPaid: number;
   amountOwed: number;
   dueDate?: Date;
   payments: ICreditPayment[];
+  writeOff?: ITicketWriteOff; // Balance given up on as bad debt
+  charges: ITicketCharge[]; // Late fees added to the balance
   
   // Metadata
   notes?: string;
@@ -54,6 +120,14 @@ export interface ITicket extends Document {
   refundedAt?: Date;
   refundedBy?: Types.ObjectId;
   refundReason?: string;
+  returns: ITicketReturn[];
+
+  // Exchange info (set on tickets created by an exchange)
+  exchangedFrom?: Types.ObjectId; // Original ticket the items were returned from
+  exchangeCredit?: number; // Value of returned items applied to this ticket
+
+  // Layaway this ticket completed (goods released on the final payment)
+  layawayId?: Types.ObjectId;
   
   createdAt: Date;
   updatedAt: Date;
@@ -67,6 +141,40 @@ export interface ICreditPayment {
   receivedByName: string;
   transactionReference?: string;
   notes?: string;
+  customerPaymentId?: Types.ObjectId; // Set when part of a payment across several tickets
+}
+
+// A credit balance written off as bad debt. The sale and its stock
+// movements stay as they were.
+export interface ITicketWriteOff {
+  amount: number;
+  lateFees?: number; // Part of the amount that was unpaid late fees, not sale revenue
+  reason: string;
+  writtenOffBy: Types.ObjectId;
+  date: Date;
+}
+
+// A late fee added to an overdue credit balance. Fees are kept as
+// separate entries so the owner can see and waive each one.
+export interface ITicketCharge {
+  _id?: Types.ObjectId;
+  type: "late_fee";
+  period: number; // Overdue period the fee is for, counting from 1
+  amount: number;
+  basis: number; // Balance the fee was worked out on
+  appliedAt: Date;
+  waived: boolean;
+  waivedAt?: Date;
+  waivedBy?: Types.ObjectId;
+  waiveReason?: string;
+}
+
+// Late fees applied to a shop's overdue tickets in one run
+export interface LateFeeRunResult {
+  shopId: string;
+  ticketsCharged: number;
+  totalCharged: number;
+  tickets: Array<{ ticketId: string; ticketNumber: string; amount: number; periods: number[] }>;
 }
 
 // Input for creating a ticket
@@ -79,7 +187,11 @@ export interface CreateTicketInput {
     sellingPrice?: number; // Optional custom selling price (overrides inventory selling price)
   }>;
   soldBy: string;
-  paymentMethod: "cash" | "transfer" | "credit";
+  paymentMethod?: "cash" | "transfer" | "credit"; // Single-tender shorthand when tenders are omitted
+  tenders?: TenderInput[];
+  cashReceived?: number; // Cash handed over, when more than the cash due
+  creditOverride?: boolean; // Owner approval to exceed the customer's credit limit or hold
+  customerId?: string; // Takes precedence over the customer name and phone
   customerName?: string;
   customerPhone?: string;
   customerAddress?: string;
@@ -96,8 +208,9 @@ export interface TicketQueryOptions {
   paymentMethod?: string;
   includeRefunded?: boolean;
   isCredit?: boolean;
-  creditStatus?: "pending" | "partial" | "paid";
+  creditStatus?: "pending" | "partial" | "paid" | "written_off";
   customerPhone?: string;
+  customerId?: string;
   page?: number;
   limit?: number;
   sortBy?: string;
@@ -114,8 +227,9 @@ export interface ITicketSummary {
   paymentMethod: string;
   date: Date;
   isCredit: boolean;
-  creditStatus?: "pending" | "partial" | "paid";
+  creditStatus?: "pending" | "partial" | "paid" | "written_off";
   amountOwed?: number;
+  totalRefunded?: number;
   refunded: boolean;
 }
 
@@ -123,6 +237,8 @@ export interface ITicketSummary {
 export interface TicketAnalytics {
   totalRevenue: number;
   totalProfit: number;
+  totalTax: number;
+  totalPromotionCost: number;
   totalItemsSold: number;
   totalTickets: number;
   averageTicketValue: number;
@@ -138,6 +254,7 @@ export interface TicketAnalytics {
     count: number;
     amount: number;
   }>;
+  salesByTender: TenderBreakdown[];
   salesByStaff: Array<{
     staffId: string;
     staffName: string;
@@ -155,6 +272,13 @@ export interface TicketAnalytics {
   refundedCount?: number;
 }
 
+// Revenue attributed to one tender type
+export interface TenderBreakdown {
+  type: TenderType;
+  count: number; // Tickets with at least one tender of this type
+  amount: number;
+}
+
 export interface RequestMetadata {
   ip: string;
   requestId: string;
@@ -173,15 +297,793 @@ export interface RecordCreditPaymentInput {
   notes?: string;
 }
 
+// A payment against a customer's account, spread over their open credit tickets
+export interface RecordCustomerPaymentInput {
+  customerId: string;
+  shopId: string;
+  amount: number;
+  paymentMethod: "cash" | "transfer";
+  receivedBy: string;
+  ticketIds?: string[]; // Settle these tickets, in this order, instead of oldest first
+  transactionReference?: string;
+  notes?: string;
+}
+
 export interface RefundTicketInput {
   reason: string;
   refundedBy: string;
 }
 
+export interface CreateTicketReturnInput {
+  ticketId: string;
+  shopId: string;
+  items: Array<{
+    itemId: string;
+    quantity: number;
+  }>;
+  refundMethod: "cash" | "transfer";
+  reason: string;
+  processedBy: string;
+}
+
+export interface CreateTicketExchangeInput {
+  ticketId: string;
+  shopId: string;
+  returnItems: Array<{
+    itemId: string;
+    quantity: number;
+  }>;
+  newItems: CreateTicketInput["items"];
+  paymentMethod: "cash" | "transfer" | "credit"; // How any price difference is paid
+  refundMethod?: "cash" | "transfer"; // How any change is given back
+  reason: string;
+  processedBy: string;
+  creditOverride?: boolean; // Owner approval to exceed the customer's credit limit or hold
+  dueDate?: Date;
+  notes?: string;
+  transactionReference?: string;
+}
+
+export interface TicketExchangeResult {
+  originalTicket: ITicket;
+  newTicket: ITicket;
+  ticketReturn: ITicketReturn;
+  amountDue: number; // Price difference paid by the customer
+  changeDue: number; // Price difference given back to the customer
+}
+
+// Quantity and amounts returned from one ticket line
+export interface TicketReturnLine {
+  index: number;
+  quantity: number;
+  refundAmount: number;
+  netAmount: number;
+  taxRefunded: number;
+  profitReversed: number;
+  promotionReversed: number;
+}
+
+// Lines, amounts and balances affected by a return
+export interface TicketReturnCalculation {
+  lines: TicketReturnLine[];
+  returnItems: ITicketReturnItem[];
+  refundAmount: number;
+  appliedToBalance: number;
+  amountPaid: number;
+  amountOwed: number;
+  fullyReturned: boolean;
+}
+
 export interface UpdateTicketInput {
   customerName?: string;
   customerPhone?: string;
   customerAddress?: string;
   dueDate?: Date;
   notes?: string;
-}
\ No newline at end of file
+}
+
+// Options for stock operations performed as part of a ticket
+export interface StockOperationOptions {
+  session?: ClientSession;
+  referenceId?: Types.ObjectId; // Ticket or layaway that caused the movement
+  reason?: string;
+}
+
+// Promotions
+export type PromotionType =
+  | "buy_x_get_y" // Every buyQuantity units, getQuantity more are free
+  | "fixed_amount" // amountOff taken off each unit
+  | "category_percent" // percentOff on every item in the categories
+  | "happy_hour" // percentOff within a daily time window
+  | "ticket_threshold"; // percentOff or amountOff the ticket once minSpend is reached
+
+export interface IPromotion extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  isActive: boolean;
+
+  // Items the promotion applies to (all items when both are empty)
+  itemIds: Types.ObjectId[];
+  categories: string[];
+
+  // Rule parameters, depending on the type
+  percentOff?: number;
+  amountOff?: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  minSpend?: number;
+
+  // Validity period and daily schedule
+  startDate?: Date;
+  endDate?: Date;
+  daysOfWeek: number[]; // 0 (Sunday) to 6; every day when empty
+  startTime?: string; // "HH:mm"
+  endTime?: string; // "HH:mm"
+
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePromotionInput {
+  shopId: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  isActive?: boolean;
+  itemIds?: string[];
+  categories?: string[];
+  percentOff?: number;
+  amountOff?: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  minSpend?: number;
+  startDate?: Date;
+  endDate?: Date;
+  daysOfWeek?: number[];
+  startTime?: string;
+  endTime?: string;
+}
+
+export type UpdatePromotionInput = Partial<Omit<CreatePromotionInput, "shopId" | "type">>;
+
+export interface PromotionQueryOptions {
+  type?: PromotionType;
+  isActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+// Parked (draft) tickets
+export type DraftTicketStatus = "open" | "converted" | "cancelled";
+
+export interface IDraftTicketItem {
+  itemId: Types.ObjectId;
+  itemName: string;
+  quantity: number;
+  discount?: number;
+  sellingPrice?: number; // Custom selling price, as on CreateTicketInput
+}
+
+export interface IDraftTicket extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  label?: string; // Helps staff find the sale again, e.g. "Lady in red, table 2"
+  items: IDraftTicketItem[];
+  customerId?: Types.ObjectId;
+  customerName?: string;
+  customerPhone?: string;
+  customerAddress?: string;
+  notes?: string;
+  status: DraftTicketStatus;
+
+  // Soft reservation: while reservedUntil is in the future the quantities
+  // are held back from other sales. Stock itself is never reduced.
+  reserveStock: boolean;
+  reservedUntil?: Date;
+
+  createdBy: Types.ObjectId;
+  lastUpdatedBy: Types.ObjectId;
+  convertedTicketId?: Types.ObjectId;
+  convertedAt?: Date;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateDraftTicketInput {
+  shopId: string;
+  label?: string;
+  items: CreateTicketInput["items"];
+  customerId?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerAddress?: string;
+  notes?: string;
+  reserveStock?: boolean;
+  reserveMinutes?: number; // Overrides the shop's default reservation time
+}
+
+export type UpdateDraftTicketInput = Partial<Omit<CreateDraftTicketInput, "shopId">>;
+
+// Payment details supplied when a parked ticket is rung up
+export type ConvertDraftTicketInput = Omit<CreateTicketInput, "shopId" | "items">;
+
+export interface DraftTicketQueryOptions {
+  status?: DraftTicketStatus;
+  page?: number;
+  limit?: number;
+}
+
+// Receipts
+export type ReceiptFormat = "html" | "text" | "escpos";
+
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  grossAmount: number; // quantity x unit price
+  adjustments: Array<{ label: string; amount: number }>; // Discount and promotions
+  amount: number; // What the customer pays for the line (tax included when prices include it)
+  quantityReturned: number;
+}
+
+export interface ReceiptData {
+  shopName: string;
+  shopAddress?: string;
+  shopPhone?: string;
+  ticketNumber: string;
+  date: Date;
+  servedBy: string;
+  customerName?: string;
+  customerPhone?: string;
+  lines: ReceiptLine[];
+  subtotal: number; // Before discounts and promotions
+  discountTotal: number;
+  taxAmount: number;
+  taxInclusive: boolean;
+  total: number; // As sold
+  refunded: number;
+  netTotal: number; // After returns
+  tenders: Array<{ label: string; amount: number; reference?: string }>;
+  cashReceived?: number;
+  changeGiven: number;
+  isCredit: boolean;
+  amountPaid: number;
+  amountOwed: number;
+  lateFees: number; // Unwaived late fees included in the balance
+  dueDate?: Date;
+  footer?: string;
+}
+
+// Customers
+export interface ICustomer extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  name: string;
+  phone: string; // Unique within the shop
+  alternatePhones: string[]; // Numbers of customers merged into this one
+  email?: string;
+  address?: string;
+  notes?: string;
+  creditLimit?: number | null; // Overrides the shop's default limit
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateCustomerInput {
+  shopId: string;
+  name: string;
+  phone: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  creditLimit?: number | null;
+}
+
+export type UpdateCustomerInput = Partial<Omit<CreateCustomerInput, "shopId">>;
+
+export interface CustomerQueryOptions {
+  search?: string; // Matches name or phone
+  page?: number;
+  limit?: number;
+}
+
+// Purchase totals for a customer, net of returns and excluding refunded tickets
+export interface CustomerPurchaseStats {
+  lifetimeSpend: number;
+  visitCount: number; // Tickets bought
+  firstPurchase?: Date;
+  lastPurchase?: Date;
+  outstandingCredit: number;
+  favouriteItems: Array<{
+    itemId: string;
+    itemName: string;
+    quantity: number;
+    revenue: number;
+  }>;
+}
+
+export interface CustomerProfile extends CustomerPurchaseStats {
+  customer: ICustomer;
+  credit: CreditStanding;
+  recentTickets: ITicketSummary[];
+}
+
+// How much more credit a customer can take
+export interface CreditStanding {
+  creditLimit: number | null; // null when there is no limit
+  outstanding: number;
+  available: number | null; // null when there is no limit
+  onHold: boolean; // Overdue tickets block new credit
+  overdueTickets: number;
+  overdueAmount: number;
+}
+
+// Receivables
+export type AgingBucket = "current" | "1-30" | "31-60" | "61-90" | "90+";
+
+export type AgingBuckets = Record<AgingBucket, number>;
+
+export interface ReceivablesAgingRow {
+  customerId?: string;
+  customerName?: string;
+  customerPhone?: string;
+  buckets: AgingBuckets;
+  total: number;
+  ticketCount: number;
+  oldestDueDate?: Date;
+}
+
+export interface ReceivablesAgingReport {
+  asOf: Date;
+  customers: ReceivablesAgingRow[];
+  totals: AgingBuckets & { total: number; ticketCount: number };
+}
+
+export type StatementEntryType =
+  | "sale"
+  | "payment"
+  | "return"
+  | "write_off"
+  | "late_fee"
+  | "fee_waiver";
+
+export interface StatementEntry {
+  date: Date;
+  type: StatementEntryType;
+  ticketId: string;
+  ticketNumber: string;
+  description: string;
+  reference?: string;
+  debit: number; // Added to the balance
+  credit: number; // Taken off the balance
+  balance: number; // Running balance after this entry
+}
+
+export interface CustomerStatement {
+  shopName: string;
+  shopAddress?: string;
+  shopPhone?: string;
+  customer: {
+    customerId: string;
+    name: string;
+    phone: string;
+    address?: string;
+  };
+  startDate?: Date;
+  endDate: Date;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalCharges: number;
+  totalPayments: number;
+  closingBalance: number;
+}
+
+// Customer payments
+export interface ICustomerPaymentAllocation {
+  ticketId: Types.ObjectId;
+  ticketNumber: string;
+  amount: number;
+  amountOwedBefore: number;
+  amountOwedAfter: number;
+}
+
+export interface ICustomerPayment extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  customerName: string;
+  customerPhone: string;
+  receiptNumber: string;
+  amount: number;
+  paymentMethod: "cash" | "transfer";
+  transactionReference?: string;
+  notes?: string;
+  allocations: ICustomerPaymentAllocation[];
+  balanceBefore: number; // Customer's outstanding credit before the payment
+  balanceAfter: number;
+  receivedBy: Types.ObjectId;
+  receivedByName: string;
+  date: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CustomerPaymentQueryOptions {
+  page?: number;
+  limit?: number;
+}
+
+export interface PaymentReceiptData {
+  shopName: string;
+  shopAddress?: string;
+  shopPhone?: string;
+  receiptNumber: string;
+  date: Date;
+  receivedBy: string;
+  customerName: string;
+  customerPhone: string;
+  paymentMethod: string;
+  transactionReference?: string;
+  amount: number;
+  allocations: Array<{ ticketNumber: string; amount: number; amountOwedAfter: number }>;
+  balanceBefore: number;
+  balanceAfter: number;
+  footer?: string;
+}
+
+// Credit reminders
+export type CreditReminderKind = "before_due" | "after_due" | "manual";
+
+export type CreditReminderStatus = "sent" | "failed";
+
+export interface ICreditReminder extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  ticketId: Types.ObjectId;
+  ticketNumber: string;
+  customerName?: string;
+  customerPhone: string;
+  kind: CreditReminderKind;
+  offsetDays: number; // Days before (negative) or after (positive) the due date
+  amountOwed: number;
+  message: string;
+  status: CreditReminderStatus;
+  provider: string;
+  providerMessageId?: string;
+  error?: string;
+  triggeredBy?: Types.ObjectId; // Set for manual reminders
+  sentAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreditReminderQueryOptions {
+  status?: CreditReminderStatus;
+  kind?: CreditReminderKind;
+  page?: number;
+  limit?: number;
+}
+
+// Reminders sent for a shop in one scheduled run
+export interface CreditReminderRunResult {
+  shopId: string;
+  sent: number;
+  failed: number;
+  skipped?: "quiet_hours";
+}
+
+// Quotes (proforma invoices)
+export type QuoteStatus = "draft" | "sent" | "accepted" | "expired";
+
+// A quoted line, priced as it would be on a ticket
+export interface IQuoteItem {
+  itemId: Types.ObjectId;
+  itemName: string;
+  itemCategory?: string;
+  quantity: number;
+  sellingPrice: number;
+  discount: number;
+  lineTotal: number; // After discount and promotions, before tax
+  taxRate: number;
+  taxAmount: number;
+  promotions: ITicketLinePromotion[];
+  promotionDiscount: number;
+}
+
+export interface IQuote extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  quoteNumber: string;
+  items: IQuoteItem[];
+
+  // Totals as quoted
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  promotionDiscount: number;
+  taxInclusive: boolean;
+
+  customerId?: Types.ObjectId;
+  customerName?: string;
+  customerPhone?: string;
+  customerAddress?: string;
+  notes?: string;
+  status: QuoteStatus;
+  validUntil: Date;
+
+  createdBy: Types.ObjectId;
+  lastUpdatedBy: Types.ObjectId;
+  sentAt?: Date;
+  convertedTicketId?: Types.ObjectId;
+  acceptedAt?: Date;
+  expiredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateQuoteInput {
+  shopId: string;
+  items: CreateTicketInput["items"];
+  customerId?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerAddress?: string;
+  notes?: string;
+  validUntil?: Date; // Defaults to the shop's quote validity period
+}
+
+export type UpdateQuoteInput = Partial<Omit<CreateQuoteInput, "shopId">>;
+
+// Payment details supplied when a quote is accepted and rung up
+export type ConvertQuoteInput = Omit<CreateTicketInput, "shopId" | "items">;
+
+export interface QuoteQueryOptions {
+  status?: QuoteStatus;
+  customerId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface QuoteData {
+  shopName: string;
+  shopAddress?: string;
+  shopPhone?: string;
+  quoteNumber: string;
+  date: Date;
+  validUntil: Date;
+  customerName?: string;
+  customerPhone?: string;
+  customerAddress?: string;
+  lines: ReceiptLine[];
+  subtotal: number; // Before discounts and promotions
+  discountTotal: number;
+  taxAmount: number;
+  taxInclusive: boolean;
+  total: number;
+  notes?: string;
+  footer?: string;
+}
+
+// Layaway (lay-by): stock is held while the customer pays in installments,
+// and the goods are released as a ticket once it is paid off
+export type LayawayStatus = "active" | "completed" | "cancelled";
+
+export interface ILayawayCancellation {
+  reason: string;
+  forfeitedAmount: number; // Kept by the shop under its forfeiture policy
+  refundAmount: number; // Paid back to the customer
+  refundMethod?: "cash" | "transfer";
+  cancelledBy: Types.ObjectId;
+  date: Date;
+}
+
+export interface ILayaway extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  layawayNumber: string;
+
+  // Lines are priced when the layaway is opened and the price is kept
+  items: ITicketItem[];
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  totalProfit: number;
+  totalItemCount: number;
+  promotionDiscount: number;
+  taxInclusive: boolean;
+
+  customerId?: Types.ObjectId;
+  customerName: string;
+  customerPhone: string;
+  customerAddress?: string;
+
+  soldBy: Types.ObjectId;
+  soldByName: string;
+  status: LayawayStatus;
+  amountPaid: number;
+  amountOwed: number;
+  dueDate: Date; // Date the customer agreed to finish paying by
+  payments: ICreditPayment[]; // Deposit first, then installments
+  notes?: string;
+
+  ticketId?: Types.ObjectId; // Ticket created when the layaway was paid off
+  completedAt?: Date;
+  cancellation?: ILayawayCancellation;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateLayawayInput {
+  shopId: string;
+  items: CreateTicketInput["items"];
+  soldBy: string;
+  customerId?: string; // Takes precedence over the customer name and phone
+  customerName?: string;
+  customerPhone?: string;
+  customerAddress?: string;
+  deposit: number;
+  paymentMethod: "cash" | "transfer";
+  transactionReference?: string;
+  dueDate?: Date; // Defaults to the shop's layaway term
+  notes?: string;
+}
+
+export interface RecordLayawayPaymentInput {
+  layawayId: string;
+  shopId: string;
+  amount: number;
+  paymentMethod: "cash" | "transfer";
+  receivedBy: string;
+  transactionReference?: string;
+  notes?: string;
+}
+
+export interface CancelLayawayInput {
+  reason: string;
+  cancelledBy: string;
+  refundMethod?: "cash" | "transfer"; // How any refund is paid back
+}
+
+export interface LayawayQueryOptions {
+  status?: LayawayStatus;
+  customerId?: string;
+  overdue?: boolean; // Active layaways past their due date
+  page?: number;
+  limit?: number;
+}
+
+// Cash drawer sessions: a staff member opens the drawer with a float and
+// the cash they take until it is closed is counted against it
+export type DrawerSessionStatus = "open" | "closed";
+export type DrawerMovementType = "pay_in" | "pay_out";
+
+export interface IDrawerMovement {
+  _id?: Types.ObjectId;
+  type: DrawerMovementType;
+  amount: number;
+  reason: string;
+  recordedBy: Types.ObjectId;
+  recordedByName: string;
+  date: Date;
+}
+
+// Activity in the drawer over a session. Cash figures are what went into
+// or out of the drawer; tenders cover every payment type.
+export interface IDrawerSummary {
+  ticketCount: number;
+  grossSales: number; // As rung up, before any refunds
+  discounts: number; // Line discounts and promotions
+  tenders: Record<TenderType, number>;
+  refundCount: number; // Whole-ticket refunds and returns
+  refundTotal: number;
+  cashSales: number;
+  cashCreditPayments: number; // Installments on credit tickets
+  cashLayawayPayments: number;
+  cashRefunds: number; // Refunds, returns and layaway cancellations paid out in cash
+  payIns: number;
+  payOuts: number;
+  expectedCash: number; // Float plus cash in less cash out
+}
+
+export interface IDrawerSession extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  staffId: Types.ObjectId; // Staff member the drawer is attributed to
+  staffName: string;
+  registerName?: string;
+  status: DrawerSessionStatus;
+  openingFloat: number;
+  openedAt: Date;
+  openingNotes?: string;
+  movements: IDrawerMovement[];
+
+  // Set when the drawer is counted and closed
+  closedAt?: Date;
+  closedBy?: Types.ObjectId;
+  closedByName?: string;
+  countedCash?: number;
+  expectedCash?: number;
+  variance?: number; // Counted less expected; negative when cash is short
+  summary?: IDrawerSummary;
+  closingNotes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OpenDrawerInput {
+  shopId: string;
+  staffId: string;
+  openingFloat: number;
+  registerName?: string;
+  notes?: string;
+}
+
+export interface DrawerMovementInput {
+  type: DrawerMovementType;
+  amount: number;
+  reason: string;
+  recordedBy: string;
+}
+
+export interface CloseDrawerInput {
+  countedCash: number;
+  closedBy: string;
+  notes?: string;
+}
+
+export interface DrawerSessionQueryOptions {
+  status?: DrawerSessionStatus;
+  staffId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+// Cash-affecting records in a session window, as read from the tickets
+// and layaways the staff member handled
+export interface DrawerActivity {
+  tickets: ITicket[]; // Rung up by the staff member
+  creditPayments: ICreditPayment[]; // Installments they received
+  refundedTickets: ITicket[]; // Refunded by them
+  returns: ITicketReturn[]; // Processed by them
+  layawayPayments: ICreditPayment[];
+  layawayCancellations: ILayawayCancellation[];
+}
+
+export interface ZReportSession {
+  sessionId: Types.ObjectId;
+  staffId: Types.ObjectId;
+  staffName: string;
+  registerName?: string;
+  status: DrawerSessionStatus;
+  openedAt: Date;
+  closedAt?: Date;
+  openingFloat: number;
+  summary: IDrawerSummary;
+  countedCash?: number;
+  variance?: number;
+}
+
+export interface ZReport {
+  date: string; // YYYY-MM-DD
+  sessions: ZReportSession[];
+  totals: {
+    ticketCount: number;
+    grossSales: number;
+    discounts: number;
+    tenders: Record<TenderType, number>;
+    refundCount: number;
+    refundTotal: number;
+    expectedCash: number;
+    countedCash: number;
+    variance: number;
+  };
+  openSessions: number; // Still open, so counted as expected only
+}
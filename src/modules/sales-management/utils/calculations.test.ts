@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { calculateReturnAmounts, roundCurrency } from "./calculations";
+
+// Three units for 10.00 with 7.5% tax, so a third of each amount never rounds evenly
+const line = {
+  quantitySold: 3,
+  lineTotal: 10,
+  lineProfit: 4,
+  taxAmount: 0.75,
+  promotionDiscount: 1,
+};
+
+test("returning a line one unit at a time refunds exactly what was charged", () => {
+  let quantityReturned = 0;
+  let refundedAmount = 0;
+  let taxRefunded = 0;
+  let profitReversed = 0;
+  let promotionReversed = 0;
+
+  for (let unit = 0; unit < line.quantitySold; unit++) {
+    const amounts = calculateReturnAmounts(
+      { ...line, quantityReturned, refundedAmount, taxRefunded },
+      1
+    );
+    quantityReturned += 1;
+    refundedAmount = roundCurrency(refundedAmount + amounts.netAmount);
+    taxRefunded = roundCurrency(taxRefunded + amounts.taxRefunded);
+    profitReversed = roundCurrency(profitReversed + amounts.profitReversed);
+    promotionReversed = roundCurrency(promotionReversed + amounts.promotionReversed);
+  }
+
+  assert.equal(refundedAmount, line.lineTotal);
+  assert.equal(taxRefunded, line.taxAmount);
+  assert.equal(profitReversed, line.lineProfit);
+  assert.equal(promotionReversed, line.promotionDiscount);
+});
+
+test("the last unit returned gets whatever remains of the line", () => {
+  const amounts = calculateReturnAmounts(
+    { ...line, quantityReturned: 2, refundedAmount: 6.67, taxRefunded: 0.5 },
+    1
+  );
+
+  assert.equal(amounts.netAmount, 3.33);
+  assert.equal(amounts.taxRefunded, 0.25);
+  assert.equal(amounts.refundAmount, 3.58);
+});
@@ -1,6 +1,7 @@
 interface PriceCalculation {
   subtotal: number;
   discountAmount: number;
+  netAmount: number; // After discount, before tax
   taxAmount: number;
   totalAmount: number;
   profitAmount: number;
@@ -11,14 +12,24 @@ interface CalculationInput {
   costPrice: number;
   sellingPrice: number;
   discount?: number;
+  promotionDiscount?: number; // Amount taken off by promotions, after the discount
   taxRate?: number;
+  pricesIncludeTax?: boolean; // Selling price already includes tax
 }
 
 /**
  * Calculate sale amounts including discount, tax, and profit
  */
 export const calculateSaleAmounts = (input: CalculationInput): PriceCalculation => {
-  const { quantity, costPrice, sellingPrice, discount = 0, taxRate = 0 } = input;
+  const {
+    quantity,
+    costPrice,
+    sellingPrice,
+    discount = 0,
+    promotionDiscount = 0,
+    taxRate = 0,
+    pricesIncludeTax = false,
+  } = input;
 
   // Subtotal before discount
   const subtotal = quantity * sellingPrice;
@@ -26,27 +37,99 @@ export const calculateSaleAmounts = (input: CalculationInput): PriceCalculation
   // Calculate discount amount
   const discountAmount = discount > 0 ? (subtotal * discount) / 100 : 0;
 
-  // Amount after discount
-  const amountAfterDiscount = subtotal - discountAmount;
+  // Amount after discount and promotions
+  const amountAfterDiscount = Math.max(subtotal - discountAmount - promotionDiscount, 0);
 
-  // Calculate tax
-  const taxAmount = taxRate > 0 ? (amountAfterDiscount * taxRate) / 100 : 0;
+  // Calculate tax, either on top of the price or extracted from it
+  let taxAmount = 0;
+  if (taxRate > 0) {
+    taxAmount = pricesIncludeTax
+      ? amountAfterDiscount - amountAfterDiscount / (1 + taxRate / 100)
+      : (amountAfterDiscount * taxRate) / 100;
+    taxAmount = roundCurrency(taxAmount);
+  }
 
-  // Final total
-  const totalAmount = amountAfterDiscount + taxAmount;
+  // Amount the shop keeps, and the final total the customer pays
+  const netAmount = pricesIncludeTax ? amountAfterDiscount - taxAmount : amountAfterDiscount;
+  const totalAmount = netAmount + taxAmount;
 
-  // Calculate profit (selling price - cost price) * quantity - discount
-  const profitAmount = quantity * (sellingPrice - costPrice) - discountAmount;
+  // Calculate profit on the amount net of tax
+  const profitAmount = netAmount - quantity * costPrice;
 
   return {
     subtotal,
     discountAmount,
+    netAmount,
     taxAmount,
     totalAmount,
     profitAmount,
   };
 };
 
+/**
+ * Round a currency amount to 2 decimal places
+ */
+export const roundCurrency = (amount: number): number => {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+};
+
+/**
+ * Prorate a sold line's total, tax, profit and promotion discount for a returned
+ * quantity. Amounts are worked out on everything returned so far less what was
+ * already refunded, so rounding never leaves cents behind: the return that
+ * brings back the last unit gets whatever remains of the line.
+ */
+export const calculateReturnAmounts = (
+  line: {
+    quantitySold: number;
+    quantityReturned?: number;
+    lineTotal: number;
+    lineProfit: number;
+    taxAmount?: number;
+    promotionDiscount?: number;
+    refundedAmount?: number;
+    taxRefunded?: number;
+  },
+  quantity: number
+): {
+  refundAmount: number;
+  netAmount: number;
+  taxRefunded: number;
+  profitReversed: number;
+  promotionReversed: number;
+} => {
+  const returnedBefore = line.quantityReturned || 0;
+  const shareBefore = returnedBefore / line.quantitySold;
+  const shareAfter = Math.min(returnedBefore + quantity, line.quantitySold) / line.quantitySold;
+
+  const prorate = (total: number, alreadyReturned?: number): number =>
+    roundCurrency(
+      roundCurrency(total * shareAfter) - (alreadyReturned ?? roundCurrency(total * shareBefore))
+    );
+
+  const netAmount = prorate(line.lineTotal, line.refundedAmount);
+  const taxRefunded = prorate(line.taxAmount || 0, line.taxRefunded);
+  return {
+    refundAmount: roundCurrency(netAmount + taxRefunded),
+    netAmount,
+    taxRefunded,
+    profitReversed: prorate(line.lineProfit),
+    promotionReversed: prorate(line.promotionDiscount || 0),
+  };
+};
+
+/**
+ * Derive credit status from what has been paid and what is still owed
+ */
+export const getCreditStatus = (
+  amountPaid: number,
+  amountOwed: number
+): "pending" | "partial" | "paid" => {
+  if (amountOwed <= 0) return "paid";
+  if (amountPaid > 0) return "partial";
+  return "pending";
+};
+
 /**
  * Validate discount percentage
  */
@@ -0,0 +1,37 @@
+import { ICreditSettings } from "../../auth/models/shop";
+import { CreditStanding, ITicket } from "../types";
+import { roundCurrency } from "./calculations";
+
+// The customer's own limit wins over the shop default. null means no limit.
+export const resolveCreditLimit = (
+  customerLimit?: number | null,
+  settings?: Partial<ICreditSettings>
+): number | null => {
+  if (customerLimit !== undefined && customerLimit !== null) return customerLimit;
+  return settings?.defaultLimit ?? null;
+};
+
+// Work out a customer's credit standing from their open credit tickets
+// and the ones past their due date
+export const getCreditStanding = (
+  creditTickets: Pick<ITicket, "amountOwed">[],
+  overdueTickets: Pick<ITicket, "amountOwed">[],
+  creditLimit: number | null,
+  holdOverdue: boolean
+): CreditStanding => {
+  const outstanding = roundCurrency(
+    creditTickets.reduce((sum, ticket) => sum + (ticket.amountOwed || 0), 0)
+  );
+  const overdueAmount = roundCurrency(
+    overdueTickets.reduce((sum, ticket) => sum + (ticket.amountOwed || 0), 0)
+  );
+
+  return {
+    creditLimit,
+    outstanding,
+    available: creditLimit === null ? null : roundCurrency(Math.max(creditLimit - outstanding, 0)),
+    onHold: holdOverdue && overdueTickets.length > 0,
+    overdueTickets: overdueTickets.length,
+    overdueAmount,
+  };
+};
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Types } from "mongoose";
+import { summariseDrawerActivity } from "./drawerSession";
+import { DrawerActivity, ITicket, ITicketReturn } from "../types";
+
+const staffId = new Types.ObjectId();
+
+const cashReturn = (refundAmount: number): ITicketReturn => ({
+  items: [],
+  refundAmount,
+  refundMethod: "cash",
+  appliedToBalance: 0,
+  reason: "Customer changed their mind",
+  processedBy: staffId,
+  processedByName: "Cashier",
+  date: new Date(),
+});
+
+// Two units at 50 paid in cash, as they stand after the given returns
+const cashTicket = (totalAmount: number, totalRefunded: number, totalItemCount: number): ITicket =>
+  ({
+    ticketNumber: "0001",
+    items: [{ quantitySold: 2, sellingPrice: 50, discount: 0 }],
+    totalAmount,
+    totalRefunded,
+    totalItemCount,
+    paymentMethod: "cash",
+    tenders: [{ type: "cash", amount: 100 }],
+    payments: [],
+  }) as unknown as ITicket;
+
+const activity = (overrides: Partial<DrawerActivity>): DrawerActivity => ({
+  tickets: [],
+  creditPayments: [],
+  refundedTickets: [],
+  returns: [],
+  layawayPayments: [],
+  layawayCancellations: [],
+  ...overrides,
+});
+
+test("sale, partial return, then remaining return counts each return once", () => {
+  // The second return takes the last unit, which also marks the ticket refunded
+  const ticket = cashTicket(0, 100, 0);
+
+  const summary = summariseDrawerActivity(
+    20,
+    [],
+    activity({
+      tickets: [ticket],
+      refundedTickets: [ticket],
+      returns: [cashReturn(50), cashReturn(50)],
+    })
+  );
+
+  assert.equal(summary.cashSales, 100);
+  assert.equal(summary.refundCount, 2);
+  assert.equal(summary.refundTotal, 100);
+  assert.equal(summary.cashRefunds, 100);
+  assert.equal(summary.expectedCash, 20);
+});
+
+test("whole-ticket refund after a partial return refunds only what is left", () => {
+  const ticket = cashTicket(50, 50, 1);
+
+  const summary = summariseDrawerActivity(
+    20,
+    [],
+    activity({
+      tickets: [ticket],
+      refundedTickets: [ticket],
+      returns: [cashReturn(50)],
+    })
+  );
+
+  assert.equal(summary.refundCount, 2);
+  assert.equal(summary.refundTotal, 100);
+  assert.equal(summary.cashRefunds, 100);
+  assert.equal(summary.expectedCash, 20);
+});
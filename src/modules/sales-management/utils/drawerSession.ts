@@ -0,0 +1,146 @@
+import {
+  DrawerActivity,
+  IDrawerMovement,
+  IDrawerSummary,
+  ITicket,
+  ITicketReturn,
+  TenderType,
+} from "../types";
+import { roundCurrency } from "./calculations";
+
+const emptyTenders = (): Record<TenderType, number> => ({
+  cash: 0,
+  transfer: 0,
+  credit: 0,
+  exchange: 0,
+});
+
+// Tenders a ticket was paid with. Tickets created before tenders existed
+// count their whole amount under their payment method.
+const ticketTenders = (ticket: ITicket): { type: TenderType; amount: number }[] => {
+  if (ticket.tenders && ticket.tenders.length > 0) return ticket.tenders;
+  if (ticket.paymentMethod === "mixed") return [];
+  return [
+    { type: ticket.paymentMethod, amount: ticket.totalAmount + (ticket.totalRefunded || 0) },
+  ];
+};
+
+// Line discounts and promotions taken off a ticket when it was sold
+const ticketDiscount = (ticket: ITicket): number =>
+  ticket.items.reduce(
+    (sum, item) => sum + (item.quantitySold * item.sellingPrice * (item.discount || 0)) / 100,
+    0
+  ) + (ticket.promotionDiscount || 0);
+
+/**
+ * Cash handed back when a whole ticket is refunded: the cash tendered,
+ * scaled to what was left after returns, plus any installments paid in cash
+ */
+const refundedCash = (ticket: ITicket): number => {
+  const grossAmount = ticket.totalAmount + (ticket.totalRefunded || 0);
+  const netRatio = grossAmount > 0 ? ticket.totalAmount / grossAmount : 0;
+  const cashTendered = ticketTenders(ticket)
+    .filter((tender) => tender.type === "cash")
+    .reduce((sum, tender) => sum + tender.amount, 0);
+  const cashInstallments = (ticket.payments || [])
+    .filter((payment) => payment.paymentMethod === "cash")
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  return cashTendered * netRatio + cashInstallments;
+};
+
+// A ticket whose last unit came back through a return is marked refunded
+// too, but its returns already account for everything handed back
+const isWholeTicketRefund = (ticket: ITicket): boolean => ticket.totalItemCount > 0;
+
+// Cash paid out for a return: whatever was not taken off a credit balance
+// or carried over to an exchange ticket
+const returnedCash = (ticketReturn: ITicketReturn): number =>
+  ticketReturn.refundMethod === "cash"
+    ? Math.max(
+        ticketReturn.refundAmount - ticketReturn.appliedToBalance - (ticketReturn.exchangeAmount || 0),
+        0
+      )
+    : 0;
+
+/**
+ * Summarise a drawer session from the activity in its window. Tickets that
+ * complete a layaway count as sales, but their cash was already taken as
+ * layaway payments so their tenders are left out.
+ */
+export const summariseDrawerActivity = (
+  openingFloat: number,
+  movements: IDrawerMovement[],
+  activity: DrawerActivity
+): IDrawerSummary => {
+  const tenders = emptyTenders();
+  let grossSales = 0;
+  let discounts = 0;
+
+  for (const ticket of activity.tickets) {
+    grossSales += ticket.totalAmount + (ticket.totalRefunded || 0);
+    discounts += ticketDiscount(ticket);
+    if (ticket.layawayId) continue;
+    for (const tender of ticketTenders(ticket)) {
+      tenders[tender.type] += tender.amount;
+    }
+  }
+
+  const cashCreditPayments = activity.creditPayments
+    .filter((payment) => payment.paymentMethod === "cash")
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  const cashLayawayPayments = activity.layawayPayments
+    .filter((payment) => payment.paymentMethod === "cash")
+    .reduce((sum, payment) => sum + payment.amount, 0);
+
+  const refundedTickets = activity.refundedTickets.filter(isWholeTicketRefund);
+  const refundTotal =
+    refundedTickets.reduce((sum, ticket) => sum + ticket.totalAmount, 0) +
+    activity.returns.reduce((sum, ticketReturn) => sum + ticketReturn.refundAmount, 0);
+  const cashRefunds =
+    refundedTickets.reduce((sum, ticket) => sum + refundedCash(ticket), 0) +
+    activity.returns.reduce((sum, ticketReturn) => sum + returnedCash(ticketReturn), 0) +
+    activity.layawayCancellations
+      .filter((cancellation) => cancellation.refundMethod === "cash")
+      .reduce((sum, cancellation) => sum + cancellation.refundAmount, 0);
+
+  const payIns = movements
+    .filter((movement) => movement.type === "pay_in")
+    .reduce((sum, movement) => sum + movement.amount, 0);
+  const payOuts = movements
+    .filter((movement) => movement.type === "pay_out")
+    .reduce((sum, movement) => sum + movement.amount, 0);
+
+  const expectedCash =
+    openingFloat + tenders.cash + cashCreditPayments + cashLayawayPayments + payIns - payOuts - cashRefunds;
+
+  return {
+    ticketCount: activity.tickets.length,
+    grossSales: roundCurrency(grossSales),
+    discounts: roundCurrency(discounts),
+    tenders: {
+      cash: roundCurrency(tenders.cash),
+      transfer: roundCurrency(tenders.transfer),
+      credit: roundCurrency(tenders.credit),
+      exchange: roundCurrency(tenders.exchange),
+    },
+    refundCount: refundedTickets.length + activity.returns.length,
+    refundTotal: roundCurrency(refundTotal),
+    cashSales: roundCurrency(tenders.cash),
+    cashCreditPayments: roundCurrency(cashCreditPayments),
+    cashLayawayPayments: roundCurrency(cashLayawayPayments),
+    cashRefunds: roundCurrency(cashRefunds),
+    payIns: roundCurrency(payIns),
+    payOuts: roundCurrency(payOuts),
+    expectedCash: roundCurrency(expectedCash),
+  };
+};
+
+/**
+ * Start and end of a calendar day (server time) given as YYYY-MM-DD
+ */
+export const getDayWindow = (date: string): { start: Date; end: Date } => {
+  const [year, month, day] = date.split("-").map(Number);
+  const start = new Date(year, month - 1, day);
+  const end = new Date(year, month - 1, day + 1);
+  return { start, end };
+};
@@ -0,0 +1,81 @@
+import { ILateFeeSettings } from "../../auth/models/shop";
+import { ITicket, ITicketCharge } from "../types";
+import { roundCurrency } from "./calculations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_LATE_FEES: ILateFeeSettings = {
+  enabled: false,
+  type: "percentage",
+  amount: 0,
+  periodDays: 30,
+  graceDays: 0,
+  cap: null,
+};
+
+/**
+ * Late fee policy with defaults filled in for shops that never saved one
+ */
+export const resolveLateFeeSettings = (
+  settings?: Partial<ILateFeeSettings> | null
+): ILateFeeSettings => ({
+  ...DEFAULT_LATE_FEES,
+  ...(settings || {}),
+});
+
+// Late fees still counted in a ticket's balance
+export const getActiveLateFees = (ticket: Pick<ITicket, "charges">): number =>
+  roundCurrency(
+    (ticket.charges || [])
+      .filter((charge) => !charge.waived)
+      .reduce((sum, charge) => sum + charge.amount, 0)
+  );
+
+/**
+ * Late fees a ticket has become liable for by `asOf` and not yet been
+ * charged. The first fee falls due once the grace days have passed, then one
+ * for every further period overdue. Percentage fees are worked out on the
+ * balance excluding earlier fees, and the total never goes past the cap.
+ * Waived periods are not charged again.
+ */
+export const calculateLateFees = (
+  ticket: Pick<ITicket, "amountOwed" | "dueDate" | "charges">,
+  settings: ILateFeeSettings,
+  asOf: Date
+): ITicketCharge[] => {
+  if (!settings.enabled || settings.amount <= 0 || !ticket.dueDate) return [];
+
+  const daysOverdue =
+    Math.floor((asOf.getTime() - new Date(ticket.dueDate).getTime()) / DAY_MS) - settings.graceDays;
+  if (daysOverdue <= 0) return [];
+
+  const periodsDue = Math.floor((daysOverdue - 1) / settings.periodDays) + 1;
+  const chargedPeriods = new Set((ticket.charges || []).map((charge) => charge.period));
+
+  let charged = getActiveLateFees(ticket);
+  const basis = roundCurrency(Math.max(ticket.amountOwed - charged, 0));
+  const fees: ITicketCharge[] = [];
+
+  for (let period = 1; period <= periodsDue; period++) {
+    if (chargedPeriods.has(period)) continue;
+
+    let amount =
+      settings.type === "flat" ? settings.amount : roundCurrency((basis * settings.amount) / 100);
+    if (settings.cap !== null && settings.cap !== undefined) {
+      amount = roundCurrency(Math.min(amount, settings.cap - charged));
+    }
+    if (amount <= 0) break;
+
+    fees.push({
+      type: "late_fee",
+      period,
+      amount,
+      basis,
+      appliedAt: asOf,
+      waived: false,
+    });
+    charged = roundCurrency(charged + amount);
+  }
+
+  return fees;
+};
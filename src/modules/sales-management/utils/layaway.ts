@@ -0,0 +1,46 @@
+import { ILayawaySettings } from "../../auth/models/shop";
+import { ICreditPayment, ITicketTender } from "../types";
+import { roundCurrency } from "./calculations";
+
+export const DEFAULT_LAYAWAY: ILayawaySettings = {
+  minDepositPercent: 20,
+  termDays: 30,
+  forfeitureType: "percentage",
+  forfeitureAmount: 0,
+};
+
+/**
+ * Layaway policy with defaults filled in for shops that never saved one
+ */
+export const resolveLayawaySettings = (
+  settings?: Partial<ILayawaySettings> | null
+): ILayawaySettings => ({
+  ...DEFAULT_LAYAWAY,
+  ...(settings || {}),
+});
+
+/**
+ * Amount kept by the shop when a layaway is cancelled: a flat amount or a
+ * percentage of the layaway total, never more than the customer has paid
+ */
+export const calculateForfeiture = (
+  totalAmount: number,
+  amountPaid: number,
+  settings: ILayawaySettings
+): number => {
+  const forfeiture =
+    settings.forfeitureType === "percentage"
+      ? (totalAmount * settings.forfeitureAmount) / 100
+      : settings.forfeitureAmount;
+  return roundCurrency(Math.min(Math.max(forfeiture, 0), amountPaid));
+};
+
+// Tenders for the ticket a paid-off layaway becomes: one per payment method used
+export const getLayawayTenders = (payments: ICreditPayment[]): ITicketTender[] => {
+  const totals = new Map<"cash" | "transfer", number>();
+  for (const payment of payments) {
+    totals.set(payment.paymentMethod, (totals.get(payment.paymentMethod) || 0) + payment.amount);
+  }
+
+  return [...totals.entries()].map(([type, amount]) => ({ type, amount: roundCurrency(amount) }));
+};
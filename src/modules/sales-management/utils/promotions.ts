@@ -0,0 +1,177 @@
+import { IPromotion, ITicketLinePromotion } from "../types";
+import { roundCurrency } from "./calculations";
+
+export interface PromotionLine {
+  itemId: string;
+  category?: string;
+  quantity: number;
+  sellingPrice: number;
+  discount: number; // Manual discount percentage
+}
+
+export interface LinePromotionResult {
+  promotions: ITicketLinePromotion[];
+  amount: number; // Total taken off the line
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Check whether a promotion is running at the given moment
+ */
+export const isPromotionActive = (promotion: IPromotion, now: Date): boolean => {
+  if (!promotion.isActive) return false;
+  if (promotion.startDate && now < promotion.startDate) return false;
+  if (promotion.endDate && now > promotion.endDate) return false;
+
+  if (promotion.daysOfWeek?.length && !promotion.daysOfWeek.includes(now.getDay())) {
+    return false;
+  }
+
+  if (promotion.startTime && promotion.endTime) {
+    const current = now.getHours() * 60 + now.getMinutes();
+    const start = toMinutes(promotion.startTime);
+    const end = toMinutes(promotion.endTime);
+
+    // Windows such as 22:00-02:00 run past midnight
+    return start <= end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  return true;
+};
+
+const appliesToLine = (promotion: IPromotion, line: PromotionLine): boolean => {
+  const itemIds = promotion.itemIds || [];
+  const categories = promotion.categories || [];
+  if (itemIds.length === 0 && categories.length === 0) return true;
+
+  if (itemIds.some((id) => id.toString() === line.itemId)) return true;
+
+  const category = line.category?.toLowerCase();
+  return !!category && categories.some((c) => c.toLowerCase() === category);
+};
+
+/**
+ * Amount a line-level promotion takes off a line worth lineAmount
+ */
+const getLineDiscount = (promotion: IPromotion, line: PromotionLine, lineAmount: number): number => {
+  let amount = 0;
+
+  switch (promotion.type) {
+    case "buy_x_get_y": {
+      const buy = promotion.buyQuantity || 0;
+      const get = promotion.getQuantity || 0;
+      if (buy > 0 && get > 0) {
+        const freeUnits = Math.floor(line.quantity / (buy + get)) * get;
+        amount = freeUnits * line.sellingPrice;
+      }
+      break;
+    }
+    case "fixed_amount":
+      amount = (promotion.amountOff || 0) * line.quantity;
+      break;
+    case "category_percent":
+    case "happy_hour":
+      amount = (lineAmount * (promotion.percentOff || 0)) / 100;
+      break;
+    default:
+      amount = 0;
+  }
+
+  return roundCurrency(Math.min(amount, lineAmount));
+};
+
+/**
+ * Evaluate the shop's promotions against the lines of a ticket.
+ *
+ * Each line gets the single line-level promotion that saves the customer the
+ * most; lines carrying a manual discount are left alone so the two never
+ * stack. The best ticket-level promotion whose minimum spend is reached is
+ * then spread across all lines in proportion to what is left of each.
+ */
+export const applyPromotions = (
+  lines: PromotionLine[],
+  promotions: IPromotion[],
+  now: Date = new Date()
+): LinePromotionResult[] => {
+  const running = promotions.filter((promotion) => isPromotionActive(promotion, now));
+  const linePromotions = running.filter((promotion) => promotion.type !== "ticket_threshold");
+  const ticketPromotions = running.filter((promotion) => promotion.type === "ticket_threshold");
+
+  const results: LinePromotionResult[] = lines.map(() => ({ promotions: [], amount: 0 }));
+  const remaining = lines.map((line) =>
+    roundCurrency(line.quantity * line.sellingPrice * (1 - line.discount / 100))
+  );
+
+  lines.forEach((line, index) => {
+    if (line.discount > 0) return;
+
+    let best: { promotion: IPromotion; amount: number } | null = null;
+    for (const promotion of linePromotions) {
+      if (!appliesToLine(promotion, line)) continue;
+      const amount = getLineDiscount(promotion, line, remaining[index]);
+      if (amount > 0 && (!best || amount > best.amount)) {
+        best = { promotion, amount };
+      }
+    }
+
+    if (best) {
+      results[index].promotions.push({
+        promotionId: best.promotion._id,
+        name: best.promotion.name,
+        type: best.promotion.type,
+        amount: best.amount,
+      });
+      results[index].amount = best.amount;
+      remaining[index] = roundCurrency(remaining[index] - best.amount);
+    }
+  });
+
+  // Ticket-level discount on the spend left after line promotions
+  const spend = roundCurrency(remaining.reduce((sum, amount) => sum + amount, 0));
+  let bestTicket: { promotion: IPromotion; amount: number } | null = null;
+  for (const promotion of ticketPromotions) {
+    if (spend <= 0 || spend < (promotion.minSpend || 0)) continue;
+    const amount = roundCurrency(
+      Math.min(
+        promotion.percentOff ? (spend * promotion.percentOff) / 100 : promotion.amountOff || 0,
+        spend
+      )
+    );
+    if (amount > 0 && (!bestTicket || amount > bestTicket.amount)) {
+      bestTicket = { promotion, amount };
+    }
+  }
+
+  if (bestTicket) {
+    const { promotion, amount } = bestTicket;
+    let allocated = 0;
+    const lastIndex = remaining.reduce((last, value, index) => (value > 0 ? index : last), -1);
+
+    remaining.forEach((lineAmount, index) => {
+      if (lineAmount <= 0) return;
+
+      // The last line takes whatever rounding left over
+      const share =
+        index === lastIndex
+          ? roundCurrency(amount - allocated)
+          : roundCurrency((amount * lineAmount) / spend);
+      allocated = roundCurrency(allocated + share);
+
+      results[index].promotions.push({
+        promotionId: promotion._id,
+        name: promotion.name,
+        type: promotion.type,
+        amount: share,
+      });
+      results[index].amount = roundCurrency(results[index].amount + share);
+    });
+  }
+
+  return results;
+};
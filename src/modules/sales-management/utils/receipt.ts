@@ -0,0 +1,733 @@
+import { ReceiptPaperWidth } from "../../auth/models/shop";
+import {
+  ICustomerPayment,
+  IQuote,
+  ITicket,
+  PaymentReceiptData,
+  QuoteData,
+  ReceiptData,
+  ReceiptLine,
+  TenderType,
+} from "../types";
+import { formatCurrency, roundCurrency } from "./calculations";
+import { getActiveLateFees } from "./lateFees";
+
+// Characters per line in the printer's default font (Font A)
+const PAPER_COLUMNS: Record<ReceiptPaperWidth, number> = {
+  "58mm": 32,
+  "80mm": 48,
+};
+
+const TENDER_LABELS: Record<TenderType | "mixed", string> = {
+  cash: "Cash",
+  transfer: "Transfer",
+  credit: "Credit",
+  exchange: "Exchange credit",
+  mixed: "Mixed",
+};
+
+interface PrintLine {
+  text: string;
+  align?: "left" | "center";
+  bold?: boolean;
+  large?: boolean;
+}
+
+/**
+ * Collect everything printed on a ticket's receipt
+ */
+export const buildReceiptData = (
+  ticket: ITicket,
+  shop: { shopName: string; address?: string; phoneNumber?: string },
+  footer?: string
+): ReceiptData => {
+  const lines: ReceiptLine[] = ticket.items.map((item) => {
+    const grossAmount = roundCurrency(item.quantitySold * item.sellingPrice);
+
+    const adjustments: ReceiptLine["adjustments"] = [];
+    if (item.discount > 0) {
+      adjustments.push({
+        label: `Discount (${item.discount}%)`,
+        amount: roundCurrency((grossAmount * item.discount) / 100),
+      });
+    }
+    for (const promotion of item.promotions || []) {
+      adjustments.push({ label: promotion.name, amount: promotion.amount });
+    }
+
+    return {
+      name: item.itemName,
+      quantity: item.quantitySold,
+      unitPrice: item.sellingPrice,
+      grossAmount,
+      adjustments,
+      amount: roundCurrency(item.lineTotal + (ticket.taxInclusive ? item.taxAmount || 0 : 0)),
+      quantityReturned: item.quantityReturned || 0,
+    };
+  });
+
+  // Ticket totals are kept net of returns; the receipt shows the sale as
+  // rung up and the returns separately. Whole-ticket refunds leave the
+  // totals untouched.
+  const total = roundCurrency(ticket.totalAmount + (ticket.totalRefunded || 0));
+  const refunded =
+    ticket.refunded && !ticket.totalRefunded ? ticket.totalAmount : ticket.totalRefunded || 0;
+
+  const tenders = ticket.tenders?.length
+    ? ticket.tenders.map((tender) => ({
+        label: TENDER_LABELS[tender.type],
+        amount: tender.amount,
+        reference: tender.reference,
+      }))
+    : [
+        {
+          label: TENDER_LABELS[ticket.paymentMethod],
+          amount: total,
+          reference: ticket.transactionReference,
+        },
+      ];
+
+  return {
+    shopName: shop.shopName,
+    shopAddress: shop.address,
+    shopPhone: shop.phoneNumber,
+    ticketNumber: ticket.ticketNumber,
+    date: ticket.date,
+    servedBy: ticket.soldByName,
+    customerName: ticket.customerName,
+    customerPhone: ticket.customerPhone,
+    lines,
+    subtotal: roundCurrency(lines.reduce((sum, line) => sum + line.grossAmount, 0)),
+    discountTotal: roundCurrency(
+      lines.reduce(
+        (sum, line) => sum + line.adjustments.reduce((acc, adj) => acc + adj.amount, 0),
+        0
+      )
+    ),
+    taxAmount: roundCurrency(ticket.items.reduce((sum, item) => sum + (item.taxAmount || 0), 0)),
+    taxInclusive: ticket.taxInclusive,
+    total,
+    refunded: roundCurrency(refunded),
+    netTotal: roundCurrency(total - refunded),
+    tenders,
+    cashReceived: ticket.cashReceived,
+    changeGiven: ticket.changeGiven || 0,
+    isCredit: ticket.isCredit,
+    amountPaid: ticket.amountPaid,
+    amountOwed: ticket.amountOwed,
+    lateFees: getActiveLateFees(ticket),
+    dueDate: ticket.dueDate,
+    footer,
+  };
+};
+
+/**
+ * Gather what a receipt for a customer payment shows
+ */
+export const buildPaymentReceiptData = (
+  payment: ICustomerPayment,
+  shop: { shopName: string; address?: string; phoneNumber?: string },
+  footer?: string
+): PaymentReceiptData => ({
+  shopName: shop.shopName,
+  shopAddress: shop.address,
+  shopPhone: shop.phoneNumber,
+  receiptNumber: payment.receiptNumber,
+  date: payment.date,
+  receivedBy: payment.receivedByName,
+  customerName: payment.customerName,
+  customerPhone: payment.customerPhone,
+  paymentMethod: TENDER_LABELS[payment.paymentMethod],
+  transactionReference: payment.transactionReference,
+  amount: payment.amount,
+  allocations: payment.allocations.map((allocation) => ({
+    ticketNumber: allocation.ticketNumber,
+    amount: allocation.amount,
+    amountOwedAfter: allocation.amountOwedAfter,
+  })),
+  balanceBefore: payment.balanceBefore,
+  balanceAfter: payment.balanceAfter,
+  footer,
+});
+
+/**
+ * Gather what a printed quote (proforma invoice) shows
+ */
+export const buildQuoteData = (
+  quote: IQuote,
+  shop: { shopName: string; address?: string; phoneNumber?: string },
+  footer?: string
+): QuoteData => {
+  const lines: ReceiptLine[] = quote.items.map((item) => {
+    const grossAmount = roundCurrency(item.quantity * item.sellingPrice);
+
+    const adjustments: ReceiptLine["adjustments"] = [];
+    if (item.discount > 0) {
+      adjustments.push({
+        label: `Discount (${item.discount}%)`,
+        amount: roundCurrency((grossAmount * item.discount) / 100),
+      });
+    }
+    for (const promotion of item.promotions || []) {
+      adjustments.push({ label: promotion.name, amount: promotion.amount });
+    }
+
+    return {
+      name: item.itemName,
+      quantity: item.quantity,
+      unitPrice: item.sellingPrice,
+      grossAmount,
+      adjustments,
+      amount: roundCurrency(item.lineTotal + (quote.taxInclusive ? item.taxAmount || 0 : 0)),
+      quantityReturned: 0,
+    };
+  });
+
+  return {
+    shopName: shop.shopName,
+    shopAddress: shop.address,
+    shopPhone: shop.phoneNumber,
+    quoteNumber: quote.quoteNumber,
+    date: quote.createdAt,
+    validUntil: quote.validUntil,
+    customerName: quote.customerName,
+    customerPhone: quote.customerPhone,
+    customerAddress: quote.customerAddress,
+    lines,
+    subtotal: roundCurrency(lines.reduce((sum, line) => sum + line.grossAmount, 0)),
+    discountTotal: roundCurrency(
+      lines.reduce(
+        (sum, line) => sum + line.adjustments.reduce((acc, adj) => acc + adj.amount, 0),
+        0
+      )
+    ),
+    taxAmount: quote.taxAmount,
+    taxInclusive: quote.taxInclusive,
+    total: quote.totalAmount,
+    notes: quote.notes,
+    footer,
+  };
+};
+
+const formatAmount = (amount: number): string =>
+  amount.toLocaleString("en-NG", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+};
+
+// Split text into lines no wider than the paper
+const wrap = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let current = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (word.length > width) {
+        if (current) lines.push(current);
+        for (let i = 0; i < word.length; i += width) lines.push(word.slice(i, i + width));
+        current = "";
+      } else if (!current) {
+        current = word;
+      } else if (current.length + 1 + word.length <= width) {
+        current += ` ${word}`;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    }
+    if (current) lines.push(current);
+  }
+  return lines;
+};
+
+// Label on the left, amount on the right
+const columns = (left: string, right: string, width: number): string => {
+  const space = width - right.length - 1;
+  const label = left.length > space ? left.slice(0, Math.max(space, 0)) : left;
+  return label + " ".repeat(Math.max(width - label.length - right.length, 1)) + right;
+};
+
+/**
+ * Lay out a receipt as lines of at most `width` characters
+ */
+const layoutReceipt = (data: ReceiptData, width: number): PrintLine[] => {
+  const divider: PrintLine = { text: "-".repeat(width) };
+  const lines: PrintLine[] = [];
+  const center = (text: string, style: Partial<PrintLine> = {}) =>
+    wrap(text, width).forEach((line) => lines.push({ text: line, align: "center", ...style }));
+  const row = (left: string, right: string, style: Partial<PrintLine> = {}) =>
+    lines.push({ text: columns(left, right, width), ...style });
+
+  center(data.shopName, { bold: true, large: true });
+  if (data.shopAddress) center(data.shopAddress);
+  if (data.shopPhone) center(`Tel: ${data.shopPhone}`);
+  lines.push(divider);
+
+  row("Receipt", data.ticketNumber);
+  row("Date", formatDate(data.date));
+  row("Served by", data.servedBy);
+  if (data.customerName) row("Customer", data.customerName);
+  if (data.customerPhone) row("Phone", data.customerPhone);
+  lines.push(divider);
+
+  for (const line of data.lines) {
+    wrap(line.name, width).forEach((text) => lines.push({ text }));
+    row(`  ${line.quantity} x ${formatAmount(line.unitPrice)}`, formatAmount(line.grossAmount));
+    for (const adjustment of line.adjustments) {
+      row(`  ${adjustment.label}`, `-${formatAmount(adjustment.amount)}`);
+    }
+    if (line.quantityReturned > 0) {
+      lines.push({ text: `  Returned: ${line.quantityReturned}` });
+    }
+  }
+  lines.push(divider);
+
+  row("Subtotal", formatAmount(data.subtotal));
+  if (data.discountTotal > 0) row("Discounts", `-${formatAmount(data.discountTotal)}`);
+  if (data.taxAmount > 0) {
+    row(data.taxInclusive ? "Tax (included)" : "Tax", formatAmount(data.taxAmount));
+  }
+  row("TOTAL", formatAmount(data.total), { bold: true });
+  if (data.refunded > 0) {
+    row("Refunded", `-${formatAmount(data.refunded)}`);
+    row("NET TOTAL", formatAmount(data.netTotal), { bold: true });
+  }
+  lines.push(divider);
+
+  for (const tender of data.tenders) {
+    row(tender.label, formatAmount(tender.amount));
+    if (tender.reference) lines.push({ text: `  Ref: ${tender.reference}`.slice(0, width) });
+  }
+  if (data.cashReceived !== undefined && data.cashReceived !== null) {
+    row("Cash received", formatAmount(data.cashReceived));
+    row("Change", formatAmount(data.changeGiven));
+  }
+
+  if (data.isCredit) {
+    lines.push(divider);
+    if (data.lateFees > 0) row("Late fees", formatAmount(data.lateFees));
+    row("Paid to date", formatAmount(data.amountPaid));
+    row("Balance due", formatAmount(data.amountOwed), { bold: true });
+    if (data.dueDate) row("Due date", formatDate(data.dueDate).slice(0, 10));
+  }
+
+  if (data.footer) {
+    lines.push(divider);
+    center(data.footer);
+  }
+
+  return lines;
+};
+
+// Pad laid out lines for a fixed-width font
+const toText = (lines: PrintLine[], width: number): string =>
+  lines
+    .map((line) => {
+      if (line.align !== "center") return line.text;
+      const padding = Math.floor((width - line.text.length) / 2);
+      return " ".repeat(Math.max(padding, 0)) + line.text;
+    })
+    .join("\n") + "\n";
+
+/**
+ * Plain text receipt, padded for a fixed-width font
+ */
+export const renderReceiptText = (data: ReceiptData, paperWidth: ReceiptPaperWidth): string => {
+  const width = PAPER_COLUMNS[paperWidth];
+  return toText(layoutReceipt(data, width), width);
+};
+
+// Thermal printers only know their code page; keep to printable ASCII
+const toPrinterText = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "?");
+
+// Raw ESC/POS commands printing the laid out lines
+const toEscPos = (lines: PrintLine[]): Buffer => {
+  const ESC = 0x1b;
+  const GS = 0x1d;
+  const LF = 0x0a;
+
+  const bytes: number[] = [ESC, 0x40]; // Initialize printer
+
+  for (const line of lines) {
+    bytes.push(ESC, 0x61, line.align === "center" ? 1 : 0); // Justification
+    bytes.push(ESC, 0x45, line.bold ? 1 : 0); // Emphasis
+    bytes.push(GS, 0x21, line.large ? 0x01 : 0x00); // Double height
+    bytes.push(...Buffer.from(toPrinterText(line.text), "ascii"), LF);
+  }
+
+  bytes.push(ESC, 0x45, 0, GS, 0x21, 0x00, ESC, 0x61, 0);
+  bytes.push(ESC, 0x64, 4); // Feed 4 lines
+  bytes.push(GS, 0x56, 0x42, 0x00); // Partial cut
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Raw ESC/POS commands for a thermal receipt printer
+ */
+export const renderReceiptEscPos = (data: ReceiptData, paperWidth: ReceiptPaperWidth): Buffer =>
+  toEscPos(layoutReceipt(data, PAPER_COLUMNS[paperWidth]));
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// HTML page sized for the thermal paper width
+const htmlDocument = (title: string, paperWidth: ReceiptPaperWidth, body: string): string =>
+  `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  @page { size: ${paperWidth} auto; margin: 0; }
+  body { width: ${paperWidth}; margin: 0 auto; padding: 2mm; box-sizing: border-box; font-family: "Courier New", monospace; font-size: 11px; color: #000; }
+  h1 { font-size: 15px; margin: 0 0 2px; text-align: center; }
+  .center { text-align: center; margin: 0; }
+  table { width: 100%; border-collapse: collapse; border-top: 1px dashed #000; margin-top: 4px; padding-top: 4px; }
+  td { padding: 1px 0; vertical-align: top; }
+  .amount { text-align: right; white-space: nowrap; }
+  .item { font-weight: bold; }
+  .detail td:first-child { padding-left: 8px; }
+  .strong td { font-weight: bold; }
+  .footer { border-top: 1px dashed #000; margin-top: 4px; padding-top: 4px; white-space: pre-line; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+/**
+ * Printable HTML receipt sized for the thermal paper width
+ */
+export const renderReceiptHtml = (data: ReceiptData, paperWidth: ReceiptPaperWidth): string => {
+  const row = (label: string, value: string, className = "") =>
+    `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="amount">${escapeHtml(value)}</td></tr>`;
+
+  const itemRows = data.lines
+    .map((line) => {
+      const rows = [
+        `<tr><td colspan="2" class="item">${escapeHtml(line.name)}</td></tr>`,
+        row(`${line.quantity} x ${formatCurrency(line.unitPrice)}`, formatCurrency(line.grossAmount), "detail"),
+        ...line.adjustments.map((adjustment) =>
+          row(adjustment.label, `-${formatCurrency(adjustment.amount)}`, "detail")
+        ),
+      ];
+      if (line.quantityReturned > 0) {
+        rows.push(`<tr class="detail"><td colspan="2">Returned: ${line.quantityReturned}</td></tr>`);
+      }
+      return rows.join("");
+    })
+    .join("");
+
+  const totals = [
+    row("Subtotal", formatCurrency(data.subtotal)),
+    data.discountTotal > 0 ? row("Discounts", `-${formatCurrency(data.discountTotal)}`) : "",
+    data.taxAmount > 0
+      ? row(data.taxInclusive ? "Tax (included)" : "Tax", formatCurrency(data.taxAmount))
+      : "",
+    row("Total", formatCurrency(data.total), "strong"),
+    data.refunded > 0 ? row("Refunded", `-${formatCurrency(data.refunded)}`) : "",
+    data.refunded > 0 ? row("Net total", formatCurrency(data.netTotal), "strong") : "",
+  ].join("");
+
+  const payments = [
+    ...data.tenders.map((tender) =>
+      row(tender.reference ? `${tender.label} (${tender.reference})` : tender.label, formatCurrency(tender.amount))
+    ),
+    data.cashReceived !== undefined && data.cashReceived !== null
+      ? row("Cash received", formatCurrency(data.cashReceived)) + row("Change", formatCurrency(data.changeGiven))
+      : "",
+  ].join("");
+
+  const credit = data.isCredit
+    ? `<table>${[
+        data.lateFees > 0 ? row("Late fees", formatCurrency(data.lateFees)) : "",
+        row("Paid to date", formatCurrency(data.amountPaid)),
+        row("Balance due", formatCurrency(data.amountOwed), "strong"),
+        data.dueDate ? row("Due date", formatDate(data.dueDate).slice(0, 10)) : "",
+      ].join("")}</table>`
+    : "";
+
+  const details = [
+    row("Receipt", data.ticketNumber),
+    row("Date", formatDate(data.date)),
+    row("Served by", data.servedBy),
+    data.customerName ? row("Customer", data.customerName) : "",
+    data.customerPhone ? row("Phone", data.customerPhone) : "",
+  ].join("");
+
+  return htmlDocument(
+    `Receipt ${escapeHtml(data.ticketNumber)}`,
+    paperWidth,
+    `<h1>${escapeHtml(data.shopName)}</h1>
+${data.shopAddress ? `<p class="center">${escapeHtml(data.shopAddress)}</p>` : ""}
+${data.shopPhone ? `<p class="center">Tel: ${escapeHtml(data.shopPhone)}</p>` : ""}
+<table>${details}</table>
+<table>${itemRows}</table>
+<table>${totals}</table>
+<table>${payments}</table>
+${credit}
+${data.footer ? `<p class="center footer">${escapeHtml(data.footer)}</p>` : ""}`
+  );
+};
+
+/**
+ * Lay out a payment receipt as lines of at most `width` characters
+ */
+const layoutPaymentReceipt = (data: PaymentReceiptData, width: number): PrintLine[] => {
+  const divider: PrintLine = { text: "-".repeat(width) };
+  const lines: PrintLine[] = [];
+  const center = (text: string, style: Partial<PrintLine> = {}) =>
+    wrap(text, width).forEach((line) => lines.push({ text: line, align: "center", ...style }));
+  const row = (left: string, right: string, style: Partial<PrintLine> = {}) =>
+    lines.push({ text: columns(left, right, width), ...style });
+
+  center(data.shopName, { bold: true, large: true });
+  if (data.shopAddress) center(data.shopAddress);
+  if (data.shopPhone) center(`Tel: ${data.shopPhone}`);
+  center("PAYMENT RECEIPT", { bold: true });
+  lines.push(divider);
+
+  row("Receipt", data.receiptNumber);
+  row("Date", formatDate(data.date));
+  row("Received by", data.receivedBy);
+  row("Customer", data.customerName);
+  row("Phone", data.customerPhone);
+  lines.push(divider);
+
+  row("Ticket", "Paid / Balance");
+  for (const allocation of data.allocations) {
+    row(allocation.ticketNumber, formatAmount(allocation.amount));
+    row("  Balance", formatAmount(allocation.amountOwedAfter));
+  }
+  lines.push(divider);
+
+  row("AMOUNT PAID", formatAmount(data.amount), { bold: true });
+  row(data.paymentMethod, formatAmount(data.amount));
+  if (data.transactionReference) {
+    lines.push({ text: `  Ref: ${data.transactionReference}`.slice(0, width) });
+  }
+  lines.push(divider);
+
+  row("Previous balance", formatAmount(data.balanceBefore));
+  row("Balance due", formatAmount(data.balanceAfter), { bold: true });
+
+  if (data.footer) {
+    lines.push(divider);
+    center(data.footer);
+  }
+
+  return lines;
+};
+
+/**
+ * Plain text payment receipt, padded for a fixed-width font
+ */
+export const renderPaymentReceiptText = (
+  data: PaymentReceiptData,
+  paperWidth: ReceiptPaperWidth
+): string => {
+  const width = PAPER_COLUMNS[paperWidth];
+  return toText(layoutPaymentReceipt(data, width), width);
+};
+
+/**
+ * Raw ESC/POS commands for a payment receipt
+ */
+export const renderPaymentReceiptEscPos = (
+  data: PaymentReceiptData,
+  paperWidth: ReceiptPaperWidth
+): Buffer => toEscPos(layoutPaymentReceipt(data, PAPER_COLUMNS[paperWidth]));
+
+/**
+ * Printable HTML payment receipt sized for the thermal paper width
+ */
+export const renderPaymentReceiptHtml = (
+  data: PaymentReceiptData,
+  paperWidth: ReceiptPaperWidth
+): string => {
+  const row = (label: string, value: string, className = "") =>
+    `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="amount">${escapeHtml(value)}</td></tr>`;
+
+  const details = [
+    row("Receipt", data.receiptNumber),
+    row("Date", formatDate(data.date)),
+    row("Received by", data.receivedBy),
+    row("Customer", data.customerName),
+    row("Phone", data.customerPhone),
+  ].join("");
+
+  const allocations = data.allocations
+    .map(
+      (allocation) =>
+        row(allocation.ticketNumber, formatCurrency(allocation.amount), "strong") +
+        row("Balance", formatCurrency(allocation.amountOwedAfter), "detail")
+    )
+    .join("");
+
+  const payment = [
+    row("Amount paid", formatCurrency(data.amount), "strong"),
+    row(
+      data.transactionReference ? `${data.paymentMethod} (${data.transactionReference})` : data.paymentMethod,
+      formatCurrency(data.amount)
+    ),
+  ].join("");
+
+  const balance = [
+    row("Previous balance", formatCurrency(data.balanceBefore)),
+    row("Balance due", formatCurrency(data.balanceAfter), "strong"),
+  ].join("");
+
+  return htmlDocument(
+    `Payment ${escapeHtml(data.receiptNumber)}`,
+    paperWidth,
+    `<h1>${escapeHtml(data.shopName)}</h1>
+${data.shopAddress ? `<p class="center">${escapeHtml(data.shopAddress)}</p>` : ""}
+${data.shopPhone ? `<p class="center">Tel: ${escapeHtml(data.shopPhone)}</p>` : ""}
+<p class="center"><strong>PAYMENT RECEIPT</strong></p>
+<table>${details}</table>
+<table>${allocations}</table>
+<table>${payment}</table>
+<table>${balance}</table>
+${data.footer ? `<p class="center footer">${escapeHtml(data.footer)}</p>` : ""}`
+  );
+};
+
+/**
+ * Lay out a quote as lines of at most `width` characters
+ */
+const layoutQuote = (data: QuoteData, width: number): PrintLine[] => {
+  const divider: PrintLine = { text: "-".repeat(width) };
+  const lines: PrintLine[] = [];
+  const center = (text: string, style: Partial<PrintLine> = {}) =>
+    wrap(text, width).forEach((line) => lines.push({ text: line, align: "center", ...style }));
+  const row = (left: string, right: string, style: Partial<PrintLine> = {}) =>
+    lines.push({ text: columns(left, right, width), ...style });
+
+  center(data.shopName, { bold: true, large: true });
+  if (data.shopAddress) center(data.shopAddress);
+  if (data.shopPhone) center(`Tel: ${data.shopPhone}`);
+  center("PROFORMA INVOICE", { bold: true });
+  lines.push(divider);
+
+  row("Quote", data.quoteNumber);
+  row("Date", formatDate(data.date).slice(0, 10));
+  row("Valid until", formatDate(data.validUntil).slice(0, 10));
+  if (data.customerName) row("Customer", data.customerName);
+  if (data.customerPhone) row("Phone", data.customerPhone);
+  if (data.customerAddress) wrap(data.customerAddress, width).forEach((text) => lines.push({ text }));
+  lines.push(divider);
+
+  for (const line of data.lines) {
+    wrap(line.name, width).forEach((text) => lines.push({ text }));
+    row(`  ${line.quantity} x ${formatAmount(line.unitPrice)}`, formatAmount(line.grossAmount));
+    for (const adjustment of line.adjustments) {
+      row(`  ${adjustment.label}`, `-${formatAmount(adjustment.amount)}`);
+    }
+  }
+  lines.push(divider);
+
+  row("Subtotal", formatAmount(data.subtotal));
+  if (data.discountTotal > 0) row("Discounts", `-${formatAmount(data.discountTotal)}`);
+  if (data.taxAmount > 0) {
+    row(data.taxInclusive ? "Tax (included)" : "Tax", formatAmount(data.taxAmount));
+  }
+  row("TOTAL", formatAmount(data.total), { bold: true });
+
+  if (data.notes) {
+    lines.push(divider);
+    wrap(data.notes, width).forEach((text) => lines.push({ text }));
+  }
+
+  lines.push(divider);
+  center("Prices are subject to stock availability");
+  if (data.footer) center(data.footer);
+
+  return lines;
+};
+
+/**
+ * Plain text quote, padded for a fixed-width font
+ */
+export const renderQuoteText = (data: QuoteData, paperWidth: ReceiptPaperWidth): string => {
+  const width = PAPER_COLUMNS[paperWidth];
+  return toText(layoutQuote(data, width), width);
+};
+
+/**
+ * Raw ESC/POS commands for a quote
+ */
+export const renderQuoteEscPos = (data: QuoteData, paperWidth: ReceiptPaperWidth): Buffer =>
+  toEscPos(layoutQuote(data, PAPER_COLUMNS[paperWidth]));
+
+/**
+ * Printable HTML quote sized for the thermal paper width
+ */
+export const renderQuoteHtml = (data: QuoteData, paperWidth: ReceiptPaperWidth): string => {
+  const row = (label: string, value: string, className = "") =>
+    `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="amount">${escapeHtml(value)}</td></tr>`;
+
+  const details = [
+    row("Quote", data.quoteNumber),
+    row("Date", formatDate(data.date).slice(0, 10)),
+    row("Valid until", formatDate(data.validUntil).slice(0, 10), "strong"),
+    data.customerName ? row("Customer", data.customerName) : "",
+    data.customerPhone ? row("Phone", data.customerPhone) : "",
+    data.customerAddress ? `<tr><td colspan="2">${escapeHtml(data.customerAddress)}</td></tr>` : "",
+  ].join("");
+
+  const itemRows = data.lines
+    .map((line) =>
+      [
+        `<tr><td colspan="2" class="item">${escapeHtml(line.name)}</td></tr>`,
+        row(`${line.quantity} x ${formatCurrency(line.unitPrice)}`, formatCurrency(line.grossAmount), "detail"),
+        ...line.adjustments.map((adjustment) =>
+          row(adjustment.label, `-${formatCurrency(adjustment.amount)}`, "detail")
+        ),
+      ].join("")
+    )
+    .join("");
+
+  const totals = [
+    row("Subtotal", formatCurrency(data.subtotal)),
+    data.discountTotal > 0 ? row("Discounts", `-${formatCurrency(data.discountTotal)}`) : "",
+    data.taxAmount > 0
+      ? row(data.taxInclusive ? "Tax (included)" : "Tax", formatCurrency(data.taxAmount))
+      : "",
+    row("Total", formatCurrency(data.total), "strong"),
+  ].join("");
+
+  const footer = ["Prices are subject to stock availability", data.footer]
+    .filter(Boolean)
+    .map((text) => escapeHtml(text!))
+    .join("\n");
+
+  return htmlDocument(
+    `Quote ${escapeHtml(data.quoteNumber)}`,
+    paperWidth,
+    `<h1>${escapeHtml(data.shopName)}</h1>
+${data.shopAddress ? `<p class="center">${escapeHtml(data.shopAddress)}</p>` : ""}
+${data.shopPhone ? `<p class="center">Tel: ${escapeHtml(data.shopPhone)}</p>` : ""}
+<p class="center"><strong>PROFORMA INVOICE</strong></p>
+<table>${details}</table>
+<table>${itemRows}</table>
+<table>${totals}</table>
+${data.notes ? `<p class="footer">${escapeHtml(data.notes)}</p>` : ""}
+<p class="center footer">${footer}</p>`
+  );
+};
@@ -0,0 +1,373 @@
+import {
+  AgingBucket,
+  AgingBuckets,
+  CustomerStatement,
+  ITicket,
+  ReceivablesAgingReport,
+  ReceivablesAgingRow,
+  StatementEntry,
+} from "../types";
+import { formatCurrency, roundCurrency } from "./calculations";
+import { escapeHtml } from "./receipt";
+import { getActiveLateFees } from "./lateFees";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AGING_BUCKETS: AgingBucket[] = ["current", "1-30", "31-60", "61-90", "90+"];
+
+const emptyBuckets = (): AgingBuckets => ({
+  current: 0,
+  "1-30": 0,
+  "31-60": 0,
+  "61-90": 0,
+  "90+": 0,
+});
+
+/**
+ * Bucket for a balance by how many days it is past its due date.
+ * Balances without a due date are treated as current.
+ */
+export const getAgingBucket = (dueDate: Date | undefined, asOf: Date): AgingBucket => {
+  if (!dueDate) return "current";
+
+  const daysPastDue = Math.floor((asOf.getTime() - new Date(dueDate).getTime()) / DAY_MS);
+  if (daysPastDue <= 0) return "current";
+  if (daysPastDue <= 30) return "1-30";
+  if (daysPastDue <= 60) return "31-60";
+  if (daysPastDue <= 90) return "61-90";
+  return "90+";
+};
+
+/**
+ * Age the outstanding balance of open credit tickets, per customer and in total.
+ * Tickets are grouped by customer record, or by phone number for older tickets.
+ */
+export const buildAgingReport = (
+  tickets: Pick<ITicket, "amountOwed" | "dueDate" | "customerId" | "customerName" | "customerPhone">[],
+  asOf: Date
+): ReceivablesAgingReport => {
+  const rows = new Map<string, ReceivablesAgingRow>();
+  const totals = { ...emptyBuckets(), total: 0, ticketCount: 0 };
+
+  for (const ticket of tickets) {
+    if (!ticket.amountOwed || ticket.amountOwed <= 0) continue;
+
+    const key = ticket.customerId?.toString() || ticket.customerPhone || "unknown";
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        customerId: ticket.customerId?.toString(),
+        customerName: ticket.customerName,
+        customerPhone: ticket.customerPhone,
+        buckets: emptyBuckets(),
+        total: 0,
+        ticketCount: 0,
+      };
+      rows.set(key, row);
+    }
+
+    const bucket = getAgingBucket(ticket.dueDate, asOf);
+    row.buckets[bucket] = roundCurrency(row.buckets[bucket] + ticket.amountOwed);
+    row.total = roundCurrency(row.total + ticket.amountOwed);
+    row.ticketCount += 1;
+    if (ticket.dueDate && (!row.oldestDueDate || ticket.dueDate < row.oldestDueDate)) {
+      row.oldestDueDate = ticket.dueDate;
+    }
+
+    totals[bucket] = roundCurrency(totals[bucket] + ticket.amountOwed);
+    totals.total = roundCurrency(totals.total + ticket.amountOwed);
+    totals.ticketCount += 1;
+  }
+
+  return {
+    asOf,
+    customers: [...rows.values()].sort((a, b) => b.total - a.total),
+    totals,
+  };
+};
+
+/**
+ * Statement entries for a customer's credit tickets: each sale put on
+ * account, each late fee and waiver, each payment, each return that reduced
+ * the balance and any write-off, with a running balance. Entries before
+ * startDate make up the opening balance.
+ */
+export const buildStatementEntries = (
+  tickets: ITicket[],
+  startDate: Date | undefined,
+  endDate: Date
+): Pick<
+  CustomerStatement,
+  "openingBalance" | "entries" | "totalCharges" | "totalPayments" | "closingBalance"
+> => {
+  const entries: Omit<StatementEntry, "balance">[] = [];
+
+  for (const ticket of tickets) {
+    const ticketId = ticket._id.toString();
+    const payments = ticket.payments || [];
+    const returns = (ticket.returns || []).filter((ret) => ret.appliedToBalance > 0);
+    const charges = ticket.charges || [];
+
+    // What went on account: still owed plus everything that has paid it
+    // down, less the late fees added since
+    const charged = roundCurrency(
+      ticket.amountOwed +
+        payments.reduce((sum, payment) => sum + payment.amount, 0) +
+        returns.reduce((sum, ret) => sum + ret.appliedToBalance, 0) +
+        (ticket.writeOff?.amount || 0) -
+        getActiveLateFees(ticket)
+    );
+
+    entries.push({
+      date: ticket.date,
+      type: "sale",
+      ticketId,
+      ticketNumber: ticket.ticketNumber,
+      description: `Credit sale, ${ticket.totalItemCount} item(s)`,
+      debit: charged,
+      credit: 0,
+    });
+
+    for (const payment of payments) {
+      entries.push({
+        date: payment.paymentDate,
+        type: "payment",
+        ticketId,
+        ticketNumber: ticket.ticketNumber,
+        description: `Payment (${payment.paymentMethod})`,
+        reference: payment.transactionReference,
+        debit: 0,
+        credit: payment.amount,
+      });
+    }
+
+    for (const ret of returns) {
+      entries.push({
+        date: ret.date,
+        type: "return",
+        ticketId,
+        ticketNumber: ticket.ticketNumber,
+        description: `Return: ${ret.reason}`,
+        debit: 0,
+        credit: ret.appliedToBalance,
+      });
+    }
+
+    for (const charge of charges) {
+      entries.push({
+        date: charge.appliedAt,
+        type: "late_fee",
+        ticketId,
+        ticketNumber: ticket.ticketNumber,
+        description: `Late fee (period ${charge.period})`,
+        debit: charge.amount,
+        credit: 0,
+      });
+      if (charge.waived) {
+        entries.push({
+          date: charge.waivedAt || charge.appliedAt,
+          type: "fee_waiver",
+          ticketId,
+          ticketNumber: ticket.ticketNumber,
+          description: `Late fee waived${charge.waiveReason ? `: ${charge.waiveReason}` : ""}`,
+          debit: 0,
+          credit: charge.amount,
+        });
+      }
+    }
+
+    if (ticket.writeOff) {
+      entries.push({
+        date: ticket.writeOff.date,
+        type: "write_off",
+        ticketId,
+        ticketNumber: ticket.ticketNumber,
+        description: `Written off: ${ticket.writeOff.reason}`,
+        debit: 0,
+        credit: ticket.writeOff.amount,
+      });
+    }
+  }
+
+  entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  let balance = 0;
+  let openingBalance = 0;
+  let totalCharges = 0;
+  let totalPayments = 0;
+  const statementEntries: StatementEntry[] = [];
+
+  for (const entry of entries) {
+    const date = new Date(entry.date);
+    if (date > endDate) break;
+
+    balance = roundCurrency(balance + entry.debit - entry.credit);
+    if (startDate && date < startDate) {
+      openingBalance = balance;
+      continue;
+    }
+
+    totalCharges = roundCurrency(totalCharges + entry.debit);
+    totalPayments = roundCurrency(totalPayments + entry.credit);
+    statementEntries.push({ ...entry, balance });
+  }
+
+  return {
+    openingBalance,
+    entries: statementEntries,
+    totalCharges,
+    totalPayments,
+    closingBalance: balance,
+  };
+};
+
+const toCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const str = String(value);
+  if (str.includes("\"") || str.includes(",") || str.includes("\n") || str.includes("\r")) {
+    return `"${str.replace(/\"/g, '""')}"`;
+  }
+  return str;
+};
+
+const toCsv = (rows: unknown[][]): string =>
+  rows.map((row) => row.map(toCsvValue).join(",")).join("\n");
+
+const formatDay = (date?: Date): string => (date ? new Date(date).toISOString().slice(0, 10) : "");
+
+/**
+ * Aging report as CSV, one row per customer and a totals row
+ */
+export const renderAgingCsv = (report: ReceivablesAgingReport): string => {
+  const header = [
+    "Customer",
+    "Phone",
+    "Current",
+    "1-30 Days",
+    "31-60 Days",
+    "61-90 Days",
+    "90+ Days",
+    "Total",
+    "Tickets",
+    "Oldest Due Date",
+  ];
+  const rows = report.customers.map((row) => [
+    row.customerName,
+    row.customerPhone,
+    ...AGING_BUCKETS.map((bucket) => row.buckets[bucket]),
+    row.total,
+    row.ticketCount,
+    formatDay(row.oldestDueDate),
+  ]);
+  const totals = [
+    "Total",
+    "",
+    ...AGING_BUCKETS.map((bucket) => report.totals[bucket]),
+    report.totals.total,
+    report.totals.ticketCount,
+    "",
+  ];
+
+  return toCsv([header, ...rows, totals]);
+};
+
+/**
+ * Customer statement as CSV
+ */
+export const renderStatementCsv = (statement: CustomerStatement): string => {
+  const header = ["Date", "Ticket", "Description", "Reference", "Charge", "Payment", "Balance"];
+  const opening = [formatDay(statement.startDate), "", "Opening balance", "", "", "", statement.openingBalance];
+  const rows = statement.entries.map((entry) => [
+    formatDay(entry.date),
+    entry.ticketNumber,
+    entry.description,
+    entry.reference,
+    entry.debit || "",
+    entry.credit || "",
+    entry.balance,
+  ]);
+  const closing = [
+    formatDay(statement.endDate),
+    "",
+    "Closing balance",
+    "",
+    statement.totalCharges,
+    statement.totalPayments,
+    statement.closingBalance,
+  ];
+
+  return toCsv([header, opening, ...rows, closing]);
+};
+
+/**
+ * Printable A4 customer statement
+ */
+export const renderStatementHtml = (statement: CustomerStatement): string => {
+  const { customer } = statement;
+  const period = statement.startDate
+    ? `${formatDay(statement.startDate)} to ${formatDay(statement.endDate)}`
+    : `Up to ${formatDay(statement.endDate)}`;
+
+  const rows = statement.entries
+    .map(
+      (entry) => `<tr>
+<td>${formatDay(entry.date)}</td>
+<td>${escapeHtml(entry.ticketNumber)}</td>
+<td>${escapeHtml(entry.description)}${entry.reference ? ` <span class="muted">(${escapeHtml(entry.reference)})</span>` : ""}</td>
+<td class="amount">${entry.debit ? formatCurrency(entry.debit) : ""}</td>
+<td class="amount">${entry.credit ? formatCurrency(entry.credit) : ""}</td>
+<td class="amount">${formatCurrency(entry.balance)}</td>
+</tr>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Statement - ${escapeHtml(customer.name)}</title>
+<style>
+  @page { size: A4; margin: 15mm; }
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 12px; color: #000; }
+  h1 { font-size: 18px; margin: 0; }
+  h2 { font-size: 14px; margin: 16px 0 4px; }
+  p { margin: 2px 0; }
+  .header { display: flex; justify-content: space-between; }
+  table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #ccc; text-align: left; vertical-align: top; }
+  th { border-bottom: 2px solid #000; }
+  .amount { text-align: right; white-space: nowrap; }
+  .muted { color: #555; }
+  .strong td { font-weight: bold; border-top: 2px solid #000; }
+</style>
+</head>
+<body>
+<div class="header">
+<div>
+<h1>${escapeHtml(statement.shopName)}</h1>
+${statement.shopAddress ? `<p>${escapeHtml(statement.shopAddress)}</p>` : ""}
+${statement.shopPhone ? `<p>Tel: ${escapeHtml(statement.shopPhone)}</p>` : ""}
+</div>
+<div>
+<h2>Statement of Account</h2>
+<p>${escapeHtml(period)}</p>
+</div>
+</div>
+<h2>${escapeHtml(customer.name)}</h2>
+<p>${escapeHtml(customer.phone)}</p>
+${customer.address ? `<p>${escapeHtml(customer.address)}</p>` : ""}
+<table>
+<thead>
+<tr><th>Date</th><th>Ticket</th><th>Description</th><th class="amount">Charge</th><th class="amount">Payment</th><th class="amount">Balance</th></tr>
+</thead>
+<tbody>
+<tr><td>${formatDay(statement.startDate)}</td><td></td><td>Opening balance</td><td></td><td></td><td class="amount">${formatCurrency(statement.openingBalance)}</td></tr>
+${rows}
+<tr class="strong"><td>${formatDay(statement.endDate)}</td><td></td><td>Closing balance</td><td class="amount">${formatCurrency(statement.totalCharges)}</td><td class="amount">${formatCurrency(statement.totalPayments)}</td><td class="amount">${formatCurrency(statement.closingBalance)}</td></tr>
+</tbody>
+</table>
+</body>
+</html>`;
+};
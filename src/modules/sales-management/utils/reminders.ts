@@ -0,0 +1,98 @@
+import { IReminderSettings } from "../../auth/models/shop";
+import { CreditReminderKind, ITicket } from "../types";
+import { formatCurrency } from "./calculations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_REMINDERS: IReminderSettings = {
+  enabled: false,
+  daysBefore: [3],
+  daysAfter: [1, 7],
+  quietHoursStart: "21:00",
+  quietHoursEnd: "08:00",
+};
+
+/**
+ * Reminder settings with defaults filled in for shops that never saved any
+ */
+export const resolveReminderSettings = (
+  settings?: Partial<IReminderSettings> | null
+): IReminderSettings => ({
+  ...DEFAULT_REMINDERS,
+  ...(settings || {}),
+});
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether `now` falls in the quiet hours. Quiet hours may run past
+ * midnight, e.g. 21:00 to 08:00. Equal start and end mean none.
+ */
+export const isQuietHours = (now: Date, start: string, end: string): boolean => {
+  const current = now.getHours() * 60 + now.getMinutes();
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+
+  if (from === to) return false;
+  if (from < to) return current >= from && current < to;
+  return current >= from || current < to;
+};
+
+// Calendar days from today to the due date; negative once it has passed
+export const getDaysUntilDue = (dueDate: Date, now: Date): number => {
+  const due = new Date(dueDate);
+  due.setHours(0, 0, 0, 0);
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return Math.round((due.getTime() - today.getTime()) / DAY_MS);
+};
+
+/**
+ * Scheduled reminder a ticket is due for today, if any. offsetDays is
+ * negative before the due date and positive after it.
+ */
+export const getScheduledReminder = (
+  dueDate: Date,
+  settings: IReminderSettings,
+  now: Date
+): { kind: CreditReminderKind; offsetDays: number } | null => {
+  const daysUntilDue = getDaysUntilDue(dueDate, now);
+
+  if (daysUntilDue >= 0 && settings.daysBefore.includes(daysUntilDue)) {
+    return { kind: "before_due", offsetDays: -daysUntilDue };
+  }
+  if (daysUntilDue <= 0 && settings.daysAfter.includes(-daysUntilDue)) {
+    return { kind: "after_due", offsetDays: -daysUntilDue };
+  }
+  return null;
+};
+
+/**
+ * Text of a reminder with the customer's balance and the shop's name
+ */
+export const buildReminderMessage = (
+  ticket: Pick<ITicket, "ticketNumber" | "customerName" | "amountOwed" | "dueDate">,
+  shopName: string,
+  now: Date
+): string => {
+  const greeting = ticket.customerName ? `Hello ${ticket.customerName}` : "Hello";
+  const balance = formatCurrency(ticket.amountOwed);
+
+  if (!ticket.dueDate) {
+    return `${greeting}, this is a reminder from ${shopName} that you have a balance of ${balance} on ticket ${ticket.ticketNumber}. Thank you.`;
+  }
+
+  const dueOn = new Date(ticket.dueDate).toISOString().slice(0, 10);
+  const daysUntilDue = getDaysUntilDue(ticket.dueDate, now);
+
+  if (daysUntilDue > 0) {
+    return `${greeting}, this is a reminder from ${shopName} that your balance of ${balance} on ticket ${ticket.ticketNumber} is due on ${dueOn}. Thank you.`;
+  }
+  if (daysUntilDue === 0) {
+    return `${greeting}, this is a reminder from ${shopName} that your balance of ${balance} on ticket ${ticket.ticketNumber} is due today. Thank you.`;
+  }
+  return `${greeting}, this is a reminder from ${shopName} that your balance of ${balance} on ticket ${ticket.ticketNumber} was due on ${dueOn} and is ${-daysUntilDue} day(s) overdue. Please pay at your earliest convenience.`;
+};
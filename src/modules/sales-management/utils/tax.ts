@@ -0,0 +1,43 @@
+import { ITaxSettings } from "../../auth/models/shop";
+
+/**
+ * Tax settings used when a shop has not configured tax (no tax charged)
+ */
+export const DEFAULT_TAX_SETTINGS: ITaxSettings = {
+  enabled: false,
+  rate: 0,
+  pricesIncludeTax: false,
+  exemptCategories: [],
+  classes: [],
+};
+
+/**
+ * Merge stored settings over the defaults (older shops have no tax settings)
+ */
+export const resolveTaxSettings = (settings?: Partial<ITaxSettings> | null): ITaxSettings => ({
+  ...DEFAULT_TAX_SETTINGS,
+  ...(settings || {}),
+});
+
+/**
+ * Tax rate (percent) for an inventory item under the shop's tax settings.
+ * Exempt categories and the "exempt" class pay no tax, a named class uses
+ * its own rate, anything else uses the standard rate.
+ */
+export const getTaxRateForItem = (
+  settings: ITaxSettings,
+  item: { category: string; taxClass?: string }
+): number => {
+  if (!settings.enabled) return 0;
+
+  const taxClass = (item.taxClass || "standard").toLowerCase();
+  if (taxClass === "exempt") return 0;
+
+  const category = item.category.toLowerCase();
+  if (settings.exemptCategories.some((exempt) => exempt.toLowerCase() === category)) {
+    return 0;
+  }
+
+  const namedClass = settings.classes.find((entry) => entry.name === taxClass);
+  return namedClass ? namedClass.rate : settings.rate;
+};
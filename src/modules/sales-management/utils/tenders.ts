@@ -0,0 +1,63 @@
+import { ITicket, ITicketTender } from "../types";
+
+/**
+ * Ticket-level payment method for a set of tenders: the tender type when
+ * there is only one, "mixed" otherwise. Exchange tenders are ignored.
+ */
+export const getPaymentMethodForTenders = (
+  tenders: ITicketTender[]
+): ITicket["paymentMethod"] | undefined => {
+  const types = new Set(
+    tenders.filter((tender) => tender.type !== "exchange").map((tender) => tender.type)
+  );
+  if (types.size === 0) return undefined;
+  if (types.size > 1) return "mixed";
+  return [...types][0] as ITicket["paymentMethod"];
+};
+
+/**
+ * Aggregation stages breaking ticket revenue down by tender type.
+ * Tickets created before tenders existed count their whole amount under
+ * their payment method. Tender amounts are scaled to the ticket's net
+ * total so the breakdown stays in step with revenue after returns.
+ */
+export const tenderBreakdownStages = (): any[] => [
+  {
+    $addFields: {
+      grossAmount: { $add: ["$totalAmount", { $ifNull: ["$totalRefunded", 0] }] },
+    },
+  },
+  {
+    $project: {
+      tenders: {
+        $cond: [
+          { $gt: [{ $size: { $ifNull: ["$tenders", []] } }, 0] },
+          "$tenders",
+          [{ type: "$paymentMethod", amount: "$grossAmount" }],
+        ],
+      },
+      netRatio: {
+        $cond: [
+          { $gt: ["$grossAmount", 0] },
+          { $divide: ["$totalAmount", "$grossAmount"] },
+          0,
+        ],
+      },
+    },
+  },
+  { $unwind: "$tenders" },
+  {
+    $group: {
+      _id: { type: "$tenders.type", ticket: "$_id" },
+      amount: { $sum: { $multiply: ["$tenders.amount", "$netRatio"] } },
+    },
+  },
+  {
+    $group: {
+      _id: "$_id.type",
+      count: { $sum: 1 },
+      amount: { $sum: "$amount" },
+    },
+  },
+  { $sort: { amount: -1 } },
+];
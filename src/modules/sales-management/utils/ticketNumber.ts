@@ -0,0 +1,96 @@
+import {
+  ITicketNumberingSettings,
+  TicketDateSegment,
+  TicketResetPeriod,
+} from "../../auth/models/shop";
+
+/**
+ * Numbering used when a shop has not configured a format.
+ * Produces the legacy "0001", "0002", ... sequence.
+ */
+export const DEFAULT_TICKET_NUMBERING: ITicketNumberingSettings = {
+  prefix: "",
+  separator: "-",
+  dateSegment: "none",
+  padding: 4,
+  resetPeriod: "never",
+};
+
+const pad = (value: number, length: number): string => String(value).padStart(length, "0");
+
+/**
+ * Merge stored settings over the defaults (older shops have no settings)
+ */
+export const resolveTicketNumbering = (
+  settings?: Partial<ITicketNumberingSettings> | null
+): ITicketNumberingSettings => ({
+  ...DEFAULT_TICKET_NUMBERING,
+  ...(settings || {}),
+});
+
+/**
+ * Counter bucket a ticket belongs to. Each bucket has its own sequence,
+ * so "yearly" restarts at 1 every January and "daily" every midnight.
+ */
+export const getCounterPeriod = (resetPeriod: TicketResetPeriod, date: Date): string => {
+  if (resetPeriod === "yearly") {
+    return String(date.getFullYear());
+  }
+  if (resetPeriod === "daily") {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1, 2)}-${pad(date.getDate(), 2)}`;
+  }
+  return "all";
+};
+
+const formatDateSegment = (segment: TicketDateSegment, date: Date): string => {
+  const year = String(date.getFullYear());
+  const month = pad(date.getMonth() + 1, 2);
+  const day = pad(date.getDate(), 2);
+
+  switch (segment) {
+    case "YYYY":
+      return year;
+    case "YYYYMM":
+      return `${year}${month}`;
+    case "YYYYMMDD":
+      return `${year}${month}${day}`;
+    default:
+      return "";
+  }
+};
+
+/**
+ * Build a printable ticket number, e.g. LAG-2026-000123
+ */
+export const formatTicketNumber = (
+  settings: ITicketNumberingSettings,
+  sequence: number,
+  date: Date
+): string => getTicketNumberStem(settings, date) + pad(sequence, settings.padding);
+
+/**
+ * Everything in a ticket number before the sequence, e.g. "LAG-2026-"
+ */
+export const getTicketNumberStem = (settings: ITicketNumberingSettings, date: Date): string => {
+  const parts = [settings.prefix, formatDateSegment(settings.dateSegment, date)].filter(
+    (part) => part.length > 0
+  );
+
+  return parts.length > 0 ? parts.join(settings.separator) + settings.separator : "";
+};
+
+/**
+ * A reset period only keeps numbers unique if the date segment
+ * is at least as specific as the period being reset
+ */
+export const isNumberingFormatUnique = (
+  settings: Pick<ITicketNumberingSettings, "dateSegment" | "resetPeriod">
+): boolean => {
+  if (settings.resetPeriod === "yearly") {
+    return settings.dateSegment !== "none";
+  }
+  if (settings.resetPeriod === "daily") {
+    return settings.dateSegment === "YYYYMMDD";
+  }
+  return true;
+};
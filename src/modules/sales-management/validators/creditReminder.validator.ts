@@ -0,0 +1,41 @@
+import { param, query } from "express-validator";
+
+const shopIdParam = () =>
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format");
+
+const ticketIdParam = () =>
+  param("ticketId")
+    .trim()
+    .notEmpty()
+    .withMessage("Ticket ID is required")
+    .isMongoId()
+    .withMessage("Invalid ticket ID format");
+
+// Ticket reminder validation (send or list)
+export const ticketReminderValidation = [shopIdParam(), ticketIdParam()];
+
+// Reminder log validation
+export const getCreditRemindersValidation = [
+  shopIdParam(),
+  query("status")
+    .optional()
+    .isIn(["sent", "failed"])
+    .withMessage("Invalid status. Must be: sent or failed"),
+  query("kind")
+    .optional()
+    .isIn(["before_due", "after_due", "manual"])
+    .withMessage("Invalid kind. Must be: before_due, after_due, or manual"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
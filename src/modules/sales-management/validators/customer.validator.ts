@@ -0,0 +1,200 @@
+import { body, param, query } from "express-validator";
+
+const shopIdParam = () =>
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format");
+
+const customerIdParam = () =>
+  param("customerId")
+    .trim()
+    .notEmpty()
+    .withMessage("Customer ID is required")
+    .isMongoId()
+    .withMessage("Invalid customer ID format");
+
+// Contact fields shared by create and update
+const customerDetailsValidation = [
+  body("email")
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage("Invalid email address"),
+  body("address")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Address cannot exceed 500 characters"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+  body("creditLimit")
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage("Credit limit must be a positive number, or null for the shop default"),
+];
+
+// Create customer validation
+export const createCustomerValidation = [
+  shopIdParam(),
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Customer name is required")
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Customer name must be between 2 and 100 characters"),
+  body("phone")
+    .trim()
+    .notEmpty()
+    .withMessage("Phone number is required")
+    .matches(/^\+?[0-9]{10,15}$/)
+    .withMessage("Invalid phone number format"),
+  ...customerDetailsValidation,
+];
+
+// Update customer validation
+export const updateCustomerValidation = [
+  shopIdParam(),
+  customerIdParam(),
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Customer name must be between 2 and 100 characters"),
+  body("phone")
+    .optional()
+    .trim()
+    .matches(/^\+?[0-9]{10,15}$/)
+    .withMessage("Invalid phone number format"),
+  ...customerDetailsValidation,
+];
+
+// List / search customers validation
+export const getCustomersValidation = [
+  shopIdParam(),
+  query("search")
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Search term must be between 1 and 100 characters"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+// Single customer validation
+export const customerIdValidation = [shopIdParam(), customerIdParam()];
+
+// Customer statement validation
+export const customerStatementValidation = [
+  shopIdParam(),
+  customerIdParam(),
+  query("startDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid start date format. Use ISO 8601 format"),
+  query("endDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid end date format. Use ISO 8601 format"),
+  query("format")
+    .optional()
+    .isIn(["json", "csv", "html"])
+    .withMessage("Invalid format. Must be: json, csv, or html"),
+];
+
+// Merge customers validation
+export const mergeCustomersValidation = [
+  shopIdParam(),
+  customerIdParam(),
+  body("duplicateIds")
+    .isArray({ min: 1, max: 20 })
+    .withMessage("Duplicate IDs must be a list of 1 to 20 customers"),
+  body("duplicateIds.*")
+    .isMongoId()
+    .withMessage("Invalid customer ID format"),
+];
+
+// Record customer payment validation
+export const recordCustomerPaymentValidation = [
+  shopIdParam(),
+  customerIdParam(),
+  body("amount")
+    .notEmpty()
+    .withMessage("Payment amount is required")
+    .isFloat({ min: 0.01 })
+    .withMessage("Payment amount must be greater than 0"),
+  body("paymentMethod")
+    .trim()
+    .notEmpty()
+    .withMessage("Payment method is required")
+    .isIn(["cash", "transfer"])
+    .withMessage("Invalid payment method. Must be: cash or transfer"),
+  body("receivedBy")
+    .trim()
+    .notEmpty()
+    .withMessage("Received by is required")
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+  body("ticketIds")
+    .optional()
+    .isArray({ min: 1, max: 50 })
+    .withMessage("Ticket IDs must be a list of 1 to 50 tickets"),
+  body("ticketIds.*")
+    .isMongoId()
+    .withMessage("Invalid ticket ID format"),
+  body("transactionReference")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Transaction reference cannot exceed 100 characters"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+];
+
+// List customer payments validation
+export const getCustomerPaymentsValidation = [
+  shopIdParam(),
+  customerIdParam(),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+// Customer payment receipt validation
+export const customerPaymentReceiptValidation = [
+  shopIdParam(),
+  customerIdParam(),
+  param("paymentId")
+    .trim()
+    .notEmpty()
+    .withMessage("Payment ID is required")
+    .isMongoId()
+    .withMessage("Invalid payment ID format"),
+  query("format")
+    .optional()
+    .isIn(["html", "text", "escpos"])
+    .withMessage("Invalid receipt format. Must be: html, text, or escpos"),
+  query("paperWidth")
+    .optional()
+    .isIn(["58mm", "80mm"])
+    .withMessage("Paper width must be 58mm or 80mm"),
+];
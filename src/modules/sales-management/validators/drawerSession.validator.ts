@@ -0,0 +1,135 @@
+import { body, param, query } from "express-validator";
+
+const shopIdParam = () =>
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format");
+
+const sessionIdParam = () =>
+  param("sessionId")
+    .trim()
+    .notEmpty()
+    .withMessage("Session ID is required")
+    .isMongoId()
+    .withMessage("Invalid session ID format");
+
+// Open drawer validation
+export const openDrawerValidation = [
+  shopIdParam(),
+  body("staffId")
+    .trim()
+    .notEmpty()
+    .withMessage("Staff ID is required")
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+  body("openingFloat")
+    .notEmpty()
+    .withMessage("Opening float is required")
+    .isFloat({ min: 0 })
+    .withMessage("Opening float cannot be negative"),
+  body("registerName")
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Register name cannot exceed 50 characters"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+];
+
+// List drawer sessions validation
+export const getDrawerSessionsValidation = [
+  shopIdParam(),
+  query("status")
+    .optional()
+    .isIn(["open", "closed"])
+    .withMessage("Invalid status. Must be: open or closed"),
+  query("staffId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+  query("startDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid start date format"),
+  query("endDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid end date format"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+// Single drawer session validation
+export const drawerSessionIdValidation = [shopIdParam(), sessionIdParam()];
+
+// Pay-in / pay-out validation
+export const drawerMovementValidation = [
+  shopIdParam(),
+  sessionIdParam(),
+  body("type")
+    .trim()
+    .notEmpty()
+    .withMessage("Movement type is required")
+    .isIn(["pay_in", "pay_out"])
+    .withMessage("Invalid movement type. Must be: pay_in or pay_out"),
+  body("amount")
+    .notEmpty()
+    .withMessage("Amount is required")
+    .isFloat({ min: 0.01 })
+    .withMessage("Amount must be greater than 0"),
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Reason is required")
+    .isLength({ min: 3, max: 200 })
+    .withMessage("Reason must be between 3 and 200 characters"),
+  body("recordedBy")
+    .trim()
+    .notEmpty()
+    .withMessage("Recorded by is required")
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+];
+
+// Close drawer validation
+export const closeDrawerValidation = [
+  shopIdParam(),
+  sessionIdParam(),
+  body("countedCash")
+    .notEmpty()
+    .withMessage("Counted cash is required")
+    .isFloat({ min: 0 })
+    .withMessage("Counted cash cannot be negative"),
+  body("closedBy")
+    .trim()
+    .notEmpty()
+    .withMessage("Closed by is required")
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+];
+
+// Z report validation
+export const zReportValidation = [
+  shopIdParam(),
+  query("date")
+    .optional()
+    .matches(/^\d{4}-\d{2}-\d{2}$/)
+    .withMessage("Invalid date format. Use YYYY-MM-DD"),
+];
@@ -0,0 +1,35 @@
+import { body, param } from "express-validator";
+
+const shopIdParam = () =>
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format");
+
+// Apply late fees validation
+export const applyLateFeesValidation = [shopIdParam()];
+
+// Waive late fee validation
+export const waiveLateFeeValidation = [
+  shopIdParam(),
+  param("ticketId")
+    .trim()
+    .notEmpty()
+    .withMessage("Ticket ID is required")
+    .isMongoId()
+    .withMessage("Invalid ticket ID format"),
+  param("chargeId")
+    .trim()
+    .notEmpty()
+    .withMessage("Late fee ID is required")
+    .isMongoId()
+    .withMessage("Invalid late fee ID format"),
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Waiver reason is required")
+    .isLength({ min: 3, max: 500 })
+    .withMessage("Waiver reason must be between 3 and 500 characters"),
+];
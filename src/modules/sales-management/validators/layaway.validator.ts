@@ -0,0 +1,190 @@
+import { body, param, query } from "express-validator";
+
+const shopIdParam = () =>
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format");
+
+const layawayIdParam = () =>
+  param("layawayId")
+    .trim()
+    .notEmpty()
+    .withMessage("Layaway ID is required")
+    .isMongoId()
+    .withMessage("Invalid layaway ID format");
+
+// Open layaway validation
+export const createLayawayValidation = [
+  shopIdParam(),
+  body("items")
+    .isArray({ min: 1 })
+    .withMessage("At least one item is required"),
+  body("items.*.itemId")
+    .trim()
+    .notEmpty()
+    .withMessage("Item ID is required")
+    .isMongoId()
+    .withMessage("Invalid item ID format"),
+  body("items.*.quantity")
+    .isInt({ min: 1, max: 10000 })
+    .withMessage("Quantity must be between 1 and 10,000")
+    .toInt(),
+  body("items.*.discount")
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage("Discount must be between 0 and 50 percent"),
+  body("items.*.sellingPrice")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Selling price must be a positive number"),
+  body("soldBy")
+    .trim()
+    .notEmpty()
+    .withMessage("Sold by is required")
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+  body("customerId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid customer ID format"),
+  body("customerName")
+    .if(body("customerId").not().exists())
+    .trim()
+    .notEmpty()
+    .withMessage("Customer name is required for layaways")
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Customer name must be between 2 and 100 characters"),
+  body("customerPhone")
+    .if(body("customerId").not().exists())
+    .trim()
+    .notEmpty()
+    .withMessage("Customer phone is required for layaways")
+    .matches(/^\+?[0-9]{10,15}$/)
+    .withMessage("Invalid phone number format"),
+  body("customerAddress")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Customer address cannot exceed 500 characters"),
+  body("deposit")
+    .notEmpty()
+    .withMessage("Deposit is required")
+    .isFloat({ min: 0.01 })
+    .withMessage("Deposit must be greater than 0"),
+  body("paymentMethod")
+    .trim()
+    .notEmpty()
+    .withMessage("Payment method is required")
+    .isIn(["cash", "transfer"])
+    .withMessage("Invalid payment method. Must be: cash or transfer"),
+  body("transactionReference")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Transaction reference cannot exceed 100 characters"),
+  body("dueDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid due date format. Use ISO 8601 format")
+    .custom((value) => {
+      const dueDate = new Date(value);
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      if (dueDate < today) {
+        throw new Error("Due date cannot be in the past");
+      }
+      return true;
+    }),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+];
+
+// List layaways validation
+export const getLayawaysValidation = [
+  shopIdParam(),
+  query("status")
+    .optional()
+    .isIn(["active", "completed", "cancelled"])
+    .withMessage("Invalid status. Must be: active, completed, or cancelled"),
+  query("customerId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid customer ID format"),
+  query("overdue")
+    .optional()
+    .isBoolean()
+    .withMessage("overdue must be a boolean"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+// Single layaway validation
+export const layawayIdValidation = [shopIdParam(), layawayIdParam()];
+
+// Layaway installment validation
+export const recordLayawayPaymentValidation = [
+  shopIdParam(),
+  layawayIdParam(),
+  body("amount")
+    .notEmpty()
+    .withMessage("Payment amount is required")
+    .isFloat({ min: 0.01 })
+    .withMessage("Payment amount must be greater than 0"),
+  body("paymentMethod")
+    .trim()
+    .notEmpty()
+    .withMessage("Payment method is required")
+    .isIn(["cash", "transfer"])
+    .withMessage("Invalid payment method. Must be: cash or transfer"),
+  body("receivedBy")
+    .trim()
+    .notEmpty()
+    .withMessage("Received by is required")
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+  body("transactionReference")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Transaction reference cannot exceed 100 characters"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+];
+
+// Cancel layaway validation
+export const cancelLayawayValidation = [
+  shopIdParam(),
+  layawayIdParam(),
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Cancellation reason is required")
+    .isLength({ min: 10, max: 500 })
+    .withMessage("Cancellation reason must be between 10 and 500 characters"),
+  body("cancelledBy")
+    .trim()
+    .notEmpty()
+    .withMessage("Cancelled by is required")
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+  body("refundMethod")
+    .optional()
+    .trim()
+    .isIn(["cash", "transfer"])
+    .withMessage("Invalid refund method. Must be: cash or transfer"),
+];
@@ -0,0 +1,163 @@
+import { body, param, query } from "express-validator";
+
+const PROMOTION_TYPES = [
+  "buy_x_get_y",
+  "fixed_amount",
+  "category_percent",
+  "happy_hour",
+  "ticket_threshold",
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const shopIdParam = () =>
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format");
+
+const promotionIdParam = () =>
+  param("promotionId")
+    .trim()
+    .notEmpty()
+    .withMessage("Promotion ID is required")
+    .isMongoId()
+    .withMessage("Invalid promotion ID format");
+
+// Rule fields shared by create and update
+const promotionRuleValidation = [
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description cannot exceed 500 characters"),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+  body("itemIds")
+    .optional()
+    .isArray({ max: 200 })
+    .withMessage("Item IDs must be an array of up to 200 items"),
+  body("itemIds.*")
+    .isMongoId()
+    .withMessage("Invalid item ID format"),
+  body("categories")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Categories must be an array of up to 50 categories"),
+  body("categories.*")
+    .trim()
+    .notEmpty()
+    .withMessage("Category cannot be empty")
+    .isLength({ max: 50 })
+    .withMessage("Category cannot exceed 50 characters"),
+  body("percentOff")
+    .optional()
+    .isFloat({ min: 0.01, max: 100 })
+    .withMessage("Percent off must be between 0.01 and 100"),
+  body("amountOff")
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage("Amount off must be greater than 0"),
+  body("buyQuantity")
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage("Buy quantity must be between 1 and 1,000"),
+  body("getQuantity")
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage("Free quantity must be between 1 and 1,000"),
+  body("minSpend")
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage("Minimum spend must be greater than 0"),
+  body("startDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid start date format. Use ISO 8601 format")
+    .toDate(),
+  body("endDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid end date format. Use ISO 8601 format")
+    .toDate(),
+  body("daysOfWeek")
+    .optional()
+    .isArray({ max: 7 })
+    .withMessage("Days of week must be an array of up to 7 days"),
+  body("daysOfWeek.*")
+    .isInt({ min: 0, max: 6 })
+    .withMessage("Days of week must be between 0 (Sunday) and 6 (Saturday)")
+    .toInt(),
+  body("startTime")
+    .optional()
+    .matches(TIME_PATTERN)
+    .withMessage("Start time must be in HH:mm format"),
+  body("endTime")
+    .optional()
+    .matches(TIME_PATTERN)
+    .withMessage("End time must be in HH:mm format"),
+];
+
+// Create promotion validation
+export const createPromotionValidation = [
+  shopIdParam(),
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Promotion name is required")
+    .isLength({ max: 100 })
+    .withMessage("Promotion name cannot exceed 100 characters"),
+  body("type")
+    .trim()
+    .notEmpty()
+    .withMessage("Promotion type is required")
+    .isIn(PROMOTION_TYPES)
+    .withMessage(`Invalid promotion type. Must be one of: ${PROMOTION_TYPES.join(", ")}`),
+  ...promotionRuleValidation,
+];
+
+// Update promotion validation
+export const updatePromotionValidation = [
+  shopIdParam(),
+  promotionIdParam(),
+  body("name")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Promotion name cannot be empty")
+    .isLength({ max: 100 })
+    .withMessage("Promotion name cannot exceed 100 characters"),
+  body("type")
+    .not()
+    .exists()
+    .withMessage("Promotion type cannot be changed"),
+  ...promotionRuleValidation,
+];
+
+// List promotions validation
+export const getPromotionsValidation = [
+  shopIdParam(),
+  query("type")
+    .optional()
+    .isIn(PROMOTION_TYPES)
+    .withMessage("Invalid promotion type"),
+  query("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+// Single promotion validation
+export const promotionIdValidation = [shopIdParam(), promotionIdParam()];
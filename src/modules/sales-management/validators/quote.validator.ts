@@ -0,0 +1,225 @@
+import { body, param, query } from "express-validator";
+
+const shopIdParam = () =>
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format");
+
+const quoteIdParam = () =>
+  param("quoteId")
+    .trim()
+    .notEmpty()
+    .withMessage("Quote ID is required")
+    .isMongoId()
+    .withMessage("Invalid quote ID format");
+
+// Items, customer and validity fields shared by create and update
+const quoteDetailsValidation = [
+  body("items.*.itemId")
+    .trim()
+    .notEmpty()
+    .withMessage("Item ID is required")
+    .isMongoId()
+    .withMessage("Invalid item ID format"),
+  body("items.*.quantity")
+    .isInt({ min: 1, max: 10000 })
+    .withMessage("Quantity must be between 1 and 10,000")
+    .toInt(),
+  body("items.*.discount")
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage("Discount must be between 0 and 50 percent"),
+  body("items.*.sellingPrice")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Selling price must be a positive number"),
+  body("customerId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid customer ID format"),
+  body("customerName")
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Customer name must be between 2 and 100 characters"),
+  body("customerPhone")
+    .optional()
+    .trim()
+    .matches(/^\+?[0-9]{10,15}$/)
+    .withMessage("Invalid phone number format"),
+  body("customerAddress")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Customer address cannot exceed 500 characters"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+  body("validUntil")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid validity date format. Use ISO 8601 format")
+    .custom((value) => {
+      if (new Date(value) < new Date()) {
+        throw new Error("Validity date cannot be in the past");
+      }
+      return true;
+    }),
+];
+
+// Create quote validation
+export const createQuoteValidation = [
+  shopIdParam(),
+  body("items")
+    .isArray({ min: 1 })
+    .withMessage("At least one item is required"),
+  ...quoteDetailsValidation,
+];
+
+// Update quote validation
+export const updateQuoteValidation = [
+  shopIdParam(),
+  quoteIdParam(),
+  body("items")
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage("At least one item is required"),
+  ...quoteDetailsValidation,
+];
+
+// List quotes validation
+export const getQuotesValidation = [
+  shopIdParam(),
+  query("status")
+    .optional()
+    .isIn(["draft", "sent", "accepted", "expired"])
+    .withMessage("Invalid status. Must be: draft, sent, accepted, or expired"),
+  query("customerId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid customer ID format"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+// Single quote validation
+export const quoteIdValidation = [shopIdParam(), quoteIdParam()];
+
+// Print quote validation
+export const printQuoteValidation = [
+  shopIdParam(),
+  quoteIdParam(),
+  query("format")
+    .optional()
+    .isIn(["html", "text", "escpos"])
+    .withMessage("Invalid print format. Must be: html, text, or escpos"),
+  query("paperWidth")
+    .optional()
+    .isIn(["58mm", "80mm"])
+    .withMessage("Paper width must be 58mm or 80mm"),
+];
+
+// Convert quote validation. Customer details may come from the quote, so
+// the credit sale requirements are checked by createTicket.
+export const convertQuoteValidation = [
+  shopIdParam(),
+  quoteIdParam(),
+  body("soldBy")
+    .trim()
+    .notEmpty()
+    .withMessage("Sold by is required")
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+  body("paymentMethod")
+    .if(body("tenders").not().exists())
+    .trim()
+    .notEmpty()
+    .withMessage("Payment method is required")
+    .isIn(["cash", "transfer", "credit"])
+    .withMessage("Invalid payment method. Must be: cash, transfer, or credit"),
+  body("paymentMethod")
+    .if(body("tenders").exists())
+    .optional()
+    .trim()
+    .isIn(["cash", "transfer", "credit"])
+    .withMessage("Invalid payment method. Must be: cash, transfer, or credit"),
+  body("tenders")
+    .optional()
+    .isArray({ min: 1, max: 10 })
+    .withMessage("Tenders must be a list of 1 to 10 payments"),
+  body("tenders.*.type")
+    .trim()
+    .notEmpty()
+    .withMessage("Tender type is required")
+    .isIn(["cash", "transfer", "credit"])
+    .withMessage("Invalid tender type. Must be: cash, transfer, or credit"),
+  body("tenders.*.amount")
+    .isFloat({ min: 0.01 })
+    .withMessage("Tender amount must be greater than 0"),
+  body("tenders.*.reference")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Tender reference cannot exceed 100 characters"),
+  body("cashReceived")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Cash received must be a positive number"),
+  body("creditOverride")
+    .optional()
+    .isBoolean()
+    .withMessage("creditOverride must be a boolean"),
+  body("customerId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid customer ID format"),
+  body("customerName")
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Customer name must be between 2 and 100 characters"),
+  body("customerPhone")
+    .optional()
+    .trim()
+    .matches(/^\+?[0-9]{10,15}$/)
+    .withMessage("Invalid phone number format"),
+  body("customerAddress")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Customer address cannot exceed 500 characters"),
+  body("dueDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid due date format. Use ISO 8601 format")
+    .custom((value) => {
+      const dueDate = new Date(value);
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      if (dueDate < today) {
+        throw new Error("Due date cannot be in the past");
+      }
+      return true;
+    }),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+  body("transactionReference")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Transaction reference cannot exceed 100 characters"),
+];
@@ -22,7 +22,8 @@ export const createTicketValidation = [
   
   body("items.*.quantity")
     .isInt({ min: 1, max: 10000 })
-    .withMessage("Quantity must be between 1 and 10,000"),
+    .withMessage("Quantity must be between 1 and 10,000")
+    .toInt(),
   
   body("items.*.discount")
     .optional()
@@ -41,23 +42,70 @@ export const createTicketValidation = [
     .isMongoId()
     .withMessage("Invalid staff ID format"),
   
+  // Payment method - required unless the sale is split into tenders
   body("paymentMethod")
+    .if(body("tenders").not().exists())
     .trim()
     .notEmpty()
     .withMessage("Payment method is required")
     .isIn(["cash", "transfer", "credit"])
     .withMessage("Invalid payment method. Must be: cash, transfer, or credit"),
+  body("paymentMethod")
+    .if(body("tenders").exists())
+    .optional()
+    .trim()
+    .isIn(["cash", "transfer", "credit"])
+    .withMessage("Invalid payment method. Must be: cash, transfer, or credit"),
+  
+  // Split/mixed payments
+  body("tenders")
+    .optional()
+    .isArray({ min: 1, max: 10 })
+    .withMessage("Tenders must be a list of 1 to 10 payments"),
+  
+  body("tenders.*.type")
+    .trim()
+    .notEmpty()
+    .withMessage("Tender type is required")
+    .isIn(["cash", "transfer", "credit"])
+    .withMessage("Invalid tender type. Must be: cash, transfer, or credit"),
+  
+  body("tenders.*.amount")
+    .isFloat({ min: 0.01 })
+    .withMessage("Tender amount must be greater than 0"),
+  
+  body("tenders.*.reference")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Tender reference cannot exceed 100 characters"),
+  
+  body("cashReceived")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Cash received must be a positive number"),
+  
+  // Owner approval to go past the customer's credit limit or hold
+  body("creditOverride")
+    .optional()
+    .isBoolean()
+    .withMessage("creditOverride must be a boolean"),
   
-  // Customer name - required for credit sales
+  // Customer - an existing customer or a name and phone, required for credit sales
+  body("customerId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid customer ID format"),
   body("customerName")
     .if(body("paymentMethod").equals("credit"))
+    .if(body("customerId").not().exists())
     .trim()
     .notEmpty()
     .withMessage("Customer name is required for credit sales")
     .isLength({ min: 2, max: 100 })
     .withMessage("Customer name must be between 2 and 100 characters"),
   body("customerName")
-    .if(body("paymentMethod").not().equals("credit"))
+    .if((value, { req }) => req.body.paymentMethod !== "credit" || req.body.customerId)
     .optional()
     .trim()
     .isLength({ min: 2, max: 100 })
@@ -66,13 +114,14 @@ export const createTicketValidation = [
   // Customer phone - required for credit sales
   body("customerPhone")
     .if(body("paymentMethod").equals("credit"))
+    .if(body("customerId").not().exists())
     .trim()
     .notEmpty()
     .withMessage("Customer phone is required for credit sales")
     .matches(/^\+?[0-9]{10,15}$/)
     .withMessage("Invalid phone number format"),
   body("customerPhone")
-    .if(body("paymentMethod").not().equals("credit"))
+    .if((value, { req }) => req.body.paymentMethod !== "credit" || req.body.customerId)
     .optional()
     .trim()
     .matches(/^\+?[0-9]{10,15}$/)
@@ -179,6 +228,144 @@ export const refundTicketValidation = [
     .withMessage("Invalid staff ID format"),
 ];
 
+// Ticket return (partial refund) validation
+export const createTicketReturnValidation = [
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format"),
+  param("ticketId")
+    .trim()
+    .notEmpty()
+    .withMessage("Ticket ID is required")
+    .isMongoId()
+    .withMessage("Invalid ticket ID format"),
+  body("items")
+    .isArray({ min: 1 })
+    .withMessage("At least one item is required"),
+  body("items.*.itemId")
+    .trim()
+    .notEmpty()
+    .withMessage("Item ID is required")
+    .isMongoId()
+    .withMessage("Invalid item ID format"),
+  body("items.*.quantity")
+    .isInt({ min: 1, max: 10000 })
+    .withMessage("Quantity must be between 1 and 10,000")
+    .toInt(),
+  body("refundMethod")
+    .trim()
+    .notEmpty()
+    .withMessage("Refund method is required")
+    .isIn(["cash", "transfer"])
+    .withMessage("Invalid refund method. Must be: cash or transfer"),
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Return reason is required")
+    .isLength({ min: 10, max: 500 })
+    .withMessage("Return reason must be between 10 and 500 characters"),
+  body("processedBy")
+    .trim()
+    .notEmpty()
+    .withMessage("Processed by is required")
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+];
+
+// Ticket exchange validation
+export const createTicketExchangeValidation = [
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format"),
+  param("ticketId")
+    .trim()
+    .notEmpty()
+    .withMessage("Ticket ID is required")
+    .isMongoId()
+    .withMessage("Invalid ticket ID format"),
+  body("returnItems")
+    .isArray({ min: 1 })
+    .withMessage("At least one item to return is required"),
+  body("returnItems.*.itemId")
+    .trim()
+    .notEmpty()
+    .withMessage("Item ID is required")
+    .isMongoId()
+    .withMessage("Invalid item ID format"),
+  body("returnItems.*.quantity")
+    .isInt({ min: 1, max: 10000 })
+    .withMessage("Quantity must be between 1 and 10,000")
+    .toInt(),
+  body("newItems")
+    .isArray({ min: 1 })
+    .withMessage("At least one new item is required"),
+  body("newItems.*.itemId")
+    .trim()
+    .notEmpty()
+    .withMessage("Item ID is required")
+    .isMongoId()
+    .withMessage("Invalid item ID format"),
+  body("newItems.*.quantity")
+    .isInt({ min: 1, max: 10000 })
+    .withMessage("Quantity must be between 1 and 10,000")
+    .toInt(),
+  body("newItems.*.discount")
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage("Discount must be between 0 and 50 percent"),
+  body("newItems.*.sellingPrice")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Selling price must be a positive number"),
+  body("paymentMethod")
+    .trim()
+    .notEmpty()
+    .withMessage("Payment method is required")
+    .isIn(["cash", "transfer", "credit"])
+    .withMessage("Invalid payment method. Must be: cash, transfer, or credit"),
+  body("refundMethod")
+    .optional()
+    .trim()
+    .isIn(["cash", "transfer"])
+    .withMessage("Invalid refund method. Must be: cash or transfer"),
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Exchange reason is required")
+    .isLength({ min: 10, max: 500 })
+    .withMessage("Exchange reason must be between 10 and 500 characters"),
+  body("processedBy")
+    .trim()
+    .notEmpty()
+    .withMessage("Processed by is required")
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+  body("creditOverride")
+    .optional()
+    .isBoolean()
+    .withMessage("creditOverride must be a boolean"),
+  body("dueDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid due date format. Use ISO 8601 format"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+  body("transactionReference")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Transaction reference cannot exceed 100 characters"),
+];
+
 // Shop ID validation
 export const shopIdValidation = [
   param("shopId")
@@ -199,6 +386,30 @@ export const ticketIdValidation = [
     .withMessage("Invalid ticket ID format"),
 ];
 
+// Ticket receipt validation
+export const receiptValidation = [
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format"),
+  param("ticketId")
+    .trim()
+    .notEmpty()
+    .withMessage("Ticket ID is required")
+    .isMongoId()
+    .withMessage("Invalid ticket ID format"),
+  query("format")
+    .optional()
+    .isIn(["html", "text", "escpos"])
+    .withMessage("Invalid receipt format. Must be: html, text, or escpos"),
+  query("paperWidth")
+    .optional()
+    .isIn(["58mm", "80mm"])
+    .withMessage("Paper width must be 58mm or 80mm"),
+];
+
 // Get tickets list validation
 export const getTicketsValidation = [
   param("shopId")
@@ -221,7 +432,7 @@ export const getTicketsValidation = [
     .withMessage("Invalid staff ID format"),
   query("paymentMethod")
     .optional()
-    .isIn(["cash", "transfer", "credit"])
+    .isIn(["cash", "transfer", "credit", "mixed"])
     .withMessage("Invalid payment method"),
   query("includeRefunded")
     .optional()
@@ -233,8 +444,12 @@ export const getTicketsValidation = [
     .withMessage("isCredit must be a boolean"),
   query("creditStatus")
     .optional()
-    .isIn(["pending", "partial", "paid"])
-    .withMessage("Invalid credit status. Must be: pending, partial, or paid"),
+    .isIn(["pending", "partial", "paid", "written_off"])
+    .withMessage("Invalid credit status. Must be: pending, partial, paid, or written_off"),
+  query("customerId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid customer ID format"),
   query("page")
     .optional()
     .isInt({ min: 1 })
@@ -299,6 +514,28 @@ export const searchTicketsValidation = [
     .withMessage("Limit must be between 1 and 100"),
 ];
 
+// Write off credit validation
+export const writeOffCreditValidation = [
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format"),
+  param("ticketId")
+    .trim()
+    .notEmpty()
+    .withMessage("Ticket ID is required")
+    .isMongoId()
+    .withMessage("Invalid ticket ID format"),
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Write-off reason is required")
+    .isLength({ min: 10, max: 500 })
+    .withMessage("Write-off reason must be between 10 and 500 characters"),
+];
+
 // Record credit payment validation
 export const recordCreditPaymentValidation = [
   param("shopId")
@@ -352,8 +589,8 @@ export const getCreditTicketsValidation = [
     .withMessage("Invalid shop ID format"),
   query("creditStatus")
     .optional()
-    .isIn(["pending", "partial", "paid"])
-    .withMessage("Invalid credit status. Must be: pending, partial, or paid"),
+    .isIn(["pending", "partial", "paid", "written_off"])
+    .withMessage("Invalid credit status. Must be: pending, partial, paid, or written_off"),
   query("customerPhone")
     .optional()
     .trim()
@@ -385,6 +622,24 @@ export const getCreditTicketsValidation = [
     .withMessage("Sort order must be asc or desc"),
 ];
 
+// Receivables aging validation
+export const receivablesAgingValidation = [
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format"),
+  query("asOf")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid date format. Use ISO 8601 format"),
+  query("format")
+    .optional()
+    .isIn(["json", "csv"])
+    .withMessage("Invalid format. Must be: json or csv"),
+];
+
 // Customer phone validation
 export const customerPhoneValidation = [
   param("shopId")
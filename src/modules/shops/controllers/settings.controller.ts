@@ -0,0 +1,38 @@
+import { Response } from "express";
+import crypto from "crypto";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { getShopSettingsService, updateShopSettingsService } from "../services/settings.service";
+
+export const getShopSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { shopId } = req.params;
+
+  const settings = await getShopSettingsService(shopId);
+
+  res.status(200).json({
+    success: true,
+    data: settings,
+  });
+});
+
+export const updateShopSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { shopId } = req.params;
+  const { ticketNumbering, tax, drafts, receipt, credit, lateFees, reminders, quotes, layaway } = req.body;
+
+  const settings = await updateShopSettingsService(shopId, req.ip, crypto.randomUUID(), {
+    ticketNumbering,
+    tax,
+    drafts,
+    receipt,
+    credit,
+    lateFees,
+    reminders,
+    quotes,
+    layaway,
+  });
+
+  res.status(200).json({
+    success: true,
+    data: settings,
+  });
+});
@@ -0,0 +1,218 @@
+import { Request, Response, NextFunction } from "express";
+import { body, validationResult } from "express-validator";
+import { ValidationError } from "../../../shared/utils/AppError";
+
+export const validateUpdateShopSettings = [
+  body("ticketNumbering")
+    .optional()
+    .isObject()
+    .withMessage("ticketNumbering must be an object"),
+  body("ticketNumbering.prefix")
+    .optional()
+    .trim()
+    .isLength({ max: 10 })
+    .withMessage("Ticket prefix cannot exceed 10 characters")
+    .matches(/^[A-Za-z0-9]*$/)
+    .withMessage("Ticket prefix can only contain letters and numbers"),
+  body("ticketNumbering.separator")
+    .optional()
+    .isIn(["-", "/", ""])
+    .withMessage("Separator must be '-', '/' or empty"),
+  body("ticketNumbering.dateSegment")
+    .optional()
+    .isIn(["none", "YYYY", "YYYYMM", "YYYYMMDD"])
+    .withMessage("Date segment must be one of: none, YYYY, YYYYMM, YYYYMMDD"),
+  body("ticketNumbering.padding")
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage("Padding must be between 1 and 10 digits")
+    .toInt(),
+  body("ticketNumbering.resetPeriod")
+    .optional()
+    .isIn(["never", "yearly", "daily"])
+    .withMessage("Reset period must be one of: never, yearly, daily"),
+  body("tax")
+    .optional()
+    .isObject()
+    .withMessage("tax must be an object"),
+  body("tax.enabled")
+    .optional()
+    .isBoolean()
+    .withMessage("tax.enabled must be a boolean")
+    .toBoolean(),
+  body("tax.rate")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Tax rate must be between 0 and 100 percent")
+    .toFloat(),
+  body("tax.pricesIncludeTax")
+    .optional()
+    .isBoolean()
+    .withMessage("tax.pricesIncludeTax must be a boolean")
+    .toBoolean(),
+  body("tax.exemptCategories")
+    .optional()
+    .isArray({ max: 100 })
+    .withMessage("Exempt categories must be a list of at most 100 categories"),
+  body("tax.exemptCategories.*")
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage("Each exempt category must be between 2 and 50 characters"),
+  body("tax.classes")
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage("Tax classes must be a list of at most 20 classes"),
+  body("tax.classes.*.name")
+    .trim()
+    .isLength({ min: 1, max: 30 })
+    .withMessage("Tax class name must be between 1 and 30 characters")
+    .matches(/^[A-Za-z0-9_-]+$/)
+    .withMessage("Tax class name can only contain letters, numbers, hyphens and underscores"),
+  body("tax.classes.*.rate")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Tax class rate must be between 0 and 100 percent")
+    .toFloat(),
+  body("drafts")
+    .optional()
+    .isObject()
+    .withMessage("drafts must be an object"),
+  body("drafts.reservationMinutes")
+    .optional()
+    .isInt({ min: 1, max: 1440 })
+    .withMessage("Draft reservation time must be between 1 and 1440 minutes")
+    .toInt(),
+  body("receipt")
+    .optional()
+    .isObject()
+    .withMessage("receipt must be an object"),
+  body("receipt.footer")
+    .optional()
+    .isString()
+    .withMessage("Receipt footer must be text")
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Receipt footer cannot exceed 500 characters"),
+  body("receipt.paperWidth")
+    .optional()
+    .isIn(["58mm", "80mm"])
+    .withMessage("Receipt paper width must be 58mm or 80mm"),
+  body("credit")
+    .optional()
+    .isObject()
+    .withMessage("credit must be an object"),
+  body("credit.defaultLimit")
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage("Default credit limit must be a positive number, or null for no limit")
+    .toFloat(),
+  body("credit.holdOverdue")
+    .optional()
+    .isBoolean()
+    .withMessage("credit.holdOverdue must be a boolean")
+    .toBoolean(),
+  body("lateFees")
+    .optional()
+    .isObject()
+    .withMessage("lateFees must be an object"),
+  body("lateFees.enabled")
+    .optional()
+    .isBoolean()
+    .withMessage("lateFees.enabled must be a boolean")
+    .toBoolean(),
+  body("lateFees.type")
+    .optional()
+    .isIn(["flat", "percentage"])
+    .withMessage("Late fee type must be flat or percentage"),
+  body("lateFees.amount")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Late fee amount must be a positive number")
+    .toFloat(),
+  body("lateFees.periodDays")
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage("Late fee period must be between 1 and 365 days")
+    .toInt(),
+  body("lateFees.graceDays")
+    .optional()
+    .isInt({ min: 0, max: 365 })
+    .withMessage("Late fee grace period must be between 0 and 365 days")
+    .toInt(),
+  body("lateFees.cap")
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage("Late fee cap must be a positive number, or null for no cap")
+    .toFloat(),
+  body("reminders")
+    .optional()
+    .isObject()
+    .withMessage("reminders must be an object"),
+  body("reminders.enabled")
+    .optional()
+    .isBoolean()
+    .withMessage("reminders.enabled must be a boolean")
+    .toBoolean(),
+  body("reminders.daysBefore")
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage("Reminder days before the due date must be a list of up to 10 values"),
+  body("reminders.daysBefore.*")
+    .isInt({ min: 0, max: 365 })
+    .withMessage("Reminder days before the due date must be between 0 and 365")
+    .toInt(),
+  body("reminders.daysAfter")
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage("Reminder days after the due date must be a list of up to 10 values"),
+  body("reminders.daysAfter.*")
+    .isInt({ min: 0, max: 365 })
+    .withMessage("Reminder days after the due date must be between 0 and 365")
+    .toInt(),
+  body("reminders.quietHoursStart")
+    .optional()
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage("Quiet hours start must be in HH:mm format"),
+  body("reminders.quietHoursEnd")
+    .optional()
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage("Quiet hours end must be in HH:mm format"),
+  body("quotes")
+    .optional()
+    .isObject()
+    .withMessage("quotes must be an object"),
+  body("quotes.validityDays")
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage("Quote validity must be between 1 and 365 days")
+    .toInt(),
+  body("layaway")
+    .optional()
+    .isObject()
+    .withMessage("layaway must be an object"),
+  body("layaway.minDepositPercent")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Minimum layaway deposit must be between 0 and 100 percent")
+    .toFloat(),
+  body("layaway.termDays")
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage("Layaway term must be between 1 and 365 days")
+    .toInt(),
+  body("layaway.forfeitureType")
+    .optional()
+    .isIn(["flat", "percentage"])
+    .withMessage("Layaway forfeiture type must be flat or percentage"),
+  body("layaway.forfeitureAmount")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Layaway forfeiture amount must be a positive number")
+    .toFloat(),
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError(errors.array()[0].msg);
+    }
+    next();
+  },
+];
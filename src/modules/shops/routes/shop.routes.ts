@@ -1,9 +1,11 @@
 import { Router } from "express";
 import { getShopProfile, updateShopProfile } from "../controllers/shop.controller";
 import { submitKYC, updateKYC, getKYCStatus } from "../controllers/kyc.controller";
+import { getShopSettings, updateShopSettings } from "../controllers/settings.controller";
 import { authenticate, ownerOnly, verifyShopAccess } from "../../../shared/middleware/auth.middleware";
 import { validateShopId, validateUpdateShop } from "../middleware/shop.validation";
 import { validateSubmitKYC, validateUpdateKYC } from "../middleware/kyc.validation";
+import { validateUpdateShopSettings } from "../middleware/settings.validation";
 
 
 const router = Router()
@@ -59,5 +61,24 @@ router.get(
   getKYCStatus
 );
 
+// Shop settings (ticket numbering, tax, parked tickets, receipts, credit, late fees, reminders, quotes, layaway)
+router.get(
+  "/:shopId/settings",
+  authenticate,
+  verifyShopAccess,
+  validateShopId,
+  getShopSettings
+);
+
+router.patch(
+  "/:shopId/settings",
+  authenticate,
+  ownerOnly,
+  verifyShopAccess,
+  validateShopId,
+  validateUpdateShopSettings,
+  updateShopSettings
+);
+
 
 export { router as shopRouter };
\ No newline at end of file
@@ -0,0 +1,176 @@
+import Shop, {
+  ICreditSettings,
+  IDraftSettings,
+  ILateFeeSettings,
+  IReminderSettings,
+  IQuoteSettings,
+  ILayawaySettings,
+  IReceiptSettings,
+  IShopSettings,
+  ITaxSettings,
+  ITicketNumberingSettings,
+} from "../../auth/models/shop";
+import { logAuditEvent } from "../../auth/utils/auditLogger";
+import {
+  checkRateLimit,
+  resetRateLimit,
+  getShopUpdateAttemptsStore,
+} from "../../auth/utils/rateLimit";
+import { RateLimitError, ValidationError, NotFoundError } from "../../../shared/utils/AppError";
+import { isNumberingFormatUnique } from "../../sales-management/utils/ticketNumber";
+
+const SETTINGS_UPDATE_MAX_ATTEMPTS = 20;
+const SETTINGS_UPDATE_LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
+
+export interface UpdateShopSettingsInput {
+  ticketNumbering?: Partial<ITicketNumberingSettings>;
+  tax?: Partial<ITaxSettings>;
+  drafts?: Partial<IDraftSettings>;
+  receipt?: Partial<IReceiptSettings>;
+  credit?: Partial<ICreditSettings>;
+  lateFees?: Partial<ILateFeeSettings>;
+  reminders?: Partial<IReminderSettings>;
+  quotes?: Partial<IQuoteSettings>;
+  layaway?: Partial<ILayawaySettings>;
+}
+
+// Get shop settings (defaults are applied for shops that never saved any)
+export const getShopSettingsService = async (shopId: string): Promise<IShopSettings> => {
+  const shop = await Shop.findById(shopId).select("settings");
+  if (!shop) {
+    throw new NotFoundError("Shop not found");
+  }
+
+  return shop.settings as IShopSettings;
+};
+
+// Update shop settings, section by section
+export const updateShopSettingsService = async (
+  shopId: string,
+  ip: string | undefined,
+  requestId: string,
+  updateData: UpdateShopSettingsInput
+): Promise<IShopSettings> => {
+  const rateLimitKey = `shop:settings:update:${shopId}`;
+  const rateLimitResult = checkRateLimit(
+    rateLimitKey,
+    getShopUpdateAttemptsStore(),
+    SETTINGS_UPDATE_MAX_ATTEMPTS,
+    SETTINGS_UPDATE_LOCKOUT_DURATION
+  );
+
+  if (!rateLimitResult.allowed) {
+    const waitTime = Math.ceil((rateLimitResult.resetAt! - Date.now()) / 1000);
+    throw new RateLimitError(
+      `Too many settings update requests. Please try again in ${waitTime} seconds.`
+    );
+  }
+
+  const shop = await Shop.findById(shopId).select("settings");
+  if (!shop) {
+    throw new NotFoundError("Shop not found");
+  }
+
+  if (updateData.ticketNumbering) {
+    const current = shop.get("settings.ticketNumbering")?.toObject() || {};
+    const ticketNumbering = { ...current, ...updateData.ticketNumbering };
+
+    if (!isNumberingFormatUnique(ticketNumbering)) {
+      throw new ValidationError(
+        "Ticket numbers must include a date segment that covers the reset period " +
+          "(YYYY or finer for yearly resets, YYYYMMDD for daily resets)"
+      );
+    }
+
+    shop.set("settings.ticketNumbering", ticketNumbering);
+  }
+
+  if (updateData.tax) {
+    const current = shop.get("settings.tax")?.toObject() || {};
+    const tax = { ...current, ...updateData.tax };
+
+    const classNames = (tax.classes || []).map((taxClass: { name: string }) =>
+      taxClass.name.trim().toLowerCase()
+    );
+    if (new Set(classNames).size !== classNames.length) {
+      throw new ValidationError("Tax class names must be unique");
+    }
+    if (classNames.includes("standard") || classNames.includes("exempt")) {
+      throw new ValidationError("'standard' and 'exempt' are reserved tax class names");
+    }
+
+    shop.set("settings.tax", tax);
+  }
+
+  if (updateData.drafts) {
+    const current = shop.get("settings.drafts")?.toObject() || {};
+    shop.set("settings.drafts", { ...current, ...updateData.drafts });
+  }
+
+  if (updateData.receipt) {
+    const current = shop.get("settings.receipt")?.toObject() || {};
+    shop.set("settings.receipt", { ...current, ...updateData.receipt });
+  }
+
+  if (updateData.credit) {
+    const current = shop.get("settings.credit")?.toObject() || {};
+    shop.set("settings.credit", { ...current, ...updateData.credit });
+  }
+
+  if (updateData.lateFees) {
+    const current = shop.get("settings.lateFees")?.toObject() || {};
+    const lateFees = { ...current, ...updateData.lateFees };
+
+    if (lateFees.type === "percentage" && lateFees.amount > 100) {
+      throw new ValidationError("Percentage late fees cannot exceed 100%");
+    }
+
+    shop.set("settings.lateFees", lateFees);
+  }
+
+  if (updateData.reminders) {
+    const current = shop.get("settings.reminders")?.toObject() || {};
+    const reminders = { ...current, ...updateData.reminders };
+    for (const key of ["daysBefore", "daysAfter"] as const) {
+      if (updateData.reminders[key]) {
+        reminders[key] = [...new Set(updateData.reminders[key])].sort((a, b) => a - b);
+      }
+    }
+    shop.set("settings.reminders", reminders);
+  }
+
+  if (updateData.quotes) {
+    const current = shop.get("settings.quotes")?.toObject() || {};
+    shop.set("settings.quotes", { ...current, ...updateData.quotes });
+  }
+
+  if (updateData.layaway) {
+    const current = shop.get("settings.layaway")?.toObject() || {};
+    const layaway = { ...current, ...updateData.layaway };
+
+    if (layaway.forfeitureType === "percentage" && layaway.forfeitureAmount > 100) {
+      throw new ValidationError("Percentage layaway forfeiture cannot exceed 100%");
+    }
+
+    shop.set("settings.layaway", layaway);
+  }
+
+  await shop.save();
+
+  // The controller passes every section, so only log the ones actually sent
+  const updatedSections = Object.keys(updateData).filter(
+    (section) => updateData[section as keyof typeof updateData]
+  );
+
+  await logAuditEvent({
+    requestId,
+    action: "SHOP_SETTINGS_UPDATE",
+    ip,
+    shopId,
+    details: { updatedSections },
+  });
+
+  resetRateLimit(rateLimitKey, getShopUpdateAttemptsStore());
+
+  return shop.settings as IShopSettings;
+};
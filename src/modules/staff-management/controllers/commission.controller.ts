@@ -0,0 +1,226 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { CommissionService } from "../services/commission.service";
+import crypto from "crypto";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+
+const commissionService = new CommissionService();
+
+/**
+ * @route POST /staff/:shopId/commission-plans
+ * @desc Create a commission plan
+ */
+export const createCommissionPlan = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { name, basis, tiers, categoryRates } = req.body;
+
+  const plan = await commissionService.createPlan(
+    { shopId, name, basis, tiers, categoryRates },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: "Commission plan created successfully",
+    data: plan,
+  });
+});
+
+/**
+ * @route GET /staff/:shopId/commission-plans
+ * @desc Get commission plans for a shop
+ */
+export const getCommissionPlans = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { includeInactive = "false" } = req.query;
+
+  const plans = await commissionService.getPlans(shopId, includeInactive === "true", {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Commission plans retrieved successfully",
+    data: plans,
+  });
+});
+
+/**
+ * @route PUT /staff/:shopId/commission-plans/:planId
+ * @desc Update a commission plan
+ */
+export const updateCommissionPlan = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, planId } = req.params;
+  const { name, basis, tiers, categoryRates, isActive } = req.body;
+
+  const plan = await commissionService.updatePlan(
+    planId,
+    shopId,
+    { name, basis, tiers, categoryRates, isActive },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Commission plan updated successfully",
+    data: plan,
+  });
+});
+
+/**
+ * @route DELETE /staff/:shopId/commission-plans/:planId
+ * @desc Delete a commission plan no staff member is on
+ */
+export const deleteCommissionPlan = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, planId } = req.params;
+
+  await commissionService.deletePlan(planId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Commission plan deleted successfully",
+  });
+});
+
+/**
+ * @route PUT /staff/:shopId/:staffId/commission
+ * @desc Set a staff member's commission plan and sales targets
+ */
+export const assignCommission = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, staffId } = req.params;
+  const { commissionPlanId, dailyTarget, monthlyTarget } = req.body;
+
+  const staff = await commissionService.assignCommission(
+    staffId,
+    shopId,
+    { commissionPlanId, dailyTarget, monthlyTarget },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Staff commission updated successfully",
+    data: staff,
+  });
+});
+
+/**
+ * @route GET /staff/:shopId/commissions
+ * @desc Commission earned and target attainment per staff member for a period
+ */
+export const getCommissionReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { startDate, endDate, staffId } = req.query;
+
+  const report = await commissionService.getCommissionReport(
+    shopId,
+    {
+      startDate: startDate ? new Date(startDate as string) : undefined,
+      endDate: endDate ? new Date(endDate as string) : undefined,
+      staffId: staffId as string | undefined,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Commission report retrieved successfully",
+    data: report,
+  });
+});
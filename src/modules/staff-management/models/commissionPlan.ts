@@ -0,0 +1,83 @@
+import { Schema, model } from "mongoose";
+import { ICategoryCommissionRate, ICommissionPlan, ICommissionTier } from "../types";
+
+const commissionTierSchema = new Schema<ICommissionTier>(
+  {
+    minSales: {
+      type: Number,
+      required: true,
+      min: [0, "Tier threshold cannot be negative"],
+    },
+    rate: {
+      type: Number,
+      required: true,
+      min: [0, "Commission rate cannot be negative"],
+      max: [100, "Commission rate cannot exceed 100%"],
+    },
+  },
+  { _id: false }
+);
+
+const categoryCommissionRateSchema = new Schema<ICategoryCommissionRate>(
+  {
+    category: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    rate: {
+      type: Number,
+      required: true,
+      min: [0, "Commission rate cannot be negative"],
+      max: [100, "Commission rate cannot exceed 100%"],
+    },
+  },
+  { _id: false }
+);
+
+const commissionPlanSchema = new Schema<ICommissionPlan>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      minlength: 2,
+      maxlength: 100,
+    },
+    basis: {
+      type: String,
+      enum: ["revenue", "profit"],
+      required: true,
+    },
+    tiers: {
+      type: [commissionTierSchema],
+      validate: {
+        validator: (tiers: ICommissionTier[]) => tiers && tiers.length > 0,
+        message: "Commission plan must have at least one tier",
+      },
+    },
+    categoryRates: {
+      type: [categoryCommissionRateSchema],
+      default: [],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+commissionPlanSchema.index({ shopId: 1, name: 1 }, { unique: true });
+
+const CommissionPlan = model<ICommissionPlan>("CommissionPlan", commissionPlanSchema);
+
+export default CommissionPlan;
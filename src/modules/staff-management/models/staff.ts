@@ -51,6 +51,20 @@ const staffSchema = new Schema<IStaff>(
     lockoutUntil: {
       type: Date,
     },
+    commissionPlanId: {
+      type: Schema.Types.ObjectId,
+      ref: "CommissionPlan",
+    },
+    salesTargets: {
+      daily: {
+        type: Number,
+        min: [0, "Daily target cannot be negative"],
+      },
+      monthly: {
+        type: Number,
+        min: [0, "Monthly target cannot be negative"],
+      },
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,106 @@
+import CommissionPlan from "../models/commissionPlan";
+import Staff from "../models/staff";
+import Ticket from "../../sales-management/models/sales";
+import { CommissionSalesLine, ICommissionPlan } from "../types";
+import { Types } from "mongoose";
+
+export class CommissionRepository {
+  // Find commission plan by ID
+  async findById(planId: string): Promise<ICommissionPlan | null> {
+    return await CommissionPlan.findById(planId);
+  }
+
+  // Find commission plans for a shop
+  async findByShopId(shopId: string, includeInactive: boolean = false): Promise<ICommissionPlan[]> {
+    const query: any = { shopId: new Types.ObjectId(shopId) };
+    if (!includeInactive) {
+      query.isActive = true;
+    }
+    return await CommissionPlan.find(query).sort({ name: 1 });
+  }
+
+  // Find several commission plans of a shop
+  async findByIds(shopId: string, planIds: Types.ObjectId[]): Promise<ICommissionPlan[]> {
+    return await CommissionPlan.find({
+      shopId: new Types.ObjectId(shopId),
+      _id: { $in: planIds },
+    });
+  }
+
+  // Create commission plan
+  async create(data: Partial<ICommissionPlan>): Promise<ICommissionPlan> {
+    return await CommissionPlan.create(data);
+  }
+
+  // Update commission plan
+  async update(planId: string, updates: Partial<ICommissionPlan>): Promise<ICommissionPlan | null> {
+    return await CommissionPlan.findByIdAndUpdate(planId, updates, {
+      new: true,
+      runValidators: true,
+    });
+  }
+
+  // Delete commission plan
+  async delete(planId: string): Promise<void> {
+    await CommissionPlan.findByIdAndDelete(planId);
+  }
+
+  // Count staff on a commission plan
+  async countStaffOnPlan(shopId: string, planId: string): Promise<number> {
+    return await Staff.countDocuments({
+      shopId: new Types.ObjectId(shopId),
+      commissionPlanId: new Types.ObjectId(planId),
+    });
+  }
+
+  // Lines sold in a window, net of returns. Refunded tickets are left out
+  // altogether; line profit is reduced in proportion to the units returned.
+  async getSalesLines(
+    shopId: string,
+    start: Date,
+    end: Date,
+    staffIds?: Types.ObjectId[]
+  ): Promise<CommissionSalesLine[]> {
+    const match: any = {
+      shopId: new Types.ObjectId(shopId),
+      date: { $gte: start, $lt: end },
+      refunded: false,
+    };
+    if (staffIds) {
+      match.soldBy = { $in: staffIds };
+    }
+
+    return await Ticket.aggregate([
+      { $match: match },
+      { $unwind: "$items" },
+      {
+        $project: {
+          _id: 0,
+          ticketId: "$_id",
+          soldBy: 1,
+          date: 1,
+          category: "$items.itemCategory",
+          revenue: {
+            $subtract: ["$items.lineTotal", { $ifNull: ["$items.refundedAmount", 0] }],
+          },
+          profit: {
+            $multiply: [
+              "$items.lineProfit",
+              {
+                $subtract: [
+                  1,
+                  {
+                    $divide: [
+                      { $ifNull: ["$items.quantityReturned", 0] },
+                      { $max: ["$items.quantitySold", 1] },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    ]);
+  }
+}
@@ -1,6 +1,6 @@
 import Staff from "../models/staff";
 import { IStaff, StaffQueryOptions } from "../types";
-import { Types } from "mongoose";
+import { Types, UpdateQuery } from "mongoose";
 
 export class StaffRepository {
    // Find staff by ID
@@ -92,7 +92,7 @@ export class StaffRepository {
  //Update staff member
   async update(
     staffId: string,
-    updates: Partial<IStaff>
+    updates: UpdateQuery<IStaff>
   ): Promise<IStaff | null> {
     return await Staff.findByIdAndUpdate(staffId, updates, { new: true });
   }
@@ -16,6 +16,22 @@ import {
   shopIdValidation,
   listStaffValidation,
 } from "../validators/staff.validator";
+import {
+  createCommissionPlan,
+  getCommissionPlans,
+  updateCommissionPlan,
+  deleteCommissionPlan,
+  assignCommission,
+  getCommissionReport,
+} from "../controllers/commission.controller";
+import {
+  createCommissionPlanValidation,
+  updateCommissionPlanValidation,
+  commissionPlanIdValidation,
+  listCommissionPlansValidation,
+  assignCommissionValidation,
+  commissionReportValidation,
+} from "../validators/commission.validator";
 import { authenticate } from "../../../shared/middleware/auth.middleware";
 
 const router = express.Router();
@@ -29,6 +45,29 @@ router.post("/", createStaffValidation, createStaff);
 // Get staff statistics
 router.get("/:shopId/statistics", shopIdValidation, getStaffStatistics);
 
+// Create commission plan
+router.post("/:shopId/commission-plans", createCommissionPlanValidation, createCommissionPlan);
+
+// Get commission plans
+router.get("/:shopId/commission-plans", listCommissionPlansValidation, getCommissionPlans);
+
+// Update commission plan
+router.put(
+  "/:shopId/commission-plans/:planId",
+  updateCommissionPlanValidation,
+  updateCommissionPlan
+);
+
+// Delete commission plan
+router.delete(
+  "/:shopId/commission-plans/:planId",
+  commissionPlanIdValidation,
+  deleteCommissionPlan
+);
+
+// Get commission earned and target attainment
+router.get("/:shopId/commissions", commissionReportValidation, getCommissionReport);
+
 // Get all staff for a shop (with pagination and filters)
 router.get("/:shopId", listStaffValidation, getStaffList);
 
@@ -38,6 +77,9 @@ router.get("/:shopId/:staffId", shopIdValidation, staffIdValidation, getStaffByI
 // Update staff member
 router.put("/:shopId/:staffId", updateStaffValidation, updateStaff);
 
+// Set staff commission plan and sales targets
+router.put("/:shopId/:staffId/commission", assignCommissionValidation, assignCommission);
+
 // Deactivate staff (soft delete)
 router.delete("/:shopId/:staffId", shopIdValidation, staffIdValidation, deactivateStaff);
 
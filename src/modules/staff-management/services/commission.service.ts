@@ -0,0 +1,363 @@
+import { CommissionRepository } from "../repositories/commission.repository";
+import { StaffRepository } from "../repositories/staff.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { logStaffAuditEvent } from "../utils/auditLogger";
+import {
+  buildStaffCommissionReport,
+  startOfMonth,
+  startOfNextMonth,
+} from "../utils/commission";
+import { roundCurrency } from "../../sales-management/utils/calculations";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import {
+  AssignCommissionInput,
+  CommissionReport,
+  CreateCommissionPlanInput,
+  ICategoryCommissionRate,
+  ICommissionPlan,
+  ICommissionTier,
+  IStaff,
+  RequestMetadata,
+  UpdateCommissionPlanInput,
+} from "../types";
+import { Types } from "mongoose";
+
+// Longest period a commission report can cover
+const MAX_REPORT_DAYS = 366;
+
+export class CommissionService {
+  private commissionRepository: CommissionRepository;
+  private staffRepository: StaffRepository;
+  private shopRepository: ShopRepository;
+
+  constructor() {
+    this.commissionRepository = new CommissionRepository();
+    this.staffRepository = new StaffRepository();
+    this.shopRepository = new ShopRepository();
+  }
+
+  // Validate shop ownership
+  private async validateShopOwnership(
+    shopId: string,
+    userShopId: string,
+    userRole: "owner" | "staff"
+  ): Promise<void> {
+    // Only owners can manage commissions
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can manage staff commissions");
+    }
+
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only manage commissions for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  private async findShopPlan(planId: string, shopId: string): Promise<ICommissionPlan> {
+    const plan = await this.commissionRepository.findById(planId);
+    if (!plan) {
+      throw new NotFoundError("Commission plan not found");
+    }
+    if (plan.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Commission plan does not belong to this shop");
+    }
+    return plan;
+  }
+
+  private async findShopStaff(staffId: string, shopId: string): Promise<IStaff> {
+    const staff = await this.staffRepository.findById(staffId);
+    if (!staff) {
+      throw new NotFoundError("Staff member not found");
+    }
+    if (staff.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Staff member does not belong to this shop");
+    }
+    return staff;
+  }
+
+  // Tiers must start somewhere and not repeat a threshold; a category can
+  // only have one rate
+  private validatePlanRates(tiers?: ICommissionTier[], categoryRates?: ICategoryCommissionRate[]): void {
+    if (tiers !== undefined) {
+      if (tiers.length === 0) {
+        throw new ValidationError("Commission plan must have at least one tier");
+      }
+      const thresholds = new Set(tiers.map((tier) => tier.minSales));
+      if (thresholds.size !== tiers.length) {
+        throw new ValidationError("Commission tiers cannot share the same sales threshold");
+      }
+    }
+
+    if (categoryRates !== undefined) {
+      const categories = new Set(categoryRates.map((entry) => entry.category.trim().toLowerCase()));
+      if (categories.size !== categoryRates.length) {
+        throw new ValidationError("Each category can only have one commission rate");
+      }
+    }
+  }
+
+  // Create commission plan
+  async createPlan(input: CreateCommissionPlanInput, metadata: RequestMetadata): Promise<ICommissionPlan> {
+    const { shopId, name, basis, tiers, categoryRates = [] } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopOwnership(shopId, userShopId, userRole);
+    this.validatePlanRates(tiers, categoryRates);
+
+    let plan: ICommissionPlan;
+    try {
+      plan = await this.commissionRepository.create({
+        shopId: new Types.ObjectId(shopId),
+        name,
+        basis,
+        tiers: [...tiers].sort((a, b) => a.minSales - b.minSales),
+        categoryRates,
+        isActive: true,
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError("A commission plan with this name already exists");
+      }
+      throw error;
+    }
+
+    await logStaffAuditEvent({
+      requestId,
+      action: "COMMISSION_PLAN_CREATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: { planId: plan._id.toString(), name, basis, tiers, categoryRates },
+    });
+
+    return plan;
+  }
+
+  // Get commission plans for a shop
+  async getPlans(
+    shopId: string,
+    includeInactive: boolean,
+    metadata: RequestMetadata
+  ): Promise<ICommissionPlan[]> {
+    await this.validateShopOwnership(shopId, metadata.userShopId, metadata.userRole);
+    return await this.commissionRepository.findByShopId(shopId, includeInactive);
+  }
+
+  // Update commission plan. Changes apply to any report run afterwards,
+  // including for past periods.
+  async updatePlan(
+    planId: string,
+    shopId: string,
+    updates: UpdateCommissionPlanInput,
+    metadata: RequestMetadata
+  ): Promise<ICommissionPlan> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopOwnership(shopId, userShopId, userRole);
+    await this.findShopPlan(planId, shopId);
+    this.validatePlanRates(updates.tiers, updates.categoryRates);
+
+    const updateData: Partial<ICommissionPlan> = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.basis !== undefined) updateData.basis = updates.basis;
+    if (updates.tiers !== undefined) {
+      updateData.tiers = [...updates.tiers].sort((a, b) => a.minSales - b.minSales);
+    }
+    if (updates.categoryRates !== undefined) updateData.categoryRates = updates.categoryRates;
+    if (updates.isActive !== undefined) updateData.isActive = updates.isActive;
+
+    let plan: ICommissionPlan | null;
+    try {
+      plan = await this.commissionRepository.update(planId, updateData);
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError("A commission plan with this name already exists");
+      }
+      throw error;
+    }
+
+    if (!plan) {
+      throw new NotFoundError("Commission plan not found after update");
+    }
+
+    await logStaffAuditEvent({
+      requestId,
+      action: "COMMISSION_PLAN_UPDATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: { planId, updates: Object.keys(updateData) },
+    });
+
+    return plan;
+  }
+
+  // Delete a commission plan no staff member is on
+  async deletePlan(planId: string, shopId: string, metadata: RequestMetadata): Promise<void> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopOwnership(shopId, userShopId, userRole);
+    const plan = await this.findShopPlan(planId, shopId);
+
+    const staffOnPlan = await this.commissionRepository.countStaffOnPlan(shopId, planId);
+    if (staffOnPlan > 0) {
+      throw new ConflictError(
+        `Commission plan is assigned to ${staffOnPlan} staff member(s). Reassign them or deactivate the plan instead`
+      );
+    }
+
+    await this.commissionRepository.delete(planId);
+
+    await logStaffAuditEvent({
+      requestId,
+      action: "COMMISSION_PLAN_DELETED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: { planId, name: plan.name },
+    });
+  }
+
+  // Put a staff member on a commission plan and set their sales targets
+  async assignCommission(
+    staffId: string,
+    shopId: string,
+    input: AssignCommissionInput,
+    metadata: RequestMetadata
+  ): Promise<IStaff> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopOwnership(shopId, userShopId, userRole);
+    await this.findShopStaff(staffId, shopId);
+
+    const set: Record<string, unknown> = {};
+    const unset: Record<string, 1> = {};
+
+    if (input.commissionPlanId === null) {
+      unset.commissionPlanId = 1;
+    } else if (input.commissionPlanId !== undefined) {
+      const plan = await this.findShopPlan(input.commissionPlanId, shopId);
+      if (!plan.isActive) {
+        throw new ValidationError("Commission plan is not active");
+      }
+      set.commissionPlanId = plan._id;
+    }
+
+    for (const [field, value] of [
+      ["daily", input.dailyTarget],
+      ["monthly", input.monthlyTarget],
+    ] as const) {
+      if (value === null) unset[`salesTargets.${field}`] = 1;
+      else if (value !== undefined) set[`salesTargets.${field}`] = value;
+    }
+
+    if (Object.keys(set).length === 0 && Object.keys(unset).length === 0) {
+      throw new ValidationError("Nothing to update");
+    }
+
+    const staff = await this.staffRepository.update(staffId, { $set: set, $unset: unset });
+    if (!staff) {
+      throw new NotFoundError("Staff member not found after update");
+    }
+
+    await logStaffAuditEvent({
+      requestId,
+      action: "STAFF_COMMISSION_ASSIGNED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      targetStaffId: staffId,
+      ip,
+      details: input,
+    });
+
+    return staff;
+  }
+
+  // Commission earned and target attainment per staff member for a period,
+  // from the tickets they sold net of refunds and returns. Defaults to the
+  // current month to date.
+  async getCommissionReport(
+    shopId: string,
+    options: { startDate?: Date; endDate?: Date; staffId?: string },
+    metadata: RequestMetadata
+  ): Promise<CommissionReport> {
+    const { requestId, userId, userRole, userShopId } = metadata;
+
+    await this.validateShopOwnership(shopId, userShopId, userRole);
+
+    const now = new Date();
+    const startDate = options.startDate || startOfMonth(now);
+    const endDate = options.endDate || now;
+
+    // Whole days: the end date is included
+    const start = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+    const end = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate() + 1);
+    if (start >= end) {
+      throw new ValidationError("Start date must be before end date");
+    }
+    if ((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000) > MAX_REPORT_DAYS) {
+      throw new ValidationError(`Commission reports cannot cover more than ${MAX_REPORT_DAYS} days`);
+    }
+
+    let staffMembers: IStaff[];
+    if (options.staffId) {
+      staffMembers = [await this.findShopStaff(options.staffId, shopId)];
+    } else {
+      const result = await this.staffRepository.findByShopId(shopId, {
+        includeInactive: true,
+        limit: 100,
+      });
+      staffMembers = result.staff;
+    }
+
+    const planIds = staffMembers
+      .map((staff) => staff.commissionPlanId)
+      .filter((planId): planId is Types.ObjectId => !!planId);
+    const plans = planIds.length > 0 ? await this.commissionRepository.findByIds(shopId, planIds) : [];
+    const plansById = new Map(plans.map((plan) => [plan._id.toString(), plan]));
+
+    // Whole months, so each month's tier reflects its full volume
+    const lines = await this.commissionRepository.getSalesLines(
+      shopId,
+      startOfMonth(start),
+      startOfNextMonth(new Date(end.getTime() - 1)),
+      staffMembers.map((staff) => staff._id)
+    );
+
+    const reports = staffMembers.map((staff) => {
+      const plan = staff.commissionPlanId
+        ? plansById.get(staff.commissionPlanId.toString()) || null
+        : null;
+      const staffLines = lines.filter((line) => line.soldBy.toString() === staff._id.toString());
+      return buildStaffCommissionReport(staff, plan, staffLines, start, end);
+    });
+
+    const totals = reports.reduce(
+      (sum, report) => ({
+        sales: roundCurrency(sum.sales + report.sales),
+        profit: roundCurrency(sum.profit + report.profit),
+        commission: roundCurrency(sum.commission + report.commission),
+      }),
+      { sales: 0, profit: 0, commission: 0 }
+    );
+
+    await logStaffAuditEvent({
+      requestId,
+      action: "COMMISSION_REPORT_VIEWED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      details: { startDate: start, endDate: end, staffId: options.staffId },
+    });
+
+    return { startDate: start, endDate: new Date(end.getTime() - 1), staff: reports, totals };
+  }
+}
@@ -14,6 +14,14 @@ export interface IStaff extends Document {
   lastLoginAt?: Date;
   failedLoginAttempts?: number;
   lockoutUntil?: Date;
+  commissionPlanId?: Types.ObjectId;
+  salesTargets?: IStaffSalesTargets;
+}
+
+// Net sales (before tax) the staff member is expected to make
+export interface IStaffSalesTargets {
+  daily?: number;
+  monthly?: number;
 }
 
 export interface CreateStaffInput {
@@ -45,4 +53,102 @@ export interface RequestMetadata {
   userId: string;
   userRole: "owner" | "staff";
   userShopId: string;
-}
\ No newline at end of file
+}
+
+// Commission plans: a percentage of the revenue or profit on the lines a
+// staff member sells. The rate steps up with their monthly sales volume,
+// and categories can carry their own rate instead.
+export type CommissionBasis = "revenue" | "profit";
+
+export interface ICommissionTier {
+  minSales: number; // Monthly net sales from which this rate applies
+  rate: number; // Percent
+}
+
+export interface ICategoryCommissionRate {
+  category: string;
+  rate: number; // Percent, used instead of the tier rate
+}
+
+export interface ICommissionPlan extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  name: string;
+  basis: CommissionBasis;
+  tiers: ICommissionTier[];
+  categoryRates: ICategoryCommissionRate[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateCommissionPlanInput {
+  shopId: string;
+  name: string;
+  basis: CommissionBasis;
+  tiers: ICommissionTier[];
+  categoryRates?: ICategoryCommissionRate[];
+}
+
+export interface UpdateCommissionPlanInput {
+  name?: string;
+  basis?: CommissionBasis;
+  tiers?: ICommissionTier[];
+  categoryRates?: ICategoryCommissionRate[];
+  isActive?: boolean;
+}
+
+// A null clears the plan or target
+export interface AssignCommissionInput {
+  commissionPlanId?: string | null;
+  dailyTarget?: number | null;
+  monthlyTarget?: number | null;
+}
+
+// A ticket line as counted for commission, net of any returns
+export interface CommissionSalesLine {
+  ticketId: Types.ObjectId;
+  soldBy: Types.ObjectId;
+  date: Date;
+  category?: string;
+  revenue: number; // Line total less refunds, before tax
+  profit: number;
+}
+
+export interface StaffCommissionMonth {
+  month: string; // YYYY-MM
+  monthSales: number; // Whole calendar month, sets the tier
+  tierRate: number;
+  sales: number; // Within the period
+  commission: number;
+}
+
+export interface StaffTargetAttainment {
+  target: number;
+  periods: { period: string; sales: number; attainment: number }[]; // Attainment in percent
+  periodsMet: number;
+}
+
+export interface StaffCommissionReport {
+  staffId: Types.ObjectId;
+  staffName: string;
+  plan: { id: Types.ObjectId; name: string; basis: CommissionBasis } | null;
+  ticketCount: number;
+  sales: number;
+  profit: number;
+  commission: number;
+  months: StaffCommissionMonth[];
+  dailyTarget: StaffTargetAttainment | null;
+  monthlyTarget: StaffTargetAttainment | null;
+}
+
+export interface CommissionReport {
+  startDate: Date;
+  endDate: Date;
+  staff: StaffCommissionReport[];
+  totals: {
+    sales: number;
+    profit: number;
+    commission: number;
+  };
+}
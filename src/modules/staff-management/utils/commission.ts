@@ -0,0 +1,145 @@
+import {
+  CommissionSalesLine,
+  ICommissionPlan,
+  ICommissionTier,
+  IStaff,
+  StaffCommissionMonth,
+  StaffCommissionReport,
+  StaffTargetAttainment,
+} from "../types";
+import { roundCurrency } from "../../sales-management/utils/calculations";
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+// Calendar keys in server time, matching how the period is bounded
+export const toMonthKey = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+export const toDayKey = (date: Date): string => `${toMonthKey(date)}-${pad(date.getDate())}`;
+
+export const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+export const startOfNextMonth = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth() + 1, 1);
+
+/**
+ * Rate of the highest tier the monthly sales reach. The rate applies to the
+ * whole month's sales, not just the part above the threshold.
+ */
+export const getTierRate = (tiers: ICommissionTier[], monthSales: number): number => {
+  const reached = [...tiers]
+    .sort((a, b) => a.minSales - b.minSales)
+    .filter((tier) => monthSales >= tier.minSales);
+  return reached.length > 0 ? reached[reached.length - 1].rate : 0;
+};
+
+const attainment = (target: number, periods: { period: string; sales: number }[]): StaffTargetAttainment => {
+  const rows = periods.map(({ period, sales }) => ({
+    period,
+    sales: roundCurrency(sales),
+    attainment: target > 0 ? roundCurrency((sales / target) * 100) : 0,
+  }));
+  return {
+    target,
+    periods: rows,
+    periodsMet: rows.filter((row) => target > 0 && row.sales >= target).length,
+  };
+};
+
+/**
+ * Commission and target attainment for one staff member over [start, end).
+ * `lines` must cover the whole calendar months the period touches so the
+ * monthly tier is set by the full month's volume.
+ */
+export const buildStaffCommissionReport = (
+  staff: IStaff,
+  plan: ICommissionPlan | null,
+  lines: CommissionSalesLine[],
+  start: Date,
+  end: Date
+): StaffCommissionReport => {
+  const categoryRates = new Map(
+    (plan?.categoryRates || []).map((entry) => [entry.category.toLowerCase(), entry.rate])
+  );
+
+  const monthSales = new Map<string, number>();
+  for (const line of lines) {
+    const key = toMonthKey(line.date);
+    monthSales.set(key, (monthSales.get(key) || 0) + line.revenue);
+  }
+
+  const periodLines = lines.filter((line) => line.date >= start && line.date < end);
+
+  const months = new Map<string, StaffCommissionMonth>();
+  for (let month = startOfMonth(start); month < end; month = startOfNextMonth(month)) {
+    const key = toMonthKey(month);
+    const volume = monthSales.get(key) || 0;
+    months.set(key, {
+      month: key,
+      monthSales: volume,
+      tierRate: plan ? getTierRate(plan.tiers, volume) : 0,
+      sales: 0,
+      commission: 0,
+    });
+  }
+
+  const days = new Map<string, number>();
+  const tickets = new Set<string>();
+  let sales = 0;
+  let profit = 0;
+
+  for (const line of periodLines) {
+    const month = months.get(toMonthKey(line.date));
+    if (!month) continue;
+
+    tickets.add(line.ticketId.toString());
+    sales += line.revenue;
+    profit += line.profit;
+    month.sales += line.revenue;
+
+    const dayKey = toDayKey(line.date);
+    days.set(dayKey, (days.get(dayKey) || 0) + line.revenue);
+
+    if (plan) {
+      const rate = categoryRates.get((line.category || "").toLowerCase()) ?? month.tierRate;
+      const base = plan.basis === "profit" ? line.profit : line.revenue;
+      month.commission += (base * rate) / 100;
+    }
+  }
+
+  // A month of losses on a profit plan earns nothing rather than a debt
+  const monthRows = [...months.values()].map((month) => ({
+    ...month,
+    monthSales: roundCurrency(month.monthSales),
+    sales: roundCurrency(month.sales),
+    commission: roundCurrency(Math.max(month.commission, 0)),
+  }));
+
+  const dailyTarget = staff.salesTargets?.daily;
+  const monthlyTarget = staff.salesTargets?.monthly;
+
+  const dayRows: { period: string; sales: number }[] = [];
+  for (
+    let day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    day < end;
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+  ) {
+    const key = toDayKey(day);
+    dayRows.push({ period: key, sales: days.get(key) || 0 });
+  }
+
+  return {
+    staffId: staff._id,
+    staffName: staff.staffName,
+    plan: plan ? { id: plan._id, name: plan.name, basis: plan.basis } : null,
+    ticketCount: tickets.size,
+    sales: roundCurrency(sales),
+    profit: roundCurrency(profit),
+    commission: roundCurrency(monthRows.reduce((sum, month) => sum + month.commission, 0)),
+    months: monthRows,
+    dailyTarget: dailyTarget ? attainment(dailyTarget, dayRows) : null,
+    monthlyTarget: monthlyTarget
+      ? attainment(
+          monthlyTarget,
+          monthRows.map((month) => ({ period: month.month, sales: month.monthSales }))
+        )
+      : null,
+  };
+};
@@ -0,0 +1,121 @@
+import { body, param, query } from "express-validator";
+
+const shopIdParam = () =>
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format");
+
+const planIdParam = () =>
+  param("planId")
+    .trim()
+    .notEmpty()
+    .withMessage("Plan ID is required")
+    .isMongoId()
+    .withMessage("Invalid plan ID format");
+
+const planRateRules = (optional: boolean) => [
+  (optional ? body("tiers").optional() : body("tiers"))
+    .isArray({ min: 1, max: 10 })
+    .withMessage("Between 1 and 10 commission tiers are required"),
+  body("tiers.*.minSales")
+    .isFloat({ min: 0 })
+    .withMessage("Tier threshold must be 0 or more"),
+  body("tiers.*.rate")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Tier rate must be between 0 and 100 percent"),
+  body("categoryRates")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Category rates must be an array of up to 50 entries"),
+  body("categoryRates.*.category")
+    .trim()
+    .notEmpty()
+    .withMessage("Category is required")
+    .isLength({ max: 100 })
+    .withMessage("Category cannot exceed 100 characters"),
+  body("categoryRates.*.rate")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Category rate must be between 0 and 100 percent"),
+];
+
+export const createCommissionPlanValidation = [
+  shopIdParam(),
+  body("name")
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Plan name must be between 2 and 100 characters"),
+  body("basis")
+    .isIn(["revenue", "profit"])
+    .withMessage("Invalid basis. Must be one of: revenue, profit"),
+  ...planRateRules(false),
+];
+
+export const updateCommissionPlanValidation = [
+  shopIdParam(),
+  planIdParam(),
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Plan name must be between 2 and 100 characters"),
+  body("basis")
+    .optional()
+    .isIn(["revenue", "profit"])
+    .withMessage("Invalid basis. Must be one of: revenue, profit"),
+  ...planRateRules(true),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean value"),
+];
+
+export const commissionPlanIdValidation = [shopIdParam(), planIdParam()];
+
+export const listCommissionPlansValidation = [
+  shopIdParam(),
+  query("includeInactive")
+    .optional()
+    .isBoolean()
+    .withMessage("includeInactive must be a boolean"),
+];
+
+export const assignCommissionValidation = [
+  shopIdParam(),
+  param("staffId")
+    .trim()
+    .notEmpty()
+    .withMessage("Staff ID is required")
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+  body("commissionPlanId")
+    .optional({ nullable: true })
+    .isMongoId()
+    .withMessage("Invalid plan ID format"),
+  body("dailyTarget")
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage("Daily target must be 0 or more"),
+  body("monthlyTarget")
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage("Monthly target must be 0 or more"),
+];
+
+export const commissionReportValidation = [
+  shopIdParam(),
+  query("startDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid start date format"),
+  query("endDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid end date format"),
+  query("staffId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid staff ID format"),
+];
@@ -0,0 +1,371 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { PurchaseOrderService } from "../services/purchaseOrder.service";
+import crypto from "crypto";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+
+const purchaseOrderService = new PurchaseOrderService();
+
+/**
+ * @route POST /purchase-orders/:shopId
+ * @desc Create a draft purchase order
+ */
+export const createPurchaseOrder = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { supplierId, lines, expectedDeliveryDate, notes } = req.body;
+
+  const order = await purchaseOrderService.createOrder(
+    {
+      shopId,
+      supplierId,
+      lines,
+      expectedDeliveryDate: expectedDeliveryDate ? new Date(expectedDeliveryDate) : undefined,
+      notes,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: "Purchase order created successfully",
+    data: order,
+  });
+});
+
+/**
+ * @route GET /purchase-orders/:shopId
+ * @desc Get purchase orders for a shop
+ */
+export const getPurchaseOrders = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { status, supplierId, page = "1", limit = "20" } = req.query;
+
+  const result = await purchaseOrderService.getOrders(
+    shopId,
+    {
+      status: status as any,
+      supplierId: supplierId as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Purchase orders retrieved successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route GET /purchase-orders/:shopId/outstanding
+ * @desc Get quantities still to arrive on sent purchase orders, by item
+ */
+export const getOutstandingPurchases = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+
+  const outstanding = await purchaseOrderService.getOutstanding(shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Outstanding purchase quantities retrieved successfully",
+    data: outstanding,
+  });
+});
+
+/**
+ * @route GET /purchase-orders/:shopId/lead-times
+ * @desc Get actual supplier lead times from received purchase orders
+ */
+export const getSupplierLeadTimes = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { supplierId } = req.query;
+
+  const leadTimes = await purchaseOrderService.getLeadTimes(shopId, supplierId as string | undefined, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Supplier lead times retrieved successfully",
+    data: leadTimes,
+  });
+});
+
+/**
+ * @route GET /purchase-orders/:shopId/:orderId
+ * @desc Get a purchase order
+ */
+export const getPurchaseOrder = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, orderId } = req.params;
+
+  const order = await purchaseOrderService.getOrder(orderId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Purchase order retrieved successfully",
+    data: order,
+  });
+});
+
+/**
+ * @route PUT /purchase-orders/:shopId/:orderId
+ * @desc Update a draft purchase order
+ */
+export const updatePurchaseOrder = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, orderId } = req.params;
+  const { lines, expectedDeliveryDate, notes } = req.body;
+
+  const order = await purchaseOrderService.updateOrder(
+    orderId,
+    shopId,
+    {
+      lines,
+      expectedDeliveryDate:
+        expectedDeliveryDate === undefined || expectedDeliveryDate === null
+          ? expectedDeliveryDate
+          : new Date(expectedDeliveryDate),
+      notes,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Purchase order updated successfully",
+    data: order,
+  });
+});
+
+/**
+ * @route POST /purchase-orders/:shopId/:orderId/approve
+ * @desc Approve a draft purchase order
+ */
+export const approvePurchaseOrder = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, orderId } = req.params;
+
+  const order = await purchaseOrderService.approveOrder(orderId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Purchase order approved successfully",
+    data: order,
+  });
+});
+
+/**
+ * @route POST /purchase-orders/:shopId/:orderId/send
+ * @desc Mark an approved purchase order as sent to the supplier
+ */
+export const sendPurchaseOrder = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, orderId } = req.params;
+  const { expectedDeliveryDate } = req.body;
+
+  const order = await purchaseOrderService.sendOrder(
+    orderId,
+    shopId,
+    { expectedDeliveryDate: expectedDeliveryDate ? new Date(expectedDeliveryDate) : undefined },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Purchase order sent successfully",
+    data: order,
+  });
+});
+
+/**
+ * @route POST /purchase-orders/:shopId/:orderId/receive
+ * @desc Receive goods against a purchase order, in full or in part
+ */
+export const receivePurchaseOrder = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, orderId } = req.params;
+  const { lines, notes } = req.body;
+
+  const order = await purchaseOrderService.receiveOrder(orderId, shopId, { lines, notes }, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Purchase order received successfully",
+    data: order,
+  });
+});
+
+/**
+ * @route POST /purchase-orders/:shopId/:orderId/cancel
+ * @desc Cancel a purchase order
+ */
+export const cancelPurchaseOrder = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, orderId } = req.params;
+  const { reason } = req.body;
+
+  const order = await purchaseOrderService.cancelOrder(orderId, shopId, reason, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Purchase order cancelled successfully",
+    data: order,
+  });
+});
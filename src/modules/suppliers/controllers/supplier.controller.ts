@@ -0,0 +1,269 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { SupplierService } from "../services/supplier.service";
+import crypto from "crypto";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+
+const supplierService = new SupplierService();
+
+/**
+ * @route POST /suppliers/:shopId
+ * @desc Create a supplier
+ */
+export const createSupplier = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { name, contactName, phone, email, address, paymentTermsDays, leadTimeDays, notes } = req.body;
+
+  const supplier = await supplierService.createSupplier(
+    { shopId, name, contactName, phone, email, address, paymentTermsDays, leadTimeDays, notes },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: "Supplier created successfully",
+    data: supplier,
+  });
+});
+
+/**
+ * @route GET /suppliers/:shopId
+ * @desc Get suppliers with the stock held from each
+ */
+export const getSuppliers = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { search, includeInactive = "false", page = "1", limit = "20" } = req.query;
+
+  const result = await supplierService.getSuppliers(
+    shopId,
+    {
+      search: search as string | undefined,
+      includeInactive: includeInactive === "true",
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Suppliers retrieved successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route GET /suppliers/:shopId/:supplierId
+ * @desc Get a supplier with the stock held from it
+ */
+export const getSupplier = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, supplierId } = req.params;
+
+  const supplier = await supplierService.getSupplier(supplierId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Supplier retrieved successfully",
+    data: supplier,
+  });
+});
+
+/**
+ * @route PUT /suppliers/:shopId/:supplierId
+ * @desc Update a supplier
+ */
+export const updateSupplier = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, supplierId } = req.params;
+  const { name, contactName, phone, email, address, paymentTermsDays, leadTimeDays, notes, isActive } =
+    req.body;
+
+  const updates = Object.fromEntries(
+    Object.entries({
+      name,
+      contactName,
+      phone,
+      email,
+      address,
+      paymentTermsDays,
+      leadTimeDays,
+      notes,
+      isActive,
+    }).filter(([, value]) => value !== undefined)
+  );
+
+  const supplier = await supplierService.updateSupplier(supplierId, shopId, updates, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Supplier updated successfully",
+    data: supplier,
+  });
+});
+
+/**
+ * @route DELETE /suppliers/:shopId/:supplierId
+ * @desc Delete a supplier with no linked items
+ */
+export const deleteSupplier = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, supplierId } = req.params;
+
+  await supplierService.deleteSupplier(supplierId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Supplier deleted successfully",
+  });
+});
+
+/**
+ * @route GET /suppliers/:shopId/:supplierId/purchases
+ * @desc Get restocks received from a supplier
+ */
+export const getSupplierPurchases = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, supplierId } = req.params;
+  const { page = "1", limit = "20" } = req.query;
+
+  const history = await supplierService.getPurchaseHistory(
+    supplierId,
+    shopId,
+    parseInt(page as string),
+    parseInt(limit as string),
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Supplier purchase history retrieved successfully",
+    data: history,
+  });
+});
+
+/**
+ * @route POST /suppliers/:shopId/migrate
+ * @desc Turn supplier details embedded on inventory items into linked supplier records
+ */
+export const migrateEmbeddedSuppliers = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+
+  const result = await supplierService.migrateEmbeddedSuppliers(shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Embedded suppliers migrated successfully",
+    data: result,
+  });
+});
@@ -0,0 +1,263 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { SupplierInvoiceService } from "../services/supplierInvoice.service";
+import crypto from "crypto";
+import { asyncHandler } from "../../../shared/utils/asyncHandler";
+import { ValidationError, AuthenticationError } from "../../../shared/utils/AppError";
+import { AuthenticatedRequest } from "../../../shared/middleware/auth.middleware";
+
+const supplierInvoiceService = new SupplierInvoiceService();
+
+/**
+ * @route POST /supplier-invoices/:shopId
+ * @desc Record a supplier invoice
+ */
+export const createSupplierInvoice = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { supplierId, invoiceNumber, purchaseOrderId, totalAmount, invoiceDate, dueDate, notes } = req.body;
+
+  const invoice = await supplierInvoiceService.createInvoice(
+    {
+      shopId,
+      supplierId,
+      invoiceNumber,
+      purchaseOrderId,
+      totalAmount,
+      invoiceDate: invoiceDate ? new Date(invoiceDate) : undefined,
+      dueDate: dueDate ? new Date(dueDate) : undefined,
+      notes,
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: "Supplier invoice recorded successfully",
+    data: invoice,
+  });
+});
+
+/**
+ * @route GET /supplier-invoices/:shopId
+ * @desc Get supplier invoices for a shop
+ */
+export const getSupplierInvoices = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+  const { status, supplierId, page = "1", limit = "20" } = req.query;
+
+  const result = await supplierInvoiceService.getInvoices(
+    shopId,
+    {
+      status: status as any,
+      supplierId: supplierId as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Supplier invoices retrieved successfully",
+    data: result,
+  });
+});
+
+/**
+ * @route GET /supplier-invoices/:shopId/summary
+ * @desc Get what the shop owes, overall and per supplier
+ */
+export const getPayablesSummary = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+
+  const summary = await supplierInvoiceService.getPayablesSummary(shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Payables summary retrieved successfully",
+    data: summary,
+  });
+});
+
+/**
+ * @route GET /supplier-invoices/:shopId/overdue
+ * @desc Get unpaid supplier invoices past their due date
+ */
+export const getOverduePayables = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId } = req.params;
+
+  const overdue = await supplierInvoiceService.getOverduePayables(shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Overdue payables retrieved successfully",
+    data: overdue,
+  });
+});
+
+/**
+ * @route GET /supplier-invoices/:shopId/:invoiceId
+ * @desc Get a supplier invoice with its payments
+ */
+export const getSupplierInvoice = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, invoiceId } = req.params;
+
+  const invoice = await supplierInvoiceService.getInvoice(invoiceId, shopId, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Supplier invoice retrieved successfully",
+    data: invoice,
+  });
+});
+
+/**
+ * @route POST /supplier-invoices/:shopId/:invoiceId/payments
+ * @desc Record a payment against a supplier invoice
+ */
+export const recordSupplierPayment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, invoiceId } = req.params;
+  const { amount, paymentMethod, transactionReference, notes } = req.body;
+
+  const invoice = await supplierInvoiceService.recordPayment(
+    invoiceId,
+    shopId,
+    { amount, paymentMethod, transactionReference, notes },
+    {
+      requestId,
+      ip: req.ip || "unknown",
+      userId: req.user.profileId,
+      userRole: req.user.role,
+      userShopId: req.user.shopId,
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: "Supplier payment recorded successfully",
+    data: invoice,
+  });
+});
+
+/**
+ * @route POST /supplier-invoices/:shopId/:invoiceId/void
+ * @desc Void a supplier invoice entered by mistake
+ */
+export const voidSupplierInvoice = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new ValidationError("Validation failed", errors.array());
+  }
+
+  if (!req.user) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const requestId = crypto.randomUUID();
+  const { shopId, invoiceId } = req.params;
+  const { reason } = req.body;
+
+  const invoice = await supplierInvoiceService.voidInvoice(invoiceId, shopId, reason, {
+    requestId,
+    ip: req.ip || "unknown",
+    userId: req.user.profileId,
+    userRole: req.user.role,
+    userShopId: req.user.shopId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Supplier invoice voided successfully",
+    data: invoice,
+  });
+});
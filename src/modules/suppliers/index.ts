@@ -0,0 +1,5 @@
+import supplierRoutes from "./routes/supplier.routes";
+import purchaseOrderRoutes from "./routes/purchaseOrder.routes";
+import supplierInvoiceRoutes from "./routes/supplierInvoice.routes";
+
+export { supplierRoutes, purchaseOrderRoutes, supplierInvoiceRoutes };
@@ -0,0 +1,152 @@
+import mongoose, { Schema } from "mongoose";
+import {
+  IPurchaseOrder,
+  IPurchaseOrderLine,
+  IPurchaseOrderReceipt,
+  IPurchaseOrderReceiptLine,
+} from "../types";
+
+const purchaseOrderLineSchema = new Schema<IPurchaseOrderLine>(
+  {
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: "Inventory",
+      required: true,
+    },
+    itemName: {
+      type: String,
+      required: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: [1, "Quantity must be at least 1"],
+    },
+    unitCost: {
+      type: Number,
+      required: true,
+      min: [0, "Unit cost cannot be negative"],
+    },
+    receivedQuantity: {
+      type: Number,
+      default: 0,
+      min: [0, "Received quantity cannot be negative"],
+    },
+  },
+  { _id: false }
+);
+
+const receiptLineSchema = new Schema<IPurchaseOrderReceiptLine>(
+  {
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: "Inventory",
+      required: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: [1, "Quantity must be at least 1"],
+    },
+    unitCost: {
+      type: Number,
+      required: true,
+      min: [0, "Unit cost cannot be negative"],
+    },
+  },
+  { _id: false }
+);
+
+const receiptSchema = new Schema<IPurchaseOrderReceipt>({
+  lines: {
+    type: [receiptLineSchema],
+    required: true,
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, "Notes cannot exceed 500 characters"],
+  },
+  receivedBy: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  receivedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const purchaseOrderSchema = new Schema<IPurchaseOrder>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    supplierId: {
+      type: Schema.Types.ObjectId,
+      ref: "Supplier",
+      required: true,
+    },
+    supplierName: {
+      type: String,
+      required: true,
+    },
+    poNumber: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["draft", "approved", "sent", "partially_received", "received", "cancelled"],
+      default: "draft",
+    },
+    lines: {
+      type: [purchaseOrderLineSchema],
+      required: true,
+      validate: {
+        validator: (lines: unknown[]) => lines && lines.length > 0,
+        message: "Purchase order must contain at least one line",
+      },
+    },
+    expectedTotal: {
+      type: Number,
+      required: true,
+      min: [0, "Expected total cannot be negative"],
+    },
+    receipts: {
+      type: [receiptSchema],
+      default: [],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes cannot exceed 500 characters"],
+    },
+    expectedDeliveryDate: Date,
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    approvedBy: Schema.Types.ObjectId,
+    approvedAt: Date,
+    sentAt: Date,
+    receivedAt: Date,
+    cancelledBy: Schema.Types.ObjectId,
+    cancelledAt: Date,
+    cancellationReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Reason cannot exceed 500 characters"],
+    },
+  },
+  { timestamps: true }
+);
+
+purchaseOrderSchema.index({ shopId: 1, poNumber: 1 }, { unique: true });
+purchaseOrderSchema.index({ shopId: 1, status: 1, createdAt: -1 });
+purchaseOrderSchema.index({ supplierId: 1, status: 1 });
+
+const PurchaseOrder = mongoose.model<IPurchaseOrder>("PurchaseOrder", purchaseOrderSchema);
+export default PurchaseOrder;
@@ -0,0 +1,74 @@
+import { Schema, model } from "mongoose";
+import { ISupplier } from "../types";
+
+const supplierSchema = new Schema<ISupplier>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      minlength: 2,
+      maxlength: 100,
+    },
+    contactName: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    phone: {
+      type: String,
+      trim: true,
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    address: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    paymentTermsDays: {
+      type: Number,
+      min: [0, "Payment terms cannot be negative"],
+    },
+    leadTimeDays: {
+      type: Number,
+      min: [0, "Lead time cannot be negative"],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Supplier names are unique within a shop, ignoring case
+supplierSchema.index(
+  { shopId: 1, name: 1 },
+  { unique: true, collation: { locale: "en", strength: 2 } }
+);
+supplierSchema.index({ shopId: 1, isActive: 1 });
+
+const Supplier = model<ISupplier>("Supplier", supplierSchema);
+
+export default Supplier;
@@ -0,0 +1,116 @@
+import mongoose, { Schema } from "mongoose";
+import { ISupplierInvoice, ISupplierPayment } from "../types";
+
+const supplierPaymentSchema = new Schema<ISupplierPayment>({
+  amount: {
+    type: Number,
+    required: true,
+    min: [0, "Payment amount cannot be negative"],
+  },
+  paymentMethod: {
+    type: String,
+    enum: ["cash", "transfer"],
+    required: true,
+  },
+  paymentDate: {
+    type: Date,
+    default: Date.now,
+  },
+  paidBy: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  transactionReference: {
+    type: String,
+    trim: true,
+  },
+  notes: {
+    type: String,
+    trim: true,
+  },
+});
+
+const supplierInvoiceSchema = new Schema<ISupplierInvoice>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    supplierId: {
+      type: Schema.Types.ObjectId,
+      ref: "Supplier",
+      required: true,
+    },
+    supplierName: {
+      type: String,
+      required: true,
+    },
+    invoiceNumber: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    purchaseOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: "PurchaseOrder",
+    },
+    invoiceDate: {
+      type: Date,
+      required: true,
+    },
+    dueDate: {
+      type: Date,
+      required: true,
+    },
+    totalAmount: {
+      type: Number,
+      required: true,
+      min: [0, "Total amount cannot be negative"],
+    },
+    amountPaid: {
+      type: Number,
+      default: 0,
+      min: [0, "Amount paid cannot be negative"],
+    },
+    amountOwed: {
+      type: Number,
+      required: true,
+      min: [0, "Amount owed cannot be negative"],
+    },
+    status: {
+      type: String,
+      enum: ["pending", "partial", "paid", "void"],
+      default: "pending",
+    },
+    payments: {
+      type: [supplierPaymentSchema],
+      default: [],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes cannot exceed 500 characters"],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    voidedBy: Schema.Types.ObjectId,
+    voidedAt: Date,
+    voidReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Reason cannot exceed 500 characters"],
+    },
+  },
+  { timestamps: true }
+);
+
+// A supplier's invoice number can only be entered once
+supplierInvoiceSchema.index({ shopId: 1, supplierId: 1, invoiceNumber: 1 }, { unique: true });
+supplierInvoiceSchema.index({ shopId: 1, status: 1, dueDate: 1 });
+supplierInvoiceSchema.index({ purchaseOrderId: 1 });
+
+const SupplierInvoice = mongoose.model<ISupplierInvoice>("SupplierInvoice", supplierInvoiceSchema);
+export default SupplierInvoice;
@@ -0,0 +1,208 @@
+import PurchaseOrder from "../models/purchaseOrder";
+import {
+  IPurchaseOrder,
+  IPurchaseOrderLine,
+  IPurchaseOrderReceipt,
+  OutstandingItem,
+  PurchaseOrderQueryOptions,
+  PurchaseOrderStatus,
+  SupplierLeadTime,
+} from "../types";
+import { ClientSession, Types } from "mongoose";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PurchaseOrderRepository {
+  // Create new purchase order
+  async create(data: Partial<IPurchaseOrder>): Promise<IPurchaseOrder> {
+    return await PurchaseOrder.create(data);
+  }
+
+  // Find purchase order by ID
+  async findById(orderId: string): Promise<IPurchaseOrder | null> {
+    return await PurchaseOrder.findById(orderId);
+  }
+
+  // Find purchase orders by shop, newest first
+  async findByShopId(
+    shopId: string,
+    options: PurchaseOrderQueryOptions = {}
+  ): Promise<{ orders: IPurchaseOrder[]; total: number; page: number; pages: number }> {
+    const { status, supplierId, page = 1, limit = 20 } = options;
+
+    const query: any = { shopId: new Types.ObjectId(shopId) };
+    if (status) {
+      query.status = status;
+    }
+    if (supplierId) {
+      query.supplierId = new Types.ObjectId(supplierId);
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [orders, total] = await Promise.all([
+      PurchaseOrder.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+      PurchaseOrder.countDocuments(query),
+    ]);
+
+    return {
+      orders: orders as unknown as IPurchaseOrder[],
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  // Update a purchase order only while it is in one of the given statuses
+  async updateIfStatus(
+    orderId: string,
+    statuses: PurchaseOrderStatus[],
+    updates: any
+  ): Promise<IPurchaseOrder | null> {
+    return await PurchaseOrder.findOneAndUpdate(
+      { _id: new Types.ObjectId(orderId), status: { $in: statuses } },
+      updates,
+      { new: true, runValidators: true }
+    );
+  }
+
+  // Record a receipt. Only applies if no other receipt has been recorded
+  // since the order was read, so two deliveries can't both be booked
+  // against the same outstanding quantity.
+  async addReceipt(
+    orderId: string,
+    receiptCount: number,
+    receipt: Omit<IPurchaseOrderReceipt, "_id">,
+    lines: IPurchaseOrderLine[],
+    status: PurchaseOrderStatus,
+    receivedAt?: Date,
+    session?: ClientSession
+  ): Promise<IPurchaseOrder | null> {
+    const set: any = { lines, status };
+    if (receivedAt) {
+      set.receivedAt = receivedAt;
+    }
+
+    return await PurchaseOrder.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(orderId),
+        status: { $in: ["sent", "partially_received"] },
+        receipts: { $size: receiptCount },
+      },
+      { $set: set, $push: { receipts: receipt } },
+      { new: true, session }
+    );
+  }
+
+  // Quantities on sent orders still to arrive, by item
+  async getOutstanding(shopId: string, now: Date = new Date()): Promise<OutstandingItem[]> {
+    const result = await PurchaseOrder.aggregate([
+      {
+        $match: {
+          shopId: new Types.ObjectId(shopId),
+          status: { $in: ["sent", "partially_received"] },
+        },
+      },
+      { $unwind: "$lines" },
+      {
+        $project: {
+          poNumber: 1,
+          supplierId: 1,
+          supplierName: 1,
+          expectedDeliveryDate: 1,
+          itemId: "$lines.itemId",
+          itemName: "$lines.itemName",
+          outstandingQuantity: { $subtract: ["$lines.quantity", "$lines.receivedQuantity"] },
+        },
+      },
+      { $match: { outstandingQuantity: { $gt: 0 } } },
+      { $sort: { expectedDeliveryDate: 1, _id: 1 } },
+      {
+        $group: {
+          _id: "$itemId",
+          itemName: { $first: "$itemName" },
+          outstandingQuantity: { $sum: "$outstandingQuantity" },
+          orders: {
+            $push: {
+              orderId: "$_id",
+              poNumber: "$poNumber",
+              supplierId: "$supplierId",
+              supplierName: "$supplierName",
+              outstandingQuantity: "$outstandingQuantity",
+              expectedDeliveryDate: "$expectedDeliveryDate",
+            },
+          },
+        },
+      },
+      { $sort: { itemName: 1 } },
+    ]);
+
+    return result.map((row) => ({
+      itemId: row._id,
+      itemName: row.itemName,
+      outstandingQuantity: row.outstandingQuantity,
+      orders: row.orders.map((order: any) => ({
+        ...order,
+        isOverdue: !!order.expectedDeliveryDate && order.expectedDeliveryDate < now,
+      })),
+    }));
+  }
+
+  // Days from sending to full receipt, per supplier
+  async getLeadTimes(
+    shopId: string,
+    supplierId?: string
+  ): Promise<Omit<SupplierLeadTime, "supplierName" | "configuredDays">[]> {
+    const match: any = {
+      shopId: new Types.ObjectId(shopId),
+      status: "received",
+      sentAt: { $exists: true },
+      receivedAt: { $exists: true },
+    };
+    if (supplierId) {
+      match.supplierId = new Types.ObjectId(supplierId);
+    }
+
+    const result = await PurchaseOrder.aggregate([
+      { $match: match },
+      {
+        $project: {
+          supplierId: 1,
+          days: { $divide: [{ $subtract: ["$receivedAt", "$sentAt"] }, DAY_MS] },
+          // Delivery any time on the expected day counts as on time
+          onTime: {
+            $cond: [
+              {
+                $and: [
+                  { $ifNull: ["$expectedDeliveryDate", false] },
+                  { $lt: ["$receivedAt", { $add: ["$expectedDeliveryDate", DAY_MS] }] },
+                ],
+              },
+              1,
+              0,
+            ],
+          },
+        },
+      },
+      {
+        $group: {
+          _id: "$supplierId",
+          orderCount: { $sum: 1 },
+          averageDays: { $avg: "$days" },
+          minDays: { $min: "$days" },
+          maxDays: { $max: "$days" },
+          onTimeCount: { $sum: "$onTime" },
+        },
+      },
+    ]);
+
+    return result.map((row) => ({
+      supplierId: row._id,
+      orderCount: row.orderCount,
+      averageDays: Math.round(row.averageDays * 10) / 10,
+      minDays: Math.round(row.minDays * 10) / 10,
+      maxDays: Math.round(row.maxDays * 10) / 10,
+      onTimeCount: row.onTimeCount,
+    }));
+  }
+}
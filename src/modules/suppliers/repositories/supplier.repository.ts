@@ -0,0 +1,212 @@
+import Supplier from "../models/supplier";
+import Inventory from "../../inventory-mgt/models/Inventory";
+import StockMovementModel from "../../inventory-mgt/models/stockMovement";
+import {
+  ISupplier,
+  SupplierPurchase,
+  SupplierQueryOptions,
+  SupplierStockSummary,
+} from "../types";
+import { Types } from "mongoose";
+
+const CASE_INSENSITIVE = { locale: "en", strength: 2 };
+
+export class SupplierRepository {
+  // Create new supplier
+  async create(data: Partial<ISupplier>): Promise<ISupplier> {
+    return await Supplier.create(data);
+  }
+
+  // Find supplier by ID
+  async findById(supplierId: string): Promise<ISupplier | null> {
+    return await Supplier.findById(supplierId);
+  }
+
+  // Find a shop's suppliers by ID
+  async findByIds(shopId: string, supplierIds: Types.ObjectId[]): Promise<ISupplier[]> {
+    const suppliers = await Supplier.find({
+      shopId: new Types.ObjectId(shopId),
+      _id: { $in: supplierIds },
+    }).lean();
+    return suppliers as unknown as ISupplier[];
+  }
+
+  // Find supplier by name within a shop, ignoring case
+  async findByName(shopId: string, name: string): Promise<ISupplier | null> {
+    return await Supplier.findOne({ shopId: new Types.ObjectId(shopId), name: name.trim() }).collation(
+      CASE_INSENSITIVE
+    );
+  }
+
+  // Find suppliers by shop, alphabetically
+  async findByShopId(
+    shopId: string,
+    options: SupplierQueryOptions = {}
+  ): Promise<{ suppliers: ISupplier[]; total: number; page: number; pages: number }> {
+    const { search, includeInactive = false, page = 1, limit = 20 } = options;
+
+    const query: any = { shopId: new Types.ObjectId(shopId) };
+    if (!includeInactive) {
+      query.isActive = true;
+    }
+    if (search) {
+      const escapedSearch = search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      query.$or = [
+        { name: { $regex: escapedSearch, $options: "i" } },
+        { contactName: { $regex: escapedSearch, $options: "i" } },
+        { phone: { $regex: escapedSearch, $options: "i" } },
+        { email: { $regex: escapedSearch, $options: "i" } },
+      ];
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [suppliers, total] = await Promise.all([
+      Supplier.find(query).collation(CASE_INSENSITIVE).sort({ name: 1 }).skip(skip).limit(limit).lean(),
+      Supplier.countDocuments(query),
+    ]);
+
+    return {
+      suppliers: suppliers as unknown as ISupplier[],
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  // Update supplier
+  async update(supplierId: string, updates: Partial<ISupplier>): Promise<ISupplier | null> {
+    return await Supplier.findByIdAndUpdate(supplierId, updates, { new: true, runValidators: true });
+  }
+
+  // Delete supplier
+  async delete(supplierId: string): Promise<void> {
+    await Supplier.findByIdAndDelete(supplierId);
+  }
+
+  // Item count and stock held at cost, per supplier
+  async getStockSummaries(
+    shopId: string,
+    supplierIds: Types.ObjectId[]
+  ): Promise<Map<string, SupplierStockSummary>> {
+    const result = await Inventory.aggregate([
+      {
+        $match: {
+          shopId: new Types.ObjectId(shopId),
+          supplierId: { $in: supplierIds },
+        },
+      },
+      {
+        $group: {
+          _id: "$supplierId",
+          itemCount: { $sum: 1 },
+          activeItemCount: { $sum: { $cond: ["$isActive", 1, 0] } },
+          stockUnits: { $sum: "$availableQuantity" },
+          stockValue: { $sum: { $multiply: ["$availableQuantity", "$costPrice"] } },
+        },
+      },
+    ]);
+
+    return new Map(
+      result.map((row) => [
+        row._id.toString(),
+        {
+          itemCount: row.itemCount,
+          activeItemCount: row.activeItemCount,
+          stockUnits: row.stockUnits,
+          stockValue: Math.round(row.stockValue * 100) / 100,
+        },
+      ])
+    );
+  }
+
+  // Restocks from a supplier, newest first, with totals across all of them
+  async getPurchases(
+    supplierId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{
+    purchases: SupplierPurchase[];
+    total: number;
+    totals: { quantity: number; totalCost: number };
+  }> {
+    const query = { supplierId: new Types.ObjectId(supplierId), type: "restock" };
+    const skip = (page - 1) * limit;
+
+    const [movements, total, totals] = await Promise.all([
+      StockMovementModel.find(query).sort({ date: -1 }).skip(skip).limit(limit).lean(),
+      StockMovementModel.countDocuments(query),
+      StockMovementModel.aggregate([
+        { $match: query },
+        {
+          $group: {
+            _id: null,
+            quantity: { $sum: "$quantity" },
+            totalCost: { $sum: { $multiply: ["$quantity", { $ifNull: ["$unitCost", 0] }] } },
+          },
+        },
+      ]),
+    ]);
+
+    return {
+      purchases: movements.map((movement: any) => ({
+        movementId: movement._id,
+        itemId: movement.itemId,
+        itemName: movement.itemName,
+        quantity: movement.quantity,
+        unitCost: movement.unitCost,
+        totalCost:
+          movement.unitCost !== undefined
+            ? Math.round(movement.quantity * movement.unitCost * 100) / 100
+            : undefined,
+        notes: movement.notes,
+        purchaseOrderId: movement.referenceType === "purchase_order" ? movement.referenceId : undefined,
+        performedByName: movement.performedByName,
+        date: movement.date,
+      })),
+      total,
+      totals: {
+        quantity: totals[0]?.quantity || 0,
+        totalCost: Math.round((totals[0]?.totalCost || 0) * 100) / 100,
+      },
+    };
+  }
+
+  // Count items linked to a supplier
+  async countItems(supplierId: string): Promise<number> {
+    return await Inventory.countDocuments({ supplierId: new Types.ObjectId(supplierId) });
+  }
+
+  // Items still carrying embedded supplier details and no supplier link
+  async findItemsWithEmbeddedSupplier(
+    shopId: string
+  ): Promise<Array<{ _id: Types.ObjectId; supplier: { name: string; contact?: string; email?: string } }>> {
+    return (await Inventory.find({
+      shopId: new Types.ObjectId(shopId),
+      supplierId: { $exists: false },
+      "supplier.name": { $exists: true, $nin: [null, ""] },
+    })
+      .select("supplier")
+      .lean()) as any;
+  }
+
+  // Link items to a supplier, dropping their embedded copy, and attribute
+  // their earlier restocks to it
+  async linkItems(
+    supplierId: Types.ObjectId,
+    itemIds: Types.ObjectId[]
+  ): Promise<{ itemsLinked: number; restocksLinked: number }> {
+    const [items, movements] = await Promise.all([
+      Inventory.updateMany(
+        { _id: { $in: itemIds }, supplierId: { $exists: false } },
+        { $set: { supplierId }, $unset: { supplier: 1 } }
+      ),
+      StockMovementModel.updateMany(
+        { itemId: { $in: itemIds }, type: "restock", supplierId: { $exists: false } },
+        { $set: { supplierId } }
+      ),
+    ]);
+
+    return { itemsLinked: items.modifiedCount, restocksLinked: movements.modifiedCount };
+  }
+}
@@ -0,0 +1,143 @@
+import SupplierInvoice from "../models/supplierInvoice";
+import {
+  ISupplierInvoice,
+  ISupplierPayment,
+  OverduePayable,
+  SupplierInvoiceQueryOptions,
+} from "../types";
+import { roundCurrency } from "../../sales-management/utils/calculations";
+import { Types } from "mongoose";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SupplierInvoiceRepository {
+  // Create new supplier invoice
+  async create(data: Partial<ISupplierInvoice>): Promise<ISupplierInvoice> {
+    return await SupplierInvoice.create(data);
+  }
+
+  // Find supplier invoice by ID
+  async findById(invoiceId: string): Promise<ISupplierInvoice | null> {
+    return await SupplierInvoice.findById(invoiceId);
+  }
+
+  // Find supplier invoices by shop, soonest due first
+  async findByShopId(
+    shopId: string,
+    options: SupplierInvoiceQueryOptions = {}
+  ): Promise<{ invoices: ISupplierInvoice[]; total: number; page: number; pages: number }> {
+    const { status, supplierId, page = 1, limit = 20 } = options;
+
+    const query: any = { shopId: new Types.ObjectId(shopId) };
+    if (status) {
+      query.status = status;
+    }
+    if (supplierId) {
+      query.supplierId = new Types.ObjectId(supplierId);
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [invoices, total] = await Promise.all([
+      SupplierInvoice.find(query).sort({ dueDate: 1, createdAt: -1 }).skip(skip).limit(limit).lean(),
+      SupplierInvoice.countDocuments(query),
+    ]);
+
+    return {
+      invoices: invoices as unknown as ISupplierInvoice[],
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  // Total already invoiced against a purchase order, excluding voided invoices
+  async getInvoicedTotalForOrder(purchaseOrderId: Types.ObjectId): Promise<number> {
+    const [result] = await SupplierInvoice.aggregate([
+      { $match: { purchaseOrderId, status: { $ne: "void" } } },
+      { $group: { _id: null, total: { $sum: "$totalAmount" } } },
+    ]);
+
+    return roundCurrency(result?.total || 0);
+  }
+
+  // Record a payment. Only matches while the invoice still owes what the
+  // payment was checked against, so two payments can't overpay it.
+  async recordPayment(
+    invoiceId: string,
+    expectedAmountOwed: number,
+    payment: ISupplierPayment
+  ): Promise<ISupplierInvoice | null> {
+    const newAmountOwed = roundCurrency(Math.max(0, expectedAmountOwed - payment.amount));
+
+    return await SupplierInvoice.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(invoiceId),
+        amountOwed: expectedAmountOwed,
+        status: { $in: ["pending", "partial"] },
+      },
+      {
+        $push: { payments: payment },
+        $inc: { amountPaid: payment.amount },
+        $set: {
+          amountOwed: newAmountOwed,
+          status: newAmountOwed <= 0 ? "paid" : "partial",
+        },
+      },
+      { new: true }
+    );
+  }
+
+  // Void an invoice that has no payments against it
+  async void(
+    invoiceId: string,
+    voidedBy: Types.ObjectId,
+    reason: string
+  ): Promise<ISupplierInvoice | null> {
+    return await SupplierInvoice.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(invoiceId),
+        status: "pending",
+        amountPaid: 0,
+      },
+      {
+        $set: {
+          status: "void",
+          amountOwed: 0,
+          voidedBy,
+          voidedAt: new Date(),
+          voidReason: reason,
+        },
+      },
+      { new: true }
+    );
+  }
+
+  // Invoices with a balance still owed
+  async getOpenInvoices(shopId: string): Promise<ISupplierInvoice[]> {
+    return await SupplierInvoice.find({
+      shopId: new Types.ObjectId(shopId),
+      status: { $in: ["pending", "partial"] },
+      amountOwed: { $gt: 0 },
+    })
+      .select("supplierId supplierName invoiceNumber dueDate totalAmount amountOwed")
+      .sort({ dueDate: 1 })
+      .lean() as unknown as ISupplierInvoice[];
+  }
+
+  async getOverdueInvoices(shopId: string, asOf: Date = new Date()): Promise<OverduePayable[]> {
+    const invoices = await SupplierInvoice.find({
+      shopId: new Types.ObjectId(shopId),
+      status: { $in: ["pending", "partial"] },
+      dueDate: { $lt: asOf },
+    })
+      .select("supplierId supplierName invoiceNumber dueDate totalAmount amountOwed")
+      .sort({ dueDate: 1 })
+      .lean();
+
+    return invoices.map((invoice: any) => ({
+      ...invoice,
+      daysOverdue: Math.floor((asOf.getTime() - invoice.dueDate.getTime()) / DAY_MS),
+    }));
+  }
+}
@@ -0,0 +1,68 @@
+import express from "express";
+import {
+  createPurchaseOrder,
+  getPurchaseOrders,
+  getOutstandingPurchases,
+  getSupplierLeadTimes,
+  getPurchaseOrder,
+  updatePurchaseOrder,
+  approvePurchaseOrder,
+  sendPurchaseOrder,
+  receivePurchaseOrder,
+  cancelPurchaseOrder,
+} from "../controllers/purchaseOrder.controller";
+import {
+  createPurchaseOrderValidation,
+  getPurchaseOrdersValidation,
+  leadTimesValidation,
+  purchaseOrderIdValidation,
+  updatePurchaseOrderValidation,
+  sendPurchaseOrderValidation,
+  receivePurchaseOrderValidation,
+  cancelPurchaseOrderValidation,
+  shopIdValidation,
+} from "../validators/purchaseOrder.validator";
+import { authenticate } from "../../../shared/middleware/auth.middleware";
+import { idempotent } from "../../../shared/middleware/idempotency.middleware";
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Create purchase order
+router.post("/:shopId", createPurchaseOrderValidation, createPurchaseOrder);
+
+// Get purchase orders
+router.get("/:shopId", getPurchaseOrdersValidation, getPurchaseOrders);
+
+// Get quantities still to arrive, by item
+router.get("/:shopId/outstanding", shopIdValidation, getOutstandingPurchases);
+
+// Get actual supplier lead times
+router.get("/:shopId/lead-times", leadTimesValidation, getSupplierLeadTimes);
+
+// Get purchase order
+router.get("/:shopId/:orderId", purchaseOrderIdValidation, getPurchaseOrder);
+
+// Update draft purchase order
+router.put("/:shopId/:orderId", updatePurchaseOrderValidation, updatePurchaseOrder);
+
+// Approve purchase order (owner only)
+router.post("/:shopId/:orderId/approve", purchaseOrderIdValidation, approvePurchaseOrder);
+
+// Send purchase order to the supplier
+router.post("/:shopId/:orderId/send", sendPurchaseOrderValidation, sendPurchaseOrder);
+
+// Receive goods against purchase order
+router.post(
+  "/:shopId/:orderId/receive",
+  receivePurchaseOrderValidation,
+  idempotent,
+  receivePurchaseOrder
+);
+
+// Cancel purchase order (owner only)
+router.post("/:shopId/:orderId/cancel", cancelPurchaseOrderValidation, cancelPurchaseOrder);
+
+export default router;
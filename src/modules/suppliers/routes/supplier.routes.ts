@@ -0,0 +1,47 @@
+import express from "express";
+import {
+  createSupplier,
+  getSuppliers,
+  getSupplier,
+  updateSupplier,
+  deleteSupplier,
+  getSupplierPurchases,
+  migrateEmbeddedSuppliers,
+} from "../controllers/supplier.controller";
+import {
+  createSupplierValidation,
+  updateSupplierValidation,
+  getSuppliersValidation,
+  supplierIdValidation,
+  supplierPurchasesValidation,
+  shopIdValidation,
+} from "../validators/supplier.validator";
+import { authenticate } from "../../../shared/middleware/auth.middleware";
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Create supplier
+router.post("/:shopId", createSupplierValidation, createSupplier);
+
+// Get suppliers
+router.get("/:shopId", getSuppliersValidation, getSuppliers);
+
+// Link items with embedded supplier details to supplier records
+router.post("/:shopId/migrate", shopIdValidation, migrateEmbeddedSuppliers);
+
+// Get supplier purchase history
+router.get("/:shopId/:supplierId/purchases", supplierPurchasesValidation, getSupplierPurchases);
+
+// Get supplier
+router.get("/:shopId/:supplierId", supplierIdValidation, getSupplier);
+
+// Update supplier
+router.put("/:shopId/:supplierId", updateSupplierValidation, updateSupplier);
+
+// Delete supplier
+router.delete("/:shopId/:supplierId", supplierIdValidation, deleteSupplier);
+
+export default router;
@@ -0,0 +1,53 @@
+import express from "express";
+import {
+  createSupplierInvoice,
+  getSupplierInvoices,
+  getPayablesSummary,
+  getOverduePayables,
+  getSupplierInvoice,
+  recordSupplierPayment,
+  voidSupplierInvoice,
+} from "../controllers/supplierInvoice.controller";
+import {
+  createSupplierInvoiceValidation,
+  getSupplierInvoicesValidation,
+  supplierInvoiceIdValidation,
+  recordSupplierPaymentValidation,
+  voidSupplierInvoiceValidation,
+  shopIdValidation,
+} from "../validators/supplierInvoice.validator";
+import { authenticate } from "../../../shared/middleware/auth.middleware";
+import { idempotent } from "../../../shared/middleware/idempotency.middleware";
+
+const router = express.Router();
+
+// All routes require authentication; payables are owner only
+router.use(authenticate);
+
+// Record supplier invoice
+router.post("/:shopId", createSupplierInvoiceValidation, idempotent, createSupplierInvoice);
+
+// Get supplier invoices
+router.get("/:shopId", getSupplierInvoicesValidation, getSupplierInvoices);
+
+// Get payables summary
+router.get("/:shopId/summary", shopIdValidation, getPayablesSummary);
+
+// Get overdue payables
+router.get("/:shopId/overdue", shopIdValidation, getOverduePayables);
+
+// Get supplier invoice
+router.get("/:shopId/:invoiceId", supplierInvoiceIdValidation, getSupplierInvoice);
+
+// Record payment to supplier
+router.post(
+  "/:shopId/:invoiceId/payments",
+  recordSupplierPaymentValidation,
+  idempotent,
+  recordSupplierPayment
+);
+
+// Void supplier invoice
+router.post("/:shopId/:invoiceId/void", voidSupplierInvoiceValidation, voidSupplierInvoice);
+
+export default router;
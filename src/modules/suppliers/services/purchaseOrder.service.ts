@@ -0,0 +1,536 @@
+import { PurchaseOrderRepository } from "../repositories/purchaseOrder.repository";
+import { SupplierRepository } from "../repositories/supplier.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { InventoryRepository } from "../../inventory-mgt/repository/inventory.repository";
+import { InventoryService } from "../../inventory-mgt/services/Inventory.Service";
+import { logSupplierAuditEvent } from "../utils/auditLogger";
+import { roundCurrency } from "../../sales-management/utils/calculations";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import {
+  CreatePurchaseOrderInput,
+  IPurchaseOrder,
+  IPurchaseOrderLine,
+  IPurchaseOrderReceiptLine,
+  OutstandingItem,
+  PurchaseOrderLineInput,
+  PurchaseOrderQueryOptions,
+  ReceivePurchaseOrderInput,
+  RequestMetadata,
+  SendPurchaseOrderInput,
+  SupplierLeadTime,
+  UpdatePurchaseOrderInput,
+} from "../types";
+import { RestockResult } from "../../inventory-mgt/types";
+import mongoose, { Types } from "mongoose";
+
+export class PurchaseOrderService {
+  private purchaseOrderRepository: PurchaseOrderRepository;
+  private supplierRepository: SupplierRepository;
+  private shopRepository: ShopRepository;
+  private inventoryRepository: InventoryRepository;
+  private inventoryService: InventoryService;
+
+  constructor() {
+    this.purchaseOrderRepository = new PurchaseOrderRepository();
+    this.supplierRepository = new SupplierRepository();
+    this.shopRepository = new ShopRepository();
+    this.inventoryRepository = new InventoryRepository();
+    this.inventoryService = new InventoryService();
+  }
+
+  // Validate shop access
+  private async validateShopAccess(shopId: string, userShopId: string): Promise<void> {
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only access purchase orders for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  private async findShopOrder(orderId: string, shopId: string): Promise<IPurchaseOrder> {
+    const order = await this.purchaseOrderRepository.findById(orderId);
+    if (!order) {
+      throw new NotFoundError("Purchase order not found");
+    }
+    if (order.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Purchase order does not belong to this shop");
+    }
+    return order;
+  }
+
+  // Resolve order lines against the shop's inventory. Expected costs
+  // default to each item's current cost price.
+  private async buildLines(
+    shopId: string,
+    inputs: PurchaseOrderLineInput[]
+  ): Promise<{ lines: IPurchaseOrderLine[]; expectedTotal: number }> {
+    if (inputs.length === 0) {
+      throw new ValidationError("Purchase order must contain at least one line");
+    }
+
+    const itemIds = new Set(inputs.map((line) => line.itemId));
+    if (itemIds.size !== inputs.length) {
+      throw new ValidationError("Each item can only appear once on a purchase order");
+    }
+
+    const lines: IPurchaseOrderLine[] = [];
+    for (const input of inputs) {
+      const item = await this.inventoryRepository.findById(input.itemId);
+      if (!item || item.shopId.toString() !== shopId) {
+        throw new NotFoundError(`Inventory item ${input.itemId} not found`);
+      }
+
+      lines.push({
+        itemId: item._id,
+        itemName: item.name,
+        quantity: input.quantity,
+        unitCost: input.unitCost ?? item.costPrice,
+        receivedQuantity: 0,
+      });
+    }
+
+    const expectedTotal = roundCurrency(
+      lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0)
+    );
+    return { lines, expectedTotal };
+  }
+
+  // Create a draft purchase order
+  async createOrder(input: CreatePurchaseOrderInput, metadata: RequestMetadata): Promise<IPurchaseOrder> {
+    const { shopId, supplierId, expectedDeliveryDate, notes } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId);
+
+    const supplier = await this.supplierRepository.findById(supplierId);
+    if (!supplier || supplier.shopId.toString() !== shopId) {
+      throw new NotFoundError("Supplier not found");
+    }
+    if (!supplier.isActive) {
+      throw new ValidationError("Cannot order from an inactive supplier");
+    }
+
+    const { lines, expectedTotal } = await this.buildLines(shopId, input.lines);
+
+    const orderId = new Types.ObjectId();
+    const poNumber = `PO-${new Date().toISOString().slice(0, 10).replace(/-/g, "")}-${orderId
+      .toString()
+      .slice(-6)
+      .toUpperCase()}`;
+
+    const order = await this.purchaseOrderRepository.create({
+      _id: orderId,
+      shopId: new Types.ObjectId(shopId),
+      supplierId: supplier._id,
+      supplierName: supplier.name,
+      poNumber,
+      status: "draft",
+      lines,
+      expectedTotal,
+      expectedDeliveryDate,
+      notes,
+      createdBy: new Types.ObjectId(userId),
+    });
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "PURCHASE_ORDER_CREATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId,
+      ip,
+      details: { orderId: orderId.toString(), poNumber, lineCount: lines.length, expectedTotal },
+    });
+
+    return order;
+  }
+
+  // Get purchase orders for a shop
+  async getOrders(
+    shopId: string,
+    options: PurchaseOrderQueryOptions,
+    metadata: RequestMetadata
+  ): Promise<{ orders: IPurchaseOrder[]; total: number; page: number; pages: number }> {
+    await this.validateShopAccess(shopId, metadata.userShopId);
+    return await this.purchaseOrderRepository.findByShopId(shopId, options);
+  }
+
+  // Get a purchase order
+  async getOrder(orderId: string, shopId: string, metadata: RequestMetadata): Promise<IPurchaseOrder> {
+    await this.validateShopAccess(shopId, metadata.userShopId);
+    return await this.findShopOrder(orderId, shopId);
+  }
+
+  // Update a draft purchase order
+  async updateOrder(
+    orderId: string,
+    shopId: string,
+    updates: UpdatePurchaseOrderInput,
+    metadata: RequestMetadata
+  ): Promise<IPurchaseOrder> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId);
+    const existing = await this.findShopOrder(orderId, shopId);
+    if (existing.status !== "draft") {
+      throw new ConflictError("Only draft purchase orders can be edited");
+    }
+
+    const set: any = {};
+    const unset: any = {};
+    if (updates.lines !== undefined) {
+      Object.assign(set, await this.buildLines(shopId, updates.lines));
+    }
+    if (updates.notes !== undefined) set.notes = updates.notes;
+    if (updates.expectedDeliveryDate === null) {
+      unset.expectedDeliveryDate = 1;
+    } else if (updates.expectedDeliveryDate !== undefined) {
+      set.expectedDeliveryDate = updates.expectedDeliveryDate;
+    }
+
+    const order = await this.purchaseOrderRepository.updateIfStatus(orderId, ["draft"], {
+      $set: set,
+      $unset: unset,
+    });
+    if (!order) {
+      throw new ConflictError("Only draft purchase orders can be edited");
+    }
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "PURCHASE_ORDER_UPDATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId: order.supplierId.toString(),
+      ip,
+      details: { orderId, poNumber: order.poNumber, updates: Object.keys(updates) },
+    });
+
+    return order;
+  }
+
+  // Approve a draft purchase order
+  async approveOrder(orderId: string, shopId: string, metadata: RequestMetadata): Promise<IPurchaseOrder> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    // Only owners can approve spending
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can approve purchase orders");
+    }
+
+    await this.validateShopAccess(shopId, userShopId);
+    await this.findShopOrder(orderId, shopId);
+
+    const order = await this.purchaseOrderRepository.updateIfStatus(orderId, ["draft"], {
+      $set: {
+        status: "approved",
+        approvedBy: new Types.ObjectId(userId),
+        approvedAt: new Date(),
+      },
+    });
+    if (!order) {
+      throw new ConflictError("Only draft purchase orders can be approved");
+    }
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "PURCHASE_ORDER_APPROVED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId: order.supplierId.toString(),
+      ip,
+      details: { orderId, poNumber: order.poNumber, expectedTotal: order.expectedTotal },
+    });
+
+    return order;
+  }
+
+  // Mark an approved purchase order as sent to the supplier. Without a
+  // delivery date on the order, one is set from the supplier's lead time.
+  async sendOrder(
+    orderId: string,
+    shopId: string,
+    input: SendPurchaseOrderInput,
+    metadata: RequestMetadata
+  ): Promise<IPurchaseOrder> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId);
+    const existing = await this.findShopOrder(orderId, shopId);
+
+    const sentAt = new Date();
+    let expectedDeliveryDate = input.expectedDeliveryDate ?? existing.expectedDeliveryDate;
+    if (!expectedDeliveryDate) {
+      const supplier = await this.supplierRepository.findById(existing.supplierId.toString());
+      if (supplier?.leadTimeDays !== undefined) {
+        expectedDeliveryDate = new Date(sentAt);
+        expectedDeliveryDate.setDate(expectedDeliveryDate.getDate() + supplier.leadTimeDays);
+      }
+    }
+
+    const order = await this.purchaseOrderRepository.updateIfStatus(orderId, ["approved"], {
+      $set: { status: "sent", sentAt, ...(expectedDeliveryDate && { expectedDeliveryDate }) },
+    });
+    if (!order) {
+      throw new ConflictError("Only approved purchase orders can be sent");
+    }
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "PURCHASE_ORDER_SENT",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId: order.supplierId.toString(),
+      ip,
+      details: { orderId, poNumber: order.poNumber, expectedDeliveryDate },
+    });
+
+    return order;
+  }
+
+  // Receive goods against a sent purchase order, in full or in part. Each
+  // received line is restocked through inventory with the order as reference.
+  async receiveOrder(
+    orderId: string,
+    shopId: string,
+    input: ReceivePurchaseOrderInput,
+    metadata: RequestMetadata
+  ): Promise<IPurchaseOrder> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopAccess(shopId, userShopId);
+    const existing = await this.findShopOrder(orderId, shopId);
+
+    if (existing.status !== "sent" && existing.status !== "partially_received") {
+      throw new ConflictError("Only sent purchase orders can be received");
+    }
+
+    const lineByItem = new Map(existing.lines.map((line) => [line.itemId.toString(), line]));
+
+    let receiptLines: IPurchaseOrderReceiptLine[];
+    if (!input.lines || input.lines.length === 0) {
+      // Everything still outstanding has arrived
+      receiptLines = existing.lines
+        .filter((line) => line.quantity > line.receivedQuantity)
+        .map((line) => ({
+          itemId: line.itemId,
+          quantity: line.quantity - line.receivedQuantity,
+          unitCost: line.unitCost,
+        }));
+    } else {
+      const seen = new Set<string>();
+      receiptLines = input.lines.map((received) => {
+        const line = lineByItem.get(received.itemId);
+        if (!line) {
+          throw new ValidationError(`Item ${received.itemId} is not on this purchase order`);
+        }
+        if (seen.has(received.itemId)) {
+          throw new ValidationError("Each item can only appear once on a receipt");
+        }
+        seen.add(received.itemId);
+
+        const outstanding = line.quantity - line.receivedQuantity;
+        if (received.quantity > outstanding) {
+          throw new ValidationError(
+            `Cannot receive ${received.quantity} of ${line.itemName}; only ${outstanding} outstanding`
+          );
+        }
+
+        return {
+          itemId: line.itemId,
+          quantity: received.quantity,
+          unitCost: received.unitCost ?? line.unitCost,
+        };
+      });
+    }
+
+    if (receiptLines.length === 0) {
+      throw new ValidationError("Nothing is outstanding on this purchase order");
+    }
+
+    // Check every item can still be restocked before booking the receipt
+    for (const received of receiptLines) {
+      const item = await this.inventoryRepository.findById(received.itemId.toString());
+      if (!item || item.shopId.toString() !== shopId) {
+        const { itemName } = lineByItem.get(received.itemId.toString())!;
+        throw new NotFoundError(`Inventory item ${itemName} no longer exists`);
+      }
+    }
+
+    const receivedByItem = new Map(receiptLines.map((line) => [line.itemId.toString(), line.quantity]));
+    const lines = existing.lines.map((line) => ({
+      itemId: line.itemId,
+      itemName: line.itemName,
+      quantity: line.quantity,
+      unitCost: line.unitCost,
+      receivedQuantity: line.receivedQuantity + (receivedByItem.get(line.itemId.toString()) || 0),
+    }));
+    const fullyReceived = lines.every((line) => line.receivedQuantity >= line.quantity);
+    const receivedAt = new Date();
+
+    // Book the receipt and restock its lines together, so the order never
+    // shows goods as received that didn't make it into inventory
+    let order!: IPurchaseOrder;
+    // Restocks are audited once the receipt commits, not on aborted attempts
+    let restocks: RestockResult[] = [];
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        restocks = [];
+        const updated = await this.purchaseOrderRepository.addReceipt(
+          orderId,
+          existing.receipts.length,
+          {
+            lines: receiptLines,
+            notes: input.notes,
+            receivedBy: new Types.ObjectId(userId),
+            receivedAt,
+          },
+          lines,
+          fullyReceived ? "received" : "partially_received",
+          fullyReceived ? receivedAt : undefined,
+          session
+        );
+        if (!updated) {
+          throw new ConflictError(
+            "Purchase order was changed by another user. Please reload and try again."
+          );
+        }
+        order = updated;
+
+        for (const received of receiptLines) {
+          const restock = await this.inventoryService.applyRestock(
+            received.itemId.toString(),
+            shopId,
+            {
+              quantity: received.quantity,
+              costPrice: received.unitCost,
+              notes: `Received on ${order.poNumber}`,
+              supplierId: order.supplierId,
+              referenceType: "purchase_order",
+              referenceId: order._id,
+            },
+            metadata,
+            session
+          );
+          restocks.push(restock);
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    for (const restock of restocks) {
+      await this.inventoryService.logRestock(restock, metadata);
+    }
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "PURCHASE_ORDER_RECEIVED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId: order.supplierId.toString(),
+      ip,
+      details: {
+        orderId,
+        poNumber: order.poNumber,
+        lines: receiptLines.map((line) => ({
+          itemId: line.itemId.toString(),
+          quantity: line.quantity,
+          unitCost: line.unitCost,
+        })),
+        status: order.status,
+      },
+    });
+
+    return order;
+  }
+
+  // Cancel a purchase order. On a partially received order this gives up
+  // on whatever is still outstanding; received stock stays in inventory.
+  async cancelOrder(
+    orderId: string,
+    shopId: string,
+    reason: string,
+    metadata: RequestMetadata
+  ): Promise<IPurchaseOrder> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can cancel purchase orders");
+    }
+
+    await this.validateShopAccess(shopId, userShopId);
+    await this.findShopOrder(orderId, shopId);
+
+    const order = await this.purchaseOrderRepository.updateIfStatus(
+      orderId,
+      ["draft", "approved", "sent", "partially_received"],
+      {
+        $set: {
+          status: "cancelled",
+          cancelledBy: new Types.ObjectId(userId),
+          cancelledAt: new Date(),
+          cancellationReason: reason,
+        },
+      }
+    );
+    if (!order) {
+      throw new ConflictError("Received or cancelled purchase orders cannot be cancelled");
+    }
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "PURCHASE_ORDER_CANCELLED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId: order.supplierId.toString(),
+      ip,
+      details: { orderId, poNumber: order.poNumber, reason },
+    });
+
+    return order;
+  }
+
+  // Get quantities still to arrive on sent purchase orders, by item
+  async getOutstanding(shopId: string, metadata: RequestMetadata): Promise<OutstandingItem[]> {
+    await this.validateShopAccess(shopId, metadata.userShopId);
+    return await this.purchaseOrderRepository.getOutstanding(shopId);
+  }
+
+  // Get actual delivery lead times per supplier, next to the lead time
+  // recorded on the supplier
+  async getLeadTimes(
+    shopId: string,
+    supplierId: string | undefined,
+    metadata: RequestMetadata
+  ): Promise<SupplierLeadTime[]> {
+    await this.validateShopAccess(shopId, metadata.userShopId);
+
+    const leadTimes = await this.purchaseOrderRepository.getLeadTimes(shopId, supplierId);
+    const suppliers = await this.supplierRepository.findByIds(
+      shopId,
+      leadTimes.map((row) => row.supplierId)
+    );
+    const supplierById = new Map(suppliers.map((supplier) => [supplier._id.toString(), supplier]));
+
+    return leadTimes
+      .map((row) => {
+        const supplier = supplierById.get(row.supplierId.toString());
+        return {
+          ...row,
+          supplierName: supplier?.name || "Unknown supplier",
+          configuredDays: supplier?.leadTimeDays,
+        };
+      })
+      .sort((a, b) => a.supplierName.localeCompare(b.supplierName));
+  }
+}
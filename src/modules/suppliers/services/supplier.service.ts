@@ -0,0 +1,315 @@
+import { SupplierRepository } from "../repositories/supplier.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { logSupplierAuditEvent } from "../utils/auditLogger";
+import {
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import {
+  CreateSupplierInput,
+  ISupplier,
+  RequestMetadata,
+  SupplierMigrationResult,
+  SupplierPurchaseHistory,
+  SupplierQueryOptions,
+  SupplierStockSummary,
+  SupplierWithSummary,
+  UpdateSupplierInput,
+} from "../types";
+import { Types } from "mongoose";
+
+const EMPTY_SUMMARY: SupplierStockSummary = {
+  itemCount: 0,
+  activeItemCount: 0,
+  stockUnits: 0,
+  stockValue: 0,
+};
+
+export class SupplierService {
+  private supplierRepository: SupplierRepository;
+  private shopRepository: ShopRepository;
+
+  constructor() {
+    this.supplierRepository = new SupplierRepository();
+    this.shopRepository = new ShopRepository();
+  }
+
+  // Validate shop access
+  private async validateShopAccess(shopId: string, userShopId: string): Promise<void> {
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only access suppliers for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  private ensureOwner(userRole: "owner" | "staff"): void {
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can manage suppliers");
+    }
+  }
+
+  private async findShopSupplier(supplierId: string, shopId: string): Promise<ISupplier> {
+    const supplier = await this.supplierRepository.findById(supplierId);
+    if (!supplier) {
+      throw new NotFoundError("Supplier not found");
+    }
+    if (supplier.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Supplier does not belong to this shop");
+    }
+    return supplier;
+  }
+
+  // Create supplier
+  async createSupplier(input: CreateSupplierInput, metadata: RequestMetadata): Promise<ISupplier> {
+    const { shopId, ...details } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    this.ensureOwner(userRole);
+    await this.validateShopAccess(shopId, userShopId);
+
+    let supplier: ISupplier;
+    try {
+      supplier = await this.supplierRepository.create({
+        ...details,
+        shopId: new Types.ObjectId(shopId),
+        isActive: true,
+        createdBy: new Types.ObjectId(userId),
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError("A supplier with this name already exists");
+      }
+      throw error;
+    }
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "SUPPLIER_CREATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId: supplier._id.toString(),
+      ip,
+      details: { name: supplier.name },
+    });
+
+    return supplier;
+  }
+
+  // Get suppliers for a shop with the stock currently held from each
+  async getSuppliers(
+    shopId: string,
+    options: SupplierQueryOptions,
+    metadata: RequestMetadata
+  ): Promise<{ suppliers: SupplierWithSummary[]; total: number; page: number; pages: number }> {
+    await this.validateShopAccess(shopId, metadata.userShopId);
+
+    const result = await this.supplierRepository.findByShopId(shopId, options);
+    const summaries = await this.supplierRepository.getStockSummaries(
+      shopId,
+      result.suppliers.map((supplier) => supplier._id)
+    );
+
+    return {
+      ...result,
+      suppliers: result.suppliers.map((supplier) => ({
+        ...(supplier as unknown as Record<string, unknown>),
+        summary: summaries.get(supplier._id.toString()) || EMPTY_SUMMARY,
+      })),
+    };
+  }
+
+  // Get a supplier with the stock currently held from it
+  async getSupplier(
+    supplierId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<SupplierWithSummary> {
+    await this.validateShopAccess(shopId, metadata.userShopId);
+
+    const supplier = await this.findShopSupplier(supplierId, shopId);
+    const summaries = await this.supplierRepository.getStockSummaries(shopId, [supplier._id]);
+
+    return {
+      ...supplier.toObject(),
+      summary: summaries.get(supplierId) || EMPTY_SUMMARY,
+    };
+  }
+
+  // Update supplier
+  async updateSupplier(
+    supplierId: string,
+    shopId: string,
+    updates: UpdateSupplierInput,
+    metadata: RequestMetadata
+  ): Promise<ISupplier> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    this.ensureOwner(userRole);
+    await this.validateShopAccess(shopId, userShopId);
+    await this.findShopSupplier(supplierId, shopId);
+
+    let supplier: ISupplier | null;
+    try {
+      supplier = await this.supplierRepository.update(supplierId, updates);
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError("A supplier with this name already exists");
+      }
+      throw error;
+    }
+
+    if (!supplier) {
+      throw new NotFoundError("Supplier not found after update");
+    }
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "SUPPLIER_UPDATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId,
+      ip,
+      details: { updates: Object.keys(updates) },
+    });
+
+    return supplier;
+  }
+
+  // Delete supplier. Suppliers with linked items should be deactivated instead.
+  async deleteSupplier(supplierId: string, shopId: string, metadata: RequestMetadata): Promise<void> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    this.ensureOwner(userRole);
+    await this.validateShopAccess(shopId, userShopId);
+    const supplier = await this.findShopSupplier(supplierId, shopId);
+
+    const itemCount = await this.supplierRepository.countItems(supplierId);
+    if (itemCount > 0) {
+      throw new ConflictError(
+        `Supplier is linked to ${itemCount} inventory item(s). Unlink them or deactivate the supplier instead.`
+      );
+    }
+
+    await this.supplierRepository.delete(supplierId);
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "SUPPLIER_DELETED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId,
+      ip,
+      details: { name: supplier.name },
+    });
+  }
+
+  // Get restocks received from a supplier
+  async getPurchaseHistory(
+    supplierId: string,
+    shopId: string,
+    page: number,
+    limit: number,
+    metadata: RequestMetadata
+  ): Promise<SupplierPurchaseHistory> {
+    await this.validateShopAccess(shopId, metadata.userShopId);
+    await this.findShopSupplier(supplierId, shopId);
+
+    const { purchases, total, totals } = await this.supplierRepository.getPurchases(supplierId, page, limit);
+
+    return {
+      purchases,
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+      totals,
+    };
+  }
+
+  // Turn the supplier details embedded on inventory items into supplier
+  // records and link the items to them. Items are matched to suppliers by
+  // name, ignoring case, so running this again only picks up stragglers.
+  async migrateEmbeddedSuppliers(shopId: string, metadata: RequestMetadata): Promise<SupplierMigrationResult> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    this.ensureOwner(userRole);
+    await this.validateShopAccess(shopId, userShopId);
+
+    const items = await this.supplierRepository.findItemsWithEmbeddedSupplier(shopId);
+
+    const groups = new Map<
+      string,
+      { name: string; contact?: string; email?: string; itemIds: Types.ObjectId[] }
+    >();
+    for (const item of items) {
+      const name = item.supplier.name.trim();
+      const key = name.toLowerCase();
+      const group = groups.get(key);
+      if (group) {
+        group.contact = group.contact || item.supplier.contact;
+        group.email = group.email || item.supplier.email;
+        group.itemIds.push(item._id);
+      } else {
+        groups.set(key, {
+          name,
+          contact: item.supplier.contact,
+          email: item.supplier.email,
+          itemIds: [item._id],
+        });
+      }
+    }
+
+    const result: SupplierMigrationResult = {
+      suppliersCreated: 0,
+      suppliersMatched: 0,
+      itemsLinked: 0,
+      restocksLinked: 0,
+    };
+
+    for (const group of groups.values()) {
+      let supplier = await this.supplierRepository.findByName(shopId, group.name);
+      if (supplier) {
+        result.suppliersMatched++;
+      } else {
+        try {
+          // The embedded contact was free text, usually a phone number
+          supplier = await this.supplierRepository.create({
+            shopId: new Types.ObjectId(shopId),
+            name: group.name,
+            phone: group.contact,
+            email: group.email,
+            isActive: true,
+            createdBy: new Types.ObjectId(userId),
+          });
+          result.suppliersCreated++;
+        } catch (error: any) {
+          if (error.code !== 11000) throw error;
+
+          // Created by someone else since we looked it up
+          supplier = await this.supplierRepository.findByName(shopId, group.name);
+          if (!supplier) throw error;
+          result.suppliersMatched++;
+        }
+      }
+
+      const linked = await this.supplierRepository.linkItems(supplier._id, group.itemIds);
+      result.itemsLinked += linked.itemsLinked;
+      result.restocksLinked += linked.restocksLinked;
+    }
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "SUPPLIERS_MIGRATED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      ip,
+      details: result,
+    });
+
+    return result;
+  }
+}
@@ -0,0 +1,343 @@
+import { SupplierInvoiceRepository } from "../repositories/supplierInvoice.repository";
+import { SupplierRepository } from "../repositories/supplier.repository";
+import { PurchaseOrderRepository } from "../repositories/purchaseOrder.repository";
+import { ShopRepository } from "../repositories/shop.repository";
+import { logSupplierAuditEvent } from "../utils/auditLogger";
+import { buildPayablesSummary } from "../utils/payables";
+import { roundCurrency } from "../../sales-management/utils/calculations";
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError,
+} from "../../../shared/utils/AppError";
+import {
+  CreateSupplierInvoiceInput,
+  ISupplierInvoice,
+  ISupplierPayment,
+  OverduePayable,
+  PayablesSummary,
+  RecordSupplierPaymentInput,
+  RequestMetadata,
+  SupplierInvoiceQueryOptions,
+} from "../types";
+import { Types } from "mongoose";
+
+export class SupplierInvoiceService {
+  private supplierInvoiceRepository: SupplierInvoiceRepository;
+  private supplierRepository: SupplierRepository;
+  private purchaseOrderRepository: PurchaseOrderRepository;
+  private shopRepository: ShopRepository;
+
+  constructor() {
+    this.supplierInvoiceRepository = new SupplierInvoiceRepository();
+    this.supplierRepository = new SupplierRepository();
+    this.purchaseOrderRepository = new PurchaseOrderRepository();
+    this.shopRepository = new ShopRepository();
+  }
+
+  // Validate shop ownership
+  private async validateShopOwnership(
+    shopId: string,
+    userShopId: string,
+    userRole: "owner" | "staff"
+  ): Promise<void> {
+    // Only owners can see and pay what the shop owes
+    if (userRole !== "owner") {
+      throw new AuthorizationError("Only shop owners can manage supplier payables");
+    }
+
+    if (userShopId !== shopId) {
+      throw new AuthorizationError("You can only manage payables for your own shop");
+    }
+
+    const shopExists = await this.shopRepository.existsAndVerified(shopId);
+    if (!shopExists) {
+      throw new NotFoundError("Shop not found or not verified");
+    }
+  }
+
+  private async findShopInvoice(invoiceId: string, shopId: string): Promise<ISupplierInvoice> {
+    const invoice = await this.supplierInvoiceRepository.findById(invoiceId);
+    if (!invoice) {
+      throw new NotFoundError("Supplier invoice not found");
+    }
+    if (invoice.shopId.toString() !== shopId) {
+      throw new AuthorizationError("Supplier invoice does not belong to this shop");
+    }
+    return invoice;
+  }
+
+  // Amount still to invoice on a purchase order: the cost of goods
+  // received on it, less what earlier invoices already cover
+  private async getUninvoicedAmount(
+    purchaseOrderId: string,
+    shopId: string,
+    supplierId: string
+  ): Promise<{ orderId: Types.ObjectId; amount: number }> {
+    const order = await this.purchaseOrderRepository.findById(purchaseOrderId);
+    if (!order || order.shopId.toString() !== shopId) {
+      throw new NotFoundError("Purchase order not found");
+    }
+    if (order.supplierId.toString() !== supplierId) {
+      throw new ValidationError("Purchase order is for a different supplier");
+    }
+    if (order.receipts.length === 0) {
+      throw new ValidationError("Nothing has been received on this purchase order yet");
+    }
+
+    const receivedCost = order.receipts.reduce(
+      (sum, receipt) =>
+        sum + receipt.lines.reduce((lineSum, line) => lineSum + line.quantity * line.unitCost, 0),
+      0
+    );
+    const invoiced = await this.supplierInvoiceRepository.getInvoicedTotalForOrder(order._id);
+
+    return { orderId: order._id, amount: roundCurrency(receivedCost - invoiced) };
+  }
+
+  // Record a supplier invoice. Due dates default to the supplier's payment
+  // terms, and invoices against a purchase order default to whatever has
+  // been received on it but not yet invoiced.
+  async createInvoice(
+    input: CreateSupplierInvoiceInput,
+    metadata: RequestMetadata
+  ): Promise<ISupplierInvoice> {
+    const { shopId, supplierId, invoiceNumber, purchaseOrderId, notes } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopOwnership(shopId, userShopId, userRole);
+
+    const supplier = await this.supplierRepository.findById(supplierId);
+    if (!supplier || supplier.shopId.toString() !== shopId) {
+      throw new NotFoundError("Supplier not found");
+    }
+
+    let totalAmount = input.totalAmount;
+    let orderId: Types.ObjectId | undefined;
+    if (purchaseOrderId) {
+      const uninvoiced = await this.getUninvoicedAmount(purchaseOrderId, shopId, supplierId);
+      orderId = uninvoiced.orderId;
+      if (totalAmount === undefined) {
+        if (uninvoiced.amount <= 0) {
+          throw new ValidationError(
+            "Everything received on this purchase order has already been invoiced"
+          );
+        }
+        totalAmount = uninvoiced.amount;
+      }
+    }
+
+    if (totalAmount === undefined) {
+      throw new ValidationError("Total amount is required for invoices without a purchase order");
+    }
+    if (totalAmount <= 0) {
+      throw new ValidationError("Total amount must be greater than 0");
+    }
+    totalAmount = roundCurrency(totalAmount);
+
+    const invoiceDate = input.invoiceDate ?? new Date();
+    let dueDate = input.dueDate;
+    if (!dueDate) {
+      dueDate = new Date(invoiceDate);
+      dueDate.setDate(dueDate.getDate() + (supplier.paymentTermsDays ?? 0));
+    }
+    if (dueDate < invoiceDate) {
+      throw new ValidationError("Due date cannot be before the invoice date");
+    }
+
+    let invoice: ISupplierInvoice;
+    try {
+      invoice = await this.supplierInvoiceRepository.create({
+        shopId: new Types.ObjectId(shopId),
+        supplierId: supplier._id,
+        supplierName: supplier.name,
+        invoiceNumber,
+        purchaseOrderId: orderId,
+        invoiceDate,
+        dueDate,
+        totalAmount,
+        amountPaid: 0,
+        amountOwed: totalAmount,
+        status: "pending",
+        notes,
+        createdBy: new Types.ObjectId(userId),
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError("This invoice has already been recorded for the supplier");
+      }
+      throw error;
+    }
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "SUPPLIER_INVOICE_RECORDED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId,
+      ip,
+      details: {
+        invoiceId: invoice._id.toString(),
+        invoiceNumber,
+        purchaseOrderId,
+        totalAmount,
+        dueDate,
+      },
+    });
+
+    return invoice;
+  }
+
+  // Get supplier invoices for a shop
+  async getInvoices(
+    shopId: string,
+    options: SupplierInvoiceQueryOptions,
+    metadata: RequestMetadata
+  ): Promise<{ invoices: ISupplierInvoice[]; total: number; page: number; pages: number }> {
+    await this.validateShopOwnership(shopId, metadata.userShopId, metadata.userRole);
+    return await this.supplierInvoiceRepository.findByShopId(shopId, options);
+  }
+
+  // Get a supplier invoice with its payments
+  async getInvoice(
+    invoiceId: string,
+    shopId: string,
+    metadata: RequestMetadata
+  ): Promise<ISupplierInvoice> {
+    await this.validateShopOwnership(shopId, metadata.userShopId, metadata.userRole);
+    return await this.findShopInvoice(invoiceId, shopId);
+  }
+
+  // Pay part or all of a supplier invoice
+  async recordPayment(
+    invoiceId: string,
+    shopId: string,
+    input: RecordSupplierPaymentInput,
+    metadata: RequestMetadata
+  ): Promise<ISupplierInvoice> {
+    const { amount, paymentMethod, transactionReference, notes } = input;
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopOwnership(shopId, userShopId, userRole);
+    const invoice = await this.findShopInvoice(invoiceId, shopId);
+
+    if (invoice.status === "paid") {
+      throw new ValidationError("This invoice has already been fully paid");
+    }
+
+    if (invoice.status === "void") {
+      throw new ValidationError("This invoice has been voided");
+    }
+
+    if (amount <= 0) {
+      throw new ValidationError("Payment amount must be greater than 0");
+    }
+
+    if (amount > invoice.amountOwed) {
+      throw new ValidationError(
+        `Payment amount (${amount}) exceeds amount owed (${invoice.amountOwed})`
+      );
+    }
+
+    const payment: ISupplierPayment = {
+      amount,
+      paymentMethod,
+      paymentDate: new Date(),
+      paidBy: new Types.ObjectId(userId),
+      transactionReference,
+      notes,
+    };
+
+    const updatedInvoice = await this.supplierInvoiceRepository.recordPayment(
+      invoiceId,
+      invoice.amountOwed,
+      payment
+    );
+    if (!updatedInvoice) {
+      throw new ConflictError(
+        "Invoice balance changed while recording the payment. Please reload and try again."
+      );
+    }
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "SUPPLIER_PAYMENT_RECORDED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId: invoice.supplierId.toString(),
+      ip,
+      details: {
+        invoiceId,
+        invoiceNumber: invoice.invoiceNumber,
+        amount,
+        paymentMethod,
+        previousAmountOwed: invoice.amountOwed,
+        newAmountOwed: updatedInvoice.amountOwed,
+        newStatus: updatedInvoice.status,
+      },
+    });
+
+    return updatedInvoice;
+  }
+
+  // Void an invoice entered by mistake. Invoices with payments can't be voided.
+  async voidInvoice(
+    invoiceId: string,
+    shopId: string,
+    reason: string,
+    metadata: RequestMetadata
+  ): Promise<ISupplierInvoice> {
+    const { requestId, userId, userRole, ip, userShopId } = metadata;
+
+    await this.validateShopOwnership(shopId, userShopId, userRole);
+    const invoice = await this.findShopInvoice(invoiceId, shopId);
+
+    if (invoice.status === "void") {
+      throw new ValidationError("This invoice has already been voided");
+    }
+
+    if (invoice.amountPaid > 0) {
+      throw new ValidationError("Invoices with payments recorded against them cannot be voided");
+    }
+
+    const voided = await this.supplierInvoiceRepository.void(
+      invoiceId,
+      new Types.ObjectId(userId),
+      reason
+    );
+    if (!voided) {
+      throw new ConflictError("Invoice changed while voiding it. Please reload and try again.");
+    }
+
+    await logSupplierAuditEvent({
+      requestId,
+      action: "SUPPLIER_INVOICE_VOIDED",
+      shopId,
+      performedBy: { userId, role: userRole },
+      supplierId: invoice.supplierId.toString(),
+      ip,
+      details: {
+        invoiceId,
+        invoiceNumber: invoice.invoiceNumber,
+        totalAmount: invoice.totalAmount,
+        reason,
+      },
+    });
+
+    return voided;
+  }
+
+  // What the shop owes, overall and per supplier
+  async getPayablesSummary(shopId: string, metadata: RequestMetadata): Promise<PayablesSummary> {
+    await this.validateShopOwnership(shopId, metadata.userShopId, metadata.userRole);
+    const invoices = await this.supplierInvoiceRepository.getOpenInvoices(shopId);
+    return buildPayablesSummary(invoices, new Date());
+  }
+
+  // Unpaid invoices past their due date, most overdue first
+  async getOverduePayables(shopId: string, metadata: RequestMetadata): Promise<OverduePayable[]> {
+    await this.validateShopOwnership(shopId, metadata.userShopId, metadata.userRole);
+    return await this.supplierInvoiceRepository.getOverdueInvoices(shopId);
+  }
+}
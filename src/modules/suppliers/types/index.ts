@@ -0,0 +1,303 @@
+import { Document, Types } from "mongoose";
+
+export interface ISupplier extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  paymentTermsDays?: number; // Days the shop has to pay an invoice
+  leadTimeDays?: number; // Usual days from order to delivery
+  notes?: string;
+  isActive: boolean;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSupplierInput {
+  shopId: string;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  paymentTermsDays?: number;
+  leadTimeDays?: number;
+  notes?: string;
+}
+
+export interface UpdateSupplierInput {
+  name?: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  paymentTermsDays?: number;
+  leadTimeDays?: number;
+  notes?: string;
+  isActive?: boolean;
+}
+
+export interface SupplierQueryOptions {
+  search?: string;
+  includeInactive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+// Stock currently held from a supplier
+export interface SupplierStockSummary {
+  itemCount: number;
+  activeItemCount: number;
+  stockUnits: number;
+  stockValue: number; // At cost
+}
+
+export type SupplierWithSummary = Record<string, unknown> & { summary: SupplierStockSummary };
+
+// A restock of one of the supplier's items
+export interface SupplierPurchase {
+  movementId: Types.ObjectId;
+  itemId: Types.ObjectId;
+  itemName: string;
+  quantity: number;
+  unitCost?: number;
+  totalCost?: number;
+  notes?: string;
+  purchaseOrderId?: Types.ObjectId; // Set when received against a purchase order
+  performedByName: string;
+  date: Date;
+}
+
+export interface SupplierPurchaseHistory {
+  purchases: SupplierPurchase[];
+  total: number;
+  page: number;
+  pages: number;
+  totals: {
+    quantity: number;
+    totalCost: number;
+  };
+}
+
+// Outcome of moving embedded item suppliers onto supplier records
+export interface SupplierMigrationResult {
+  suppliersCreated: number;
+  suppliersMatched: number;
+  itemsLinked: number;
+  restocksLinked: number;
+}
+
+export type PurchaseOrderStatus =
+  | "draft"
+  | "approved"
+  | "sent"
+  | "partially_received"
+  | "received"
+  | "cancelled";
+
+export interface IPurchaseOrderLine {
+  itemId: Types.ObjectId;
+  itemName: string;
+  quantity: number;
+  unitCost: number; // Expected cost per unit
+  receivedQuantity: number;
+}
+
+export interface IPurchaseOrderReceiptLine {
+  itemId: Types.ObjectId;
+  quantity: number;
+  unitCost: number; // Cost per unit actually paid
+}
+
+export interface IPurchaseOrderReceipt {
+  _id?: Types.ObjectId;
+  lines: IPurchaseOrderReceiptLine[];
+  notes?: string;
+  receivedBy: Types.ObjectId;
+  receivedAt: Date;
+}
+
+export interface IPurchaseOrder extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  supplierId: Types.ObjectId;
+  supplierName: string;
+  poNumber: string;
+  status: PurchaseOrderStatus;
+  lines: IPurchaseOrderLine[];
+  expectedTotal: number;
+  receipts: IPurchaseOrderReceipt[];
+  notes?: string;
+  expectedDeliveryDate?: Date;
+  createdBy: Types.ObjectId;
+  approvedBy?: Types.ObjectId;
+  approvedAt?: Date;
+  sentAt?: Date;
+  receivedAt?: Date; // When the last outstanding quantity arrived
+  cancelledBy?: Types.ObjectId;
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PurchaseOrderLineInput {
+  itemId: string;
+  quantity: number;
+  unitCost?: number; // Defaults to the item's cost price
+}
+
+export interface CreatePurchaseOrderInput {
+  shopId: string;
+  supplierId: string;
+  lines: PurchaseOrderLineInput[];
+  expectedDeliveryDate?: Date;
+  notes?: string;
+}
+
+export interface UpdatePurchaseOrderInput {
+  lines?: PurchaseOrderLineInput[];
+  expectedDeliveryDate?: Date | null;
+  notes?: string;
+}
+
+export interface SendPurchaseOrderInput {
+  expectedDeliveryDate?: Date; // Defaults to the supplier's lead time from today
+}
+
+export interface ReceivePurchaseOrderInput {
+  lines?: PurchaseOrderLineInput[]; // Omit to receive everything outstanding
+  notes?: string;
+}
+
+export interface PurchaseOrderQueryOptions {
+  status?: PurchaseOrderStatus;
+  supplierId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Quantity of an item ordered from suppliers but not yet received
+export interface OutstandingItem {
+  itemId: Types.ObjectId;
+  itemName: string;
+  outstandingQuantity: number;
+  orders: Array<{
+    orderId: Types.ObjectId;
+    poNumber: string;
+    supplierId: Types.ObjectId;
+    supplierName: string;
+    outstandingQuantity: number;
+    expectedDeliveryDate?: Date;
+    isOverdue: boolean;
+  }>;
+}
+
+// How long a supplier has actually taken to deliver in full
+export interface SupplierLeadTime {
+  supplierId: Types.ObjectId;
+  supplierName: string;
+  configuredDays?: number;
+  orderCount: number;
+  averageDays: number;
+  minDays: number;
+  maxDays: number;
+  onTimeCount: number; // Received by the expected delivery date
+}
+
+export type SupplierInvoiceStatus = "pending" | "partial" | "paid" | "void";
+
+// A payment made to a supplier against an invoice
+export interface ISupplierPayment {
+  amount: number;
+  paymentMethod: "cash" | "transfer";
+  paymentDate: Date;
+  paidBy: Types.ObjectId;
+  transactionReference?: string;
+  notes?: string;
+}
+
+// An invoice from a supplier for stock bought on credit
+export interface ISupplierInvoice extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  supplierId: Types.ObjectId;
+  supplierName: string;
+  invoiceNumber: string; // As printed by the supplier
+  purchaseOrderId?: Types.ObjectId;
+  invoiceDate: Date;
+  dueDate: Date;
+  totalAmount: number;
+  amountPaid: number;
+  amountOwed: number;
+  status: SupplierInvoiceStatus;
+  payments: ISupplierPayment[];
+  notes?: string;
+  createdBy: Types.ObjectId;
+  voidedBy?: Types.ObjectId;
+  voidedAt?: Date;
+  voidReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSupplierInvoiceInput {
+  shopId: string;
+  supplierId: string;
+  invoiceNumber: string;
+  purchaseOrderId?: string;
+  totalAmount?: number; // Defaults to the cost of goods received on the purchase order
+  invoiceDate?: Date; // Defaults to today
+  dueDate?: Date; // Defaults to the supplier's payment terms
+  notes?: string;
+}
+
+export interface RecordSupplierPaymentInput {
+  amount: number;
+  paymentMethod: "cash" | "transfer";
+  transactionReference?: string;
+  notes?: string;
+}
+
+export interface SupplierInvoiceQueryOptions {
+  status?: SupplierInvoiceStatus;
+  supplierId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// What the shop owes one supplier
+export interface SupplierPayablesRow {
+  supplierId: Types.ObjectId;
+  supplierName: string;
+  invoiceCount: number;
+  totalOwed: number;
+  overdueOwed: number;
+  nextDueDate?: Date;
+}
+
+export interface PayablesSummary {
+  totalOwed: number;
+  overdueOwed: number;
+  dueSoonOwed: number; // Not yet overdue but due within the next week
+  openInvoiceCount: number;
+  overdueInvoiceCount: number;
+  suppliers: SupplierPayablesRow[];
+}
+
+export type OverduePayable = Pick<
+  ISupplierInvoice,
+  "_id" | "supplierId" | "supplierName" | "invoiceNumber" | "dueDate" | "totalAmount" | "amountOwed"
+> & { daysOverdue: number };
+
+export interface RequestMetadata {
+  ip: string;
+  requestId: string;
+  userId: string;
+  userRole: "owner" | "staff";
+  userShopId: string;
+}
@@ -0,0 +1,48 @@
+import fs from "fs";
+import path from "path";
+
+interface SupplierAuditLogEntry {
+  timestamp: string;
+  requestId: string;
+  action: string;
+  shopId: string;
+  performedBy: {
+    userId: string;
+    role: "owner" | "staff";
+  };
+  supplierId?: string;
+  ip?: string;
+  details?: any;
+}
+
+export const logSupplierAuditEvent = async (
+  entry: Omit<SupplierAuditLogEntry, "timestamp">
+): Promise<void> => {
+  const logEntry: SupplierAuditLogEntry = {
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+
+  console.log("[SUPPLIER_AUDIT]", JSON.stringify(logEntry));
+
+  if (process.env.NODE_ENV === "production") {
+    // TODO: Implement production logging service
+  }
+
+  if (process.env.NODE_ENV === "development") {
+    try {
+      const logDir = path.join(__dirname, "../../../logs");
+      if (!fs.existsSync(logDir)) {
+        fs.mkdirSync(logDir, { recursive: true });
+      }
+
+      const logFile = path.join(
+        logDir,
+        `supplier-audit-${new Date().toISOString().split("T")[0]}.log`
+      );
+      fs.appendFileSync(logFile, JSON.stringify(logEntry) + "\n");
+    } catch (error) {
+      console.error("Failed to write supplier audit log:", error);
+    }
+  }
+};
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { ISupplierInvoice, PayablesSummary, SupplierPayablesRow } from "../types";
+import { roundCurrency } from "../../sales-management/utils/calculations";
+
+// How far ahead an unpaid invoice counts as due soon
+export const DUE_SOON_DAYS = 7;
+
+// Totals owed across open invoices, overall and per supplier. An invoice
+// is overdue once its due date has passed.
+export const buildPayablesSummary = (invoices: ISupplierInvoice[], asOf: Date): PayablesSummary => {
+  const dueSoonCutoff = new Date(asOf);
+  dueSoonCutoff.setDate(dueSoonCutoff.getDate() + DUE_SOON_DAYS);
+
+  const summary: PayablesSummary = {
+    totalOwed: 0,
+    overdueOwed: 0,
+    dueSoonOwed: 0,
+    openInvoiceCount: 0,
+    overdueInvoiceCount: 0,
+    suppliers: [],
+  };
+  const bySupplier = new Map<string, SupplierPayablesRow>();
+
+  for (const invoice of invoices) {
+    const isOverdue = invoice.dueDate < asOf;
+
+    summary.totalOwed += invoice.amountOwed;
+    summary.openInvoiceCount++;
+    if (isOverdue) {
+      summary.overdueOwed += invoice.amountOwed;
+      summary.overdueInvoiceCount++;
+    } else if (invoice.dueDate <= dueSoonCutoff) {
+      summary.dueSoonOwed += invoice.amountOwed;
+    }
+
+    const key = invoice.supplierId.toString();
+    let row = bySupplier.get(key);
+    if (!row) {
+      row = {
+        supplierId: invoice.supplierId,
+        supplierName: invoice.supplierName,
+        invoiceCount: 0,
+        totalOwed: 0,
+        overdueOwed: 0,
+      };
+      bySupplier.set(key, row);
+    }
+    row.invoiceCount++;
+    row.totalOwed += invoice.amountOwed;
+    if (isOverdue) {
+      row.overdueOwed += invoice.amountOwed;
+    }
+    if (!row.nextDueDate || invoice.dueDate < row.nextDueDate) {
+      row.nextDueDate = invoice.dueDate;
+    }
+  }
+
+  summary.totalOwed = roundCurrency(summary.totalOwed);
+  summary.overdueOwed = roundCurrency(summary.overdueOwed);
+  summary.dueSoonOwed = roundCurrency(summary.dueSoonOwed);
+  summary.suppliers = [...bySupplier.values()]
+    .map((row) => ({
+      ...row,
+      totalOwed: roundCurrency(row.totalOwed),
+      overdueOwed: roundCurrency(row.overdueOwed),
+    }))
+    .sort((a, b) => b.totalOwed - a.totalOwed);
+
+  return summary;
+};
@@ -0,0 +1,125 @@
+import { body, param, query } from "express-validator";
+
+const shopIdParam = () =>
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format");
+
+const orderIdParam = () =>
+  param("orderId")
+    .trim()
+    .notEmpty()
+    .withMessage("Purchase order ID is required")
+    .isMongoId()
+    .withMessage("Invalid purchase order ID format");
+
+const orderLineRules = (field: string, optional: boolean) => [
+  (optional ? body(field).optional() : body(field))
+    .isArray({ min: 1, max: 100 })
+    .withMessage("Between 1 and 100 lines are required"),
+  body(`${field}.*.itemId`)
+    .isMongoId()
+    .withMessage("Invalid item ID format"),
+  body(`${field}.*.quantity`)
+    .isInt({ min: 1 })
+    .withMessage("Quantity must be at least 1"),
+  body(`${field}.*.unitCost`)
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Unit cost must be 0 or more"),
+];
+
+const notesRule = () =>
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters");
+
+export const createPurchaseOrderValidation = [
+  shopIdParam(),
+  body("supplierId")
+    .notEmpty()
+    .withMessage("Supplier ID is required")
+    .isMongoId()
+    .withMessage("Invalid supplier ID format"),
+  ...orderLineRules("lines", false),
+  body("expectedDeliveryDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid expected delivery date format"),
+  notesRule(),
+];
+
+export const updatePurchaseOrderValidation = [
+  shopIdParam(),
+  orderIdParam(),
+  ...orderLineRules("lines", true),
+  body("expectedDeliveryDate")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("Invalid expected delivery date format"),
+  notesRule(),
+];
+
+export const sendPurchaseOrderValidation = [
+  shopIdParam(),
+  orderIdParam(),
+  body("expectedDeliveryDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid expected delivery date format"),
+];
+
+export const receivePurchaseOrderValidation = [
+  shopIdParam(),
+  orderIdParam(),
+  ...orderLineRules("lines", true),
+  notesRule(),
+];
+
+export const cancelPurchaseOrderValidation = [
+  shopIdParam(),
+  orderIdParam(),
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Cancellation reason is required")
+    .isLength({ max: 500 })
+    .withMessage("Reason cannot exceed 500 characters"),
+];
+
+export const getPurchaseOrdersValidation = [
+  shopIdParam(),
+  query("status")
+    .optional()
+    .isIn(["draft", "approved", "sent", "partially_received", "received", "cancelled"])
+    .withMessage("Invalid status filter"),
+  query("supplierId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid supplier ID format"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+export const leadTimesValidation = [
+  shopIdParam(),
+  query("supplierId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid supplier ID format"),
+];
+
+export const purchaseOrderIdValidation = [shopIdParam(), orderIdParam()];
+
+export const shopIdValidation = [shopIdParam()];
@@ -0,0 +1,111 @@
+import { body, param, query } from "express-validator";
+
+const shopIdParam = () =>
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format");
+
+const supplierIdParam = () =>
+  param("supplierId")
+    .trim()
+    .notEmpty()
+    .withMessage("Supplier ID is required")
+    .isMongoId()
+    .withMessage("Invalid supplier ID format");
+
+const paginationValidation = [
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+// Contact and terms fields shared by create and update
+const supplierDetailsValidation = [
+  body("contactName")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Contact name cannot exceed 100 characters"),
+  body("phone")
+    .optional()
+    .trim()
+    .matches(/^\+?[0-9]{10,15}$/)
+    .withMessage("Invalid phone number format"),
+  body("email")
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage("Invalid email address"),
+  body("address")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Address cannot exceed 500 characters"),
+  body("paymentTermsDays")
+    .optional()
+    .isInt({ min: 0, max: 365 })
+    .withMessage("Payment terms must be between 0 and 365 days"),
+  body("leadTimeDays")
+    .optional()
+    .isInt({ min: 0, max: 365 })
+    .withMessage("Lead time must be between 0 and 365 days"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+];
+
+export const createSupplierValidation = [
+  shopIdParam(),
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Supplier name is required")
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Supplier name must be between 2 and 100 characters"),
+  ...supplierDetailsValidation,
+];
+
+export const updateSupplierValidation = [
+  shopIdParam(),
+  supplierIdParam(),
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Supplier name must be between 2 and 100 characters"),
+  ...supplierDetailsValidation,
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean value"),
+];
+
+export const getSuppliersValidation = [
+  shopIdParam(),
+  query("search")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Search term cannot exceed 100 characters"),
+  query("includeInactive")
+    .optional()
+    .isBoolean()
+    .withMessage("includeInactive must be a boolean"),
+  ...paginationValidation,
+];
+
+export const supplierIdValidation = [shopIdParam(), supplierIdParam()];
+
+export const supplierPurchasesValidation = [shopIdParam(), supplierIdParam(), ...paginationValidation];
+
+export const shopIdValidation = [shopIdParam()];
@@ -0,0 +1,114 @@
+import { body, param, query } from "express-validator";
+
+const shopIdParam = () =>
+  param("shopId")
+    .trim()
+    .notEmpty()
+    .withMessage("Shop ID is required")
+    .isMongoId()
+    .withMessage("Invalid shop ID format");
+
+const invoiceIdParam = () =>
+  param("invoiceId")
+    .trim()
+    .notEmpty()
+    .withMessage("Invoice ID is required")
+    .isMongoId()
+    .withMessage("Invalid invoice ID format");
+
+export const createSupplierInvoiceValidation = [
+  shopIdParam(),
+  body("supplierId")
+    .notEmpty()
+    .withMessage("Supplier ID is required")
+    .isMongoId()
+    .withMessage("Invalid supplier ID format"),
+  body("invoiceNumber")
+    .trim()
+    .notEmpty()
+    .withMessage("Invoice number is required")
+    .isLength({ max: 50 })
+    .withMessage("Invoice number cannot exceed 50 characters"),
+  body("purchaseOrderId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid purchase order ID format"),
+  body("totalAmount")
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage("Total amount must be greater than 0"),
+  body("invoiceDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid invoice date format"),
+  body("dueDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid due date format"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+];
+
+export const recordSupplierPaymentValidation = [
+  shopIdParam(),
+  invoiceIdParam(),
+  body("amount")
+    .notEmpty()
+    .withMessage("Payment amount is required")
+    .isFloat({ min: 0.01 })
+    .withMessage("Payment amount must be greater than 0"),
+  body("paymentMethod")
+    .trim()
+    .notEmpty()
+    .withMessage("Payment method is required")
+    .isIn(["cash", "transfer"])
+    .withMessage("Invalid payment method. Must be: cash or transfer"),
+  body("transactionReference")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Transaction reference cannot exceed 100 characters"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+];
+
+export const voidSupplierInvoiceValidation = [
+  shopIdParam(),
+  invoiceIdParam(),
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Reason is required")
+    .isLength({ max: 500 })
+    .withMessage("Reason cannot exceed 500 characters"),
+];
+
+export const getSupplierInvoicesValidation = [
+  shopIdParam(),
+  query("status")
+    .optional()
+    .isIn(["pending", "partial", "paid", "void"])
+    .withMessage("Invalid status filter"),
+  query("supplierId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid supplier ID format"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+export const supplierInvoiceIdValidation = [shopIdParam(), invoiceIdParam()];
+
+export const shopIdValidation = [shopIdParam()];
@@ -3,6 +3,7 @@ import crypto from "crypto";
 import Shop from "../../auth/models/shop";
 import Staff from "../../staff-management/models/staff";
 import Sale from "../../sales-management/models/sales";
+import { tenderBreakdownStages } from "../../sales-management/utils/tenders";
 import Expense from "../../expenses/models/expenses";
 import Inventory from "../../inventory-mgt/models/Inventory";
 import { generateOTP, sendOTP } from "../../auth/utils/otpHandler";
@@ -396,6 +397,18 @@ export class UserService {
 
       const salesData = salesAggregation[0] || { totalRevenue: 0, totalProfit: 0 };
 
+      // Break sales down by tender type (cash, transfer, credit, ...)
+      const tenderAggregation = await Sale.aggregate([
+        { $match: salesMatch },
+        ...tenderBreakdownStages(),
+      ]);
+
+      const salesByTender = tenderAggregation.map((tender: any) => ({
+        type: tender._id,
+        count: tender.count,
+        amount: tender.amount,
+      }));
+
       // Query expenses for the period
       const expensesMatch: Record<string, unknown> = {
         shopId: new Types.ObjectId(shopId),
@@ -484,6 +497,7 @@ export class UserService {
         dashboard: {
           period,
           sales: salesData.totalRevenue,
+          salesByTender,
           expenses: expensesData.totalExpenses,
           lowStockItems: {
             count: lowStockCount,
@@ -8,6 +8,12 @@ import mongoose from "mongoose";
 import app from "./app";
 import { redisConfig } from "./shared/config/redis.config";
 import { closeNotificationEmitter } from "./modules/notification/emitters/notification-emitter.instance";
+import { startLateFeeJob, stopLateFeeJob } from "./modules/sales-management/jobs/lateFee.job";
+import {
+  startCreditReminderJob,
+  stopCreditReminderJob,
+} from "./modules/sales-management/jobs/creditReminder.job";
+import { warnIfSmsStubbed } from "./shared/utils/smsSender";
 
 const PORT = process.env.PORT || 5000;
 const MONGO_URI = process.env.MONGO_URI || "";
@@ -49,6 +55,12 @@ mongoose
     server.listen(PORT, () => {
       console.log(`🚀 Server running on http://localhost:${PORT}`);
     });
+
+    warnIfSmsStubbed();
+
+    // Scheduled jobs
+    startLateFeeJob();
+    startCreditReminderJob();
   })
   .catch((err) => {
     console.error("MongoDB connection error:", err);
@@ -57,6 +69,8 @@ mongoose
 
 const shutdown = async (signal: string) => {
   console.log(`\n🛑 ${signal} received. Shutting down gracefully...`);
+  stopLateFeeJob();
+  stopCreditReminderJob();
   server.close(async () => {
     try {
       // Close MongoDB connection
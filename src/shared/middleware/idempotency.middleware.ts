@@ -0,0 +1,174 @@
+import { Response, NextFunction } from "express";
+import crypto from "crypto";
+import { Types } from "mongoose";
+import IdempotencyKey, { IIdempotencyKey } from "../models/idempotencyKey";
+import { AuthenticatedRequest } from "./auth.middleware";
+import { ConflictError, ValidationError } from "../utils/AppError";
+
+const IDEMPOTENCY_HEADER = "idempotency-key";
+const MAX_KEY_LENGTH = 255;
+
+// How long a key is remembered, in hours (24 unless configured)
+const getWindowMs = (): number => {
+  const hours = parseFloat(process.env.IDEMPOTENCY_WINDOW_HOURS || "24");
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+};
+
+const fingerprintRequest = (req: AuthenticatedRequest): string =>
+  crypto
+    .createHash("sha256")
+    .update(JSON.stringify({ method: req.method, path: req.baseUrl + req.path, body: req.body ?? null }))
+    .digest("hex");
+
+// How long a request holds its key before a retry may take it over, in case
+// the first one died without answering
+const PROCESSING_LEASE_MS = 60 * 1000;
+
+const newLease = (): Date => new Date(Date.now() + PROCESSING_LEASE_MS);
+
+// Claim a key for this request. Returns the lease it now holds, or the
+// existing record when the key is in use or already answered.
+const claimKey = async (
+  shopId: string,
+  key: string,
+  fingerprint: string
+): Promise<{ lease: Date } | { existing: IIdempotencyKey }> => {
+  const lease = newLease();
+
+  try {
+    await IdempotencyKey.create({
+      shopId: new Types.ObjectId(shopId),
+      key,
+      fingerprint,
+      status: "processing",
+      lockedUntil: lease,
+      expiresAt: new Date(Date.now() + getWindowMs()),
+    });
+    return { lease };
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+  }
+
+  const existing = await IdempotencyKey.findOne({ shopId: new Types.ObjectId(shopId), key });
+  if (existing && existing.expiresAt <= new Date()) {
+    // Past its window but not yet swept by the TTL monitor
+    await IdempotencyKey.deleteOne({ _id: existing._id, expiresAt: existing.expiresAt });
+    return await claimKey(shopId, key, fingerprint);
+  }
+  if (!existing) {
+    // Released by the first request in the meantime
+    return await claimKey(shopId, key, fingerprint);
+  }
+
+  if (
+    existing.status === "processing" &&
+    existing.fingerprint === fingerprint &&
+    (!existing.lockedUntil || existing.lockedUntil <= new Date())
+  ) {
+    // The request holding the key stopped without answering; take it over
+    const takenOver = await IdempotencyKey.updateOne(
+      { _id: existing._id, status: "processing", lockedUntil: existing.lockedUntil ?? null },
+      { lockedUntil: lease }
+    );
+    if (takenOver.modifiedCount === 1) return { lease };
+  }
+
+  return { existing };
+};
+
+/**
+ * Idempotency middleware
+ * Must be used after authenticate middleware. When the request carries an
+ * Idempotency-Key header, the first successful response for that key in the
+ * user's shop is stored and replayed to any retry. Reusing a key with a
+ * different request is a conflict. Failed requests release the key so the
+ * client can retry them, and a request that never answers loses the key once
+ * its processing lease runs out.
+ */
+export const idempotent = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!key || !req.user) {
+    next();
+    return;
+  }
+
+  try {
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new ValidationError(`Idempotency key cannot exceed ${MAX_KEY_LENGTH} characters`);
+    }
+
+    const shopId = req.user.shopId;
+    const fingerprint = fingerprintRequest(req);
+    const claim = await claimKey(shopId, key, fingerprint);
+
+    if ("existing" in claim) {
+      const { existing } = claim;
+      if (existing.fingerprint !== fingerprint) {
+        throw new ConflictError(
+          "Idempotency key has already been used for a different request",
+          "IDEMPOTENCY_KEY_REUSED"
+        );
+      }
+      if (existing.status === "processing") {
+        throw new ConflictError(
+          "A request with this idempotency key is still being processed",
+          "IDEMPOTENCY_KEY_IN_PROGRESS"
+        );
+      }
+
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(existing.statusCode || 200).json(existing.responseBody);
+      return;
+    }
+
+    // Only the holder of this lease may settle the key
+    const held = {
+      shopId: new Types.ObjectId(shopId),
+      key,
+      status: "processing",
+      lockedUntil: claim.lease,
+    };
+    let responseBody: { value: unknown } | null = null;
+    let settled = false;
+
+    // Successful JSON responses are stored for replay; anything else
+    // releases the key
+    const settle = () => {
+      if (settled) return;
+      settled = true;
+
+      const operation =
+        responseBody && res.statusCode >= 200 && res.statusCode < 300
+          ? IdempotencyKey.updateOne(held, {
+              status: "completed",
+              statusCode: res.statusCode,
+              responseBody: JSON.parse(JSON.stringify(responseBody.value ?? null)),
+              $unset: { lockedUntil: 1 },
+            })
+          : IdempotencyKey.deleteOne(held);
+
+      operation.catch((error) => {
+        console.error("Failed to store idempotent response:", error);
+      });
+    };
+
+    const json = res.json.bind(res);
+    res.json = (body?: unknown) => {
+      responseBody = { value: body };
+      const result = json(body);
+      // "finish" never fires once the client has gone away, which is the
+      // case retries are meant to cover
+      if (res.destroyed) settle();
+      return result;
+    };
+    res.on("finish", settle);
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
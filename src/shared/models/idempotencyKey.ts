@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+/**
+ * First response to a request sent with an Idempotency-Key header, kept so
+ * retries of the same request get the same answer instead of running again
+ */
+export interface IIdempotencyKey extends Document {
+  _id: Types.ObjectId;
+  shopId: Types.ObjectId;
+  key: string;
+  fingerprint: string; // Hash of the method, path and body of the first request
+  status: "processing" | "completed";
+  lockedUntil?: Date; // While processing, when a retry may take the key over
+  statusCode?: number;
+  responseBody?: unknown;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const idempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      ref: "Shop",
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    fingerprint: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["processing", "completed"],
+      default: "processing",
+    },
+    lockedUntil: Date,
+    statusCode: Number,
+    responseBody: Schema.Types.Mixed,
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+idempotencyKeySchema.index({ shopId: 1, key: 1 }, { unique: true });
+// MongoDB removes keys once their window has passed
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const IdempotencyKey = mongoose.model<IIdempotencyKey>("IdempotencyKey", idempotencyKeySchema);
+export default IdempotencyKey;
@@ -0,0 +1,16 @@
+/**
+ * Content-Disposition header for a download. Path separators, quotes and
+ * control characters are taken out of the name (ticket numbers can contain
+ * "/"), `filename` falls back to plain ASCII for older clients and
+ * `filename*` carries the full name encoded as RFC 5987 asks.
+ */
+export const attachmentDisposition = (filename: string): string => {
+  const safeName = filename.replace(/[/\\]/g, "-").replace(/[\u0000-\u001f\u007f"]/g, "");
+  const asciiName = safeName.replace(/[^ -~]/g, "_");
+  const encodedName = encodeURIComponent(safeName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+};
@@ -0,0 +1,92 @@
+import fs from "fs";
+import path from "path";
+
+export interface SmsSendResult {
+  ok: boolean;
+  provider: string;
+  messageId?: string;
+  status?: string;
+  error?: string;
+}
+
+export interface SmsSender {
+  readonly provider: string;
+  send(to: string, body: string): Promise<SmsSendResult>;
+}
+
+// Sends through Twilio with the same credentials as OTPs
+export class TwilioSmsSender implements SmsSender {
+  readonly provider = "twilio";
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    try {
+      const client = require("twilio")(process.env.TWILLOACCOUNTSID, process.env.TWILLOAUTHTOKEN);
+      const message = await client.messages.create({
+        body,
+        from: process.env.VENTREE_PHONE_NUMBER,
+        to,
+      });
+
+      return { ok: true, provider: this.provider, messageId: message.sid, status: message.status };
+    } catch (error) {
+      return {
+        ok: false,
+        provider: this.provider,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
+// Prints messages and appends them to logs/sms-<date>.log instead of sending them
+export class ConsoleSmsSender implements SmsSender {
+  readonly provider = "console";
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const entry = { timestamp: new Date().toISOString(), to, body };
+    console.log("[SMS]", JSON.stringify(entry));
+
+    try {
+      const logDir = path.join(__dirname, "../../logs");
+      if (!fs.existsSync(logDir)) {
+        fs.mkdirSync(logDir, { recursive: true });
+      }
+
+      const logFile = path.join(logDir, `sms-${entry.timestamp.split("T")[0]}.log`);
+      fs.appendFileSync(logFile, JSON.stringify(entry) + "\n");
+    } catch (error) {
+      console.error("Failed to write SMS log:", error);
+    }
+
+    return { ok: true, provider: this.provider, status: "logged" };
+  }
+}
+
+let sender: SmsSender | null = null;
+
+/**
+ * SMS sender picked by SMS_PROVIDER ("twilio" or "console"). Defaults to
+ * Twilio in production and the console stub everywhere else.
+ */
+export const getSmsSender = (): SmsSender => {
+  if (!sender) {
+    const provider =
+      process.env.SMS_PROVIDER || (process.env.NODE_ENV === "production" ? "twilio" : "console");
+    sender = provider === "twilio" ? new TwilioSmsSender() : new ConsoleSmsSender();
+  }
+  return sender;
+};
+
+// Warn when texts are only being logged outside local development
+export const warnIfSmsStubbed = (): void => {
+  if (getSmsSender().provider === "console" && process.env.NODE_ENV !== "development") {
+    console.warn(
+      `⚠️ SMS_PROVIDER is "console" in ${process.env.NODE_ENV || "an unset"} environment. Credit reminders will be logged, not sent.`
+    );
+  }
+};
+
+// Swap the sender, e.g. for a different provider
+export const setSmsSender = (custom: SmsSender): void => {
+  sender = custom;
+};